@@ -67,6 +67,26 @@ export function pushModelArgs(args: string[], model: string): void {
   }
 }
 
+/** Splits a tools list into `--tools` builtins and `--extension` paths; unknown names are dropped. */
+export function pushToolArgs(args: string[], tools: string[]): void {
+  const builtinTools: string[] = [];
+  const extensionPaths: string[] = [];
+  for (const tool of tools) {
+    if (tool.includes("/") || tool.endsWith(".ts") || tool.endsWith(".js")) {
+      extensionPaths.push(tool);
+    } else if (BUILTIN_TOOLS.has(tool)) {
+      builtinTools.push(tool);
+    }
+  }
+
+  if (builtinTools.length > 0) {
+    args.push("--tools", builtinTools.join(","));
+  }
+  for (const extensionPath of extensionPaths) {
+    args.push("--extension", extensionPath);
+  }
+}
+
 const THINKING_LEVELS = new Set(["off", "minimal", "low", "medium", "high", "xhigh"]);
 
 export function resolveThinking(
@@ -215,22 +235,7 @@ async function runAgent(
     }
 
     if (agentConfig?.tools?.length) {
-      const builtinTools: string[] = [];
-      const extensionPaths: string[] = [];
-      for (const tool of agentConfig.tools) {
-        if (tool.includes("/") || tool.endsWith(".ts") || tool.endsWith(".js")) {
-          extensionPaths.push(tool);
-        } else if (BUILTIN_TOOLS.has(tool)) {
-          builtinTools.push(tool);
-        }
-      }
-
-      if (builtinTools.length > 0) {
-        args.push("--tools", builtinTools.join(","));
-      }
-      for (const extensionPath of extensionPaths) {
-        args.push("--extension", extensionPath);
-      }
+      pushToolArgs(args, agentConfig.tools);
     }
 
     // Pass extension so workers can use pi_messenger
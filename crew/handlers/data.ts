@@ -1,5 +1,6 @@
 import * as path from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { orchestratorCwd } from "../../lib.js";
 import type { CrewParams } from "../types.js";
 import { result } from "../utils/result.js";
 import { initializeDataSessionTags, setSessionDataTags } from "../data/ingestion.js";
@@ -28,7 +29,7 @@ function parseMinQuality(value: unknown): number | undefined {
 }
 
 export async function execute(op: string, params: CrewParams, ctx: ExtensionContext) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
 
   switch (op) {
     case "session": {
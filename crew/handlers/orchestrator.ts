@@ -1,16 +1,16 @@
-import { spawn, type ChildProcess, execFileSync } from "node:child_process";
+import { execFileSync } from "node:child_process";
 import * as fs from "node:fs";
 import { fileURLToPath } from "node:url";
 import * as path from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { MessengerState, Dirs } from "../../lib.js";
-import { generateMemorableName, formatDuration } from "../../lib.js";
+import { generateMemorableName, formatDuration, orchestratorCwd, parseSince } from "../../lib.js";
 import * as messengerStore from "../../store.js";
 import { logFeedEvent } from "../../feed.js";
-import type { CrewParams } from "../types.js";
+import type { CrewParams, TaskEvidence } from "../types.js";
 import { result } from "../utils/result.js";
 import { loadCrewConfig } from "../utils/config.js";
-import { pushModelArgs, modelHasThinkingSuffix } from "../agents.js";
+import { pushModelArgs, pushToolArgs, modelHasThinkingSuffix } from "../agents.js";
 import * as crewStore from "../store.js";
 import {
   registerSpawned,
@@ -20,19 +20,83 @@ import {
   transitionState,
   reapOrphans,
   logHistory,
+  readHistory,
+  getQueue,
+  enqueueAssignment,
+  dequeueAssignment,
+  reapSpawned,
+  getCrashedAssignments,
+  saveCrashedAssignment,
+  clearCrashedAssignment,
 } from "../orchestrator/registry.js";
-import type { SpawnedAgent } from "../orchestrator/types.js";
-import { getActiveMemoryStore, initMemory, recall, remember, resetMemory, getMemoryStats } from "../orchestrator/memory.js";
+import type {
+  AgentProfileMemory,
+  AgentWorktree,
+  CrashedAssignment,
+  DoneFollowUp,
+  MemoryEntry,
+  MemoryInjectionReport,
+  MemoryProvenance,
+  MemoryScope,
+  MemoryStore,
+  MemoryType,
+  MergeStrategy,
+  QueuedAssignment,
+  ResolvedAgentProfile,
+  RestartPolicy,
+  SpawnBackend,
+  SpawnedAgent,
+  EscalationStep,
+} from "../orchestrator/types.js";
+import {
+  getActiveMemoryStore,
+  getActiveGlobalMemoryStore,
+  initMemory,
+  initGlobalMemory,
+  recall,
+  remember,
+  resetMemory,
+  getMemoryStats,
+  forgetMemory,
+  exportMemory,
+  importMemory,
+  compactMemory,
+  reindexMemory,
+  traceMemory,
+  globalMemoryRoot,
+} from "../orchestrator/memory.js";
+import { getBackend, resolveBackend, type BackendHandle, type SpawnBackendDriver } from "../orchestrator/backends.js";
+import { listProfiles, profilesDir, resolveProfile } from "../orchestrator/profiles.js";
+import { buildTimelineReport, renderTimelineMarkdown } from "../orchestrator/timeline.js";
+import {
+  agentLogSink,
+  compileGrep,
+  followAgentLog,
+  hasAgentLog,
+  readAgentLog,
+  type AgentLogEntry,
+} from "../orchestrator/logs.js";
+import {
+  createWorktree,
+  mergeWorktree,
+  removeWorktree,
+  worktreeBranch,
+  worktreesDir,
+  type WorktreeRemoval,
+} from "../orchestrator/worktree.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const EXTENSION_DIR = path.resolve(__dirname, "../..");
 
-const HEADLESS_LOG_LIMIT = 2000;
 const SPAWN_DIAGNOSTIC_LOG_LINES = 250;
 const SPAWN_DIAGNOSTIC_TMUX_LINES = 250;
+const LOG_FOLLOW_DEFAULT_MS = 10_000;
+const LOG_FOLLOW_MAX_MS = 60_000;
 const SPAWN_TIMEOUT_OVERRIDE_KEYS = ["spawnTimeoutMs", "timeoutMs"] as const;
 const THINKING_LEVELS = new Set(["off", "minimal", "low", "medium", "high", "xhigh"]);
+const MEMORY_TYPES: MemoryType[] = ["summary", "message", "decision", "discovery"];
+const WRITABLE_MEMORY_TYPES: MemoryType[] = ["decision", "discovery"];
 const SLOW_MODEL_HINTS = [
   "opus",
   "gpt-5",
@@ -44,16 +108,11 @@ const SLOW_MODEL_HINTS = [
   "gemini-3-pro",
 ];
 
-interface HeadlessRuntime {
-  proc: ChildProcess;
-  logs: string[];
-}
-
 interface SpawnTimeoutDiagnostics {
   name: string;
   model: string;
   thinking: string;
-  backend: "tmux" | "headless";
+  backend: SpawnBackend;
   timeoutMs: number;
   expectedPid: number;
   meshPid: number | null;
@@ -77,8 +136,6 @@ interface SpawnTimeoutDiagnostics {
   createdAt: string;
 }
 
-const headlessRuntimes = new Map<string, HeadlessRuntime>();
-
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -236,20 +293,6 @@ function parseLastActivityMs(reg: Record<string, unknown> | null): number {
   return Number.isFinite(parsed) ? parsed : Date.now();
 }
 
-function appendHeadlessLogs(name: string, chunk: string): void {
-  const runtime = headlessRuntimes.get(name);
-  if (!runtime) return;
-
-  for (const line of chunk.replace(/\r/g, "").split("\n")) {
-    if (!line) continue;
-    runtime.logs.push(line);
-  }
-
-  if (runtime.logs.length > HEADLESS_LOG_LIMIT) {
-    runtime.logs.splice(0, runtime.logs.length - HEADLESS_LOG_LIMIT);
-  }
-}
-
 function hasNameCollision(name: string, dirs: Dirs, cwd: string): boolean {
   const local = getSpawned(name, cwd);
   if (local && local.status !== "dead") return true;
@@ -277,74 +320,38 @@ function resolveSpawnName(requested: string | undefined, dirs: Dirs, cwd: string
   return null;
 }
 
-interface SpawnProfileModel {
-  profile: string;
-  model: string;
-  filePath: string;
-}
-
-function extractFrontmatter(content: string): string {
-  const normalized = content.replace(/\r\n/g, "\n");
-  if (!normalized.startsWith("---\n")) return "";
-  const endIdx = normalized.indexOf("\n---", 4);
-  if (endIdx === -1) return "";
-  return normalized.slice(4, endIdx);
-}
-
-function extractFrontmatterValue(frontmatter: string, key: string): string | null {
-  const match = frontmatter.match(new RegExp(`^${key}:\\s*(.+)$`, "m"));
-  if (!match) return null;
-  const raw = match[1].trim();
-  if (!raw) return null;
-  return raw.replace(/^['\"]|['\"]$/g, "");
-}
-
-function loadProfileModelFromFile(filePath: string): SpawnProfileModel | null {
-  if (!fs.existsSync(filePath)) return null;
-
-  let content = "";
-  try {
-    content = fs.readFileSync(filePath, "utf-8");
-  } catch {
-    return null;
-  }
-
-  const frontmatter = extractFrontmatter(content);
-  if (!frontmatter) return null;
-
-  const profile = extractFrontmatterValue(frontmatter, "name")
-    ?? path.basename(filePath, ".md");
-  const model = extractFrontmatterValue(frontmatter, "model");
-  if (!model) return null;
-
-  return { profile, model, filePath };
+/** Extra `pi` args and env a resolved profile adds to a worker's command line. */
+function applyProfile(
+  cwd: string,
+  name: string,
+  profile: ResolvedAgentProfile | null,
+): { args: string[]; env: Record<string, string> } {
+  const args: string[] = [];
+  const env: Record<string, string> = { ...profile?.env };
+  if (!profile) return { args, env };
+
+  if (profile.tools?.length) pushToolArgs(args, profile.tools);
+  if (profile.prompt) {
+    const promptPath = path.join(cwd, ".pi", "messenger", "orchestrator", "prompts", `${name}.md`);
+    ensureDir(path.dirname(promptPath));
+    fs.writeFileSync(promptPath, profile.prompt, { mode: 0o600 });
+    args.push("--append-system-prompt", promptPath);
+  }
+  if (profile.messageBudget !== undefined) {
+    env.PI_MESSENGER_MESSAGE_BUDGET = String(Math.floor(profile.messageBudget));
+  }
+  return { args, env };
 }
 
-function resolveProfileModel(cwd: string, profileName: string): SpawnProfileModel | null {
-  const agentsDir = path.join(cwd, ".pi", "agents");
-  const directPath = path.join(agentsDir, `${profileName}.md`);
-  const direct = loadProfileModelFromFile(directPath);
-  if (direct) return direct;
-
-  if (!fs.existsSync(agentsDir)) return null;
-
-  let entries: string[] = [];
-  try {
-    entries = fs.readdirSync(agentsDir);
-  } catch {
-    return null;
-  }
-
-  for (const entry of entries) {
-    if (!entry.endsWith(".md")) continue;
-    const candidate = loadProfileModelFromFile(path.join(agentsDir, entry));
-    if (!candidate) continue;
-    if (candidate.profile === profileName) {
-      return candidate;
-    }
-  }
-
-  return null;
+/** Memory injection overrides from the profile an agent was spawned with. */
+function profileMemorySettings(
+  cwd: string,
+  config: ReturnType<typeof loadCrewConfig>,
+  profileName: string | null | undefined,
+): AgentProfileMemory {
+  if (!profileName) return {};
+  const resolution = resolveProfile(cwd, profileName, config.orchestrator.profiles);
+  return resolution.ok ? resolution.profile.memory ?? {} : {};
 }
 
 function clearInbox(dirs: Dirs, name: string): void {
@@ -353,10 +360,6 @@ function clearInbox(dirs: Dirs, name: string): void {
   try { fs.mkdirSync(inbox, { recursive: true }); } catch {}
 }
 
-function shellEscape(input: string): string {
-  return `'${input.replace(/'/g, `'\\''`)}'`;
-}
-
 function buildInitialPrompt(
   name: string,
   model: string,
@@ -381,15 +384,6 @@ You are "${name}", a ${model} agent spawned by ${orchestratorName} to work on th
 ${custom}`.trim();
 }
 
-function tmuxAvailable(): boolean {
-  try {
-    execFileSync("tmux", ["display-message", "-p", "#{session_name}"], { stdio: "ignore" });
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 function safeKill(pid: number, signal: NodeJS.Signals): void {
   if (!Number.isFinite(pid) || pid <= 0) return;
   try {
@@ -399,35 +393,15 @@ function safeKill(pid: number, signal: NodeJS.Signals): void {
   }
 }
 
-function cleanupTmuxPane(agent: SpawnedAgent): void {
-  if (!agent.tmuxPaneId) return;
-  try {
-    execFileSync("tmux", ["kill-pane", "-t", agent.tmuxPaneId], { stdio: "ignore" });
-  } catch {
-    // ignore
-  }
-}
-
-function captureTmuxPaneTail(paneId: string | null, lines = SPAWN_DIAGNOSTIC_TMUX_LINES): string | null {
-  if (!paneId) return null;
+function captureBackendTail(backend: SpawnBackendDriver, agent: SpawnedAgent | null, lines: number): string[] {
+  if (!agent) return [];
   try {
-    const output = String(execFileSync(
-      "tmux",
-      ["capture-pane", "-t", paneId, "-p", "-S", `-${Math.max(1, lines)}`],
-      { encoding: "utf-8" },
-    )).trim();
-    return output.length > 0 ? output : null;
+    return backend.logs(agent, lines) ?? [];
   } catch {
-    return null;
+    return [];
   }
 }
 
-function captureHeadlessTail(name: string, lines = SPAWN_DIAGNOSTIC_LOG_LINES): string[] {
-  const runtime = headlessRuntimes.get(name);
-  if (!runtime) return [];
-  return runtime.logs.slice(-Math.max(1, lines));
-}
-
 function capturePidSnapshot(pid: number): string | null {
   if (!Number.isFinite(pid) || pid <= 0) return null;
   try {
@@ -530,12 +504,40 @@ function resolveThinking(params: CrewParams, defaultThinking: string): string {
   return defaultThinking;
 }
 
+function resolveRestartPolicy(
+  params: CrewParams,
+  config: ReturnType<typeof loadCrewConfig>,
+): RestartPolicy | null {
+  const maxRestarts = Math.floor(Number(params.maxRestarts ?? config.orchestrator.maxRestarts));
+  if (!Number.isFinite(maxRestarts) || maxRestarts <= 0) return null;
+  const backoffMs = Math.floor(Number(params.restartBackoffMs ?? config.orchestrator.restartBackoffMs));
+  return { maxRestarts, backoffMs: Number.isFinite(backoffMs) && backoffMs > 0 ? backoffMs : 0 };
+}
+
 function resolveWorkstream(params: CrewParams): string | null {
   if (typeof params.workstream !== "string") return null;
   const normalized = params.workstream.trim();
   return normalized.length > 0 ? normalized : null;
 }
 
+/**
+ * Puts the worker in its workstream's channel, leaving the channel of the
+ * workstream it worked on before. Returns the channel, null when the
+ * workstream has no usable channel name.
+ */
+function joinWorkstreamChannel(dirs: Dirs, name: string, workstream: string, previous: string | null): string | null {
+  const channel = messengerStore.channelForWorkstream(workstream);
+  if (!channel) return null;
+  const previousChannel = previous ? messengerStore.channelForWorkstream(previous) : null;
+  try {
+    if (previousChannel && previousChannel !== channel) messengerStore.leaveChannel(dirs, previousChannel, name);
+    messengerStore.joinChannel(dirs, channel, name);
+  } catch {
+    return null;
+  }
+  return channel;
+}
+
 function resolveLines(params: CrewParams, fallback = 50): number {
   const p = params as Record<string, unknown>;
   const lines = typeof p.lines === "number" ? p.lines : fallback;
@@ -558,6 +560,49 @@ async function ensureMemory(cwd: string): Promise<ReturnType<typeof getActiveMem
   }
 }
 
+// Embedding setup the global store last failed to open with (e.g. a dimension
+// mismatch). Not retried, and not warned about again, until the config changes.
+let failedGlobalMemory: string | null = null;
+
+async function ensureGlobalMemory(cwd: string): Promise<ReturnType<typeof getActiveGlobalMemoryStore>> {
+  const existing = getActiveGlobalMemoryStore();
+  if (existing) {
+    return existing;
+  }
+
+  const memoryConfig = loadCrewConfig(crewStore.getCrewDir(cwd)).orchestrator.memory;
+  const attempt = `${memoryConfig.backend}:${memoryConfig.embeddingModel}:${memoryConfig.dimensions}`;
+  if (failedGlobalMemory === attempt) {
+    return null;
+  }
+  try {
+    const store = await initGlobalMemory(memoryConfig);
+    failedGlobalMemory = null;
+    return store;
+  } catch (error) {
+    failedGlobalMemory = attempt;
+    console.warn(`[pi-messenger][orchestrator] global memory init failed: ${error instanceof Error ? error.message : "unknown"}`);
+    return null;
+  }
+}
+
+/** `memory_locked` when another session held the store lock too long, else `fallback`. */
+function memoryErrorCode(reason: string | undefined, fallback: string): string {
+  return reason?.startsWith("memory_locked") ? "memory_locked" : fallback;
+}
+
+async function ensureScopedMemory(cwd: string, scope: MemoryScope): Promise<MemoryStore | null> {
+  return scope === "global" ? ensureGlobalMemory(cwd) : ensureMemory(cwd);
+}
+
+/** Recall options that merge the user-level store in, unless globalWeight is 0. */
+async function globalRecallOptions(cwd: string): Promise<{ globalStore?: MemoryStore; globalWeight?: number }> {
+  const globalWeight = loadCrewConfig(crewStore.getCrewDir(cwd)).orchestrator.memory.globalWeight;
+  if (!(globalWeight > 0)) return {};
+  const globalStore = await ensureGlobalMemory(cwd);
+  return globalStore ? { globalStore, globalWeight } : {};
+}
+
 async function maybeBootstrapMemory(
   cwd: string,
   state: MessengerState,
@@ -576,6 +621,7 @@ async function maybeBootstrapMemory(
   const recalled = await recall(store, query, {
     topk,
     ...(workstream ? { workstreamFilter: workstream } : {}),
+    ...(await globalRecallOptions(cwd)),
   });
   if (recalled.results.length === 0) return 0;
 
@@ -593,11 +639,10 @@ async function collectSpawnTimeoutDiagnostics(
   name: string,
   model: string,
   thinking: string,
-  backend: "tmux" | "headless",
+  backend: SpawnBackendDriver,
   timeoutMs: number,
   expectedPid: number,
-  tmuxPaneId: string | null,
-  tmuxWindowId: string | null,
+  agent: SpawnedAgent | null,
   dirs: Dirs,
 ): Promise<SpawnTimeoutDiagnostics> {
   const meshRegistration = readMeshRegistration(name, dirs);
@@ -611,15 +656,17 @@ async function collectSpawnTimeoutDiagnostics(
 
   const expectedPidAliveBeforeKill = isPidAlive(expectedPid);
   const meshPidAliveAtTimeout = meshPid ? isPidAlive(meshPid) : false;
-  const tmuxPaneTail = backend === "tmux"
-    ? captureTmuxPaneTail(tmuxPaneId, SPAWN_DIAGNOSTIC_TMUX_LINES)
-    : null;
+  const tail = captureBackendTail(
+    backend,
+    agent,
+    backend.id === "tmux" ? SPAWN_DIAGNOSTIC_TMUX_LINES : SPAWN_DIAGNOSTIC_LOG_LINES,
+  );
 
   return {
     name,
     model,
     thinking,
-    backend,
+    backend: backend.id,
     timeoutMs,
     expectedPid,
     meshPid,
@@ -630,12 +677,10 @@ async function collectSpawnTimeoutDiagnostics(
     pidSnapshotExpected: capturePidSnapshot(expectedPid),
     pidSnapshotMesh: meshPid ? capturePidSnapshot(meshPid) : null,
     meshRegistration,
-    tmuxPaneId,
-    tmuxWindowId,
-    tmuxPaneTail,
-    headlessTail: backend === "headless"
-      ? captureHeadlessTail(name, SPAWN_DIAGNOSTIC_LOG_LINES)
-      : [],
+    tmuxPaneId: agent?.tmuxPaneId ?? null,
+    tmuxWindowId: agent?.tmuxWindowId ?? null,
+    tmuxPaneTail: backend.id === "tmux" && tail.length > 0 ? tail.join("\n") : null,
+    headlessTail: backend.id === "tmux" ? [] : tail,
     signals: {
       sentSigterm: false,
       exitedAfterSigterm: false,
@@ -652,7 +697,7 @@ export async function executeSpawn(
   dirs: Dirs,
   ctx: ExtensionContext,
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const config = loadCrewConfig(crewStore.getCrewDir(cwd));
 
   const active = getAllSpawned(cwd).filter(agent => agent.status !== "dead");
@@ -664,21 +709,22 @@ export async function executeSpawn(
   }
 
   const requestedProfile = params.profile?.trim();
-  const profileModel = requestedProfile
-    ? resolveProfileModel(cwd, requestedProfile)
+  const resolution = requestedProfile
+    ? resolveProfile(cwd, requestedProfile, config.orchestrator.profiles)
     : null;
 
-  if (requestedProfile && !profileModel) {
+  if (resolution && !resolution.ok) {
     return result(
-      `Error: profile '${requestedProfile}' not found (or missing model) in ${path.join(cwd, ".pi", "agents")}.`,
-      { mode: "spawn", error: "profile_not_found", profile: requestedProfile },
+      `Error: ${resolution.message} (searched ${profilesDir(cwd)} and orchestrator.profiles).`,
+      { mode: "spawn", error: resolution.error, profile: requestedProfile },
     );
   }
 
-  const model = params.model?.trim() || profileModel?.model || config.orchestrator.defaultModel;
-  const thinking = resolveThinking(params, config.orchestrator.defaultThinking);
+  const profile = resolution?.profile ?? null;
+  const model = params.model?.trim() || profile?.model || config.orchestrator.defaultModel;
+  const thinking = resolveThinking(params, profile?.thinking ?? config.orchestrator.defaultThinking);
   const spawnTimeoutMs = resolveSpawnTimeoutMs(params, config, model, thinking);
-  const spawnWorkstream = resolveWorkstream(params);
+  const spawnWorkstream = resolveWorkstream(params) ?? profile?.workstream ?? null;
   const name = resolveSpawnName(params.name, dirs, cwd);
 
   if (!name) {
@@ -692,86 +738,61 @@ export async function executeSpawn(
 
   const orchestratorName = state.agentName || "orchestrator";
   const initialPrompt = buildInitialPrompt(name, model, orchestratorName, params.prompt);
+  const profileLaunch = applyProfile(cwd, name, profile);
 
-  const backend = tmuxAvailable() ? "tmux" as const : "headless" as const;
-  let pid = 0;
-  let tmuxPaneId: string | null = null;
-  let tmuxWindowId: string | null = null;
-
-  if (backend === "tmux") {
+  let worktree: AgentWorktree | null = null;
+  if (params.worktree ?? config.orchestrator.worktree) {
     try {
-      const piArgs: string[] = [];
-      pushModelArgs(piArgs, model);
-      if (thinking && !modelHasThinkingSuffix(model)) {
-        piArgs.push("--thinking", thinking);
-      }
-      piArgs.push("--extension", EXTENSION_DIR, initialPrompt);
-
-      const command = [
-        `PI_AGENT_NAME=${shellEscape(name)}`,
-        "pi",
-        ...piArgs.map(shellEscape),
-      ].join(" ");
-
-      const output = String(execFileSync(
-        "tmux",
-        ["new-window", "-P", "-F", "#{pane_id} #{window_id} #{pane_pid}", "-n", name, command],
-        { encoding: "utf-8" },
-      )).trim();
-
-      const [pane, win, panePidRaw] = output.split(/\s+/);
-      tmuxPaneId = pane || null;
-      tmuxWindowId = win || null;
-      pid = Number(panePidRaw) || 0;
+      worktree = createWorktree(cwd, name);
     } catch (error) {
       return result(
-        `Error: failed to spawn tmux worker: ${error instanceof Error ? error.message : "unknown"}`,
-        { mode: "spawn", error: "tmux_spawn_failed" },
+        `Error: failed to create a git worktree for ${name}: ${error instanceof Error ? error.message : "unknown"}`,
+        { mode: "spawn", error: "worktree_failed", name },
       );
     }
-  } else {
-    const args: string[] = [];
-    pushModelArgs(args, model);
-    if (thinking && !modelHasThinkingSuffix(model)) {
-      args.push("--thinking", thinking);
-    }
-    args.push(
-      "--extension", EXTENSION_DIR,
-      "--no-session",
-      initialPrompt,
-    );
-
-    const proc = spawn("pi", args, {
-      cwd,
-      stdio: ["ignore", "pipe", "pipe"],
-      env: { ...process.env, PI_AGENT_NAME: name },
-    });
+  }
 
-    pid = proc.pid ?? 0;
+  const driver = resolveBackend(config.orchestrator.backend);
+  const backend = driver.id;
+  const piArgs: string[] = [];
+  pushModelArgs(piArgs, model);
+  if (thinking && !modelHasThinkingSuffix(model)) {
+    piArgs.push("--thinking", thinking);
+  }
+  piArgs.push(...profileLaunch.args);
+  piArgs.push("--extension", EXTENSION_DIR);
+  if (backend !== "tmux") {
+    piArgs.push("--no-session");
+  }
+  piArgs.push(initialPrompt);
 
-    const runtime: HeadlessRuntime = {
-      proc,
-      logs: [],
-    };
-    headlessRuntimes.set(name, runtime);
-
-    proc.stdout?.on("data", (chunk) => appendHeadlessLogs(name, String(chunk)));
-    proc.stderr?.on("data", (chunk) => appendHeadlessLogs(name, String(chunk)));
-    proc.on("close", () => {
-      headlessRuntimes.delete(name);
-      const current = getSpawned(name, cwd);
-      if (current && current.status !== "dead") {
-        transitionState(name, "dead", cwd);
-        unregisterSpawned(name, cwd);
-        logHistory({
-          event: "reap",
-          agent: name,
-          timestamp: new Date().toISOString(),
-          details: { reason: "headless_exit" },
-        }, cwd);
-      }
+  let handle: BackendHandle;
+  try {
+    handle = driver.spawn({
+      name,
+      cwd: worktree?.path ?? cwd,
+      args: piArgs,
+      env: {
+        ...profileLaunch.env,
+        ...(worktree ? { PI_ORCHESTRATOR_CWD: cwd } : {}),
+        PI_ORCHESTRATOR_NAME: state.agentName,
+        PI_AGENT_NAME: name,
+      },
+      extensionDir: EXTENSION_DIR,
+      sandbox: config.orchestrator.sandbox,
+      log: agentLogSink(cwd, name, config.orchestrator.logs),
+      onExit: (logs) => {
+        reapSpawned(name, `${backend}_exit`, cwd, logs.slice(-SPAWN_DIAGNOSTIC_LOG_LINES));
+      },
     });
+  } catch (error) {
+    if (worktree) removeWorktree(cwd, worktree);
+    return result(
+      `Error: failed to spawn ${backend} worker: ${error instanceof Error ? error.message : "unknown"}`,
+      { mode: "spawn", error: `${backend}_spawn_failed` },
+    );
   }
+  const { pid, tmuxPaneId, tmuxWindowId } = handle;
 
   const now = Date.now();
   registerSpawned({
@@ -789,19 +810,28 @@ export async function executeSpawn(
     currentWorkstream: spawnWorkstream,
     lastActivityAt: now,
     backend,
+    ...(handle.sandbox ? { sandbox: handle.sandbox } : {}),
+    restartPolicy: resolveRestartPolicy(params, config),
+    profile: profile?.name ?? null,
+    worktree,
   }, cwd);
 
-  const joined = await waitForMeshJoin(name, dirs, spawnTimeoutMs, pid || undefined, now);
+  const joined = await waitForMeshJoin(
+    name,
+    dirs,
+    spawnTimeoutMs,
+    driver.ownsWorkerPid ? pid || undefined : undefined,
+    now,
+  );
   if (!joined) {
     const diagnostics = await collectSpawnTimeoutDiagnostics(
       name,
       model,
       thinking,
-      backend,
+      driver,
       spawnTimeoutMs,
       pid,
-      tmuxPaneId,
-      tmuxWindowId,
+      getSpawned(name, cwd),
       dirs,
     );
 
@@ -817,22 +847,26 @@ export async function executeSpawn(
     diagnostics.expectedPidAliveAfterKill = isPidAlive(pid);
 
     const existing = getSpawned(name, cwd);
+    driver.kill(existing ?? {
+      name,
+      pid,
+      sessionId: "",
+      tmuxPaneId,
+      tmuxWindowId,
+      model,
+      status: "spawning",
+      spawnedAt: now,
+      spawnedBy: orchestratorName,
+      assignedTask: null,
+      lastActivityAt: now,
+      backend,
+      sandbox: handle.sandbox ?? null,
+    });
     if (existing) {
-      if (backend === "tmux" && !diagnostics.tmuxPaneTail) {
-        diagnostics.tmuxPaneTail = captureTmuxPaneTail(existing.tmuxPaneId, SPAWN_DIAGNOSTIC_TMUX_LINES);
-      }
-      cleanupTmuxPane(existing);
       transitionState(name, "dead", cwd);
       unregisterSpawned(name, cwd);
-    } else if (backend === "tmux" && tmuxPaneId) {
-      try {
-        execFileSync("tmux", ["kill-pane", "-t", tmuxPaneId], { stdio: "ignore" });
-      } catch {
-        // ignore
-      }
     }
-
-    headlessRuntimes.delete(name);
+    if (worktree) removeWorktree(cwd, worktree);
 
     const diagnosticsPath = persistSpawnTimeoutDiagnostics(cwd, name, diagnostics);
 
@@ -891,7 +925,7 @@ export async function executeSpawn(
         dirs,
         name,
         params.prompt,
-        config.orchestrator.memory.autoInjectTopK,
+        profile?.memory?.autoInjectTopK ?? config.orchestrator.memory.autoInjectTopK,
         spawnWorkstream,
       );
     } catch {
@@ -899,6 +933,10 @@ export async function executeSpawn(
     }
   }
 
+  const channel = config.orchestrator.workstreamChannels && spawnWorkstream
+    ? joinWorkstreamChannel(dirs, name, spawnWorkstream, null)
+    : null;
+
   logHistory({
     event: "spawn",
     agent: name,
@@ -909,12 +947,15 @@ export async function executeSpawn(
       thinking,
       pid,
       spawnTimeoutMs,
+      spawningMs: Math.max(0, Date.now() - now),
       tmuxPaneId,
       tmuxWindowId,
       memoryInjected,
-      profile: profileModel?.profile ?? requestedProfile ?? null,
-      profileFile: profileModel?.filePath ?? null,
+      profile: profile?.name ?? null,
+      profileChain: profile?.chain ?? null,
       workstream: spawnWorkstream,
+      worktree: worktree?.path ?? null,
+      branch: worktree?.branch ?? null,
     },
   }, cwd);
   logFeedEvent(cwd, state.agentName, "message", name, `spawned ${name} (${backend})`);
@@ -922,10 +963,11 @@ export async function executeSpawn(
   const modelLabel = thinking && !modelHasThinkingSuffix(model)
     ? `${model}:${thinking}`
     : model;
-  const profileLabel = profileModel ? ` via profile '${profileModel.profile}'` : "";
+  const profileLabel = profile ? ` via profile '${profile.name}'` : "";
+  const worktreeLabel = worktree ? ` in worktree ${worktree.path} (branch ${worktree.branch})` : "";
 
   return result(
-    `Spawned ${name} (${modelLabel}) via ${backend}${profileLabel}. Status: idle.`,
+    `Spawned ${name} (${modelLabel}) via ${backend}${profileLabel}${worktreeLabel}. Status: idle.`,
     {
       mode: "spawn",
       name,
@@ -937,14 +979,18 @@ export async function executeSpawn(
       tmuxWindow: tmuxWindowId,
       status: "idle",
       memoryInjected,
-      profile: profileModel?.profile ?? null,
-      profileFile: profileModel?.filePath ?? null,
+      profile: profile?.name ?? null,
+      profileChain: profile?.chain ?? null,
+      profileSources: profile?.sources ?? null,
       workstream: spawnWorkstream,
+      channel,
+      worktree: worktree?.path ?? null,
+      branch: worktree?.branch ?? null,
     },
   );
 }
 
-function formatAgentStatusLine(agent: SpawnedAgent, mesh: Record<string, unknown> | null): string {
+function formatAgentStatusLine(agent: SpawnedAgent, mesh: Record<string, unknown> | null, queued = 0): string {
   const icon: Record<SpawnedAgent["status"], string> = {
     spawning: "🟡",
     joined: "🟢",
@@ -962,9 +1008,11 @@ function formatAgentStatusLine(agent: SpawnedAgent, mesh: Record<string, unknown
   const workstreamText = agent.currentWorkstream ? ` [${agent.currentWorkstream}]` : "";
   const tmuxText = agent.backend === "tmux"
     ? `tmux:${agent.tmuxPaneId ?? "?"}`
-    : "headless";
+    : agent.backend;
 
-  return `${icon[agent.status]} ${agent.name} (${formatModelLabel(agent)})${workstreamText} — ${taskText} — ${tools} tools, ${tokenText} tokens — ${tmuxText}`;
+  const queueText = queued > 0 ? ` — ${queued} queued` : "";
+
+  return `${icon[agent.status]} ${agent.name} (${formatModelLabel(agent)})${workstreamText} — ${taskText}${queueText} — ${tools} tools, ${tokenText} tokens — ${tmuxText}`;
 }
 
 export async function executeAgentsList(
@@ -972,7 +1020,7 @@ export async function executeAgentsList(
   dirs: Dirs,
   ctx: ExtensionContext,
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const reaped = reapOrphans(cwd);
   const agents = getAllSpawned(cwd);
 
@@ -991,10 +1039,12 @@ export async function executeAgentsList(
 
   const details = agents.map(agent => {
     const mesh = readMeshRegistration(agent.name, dirs);
-    lines.push(formatAgentStatusLine(agent, mesh));
+    const queued = getQueue(agent.name, cwd).length;
+    lines.push(formatAgentStatusLine(agent, mesh, queued));
     return {
       ...agent,
       mesh,
+      queued,
     };
   });
 
@@ -1036,8 +1086,8 @@ async function killOne(
   dirs: Dirs,
   ctx: ExtensionContext,
   opts?: { skipSummary?: boolean },
-): Promise<{ ok: boolean; noOp?: boolean; error?: string }> {
-  const cwd = ctx.cwd ?? process.cwd();
+): Promise<{ ok: boolean; noOp?: boolean; error?: string; worktree?: WorktreeRemoval }> {
+  const cwd = orchestratorCwd(ctx);
   const config = loadCrewConfig(crewStore.getCrewDir(cwd));
   const agent = getSpawned(name, cwd);
 
@@ -1081,11 +1131,12 @@ async function killOne(
     safeKill(agent.pid, "SIGKILL");
   }
 
-  cleanupTmuxPane(agent);
+  getBackend(agent.backend).kill(agent);
+  const worktree = agent.worktree ? removeWorktree(cwd, agent.worktree) : undefined;
+  messengerStore.leaveAllChannels(dirs, name);
 
   transitionState(name, "dead", cwd);
   unregisterSpawned(name, cwd);
-  headlessRuntimes.delete(name);
 
   try {
     fs.unlinkSync(path.join(dirs.registry, `${name}.json`));
@@ -1097,11 +1148,15 @@ async function killOne(
     event: "kill",
     agent: name,
     timestamp: new Date().toISOString(),
-    details: { pid: agent.pid, backend: agent.backend },
+    details: {
+      pid: agent.pid,
+      backend: agent.backend,
+      ...(agent.worktree ? { worktree: agent.worktree.path, worktreeRemoved: worktree?.removed ?? false } : {}),
+    },
   }, cwd);
   logFeedEvent(cwd, state.agentName, "message", name, `killed ${name}`);
 
-  return { ok: true };
+  return { ok: true, worktree };
 }
 
 export async function executeAgentsKill(
@@ -1135,10 +1190,14 @@ export async function executeAgentsKill(
     });
   }
 
-  return result(`Killed ${params.name}.`, {
+  const kept = outcome.worktree && !outcome.worktree.removed
+    ? ` Worktree kept (${outcome.worktree.reason}); merge or clean it up with agents.merge.`
+    : "";
+  return result(`Killed ${params.name}.${kept}`, {
     mode: "agents.kill",
     name: params.name,
     killed: true,
+    ...(outcome.worktree ? { worktree: outcome.worktree } : {}),
   });
 }
 
@@ -1147,7 +1206,7 @@ export async function executeAgentsKillall(
   dirs: Dirs,
   ctx: ExtensionContext,
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const active = getAllSpawned(cwd).filter(agent => agent.status !== "dead");
 
   const killed: string[] = [];
@@ -1175,8 +1234,9 @@ export async function executeAgentsKillall(
 export async function executeAgentsLogs(
   params: CrewParams,
   ctx: ExtensionContext,
+  signal?: AbortSignal,
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const lines = resolveLines(params, 50);
   const name = params.name;
 
@@ -1187,8 +1247,20 @@ export async function executeAgentsLogs(
     });
   }
 
+  const since = params.since ? parseSince(params.since) : null;
+  if (params.since && since === null) {
+    return result(`Error: since '${params.since}' is not an ISO timestamp or relative window (e.g. 30m, 24h).`, {
+      mode: "agents.logs",
+      error: "invalid_since",
+      name,
+    });
+  }
+  const grep = params.grep ? compileGrep(params.grep) : null;
+
+  // Persisted logs outlive the agent, so dead workers can still be inspected.
   const agent = getSpawned(name, cwd);
-  if (!agent) {
+  const persisted = hasAgentLog(cwd, name);
+  if (!agent && !persisted) {
     return result(`Error: agent ${name} not found.`, {
       mode: "agents.logs",
       error: "not_found",
@@ -1196,58 +1268,242 @@ export async function executeAgentsLogs(
     });
   }
 
-  if (agent.backend === "tmux") {
-    if (!agent.tmuxPaneId) {
-      return result(`Error: ${name} has no tmux pane id.`, {
-        mode: "agents.logs",
-        error: "missing_tmux_pane",
-      });
-    }
+  const backend = agent?.backend ?? null;
+  const formatEntries = (entries: AgentLogEntry[]) => entries.map(entry => entry.text).join("\n");
 
-    try {
-      const output = String(execFileSync(
-        "tmux",
-        ["capture-pane", "-t", agent.tmuxPaneId, "-p", "-S", `-${lines}`],
-        { encoding: "utf-8" },
-      ));
-
-      return result(output.trim() || `(No tmux output for ${name})`, {
-        mode: "agents.logs",
-        name,
-        backend: "tmux",
-        lines,
-      });
-    } catch (error) {
-      return result(
-        `Error capturing tmux logs for ${name}: ${error instanceof Error ? error.message : "unknown"}`,
-        { mode: "agents.logs", error: "tmux_capture_failed", name },
-      );
-    }
+  if (params.follow) {
+    const timeoutMs = Math.min(LOG_FOLLOW_MAX_MS, Math.max(0, params.timeoutMs ?? LOG_FOLLOW_DEFAULT_MS));
+    const entries = (await followAgentLog(cwd, name, { grep, since, timeoutMs, signal })).slice(-lines);
+    const cursor = entries.at(-1)?.at ?? null;
+    const aborted = signal?.aborted === true;
+    return result(entries.length > 0
+      ? formatEntries(entries)
+      : aborted
+        ? `(Stopped following ${name})`
+        : `(No new output from ${name} within ${Math.round(timeoutMs / 1000)}s)`, {
+      mode: "agents.logs",
+      name,
+      backend,
+      lines,
+      follow: true,
+      count: entries.length,
+      cursor,
+      ...(aborted ? { aborted: true } : {}),
+    });
+  }
+
+  if (persisted) {
+    const entries = readAgentLog(cwd, name, { lines, grep, since });
+    const filtered = grep || since !== null;
+    return result(entries.length > 0
+      ? formatEntries(entries)
+      : filtered ? `(No log lines for ${name} match the filter)` : `(No output logged for ${name})`, {
+      mode: "agents.logs",
+      name,
+      backend,
+      lines,
+      persisted: true,
+      count: entries.length,
+      cursor: entries.at(-1)?.at ?? null,
+    });
+  }
+
+  // No persisted log (e.g. tmux pipe-pane failed): fall back to the live capture,
+  // which has no timestamps, so `since` cannot apply.
+  if (agent!.backend === "tmux" && !agent!.tmuxPaneId) {
+    return result(`Error: ${name} has no tmux pane id.`, {
+      mode: "agents.logs",
+      error: "missing_tmux_pane",
+    });
   }
 
-  const runtime = headlessRuntimes.get(name);
-  const output = runtime
-    ? runtime.logs.slice(-lines).join("\n")
-    : "(No headless logs captured for this process in current session)";
+  let captured: string[] | null;
+  try {
+    captured = getBackend(agent!.backend).logs(agent!, grep ? 500 : lines);
+  } catch (error) {
+    return result(
+      `Error capturing ${agent!.backend} logs for ${name}: ${error instanceof Error ? error.message : "unknown"}`,
+      { mode: "agents.logs", error: `${agent!.backend}_capture_failed`, name },
+    );
+  }
+  if (captured && grep) captured = captured.filter(line => grep.test(line));
+
+  const output = captured && captured.length > 0
+    ? captured.slice(-lines).join("\n")
+    : agent!.backend === "tmux"
+      ? `(No tmux output for ${name})`
+      : `(No ${agent!.backend} logs captured for this process in current session)`;
 
   return result(output, {
     mode: "agents.logs",
     name,
-    backend: "headless",
+    backend,
     lines,
+    persisted: false,
+  });
+}
+
+type RouteReason = "workstream_affinity" | "idle" | "spawned" | "queued";
+
+function hasWorkstreamAffinity(agent: SpawnedAgent, workstream: string | null): boolean {
+  if (!workstream) return false;
+  return agent.currentWorkstream === workstream || agent.lastWorkstream === workstream;
+}
+
+/**
+ * Orders agents for a nameless agents.assign: workstream affinity first, then
+ * the fewest queued tasks, then the one that has been quiet the longest.
+ */
+function rankForRouting(agents: SpawnedAgent[], workstream: string | null, cwd: string): SpawnedAgent[] {
+  const load = new Map(agents.map(agent => [agent.name, getQueue(agent.name, cwd).length]));
+  return [...agents].sort((a, b) => {
+    const affinity = Number(hasWorkstreamAffinity(b, workstream)) - Number(hasWorkstreamAffinity(a, workstream));
+    if (affinity !== 0) return affinity;
+    const queued = (load.get(a.name) ?? 0) - (load.get(b.name) ?? 0);
+    if (queued !== 0) return queued;
+    return a.lastActivityAt - b.lastActivityAt;
+  });
+}
+
+/**
+ * agents.assign without `name`: picks an idle agent that satisfies the
+ * requested model/profile/thinking, spawns one if none fit and the spawn
+ * limit allows, and otherwise queues on the least-loaded matching agent.
+ * `replacing` names an agent about to be killed: it is never picked and does
+ * not count against the spawn limit.
+ */
+async function executeRoutedAssign(
+  params: CrewParams,
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+  replacing?: string,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const config = loadCrewConfig(crewStore.getCrewDir(cwd));
+  const workstream = resolveWorkstream(params);
+
+  const requestedProfile = params.profile?.trim();
+  const resolution = requestedProfile ? resolveProfile(cwd, requestedProfile, config.orchestrator.profiles) : null;
+  if (resolution && !resolution.ok) {
+    return result(`Error: ${resolution.message} (searched ${profilesDir(cwd)} and orchestrator.profiles).`, {
+      mode: "agents.assign",
+      error: resolution.error,
+      profile: requestedProfile,
+    });
+  }
+
+  const deadline = resolveAssignmentDeadline(params, config, Date.now());
+  if ("error" in deadline) {
+    return result(`Error: ${deadline.error}.`, {
+      mode: "agents.assign",
+      error: "invalid_deadline",
+    });
+  }
+
+  const requiredModel = params.model?.trim() || resolution?.profile.model || null;
+  const requiredThinking = typeof params.thinking === "string" && params.thinking.trim() ? params.thinking.trim() : null;
+  const fits = (agent: SpawnedAgent) => (!requestedProfile || agent.profile === requestedProfile)
+    && (!requiredModel || agent.model === requiredModel)
+    && (!requiredThinking || agent.thinking === requiredThinking);
+
+  reapOrphans(cwd);
+  const active = getAllSpawned(cwd).filter(agent => agent.status !== "dead" && agent.name !== replacing);
+  const matching = active.filter(agent => agent.status !== "done" && fits(agent));
+
+  const withRoute = (name: string, reason: RouteReason, outcome: ReturnType<typeof result>) => {
+    if (!outcome.details.error) {
+      logHistory({
+        event: "route",
+        agent: name,
+        timestamp: new Date().toISOString(),
+        details: { task: params.task?.trim(), workstream, reason, requiredModel, requiredThinking },
+      }, cwd);
+    }
+    return { ...outcome, details: { ...outcome.details, routed: { name, reason, candidates: matching.length } } };
+  };
+
+  const idle = rankForRouting(matching.filter(agent => agent.status === "idle" || agent.status === "joined"), workstream, cwd);
+  if (idle.length > 0) {
+    const chosen = idle[0];
+    const assigned = await executeAgentsAssign({ ...params, name: chosen.name }, state, dirs, ctx);
+    return withRoute(chosen.name, hasWorkstreamAffinity(chosen, workstream) ? "workstream_affinity" : "idle", assigned);
+  }
+
+  if (active.length < config.orchestrator.maxSpawnedAgents) {
+    const spawned = await executeSpawn({
+      ...(requestedProfile ? { profile: requestedProfile } : {}),
+      ...(params.model ? { model: params.model } : {}),
+      ...(requiredThinking ? { thinking: requiredThinking } : {}),
+      ...(workstream ? { workstream } : {}),
+    }, state, dirs, ctx);
+    const spawnedDetails = spawned.details as { name?: string; status?: string; error?: string };
+    if (spawnedDetails.status !== "idle" || !spawnedDetails.name) {
+      return {
+        ...spawned,
+        details: { ...spawned.details, mode: "agents.assign", error: "route_spawn_failed", spawnError: spawnedDetails.error ?? null },
+      };
+    }
+    const spawnedName = spawnedDetails.name;
+    const assigned = await executeAgentsAssign({ ...params, name: spawnedName }, state, dirs, ctx);
+    return withRoute(spawnedName, "spawned", assigned);
+  }
+
+  const busy = rankForRouting(matching.filter(agent => agent.status === "assigned"), workstream, cwd);
+  if (busy.length > 0) {
+    const queued = await executeAgentsQueue({ ...params, name: busy[0].name }, state, dirs, ctx);
+    return withRoute(busy[0].name, "queued", queued);
+  }
+
+  return result(`Error: no agent fits this task and the spawn limit (${config.orchestrator.maxSpawnedAgents}) is reached.`, {
+    mode: "agents.assign",
+    error: "no_available_agent",
+    requiredModel,
+    requiredThinking,
+    maxSpawnedAgents: config.orchestrator.maxSpawnedAgents,
   });
 }
 
+/**
+ * Deadline for an assignment: an explicit `deadline` wins, then `timeoutMs`,
+ * then `orchestrator.assignmentTimeoutMs` (0 disables).
+ */
+function resolveAssignmentDeadline(
+  params: CrewParams,
+  config: ReturnType<typeof loadCrewConfig>,
+  now: number,
+): { timeoutMs: number | null; deadlineAt: number | null } | { error: string } {
+  const deadline = typeof params.deadline === "string" ? params.deadline.trim() : "";
+  if (deadline) {
+    const parsed = Date.parse(deadline);
+    if (!Number.isFinite(parsed)) return { error: `invalid deadline '${deadline}' (expected an ISO timestamp)` };
+    if (parsed <= now) return { error: `deadline '${deadline}' is already in the past` };
+    return { timeoutMs: parsed - now, deadlineAt: parsed };
+  }
+
+  const override = Number(params.timeoutMs);
+  const timeoutMs = Number.isFinite(override) && override > 0
+    ? Math.floor(override)
+    : Math.floor(config.orchestrator.assignmentTimeoutMs);
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) return { timeoutMs: null, deadlineAt: null };
+  return { timeoutMs, deadlineAt: now + timeoutMs };
+}
+
 export async function executeAgentsAssign(
   params: CrewParams,
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
+  options: { preamble?: string; replacing?: string; deadlineAt?: number | null } = {},
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const name = params.name;
   const task = params.task?.trim();
 
+  if (!name && task) {
+    return executeRoutedAssign(params, state, dirs, ctx, options.replacing);
+  }
+
   if (!name) {
     return result("Error: agents.assign requires name.", {
       mode: "agents.assign",
@@ -1263,6 +1519,18 @@ export async function executeAgentsAssign(
   }
 
   const config = loadCrewConfig(crewStore.getCrewDir(cwd));
+  // A queued item keeps the deadline it was given, even if that has since passed.
+  const deadline = options.deadlineAt
+    ? { timeoutMs: Math.max(0, options.deadlineAt - Date.now()), deadlineAt: options.deadlineAt }
+    : resolveAssignmentDeadline(params, config, Date.now());
+  if ("error" in deadline) {
+    return result(`Error: ${deadline.error}.`, {
+      mode: "agents.assign",
+      error: "invalid_deadline",
+      name,
+    });
+  }
+
   const agent = getSpawned(name, cwd);
   if (!agent) {
     return result(`Error: agent ${name} not found.`, {
@@ -1273,7 +1541,7 @@ export async function executeAgentsAssign(
   }
 
   if (agent.status === "assigned") {
-    return result("Error: Agent already has a task. Wait for completion or kill.", {
+    return result("Error: Agent already has a task. Wait for completion, kill, or use agents.queue.", {
       mode: "agents.assign",
       error: "already_assigned",
       name,
@@ -1314,16 +1582,21 @@ export async function executeAgentsAssign(
 
   let memoryContext = "";
   let memoryCount = 0;
+  let memoryInjection: MemoryInjectionReport | null = null;
   if (config.orchestrator.memory.enabled) {
     try {
       const store = await ensureMemory(cwd);
       if (store && store.enabled && !store.degraded) {
+        const profileMemory = profileMemorySettings(cwd, config, latest.profile);
         const recalled = await recall(store, task, {
-          topk: config.orchestrator.memory.autoInjectTopK,
-          minSimilarity: config.orchestrator.memory.minSimilarity,
-          maxTokens: config.orchestrator.memory.maxInjectionTokens,
+          topk: profileMemory.autoInjectTopK ?? config.orchestrator.memory.autoInjectTopK,
+          minSimilarity: profileMemory.minSimilarity ?? config.orchestrator.memory.minSimilarity,
+          maxTokens: profileMemory.maxInjectionTokens ?? config.orchestrator.memory.maxInjectionTokens,
           ...(workstream ? { workstreamFilter: workstream } : {}),
+          ...(await globalRecallOptions(cwd)),
+          report: true,
         });
+        memoryInjection = recalled.report ?? null;
         if (recalled.results.length > 0) {
           memoryCount = recalled.results.length;
           const lines = recalled.results.map((entry) => {
@@ -1338,8 +1611,16 @@ export async function executeAgentsAssign(
     }
   }
 
-  const workstreamBlock = workstream ? `## Workstream\n${workstream}\n\n` : "";
-  const assignmentDM = `# Task Assignment\n\n${workstreamBlock}${memoryContext}## Your Task\n${task}\n\n## When Done\nCall: pi_messenger({ action: "agents.done", summary: "Brief description of what you did" })`;
+  const channel = config.orchestrator.workstreamChannels && workstream
+    ? joinWorkstreamChannel(dirs, name, workstream, latest.currentWorkstream ?? latest.lastWorkstream ?? null)
+    : null;
+  const channelLine = channel
+    ? `\nYou are in #${channel} with the other workers on it: pi_messenger({ action: "send", to: "#${channel}", message: "..." })`
+    : "";
+  const workstreamBlock = workstream ? `## Workstream\n${workstream}${channelLine}\n\n` : "";
+  const deadlineBlock = deadline.deadlineAt ? `## Deadline\n${new Date(deadline.deadlineAt).toISOString()}\n\n` : "";
+  const preambleBlock = options.preamble ? `${options.preamble.trim()}\n\n` : "";
+  const assignmentDM = `# Task Assignment\n\n${preambleBlock}${workstreamBlock}${deadlineBlock}${memoryContext}## Your Task\n${task}\n\n## Questions\nIf something is unclear, ask and wait for the answer: pi_messenger({ action: "ask", message: "..." })\n\n## When Done\nCall: pi_messenger({ action: "agents.done", summary: "Brief description of what you did" })`;
 
   try {
     messengerStore.sendMessageToAgent(state, dirs, name, assignmentDM);
@@ -1357,8 +1638,13 @@ export async function executeAgentsAssign(
     assignedTask: task,
     currentWorkstream: workstream,
     lastActivityAt: Date.now(),
+    assignedBy: state.agentName,
+    assignmentTimeoutMs: deadline.timeoutMs,
+    deadlineAt: deadline.deadlineAt,
+    escalation: null,
   }, cwd);
 
+  const deadlineIso = deadline.deadlineAt ? new Date(deadline.deadlineAt).toISOString() : null;
   logHistory({
     event: "assign",
     agent: name,
@@ -1366,30 +1652,80 @@ export async function executeAgentsAssign(
     details: {
       task,
       workstream,
+      deadline: deadlineIso,
       memoryContextInjected: memoryCount > 0,
       memoryContextCount: memoryCount,
+      memoryInjection,
     },
   }, cwd);
   logFeedEvent(cwd, state.agentName, "message", name, `assigned task: ${task.slice(0, 120)}`);
 
-  return result(`Assigned task to ${name}.${memoryCount > 0 ? ` Injected ${memoryCount} memory snippet(s).` : ""}${workstream ? ` (workstream: ${workstream})` : ""}`, {
+  return result(`Assigned task to ${name}.${memoryCount > 0 ? ` Injected ${memoryCount} memory snippet(s).` : ""}${workstream ? ` (workstream: ${workstream})` : ""}${deadlineIso ? ` Deadline: ${deadlineIso}.` : ""}`, {
     mode: "agents.assign",
     name,
     assigned: true,
     task,
     workstream,
+    ...(channel ? { channel } : {}),
+    deadline: deadlineIso,
     memoryContextInjected: memoryCount > 0,
     memoryContextCount: memoryCount,
+    memoryInjection,
   });
 }
 
+function uniqueStrings(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  return Array.from(new Set(values
+    .filter((value): value is string => typeof value === "string")
+    .map(value => value.trim())
+    .filter(Boolean)));
+}
+
+function resolveFollowUps(params: CrewParams, defaultWorkstream: string | null): DoneFollowUp[] {
+  if (!Array.isArray(params.followUps)) return [];
+  const followUps: DoneFollowUp[] = [];
+  for (const raw of params.followUps) {
+    const item = typeof raw === "string" ? { task: raw } : raw;
+    const task = typeof item?.task === "string" ? item.task.trim() : "";
+    if (!task) continue;
+    const workstream = typeof item.workstream === "string" && item.workstream.trim() ? item.workstream.trim() : defaultWorkstream;
+    const priority = Number.isFinite(Number(item.priority)) ? Math.floor(Number(item.priority)) : 0;
+    followUps.push({ task, workstream, priority });
+  }
+  return followUps;
+}
+
+function formatDoneReport(
+  name: string,
+  summary: string,
+  report: { evidence: TaskEvidence; files: string[]; questions: string[]; followUps: DoneFollowUp[] },
+): string {
+  const lines = [`✅ ${name} completed: ${summary}`];
+  const evidence = [
+    ...(report.evidence.commits ?? []).map(sha => `commit ${sha}`),
+    ...(report.evidence.tests ?? []).map(test => `test ${test}`),
+    ...(report.evidence.prs ?? []).map(pr => `PR ${pr}`),
+  ];
+  if (evidence.length > 0) lines.push("", "Evidence:", ...evidence.map(item => `- ${item}`));
+  if (report.files.length > 0) lines.push("", `Files changed: ${report.files.join(", ")}`);
+  if (report.questions.length > 0) lines.push("", "Open questions:", ...report.questions.map(q => `- ${q}`));
+  if (report.followUps.length > 0) {
+    lines.push("", "Proposed follow-ups (pass to agents.assign or agents.queue):");
+    for (const item of report.followUps) {
+      lines.push(`- ${JSON.stringify({ task: item.task, ...(item.workstream ? { workstream: item.workstream } : {}), ...(item.priority !== 0 ? { priority: item.priority } : {}) })}`);
+    }
+  }
+  return lines.join("\n");
+}
+
 export async function executeAgentsDone(
   params: CrewParams,
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const callerName = state.agentName;
   const summary = params.summary?.trim() || "Task completed.";
 
@@ -1411,18 +1747,32 @@ export async function executeAgentsDone(
   }
 
   const config = loadCrewConfig(crewStore.getCrewDir(cwd));
+  const evidence: TaskEvidence = {};
+  for (const key of ["commits", "tests", "prs"] as const) {
+    const values = uniqueStrings(params.evidence?.[key]);
+    if (values.length > 0) evidence[key] = values;
+  }
+  const files = uniqueStrings([...(params.paths ?? []), ...state.session.filesModified]);
+  const questions = uniqueStrings(params.questions);
+  const followUps = resolveFollowUps(params, agent.currentWorkstream ?? null);
 
   if (config.orchestrator.memory.enabled) {
     try {
       const store = await ensureMemory(cwd);
       if (store && store.enabled && !store.degraded) {
-        await remember(store, summary, {
+        const memoryText = [
+          summary,
+          ...(questions.length > 0 ? [`Open questions: ${questions.join("; ")}`] : []),
+          ...(followUps.length > 0 ? [`Follow-ups: ${followUps.map(item => item.task).join("; ")}`] : []),
+        ].join("\n");
+        await remember(store, memoryText, {
           agent: callerName,
           type: "summary",
           source: "agents.done",
           taskId: agent.assignedTask ?? undefined,
           workstream: agent.currentWorkstream ?? undefined,
-          files: state.session.filesModified,
+          files,
+          provenance: resolveMemoryProvenance(cwd, params),
         });
       }
     } catch {
@@ -1435,32 +1785,47 @@ export async function executeAgentsDone(
       state,
       dirs,
       agent.spawnedBy,
-      `✅ ${callerName} completed: ${summary}`,
+      formatDoneReport(callerName, summary, { evidence, files, questions, followUps }),
     );
   } catch {
     // best effort
   }
 
+  // Queued work keeps the agent alive; autoKillOnDone applies once the queue drains.
+  const autoKill = config.orchestrator.autoKillOnDone && getQueue(callerName, cwd).length === 0;
+
   logHistory({
     event: "done",
     agent: callerName,
     timestamp: new Date().toISOString(),
-    details: { summary, task: agent.assignedTask, autoKill: config.orchestrator.autoKillOnDone },
+    details: { summary, task: agent.assignedTask, autoKill, evidence, files, questions, followUps },
   }, cwd);
 
-  if (!config.orchestrator.autoKillOnDone) {
+  if (!autoKill) {
     registerSpawned({
       ...agent,
       status: "idle",
       assignedTask: null,
       currentWorkstream: null,
+      lastWorkstream: agent.currentWorkstream ?? agent.lastWorkstream ?? null,
       lastActivityAt: Date.now(),
+      assignedBy: null,
+      assignmentTimeoutMs: null,
+      deadlineAt: null,
+      escalation: null,
     }, cwd);
 
-    return result("Marked task done and returned to idle.", {
+    // The orchestrator's heartbeat hands over the next queued task.
+    const queued = getQueue(callerName, cwd).length;
+    return result(`Marked task done and returned to idle.${queued > 0 ? ` ${queued} queued task(s) waiting; the next one arrives shortly.` : ""}`, {
       mode: "agents.done",
       done: true,
       autoKill: false,
+      queued,
+      evidence,
+      files,
+      questions,
+      followUps,
     });
   }
 
@@ -1471,27 +1836,510 @@ export async function executeAgentsDone(
     mode: "agents.done",
     done: true,
     autoKill: true,
+    evidence,
+    files,
+    questions,
+    followUps,
   });
 }
 
-export async function executeAgentsCheck(
-  params: CrewParams,
+export interface DeadlineEscalation {
+  name: string;
+  step: EscalationStep;
+  task: string | null;
+  overdueMs: number;
+  reassignedTo?: string | null;
+  error?: string;
+}
+
+function nextEscalationStep(
+  agent: SpawnedAgent,
+  overdueMs: number,
+  intervalMs: number,
+  reassign: boolean,
+): EscalationStep | null {
+  switch (agent.escalation ?? null) {
+    case null:
+      return "nudge";
+    case "nudge":
+      return overdueMs >= intervalMs ? "notify" : null;
+    case "notify":
+      return reassign && overdueMs >= intervalMs * 2 ? "reassign" : null;
+    default:
+      return null;
+  }
+}
+
+async function reassignOverdue(
+  agent: SpawnedAgent,
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
-) {
-  const cwd = ctx.cwd ?? process.cwd();
-  const name = params.name;
-
-  if (!name) {
-    return result("Error: agents.check requires name.", {
-      mode: "agents.check",
-      error: "missing_name",
-    });
+): Promise<{ reassignedTo: string | null; error?: string }> {
+  const cwd = orchestratorCwd(ctx);
+  const task = agent.assignedTask;
+  if (!task) {
+    const killed = await killOne(agent.name, state, dirs, ctx);
+    return killed.ok ? { reassignedTo: null } : { reassignedTo: null, error: killed.error ?? "kill_failed" };
   }
 
-  const agent = getSpawned(name, cwd);
-  if (!agent) {
+  // Route before killing: the kill clears the agent's queue, so a failed route
+  // would otherwise lose both the task and its backlog. On failure the agent
+  // keeps working.
+  const queued = getQueue(agent.name, cwd);
+  const routed = await executeAgentsAssign({
+    task,
+    ...(agent.currentWorkstream ? { workstream: agent.currentWorkstream } : {}),
+    ...(agent.profile ? { profile: agent.profile } : {}),
+    ...(agent.model ? { model: agent.model } : {}),
+    ...(agent.thinking ? { thinking: agent.thinking } : {}),
+    ...(agent.assignmentTimeoutMs ? { timeoutMs: agent.assignmentTimeoutMs } : {}),
+  }, { ...state, agentName: agent.assignedBy ?? state.agentName }, dirs, ctx, { replacing: agent.name });
+  const details = routed.details as { error?: string; routed?: { name: string } };
+  if (details.error || !details.routed) return { reassignedTo: null, error: details.error ?? "not_routed" };
+  const reassignedTo = details.routed.name;
+
+  // The killed agent's backlog follows its current task.
+  for (const item of queued) {
+    await enqueueAssignment(reassignedTo, item, cwd);
+  }
+  const killed = await killOne(agent.name, state, dirs, ctx);
+  return killed.ok ? { reassignedTo } : { reassignedTo, error: killed.error ?? "kill_failed" };
+}
+
+/**
+ * Heartbeat hook: walks assigned agents past their deadline up the ladder —
+ * nudge the agent, notify the orchestrator, then (with
+ * `orchestrator.reassignOnDeadline`) kill and re-route the task. Steps are
+ * `orchestrator.escalationIntervalMs` apart, one per agent per call, and each
+ * is logged as an `escalate` history event.
+ */
+export async function checkAssignmentDeadlines(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+): Promise<DeadlineEscalation[]> {
+  const cwd = orchestratorCwd(ctx);
+  const config = loadCrewConfig(crewStore.getCrewDir(cwd));
+  const intervalMs = Math.max(0, config.orchestrator.escalationIntervalMs);
+  const escalations: DeadlineEscalation[] = [];
+
+  for (const agent of getAllSpawned(cwd)) {
+    if (agent.status !== "assigned" || !agent.deadlineAt) continue;
+    const overdueMs = Date.now() - agent.deadlineAt;
+    if (overdueMs < 0) continue;
+
+    const step = nextEscalationStep(agent, overdueMs, intervalMs, config.orchestrator.reassignOnDeadline);
+    if (!step) continue;
+
+    // Record the step before acting so an overlapping tick cannot repeat it.
+    registerSpawned({ ...agent, escalation: step }, cwd);
+    const escalation: DeadlineEscalation = { name: agent.name, step, task: agent.assignedTask, overdueMs };
+    const overdue = formatDuration(overdueMs);
+
+    try {
+      if (step === "nudge") {
+        messengerStore.sendMessageToAgent(
+          state,
+          dirs,
+          agent.name,
+          `⏰ Your deadline for "${agent.assignedTask ?? "your task"}" passed ${overdue} ago. Finish up and call agents.done, or reply with your status.`,
+        );
+      } else if (step === "notify") {
+        const owner = agent.assignedBy ?? agent.spawnedBy;
+        if (owner && owner !== state.agentName) {
+          messengerStore.sendMessageToAgent(
+            state,
+            dirs,
+            owner,
+            `⏰ ${agent.name} is ${overdue} past the deadline for "${agent.assignedTask ?? "its task"}" and has not called agents.done.`,
+          );
+        }
+      } else {
+        Object.assign(escalation, await reassignOverdue(agent, state, dirs, ctx));
+      }
+    } catch (error) {
+      escalation.error = error instanceof Error ? error.message : "unknown";
+    }
+
+    logHistory({
+      event: "escalate",
+      agent: agent.name,
+      timestamp: new Date().toISOString(),
+      details: {
+        step,
+        task: agent.assignedTask,
+        deadline: new Date(agent.deadlineAt).toISOString(),
+        overdueMs,
+        ...(escalation.reassignedTo !== undefined ? { reassignedTo: escalation.reassignedTo } : {}),
+        ...(escalation.error ? { error: escalation.error } : {}),
+      },
+    }, cwd);
+    escalations.push(escalation);
+  }
+
+  return escalations;
+}
+
+export interface CrashResume {
+  name: string;
+  attempt: number;
+  maxRestarts: number;
+  task: string | null;
+  respawnedAs: string | null;
+  error?: string;
+}
+
+function formatCrashRecap(crash: CrashedAssignment, attempt: number, maxRestarts: number): string {
+  const lines = [
+    "## Resumed After Crash",
+    `Your previous session exited unexpectedly (${crash.reason}) ${formatDuration(Math.max(0, Date.now() - crash.crashedAt))} ago; this is restart ${attempt} of ${maxRestarts}. Check the working tree for partial changes before redoing work.`,
+  ];
+  if (crash.progress) {
+    const files = crash.progress.filesModified;
+    lines.push(`Progress before the crash: ${crash.progress.toolCalls} tool calls, files modified: ${files.length > 0 ? files.join(", ") : "(none)"}.`);
+    if (crash.progress.currentActivity) lines.push(`Last activity: ${crash.progress.currentActivity}`);
+  }
+  if (crash.logs.length > 0) {
+    lines.push("", "### Last output", "```", ...crash.logs, "```");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Heartbeat hook: respawns agents that died mid-task (same name, model,
+ * thinking and workstream) once their restart backoff has elapsed, re-sends
+ * the original assignment with a crash recap and restores their queue.
+ */
+export async function resumeCrashedAgents(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+): Promise<CrashResume[]> {
+  const cwd = orchestratorCwd(ctx);
+  const resumed: CrashResume[] = [];
+
+  for (const crash of getCrashedAssignments(cwd)) {
+    const { agent } = crash;
+    const policy = agent.restartPolicy;
+    const restarts = agent.restarts ?? 0;
+    if (!policy || restarts >= policy.maxRestarts) {
+      clearCrashedAssignment(agent.name, cwd);
+      continue;
+    }
+    if (Date.now() < crash.crashedAt + policy.backoffMs * 2 ** restarts) continue;
+
+    // Claim the record before the slow spawn so an overlapping tick skips it.
+    clearCrashedAssignment(agent.name, cwd);
+    const attempt = restarts + 1;
+    const outcome: CrashResume = {
+      name: agent.name,
+      attempt,
+      maxRestarts: policy.maxRestarts,
+      task: agent.assignedTask,
+      respawnedAs: null,
+    };
+
+    const spawned = await executeSpawn({
+      name: agent.name,
+      model: agent.model,
+      ...(agent.thinking ? { thinking: agent.thinking } : {}),
+      ...(agent.currentWorkstream ? { workstream: agent.currentWorkstream } : {}),
+      ...(agent.profile ? { profile: agent.profile } : {}),
+      ...(agent.worktree ? { worktree: true } : {}),
+      maxRestarts: policy.maxRestarts,
+      restartBackoffMs: policy.backoffMs,
+    }, { ...state, agentName: agent.spawnedBy }, dirs, ctx);
+    const spawnedDetails = spawned.details as { name?: string; status?: string; error?: string };
+
+    if (spawnedDetails.status !== "idle" || !spawnedDetails.name) {
+      outcome.error = spawnedDetails.error ?? "spawn_failed";
+      if (attempt < policy.maxRestarts) {
+        saveCrashedAssignment({ ...crash, agent: { ...agent, restarts: attempt }, crashedAt: Date.now() }, cwd);
+      }
+    } else {
+      const name = spawnedDetails.name;
+      const fresh = getSpawned(name, cwd);
+      if (fresh) registerSpawned({ ...fresh, restarts: attempt }, cwd);
+      outcome.respawnedAs = name;
+
+      const assigned = await executeAgentsAssign({
+        name,
+        task: agent.assignedTask ?? undefined,
+        ...(agent.currentWorkstream ? { workstream: agent.currentWorkstream } : {}),
+        ...(agent.assignmentTimeoutMs ? { timeoutMs: agent.assignmentTimeoutMs } : {}),
+      }, { ...state, agentName: agent.assignedBy ?? agent.spawnedBy }, dirs, ctx, {
+        preamble: formatCrashRecap(crash, attempt, policy.maxRestarts),
+      });
+      const assignError = (assigned.details as { error?: string }).error;
+      if (assignError) outcome.error = assignError;
+
+      for (const item of crash.queue) {
+        await enqueueAssignment(name, item, cwd);
+      }
+    }
+
+    logHistory({
+      event: "restart",
+      agent: agent.name,
+      timestamp: new Date().toISOString(),
+      details: {
+        attempt,
+        maxRestarts: policy.maxRestarts,
+        reason: crash.reason,
+        task: agent.assignedTask,
+        respawnedAs: outcome.respawnedAs,
+        requeued: outcome.respawnedAs ? crash.queue.length : 0,
+        ...(outcome.error ? { error: outcome.error } : {}),
+      },
+    }, cwd);
+    resumed.push(outcome);
+  }
+
+  return resumed;
+}
+
+/**
+ * Pops the head of an idle agent's queue and assigns it as the calling
+ * orchestrator, naming whoever queued it. A failed assignment puts the item
+ * back in its original slot.
+ */
+async function dispatchNextQueued(
+  name: string,
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+): Promise<QueuedAssignment | null> {
+  const cwd = orchestratorCwd(ctx);
+  // A queue locked elsewhere is retried on the next heartbeat.
+  const next = await dequeueAssignment(name, undefined, cwd).catch(() => null);
+  if (!next) return null;
+
+  const assigned = await executeAgentsAssign(
+    {
+      name,
+      task: next.task,
+      ...(next.workstream ? { workstream: next.workstream } : {}),
+      ...(next.timeoutMs ? { timeoutMs: next.timeoutMs } : {}),
+    },
+    state,
+    dirs,
+    ctx,
+    {
+      ...(next.enqueuedBy !== state.agentName ? { preamble: `Queued for you by ${next.enqueuedBy}.` } : {}),
+      ...(next.deadlineAt ? { deadlineAt: next.deadlineAt } : {}),
+    },
+  );
+
+  if ((assigned.details as { assigned?: boolean }).assigned !== true) {
+    await enqueueAssignment(name, next, cwd);
+    return null;
+  }
+  return next;
+}
+
+/**
+ * Heartbeat hook: gives each idle agent with queued work the head of its
+ * queue. Runs in the orchestrator, so workers finishing a task never send
+ * assignments themselves.
+ */
+export async function dispatchQueuedWork(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+): Promise<Array<{ name: string; task: string }>> {
+  const cwd = orchestratorCwd(ctx);
+  const dispatched: Array<{ name: string; task: string }> = [];
+  for (const agent of getAllSpawned(cwd)) {
+    if (agent.status !== "idle" && agent.status !== "joined") continue;
+    if (getQueue(agent.name, cwd).length === 0) continue;
+    const next = await dispatchNextQueued(agent.name, state, dirs, ctx);
+    if (next) dispatched.push({ name: agent.name, task: next.task });
+  }
+  return dispatched;
+}
+
+function formatQueue(name: string, queue: QueuedAssignment[]): string {
+  if (queue.length === 0) return `# Queue: ${name}\n\nNo queued tasks.`;
+  const lines = queue.map((item, index) => {
+    const workstream = item.workstream ? ` [${item.workstream}]` : "";
+    const priority = item.priority !== 0 ? ` (priority ${item.priority})` : "";
+    return `${index + 1}. ${item.id}${workstream}${priority}: ${item.task}`;
+  });
+  return `# Queue: ${name} (${queue.length})\n\n${lines.join("\n")}`;
+}
+
+export async function executeAgentsQueue(
+  params: CrewParams,
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const name = params.name;
+  if (!name) {
+    return result("Error: agents.queue requires name.", {
+      mode: "agents.queue",
+      error: "missing_name",
+    });
+  }
+
+  const agent = getSpawned(name, cwd);
+  if (!agent) {
+    return result(`Error: agent ${name} not found.`, {
+      mode: "agents.queue",
+      error: "not_found",
+      name,
+    });
+  }
+
+  const task = params.task?.trim();
+  if (!task) {
+    const queue = getQueue(name, cwd);
+    return result(formatQueue(name, queue), {
+      mode: "agents.queue",
+      name,
+      queue,
+      count: queue.length,
+    });
+  }
+
+  if (agent.status === "dead" || agent.status === "done") {
+    return result("Error: Agent is no longer running.", {
+      mode: "agents.queue",
+      error: "not_running",
+      name,
+    });
+  }
+
+  // Only an explicit deadline travels with the item; the configured default
+  // applies when it is dispatched.
+  const absolute = Boolean(params.deadline?.trim());
+  const deadline = absolute || Number(params.timeoutMs) > 0
+    ? resolveAssignmentDeadline(params, loadCrewConfig(crewStore.getCrewDir(cwd)), Date.now())
+    : { timeoutMs: null, deadlineAt: null };
+  if ("error" in deadline) {
+    return result(`Error: ${deadline.error}.`, {
+      mode: "agents.queue",
+      error: "invalid_deadline",
+      name,
+    });
+  }
+
+  const priority = typeof params.priority === "number" && Number.isFinite(params.priority)
+    ? Math.floor(params.priority)
+    : 0;
+  const enqueued = await enqueueAssignment(name, {
+    task,
+    workstream: resolveWorkstream(params),
+    priority,
+    enqueuedBy: state.agentName,
+    ...(absolute ? { deadlineAt: deadline.deadlineAt } : deadline.timeoutMs ? { timeoutMs: deadline.timeoutMs } : {}),
+  }, cwd).catch(() => null);
+  if (!enqueued) {
+    return result(`Error: the queue for ${name} is locked by another session; try again.`, {
+      mode: "agents.queue",
+      error: "queue_locked",
+      name,
+    });
+  }
+  const { item, position } = enqueued;
+
+  logHistory({
+    event: "queue",
+    agent: name,
+    timestamp: new Date().toISOString(),
+    details: { id: item.id, task, workstream: item.workstream, priority, position },
+  }, cwd);
+
+  // An idle agent has nothing to wait for, so hand the head over right away.
+  let dispatched: QueuedAssignment | null = null;
+  if (agent.status === "idle" || agent.status === "joined") {
+    dispatched = await dispatchNextQueued(name, state, dirs, ctx);
+  }
+
+  const queued = getQueue(name, cwd);
+  const text = dispatched?.id === item.id
+    ? `${name} was idle; assigned immediately.`
+    : `Queued task for ${name} at position ${queued.findIndex(entry => entry.id === item.id) + 1} of ${queued.length}.`;
+
+  return result(text, {
+    mode: "agents.queue",
+    name,
+    queued: dispatched?.id !== item.id,
+    id: item.id,
+    position: dispatched?.id === item.id ? 0 : queued.findIndex(entry => entry.id === item.id) + 1,
+    dispatched,
+    queue: queued,
+  });
+}
+
+export async function executeAgentsDequeue(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const name = params.name;
+  if (!name) {
+    return result("Error: agents.dequeue requires name.", {
+      mode: "agents.dequeue",
+      error: "missing_name",
+    });
+  }
+
+  const id = params.id?.trim() || undefined;
+  const removed = await dequeueAssignment(name, id, cwd).catch(() => undefined);
+  if (removed === undefined) {
+    return result(`Error: the queue for ${name} is locked by another session; try again.`, {
+      mode: "agents.dequeue",
+      error: "queue_locked",
+      name,
+      id: id ?? null,
+    });
+  }
+  if (!removed) {
+    return result(id ? `Error: no queued task ${id} for ${name}.` : `Error: ${name} has no queued tasks.`, {
+      mode: "agents.dequeue",
+      error: "not_queued",
+      name,
+      id: id ?? null,
+    });
+  }
+
+  logHistory({
+    event: "dequeue",
+    agent: name,
+    timestamp: new Date().toISOString(),
+    details: { id: removed.id, task: removed.task },
+  }, cwd);
+
+  const queue = getQueue(name, cwd);
+  return result(`Removed queued task ${removed.id} from ${name}: ${removed.task}`, {
+    mode: "agents.dequeue",
+    name,
+    removed,
+    queue,
+  });
+}
+
+export async function executeAgentsCheck(
+  params: CrewParams,
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const name = params.name;
+
+  if (!name) {
+    return result("Error: agents.check requires name.", {
+      mode: "agents.check",
+      error: "missing_name",
+    });
+  }
+
+  const agent = getSpawned(name, cwd);
+  if (!agent) {
     return result(`Error: agent ${name} not found.`, {
       mode: "agents.check",
       error: "not_found",
@@ -1501,8 +2349,7 @@ export async function executeAgentsCheck(
 
   const alive = isPidAlive(agent.pid);
   if (!alive && agent.status !== "dead") {
-    transitionState(name, "dead", cwd);
-    unregisterSpawned(name, cwd);
+    reapSpawned(name, "pid_exited", cwd);
   }
 
   const mesh = readMeshRegistration(name, dirs);
@@ -1537,6 +2384,11 @@ export async function executeAgentsCheck(
   lines.push(`Model: ${formatModelLabel(agent)}`);
   lines.push(`Task: ${agent.assignedTask ?? "(none)"}`);
   lines.push(`Workstream: ${agent.currentWorkstream ?? "(none)"}`);
+  if (agent.deadlineAt) {
+    const remaining = agent.deadlineAt - Date.now();
+    const when = remaining >= 0 ? `in ${formatDuration(remaining)}` : `${formatDuration(-remaining)} overdue`;
+    lines.push(`Deadline: ${new Date(agent.deadlineAt).toISOString()} (${when}${agent.escalation ? `, escalation: ${agent.escalation}` : ""})`);
+  }
   lines.push(`Uptime: ${uptime}`);
   lines.push(`Activity: ${currentActivity} (${activityAgo})`);
   lines.push(`Tools: ${toolCalls} calls, ${tokenText} tokens`);
@@ -1551,6 +2403,8 @@ export async function executeAgentsCheck(
     model: formatModelLabel(agent),
     assignedTask: agent.assignedTask,
     workstream: agent.currentWorkstream ?? null,
+    deadline: agent.deadlineAt ? new Date(agent.deadlineAt).toISOString() : null,
+    escalation: agent.escalation ?? null,
     uptime,
     activity: {
       current: currentActivity,
@@ -1572,7 +2426,7 @@ export async function executeAgentsAttach(
   params: CrewParams,
   ctx: ExtensionContext,
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const name = params.name;
 
   if (!name) {
@@ -1591,43 +2445,669 @@ export async function executeAgentsAttach(
     });
   }
 
-  if (agent.backend === "headless") {
-    return result("Agent is running in headless mode. Use agents.logs instead.", {
+  const attach = getBackend(agent.backend).attach(agent);
+  if (!attach.command) {
+    if (agent.backend === "tmux") {
+      return result(`Error: ${name} has no tmux window id.`, {
+        mode: "agents.attach",
+        error: "missing_window_id",
+        name,
+      });
+    }
+    return result(`Agent is running in ${agent.backend} mode. Use agents.logs instead.`, {
       mode: "agents.attach",
       name,
-      backend: "headless",
+      backend: agent.backend,
     });
   }
 
-  if (!agent.tmuxWindowId) {
-    return result(`Error: ${name} has no tmux window id.`, {
+  if (attach.attached) {
+    return result(`Attached to ${name} in tmux window ${agent.tmuxWindowId}.`, {
       mode: "agents.attach",
-      error: "missing_window_id",
       name,
+      attached: true,
+      command: attach.command,
     });
   }
 
-  const command = `tmux select-window -t ${agent.tmuxWindowId}`;
+  return result(`To attach: ${attach.command}`, {
+    mode: "agents.attach",
+    name,
+    attached: false,
+    command: attach.command,
+  });
+}
 
-  if (process.env.TMUX) {
-    try {
-      execFileSync("tmux", ["select-window", "-t", agent.tmuxWindowId], { stdio: "ignore" });
-      return result(`Attached to ${name} in tmux window ${agent.tmuxWindowId}.`, {
-        mode: "agents.attach",
-        name,
-        attached: true,
-        command,
+function resolveMemoryTypes(params: CrewParams): MemoryType[] | null {
+  const raw = params.memoryType;
+  if (raw === undefined) return [];
+  const values = Array.isArray(raw) ? raw : [raw];
+  const types: MemoryType[] = [];
+  for (const value of values) {
+    if (!MEMORY_TYPES.includes(value as MemoryType)) return null;
+    types.push(value as MemoryType);
+  }
+  return types;
+}
+
+function resolveMemoryScope(params: CrewParams): MemoryScope | null {
+  const scope = params.scope ?? "project";
+  return scope === "project" || scope === "global" ? scope : null;
+}
+
+/**
+ * Links a memory to the crew task named by `id` and to commit SHAs from
+ * `evidence.commits` plus any evidence already recorded on that task.
+ */
+function resolveMemoryProvenance(cwd: string, params: CrewParams): MemoryProvenance | undefined {
+  const crewTask = params.id ? crewStore.getTask(cwd, params.id) : null;
+  const commits = Array.from(new Set([
+    ...(params.evidence?.commits ?? []),
+    ...(crewTask?.evidence?.commits ?? []),
+  ].map(sha => sha.trim()).filter(Boolean)));
+
+  const provenance: MemoryProvenance = {
+    ...(crewTask ? { crewTaskId: crewTask.id } : {}),
+    ...(commits.length > 0 ? { commits } : {}),
+  };
+  return Object.keys(provenance).length > 0 ? provenance : undefined;
+}
+
+function formatMemoryEntry(entry: MemoryEntry): string {
+  const age = formatDuration(Math.max(0, Date.now() - entry.createdAtMs));
+  const tags = [entry.type, entry.agent, `${age} ago`, `sim ${entry.similarity.toFixed(2)}`];
+  if (entry.workstream) tags.push(`ws ${entry.workstream}`);
+  if (entry.taskId) tags.push(`task ${entry.taskId}`);
+  if (entry.scope === "global") tags.push("global");
+  return `- ${entry.id} (${tags.join(", ")}): ${entry.text}`;
+}
+
+export async function executeAgentsMemorySearch(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const query = params.query?.trim();
+  if (!query) {
+    return result("Error: agents.memory.search requires query.", {
+      mode: "agents.memory.search",
+      error: "missing_query",
+    });
+  }
+
+  const typeFilter = resolveMemoryTypes(params);
+  if (!typeFilter) {
+    return result(`Error: memoryType must be one of ${MEMORY_TYPES.join(", ")}.`, {
+      mode: "agents.memory.search",
+      error: "invalid_memory_type",
+    });
+  }
+
+  const store = await ensureMemory(cwd);
+  if (!store || !store.enabled || store.degraded) {
+    return result("Memory store unavailable.", {
+      mode: "agents.memory.search",
+      available: false,
+      reason: store?.reason,
+    });
+  }
+
+  const workstream = resolveWorkstream(params);
+  const limit = typeof params.limit === "number" && Number.isFinite(params.limit)
+    ? Math.max(1, Math.min(50, Math.floor(params.limit)))
+    : undefined;
+
+  const recalled = await recall(store, query, {
+    ...(limit ? { topk: limit } : {}),
+    ...(params.name ? { agentFilter: params.name } : {}),
+    ...(typeFilter.length > 0 ? { typeFilter } : {}),
+    ...(workstream ? { workstreamFilter: workstream } : {}),
+    ...(await globalRecallOptions(cwd)),
+  });
+
+  const text = recalled.results.length > 0
+    ? recalled.results.map(formatMemoryEntry).join("\n")
+    : recalled.degraded
+      ? "Memory search degraded; no results."
+      : "No matching memories.";
+
+  return result(text, {
+    mode: "agents.memory.search",
+    query,
+    count: recalled.results.length,
+    degraded: recalled.degraded ?? false,
+    results: recalled.results,
+  });
+}
+
+export async function executeAgentsMemoryAdd(
+  params: CrewParams,
+  state: MessengerState,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const content = params.content?.trim();
+  if (!content) {
+    return result("Error: agents.memory.add requires content.", {
+      mode: "agents.memory.add",
+      error: "missing_content",
+    });
+  }
+
+  const memoryType = (params.memoryType ?? "discovery") as MemoryType;
+  if (Array.isArray(params.memoryType) || !WRITABLE_MEMORY_TYPES.includes(memoryType)) {
+    return result(`Error: memoryType must be one of ${WRITABLE_MEMORY_TYPES.join(", ")}.`, {
+      mode: "agents.memory.add",
+      error: "invalid_memory_type",
+    });
+  }
+
+  const scope = resolveMemoryScope(params);
+  if (!scope) {
+    return result("Error: scope must be project or global.", {
+      mode: "agents.memory.add",
+      error: "invalid_scope",
+    });
+  }
+
+  const store = await ensureScopedMemory(cwd, scope);
+  if (!store || !store.enabled || store.degraded) {
+    return result("Memory store unavailable.", {
+      mode: "agents.memory.add",
+      scope,
+      available: false,
+      reason: store?.reason,
+    });
+  }
+
+  const caller = getSpawned(state.agentName, cwd);
+  const workstream = resolveWorkstream(params) ?? caller?.currentWorkstream ?? undefined;
+  const taskId = params.taskId ?? caller?.assignedTask ?? undefined;
+
+  const stored = await remember(store, content, {
+    agent: state.agentName,
+    type: memoryType,
+    source: "agents.memory.add",
+    taskId,
+    workstream,
+    files: params.paths ?? [],
+    provenance: resolveMemoryProvenance(cwd, params),
+  });
+
+  if (!stored.ok) {
+    return result(`Error: failed to store memory: ${stored.error ?? "unknown"}`, {
+      mode: "agents.memory.add",
+      error: "remember_failed",
+      reason: stored.error,
+      degraded: stored.degraded ?? false,
+    });
+  }
+
+  return result(stored.duplicate ? "Memory already stored (duplicate content)." : `Stored ${scope === "global" ? "global " : ""}${memoryType} memory ${stored.id}.`, {
+    mode: "agents.memory.add",
+    stored: true,
+    id: stored.id,
+    duplicate: stored.duplicate ?? false,
+    type: memoryType,
+    scope,
+    workstream: workstream ?? null,
+    taskId: taskId ?? null,
+  });
+}
+
+export async function executeAgentsMemoryForget(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const id = params.id?.trim();
+  const hash = params.contentHash?.trim();
+  if (!id && !hash) {
+    return result("Error: agents.memory.forget requires id or contentHash.", {
+      mode: "agents.memory.forget",
+      error: "missing_target",
+    });
+  }
+
+  const scope = resolveMemoryScope(params);
+  if (!scope) {
+    return result("Error: scope must be project or global.", {
+      mode: "agents.memory.forget",
+      error: "invalid_scope",
+    });
+  }
+
+  const store = await ensureScopedMemory(cwd, scope);
+  if (!store || !store.enabled || store.degraded) {
+    return result("Memory store unavailable.", {
+      mode: "agents.memory.forget",
+      scope,
+      available: false,
+      reason: store?.reason,
+    });
+  }
+
+  const removed = await forgetMemory(store, { id, contentHash: hash });
+  return result(removed > 0 ? `Forgot ${removed} memory entr${removed === 1 ? "y" : "ies"}.` : "No matching memory entries.", {
+    mode: "agents.memory.forget",
+    removed,
+    scope,
+    id: id ?? null,
+    contentHash: hash ?? null,
+  });
+}
+
+function resolveCwdPath(cwd: string, raw: string): string {
+  return path.isAbsolute(raw) ? raw : path.join(cwd, raw);
+}
+
+export async function executeAgentsMemoryExport(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const store = await ensureMemory(cwd);
+  if (!store || !store.enabled || store.degraded) {
+    return result("Memory store unavailable.", {
+      mode: "agents.memory.export",
+      available: false,
+      reason: store?.reason,
+    });
+  }
+
+  const outPath = params.out?.trim();
+  const workstream = resolveWorkstream(params);
+  const exported = exportMemory(store, {
+    ...(outPath ? { outPath: resolveCwdPath(cwd, outPath) } : {}),
+    ...(typeof params.includeVectors === "boolean" ? { includeVectors: params.includeVectors } : {}),
+    ...(workstream ? { workstream } : {}),
+  });
+
+  return result(`Memory exported to ${exported.outPath} (${exported.exported} entries, ${exported.withVectors} with vectors).`, {
+    mode: "agents.memory.export",
+    export: exported,
+  });
+}
+
+export async function executeAgentsMemoryImport(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const file = params.file?.trim();
+  if (!file) {
+    return result("Error: agents.memory.import requires file.", {
+      mode: "agents.memory.import",
+      error: "missing_file",
+    });
+  }
+
+  const inPath = resolveCwdPath(cwd, file);
+  if (!fs.existsSync(inPath)) {
+    return result(`Error: import file not found: ${inPath}`, {
+      mode: "agents.memory.import",
+      error: "not_found",
+      file: inPath,
+    });
+  }
+
+  const store = await ensureMemory(cwd);
+  if (!store || !store.enabled || store.degraded) {
+    return result("Memory store unavailable.", {
+      mode: "agents.memory.import",
+      available: false,
+      reason: store?.reason,
+    });
+  }
+
+  const imported = await importMemory(store, inPath);
+  if (imported.error) {
+    return result(`Error: memory import stopped (${imported.error}) after ${imported.imported} imported, ${imported.skipped} skipped.`, {
+      mode: "agents.memory.import",
+      error: memoryErrorCode(imported.error, "import_failed"),
+      import: imported,
+    });
+  }
+  const errorSuffix = imported.errors.length > 0 ? `\n${imported.errors.join("\n")}` : "";
+  return result(
+    `Memory import from ${inPath}: ${imported.imported} imported (${imported.reembedded} re-embedded), ${imported.skipped} skipped, ${imported.failed} failed.${errorSuffix}`,
+    {
+      mode: "agents.memory.import",
+      import: imported,
+    },
+  );
+}
+
+export async function executeAgentsMemoryCompact(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const types = resolveMemoryTypes(params);
+  if (!types) {
+    return result(`Error: memoryType must be one of ${MEMORY_TYPES.join(", ")}.`, {
+      mode: "agents.memory.compact",
+      error: "invalid_memory_type",
+    });
+  }
+
+  const store = await ensureMemory(cwd);
+  if (!store || !store.enabled || store.degraded) {
+    return result("Memory store unavailable.", {
+      mode: "agents.memory.compact",
+      available: false,
+      reason: store?.reason,
+    });
+  }
+
+  const workstream = resolveWorkstream(params);
+  const compacted = await compactMemory(store, {
+    ...(workstream ? { workstream } : {}),
+    ...(types.length > 0 ? { types } : {}),
+    ...(typeof params.similarity === "number" ? { similarity: params.similarity } : {}),
+    ...(params.dryRun === true ? { dryRun: true } : {}),
+  });
+  if (compacted.error) {
+    return result(`Error: memory compaction stopped (${compacted.error}) after merging ${compacted.removed} entries into ${compacted.created}.`, {
+      mode: "agents.memory.compact",
+      error: memoryErrorCode(compacted.error, "compact_failed"),
+      compact: compacted,
+    });
+  }
+
+  const lines = compacted.clusters.map(cluster =>
+    `- ${cluster.workstream ?? "(none)"} · ${cluster.type} ← ${cluster.sourceIds.length} entries: ${cluster.text.slice(0, 160)}`,
+  );
+  const header = compacted.dryRun
+    ? `Dry run: ${compacted.clusters.length} cluster(s) would merge from ${compacted.scanned} scanned entries.`
+    : `Compacted ${compacted.removed} entries into ${compacted.created} (${compacted.failed} failed, ${compacted.scanned} scanned).`;
+
+  return result([header, ...lines].join("\n"), {
+    mode: "agents.memory.compact",
+    compact: compacted,
+  });
+}
+
+export async function executeAgentsMemoryReindex(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const scope = resolveMemoryScope(params);
+  if (!scope) {
+    return result("Error: scope must be project or global.", {
+      mode: "agents.memory.reindex",
+      error: "invalid_scope",
+    });
+  }
+
+  const config = loadCrewConfig(crewStore.getCrewDir(cwd));
+  const batchSize = typeof params.limit === "number" && Number.isFinite(params.limit) ? params.limit : undefined;
+
+  const reindexed = await reindexMemory(scope === "global" ? globalMemoryRoot() : cwd, config.orchestrator.memory, {
+    ...(batchSize ? { batchSize } : {}),
+    onProgress: (done, total) => {
+      if (ctx.hasUI) ctx.ui.setStatus("messenger-memory", `memory reindex: ${done}/${total}`);
+    },
+  });
+  if (ctx.hasUI) ctx.ui.setStatus("messenger-memory", undefined);
+
+  if (!reindexed.ok) {
+    return result(`Error: memory reindex failed (${reindexed.error ?? "unknown"}) after ${reindexed.reindexed}/${reindexed.total} entries. Existing memory was left unchanged.`, {
+      mode: "agents.memory.reindex",
+      error: memoryErrorCode(reindexed.error, "reindex_failed"),
+      scope,
+      reindex: reindexed,
+    });
+  }
+
+  // The global store may have failed to open with the old embedding space.
+  if (scope === "global") failedGlobalMemory = null;
+  await ensureScopedMemory(cwd, scope);
+
+  const from = reindexed.fromModel ? `${reindexed.fromModel}/${reindexed.fromDimensions ?? "?"}` : "(empty)";
+  return result(
+    `${scope === "global" ? "Global memory" : "Memory"} reindexed ${from} → ${reindexed.toModel}/${reindexed.toDimensions}: ${reindexed.reindexed}/${reindexed.total} entries in ${reindexed.batches} batch(es)${reindexed.failed > 0 ? `, ${reindexed.failed} failed to re-embed (saved to ${reindexed.failedPath}; retry with agents.memory.import)` : ""}.${reindexed.backupPath ? ` Backup: ${reindexed.backupPath}` : ""}`,
+    {
+      mode: "agents.memory.reindex",
+      scope,
+      reindex: reindexed,
+    },
+  );
+}
+
+export async function executeAgentsMemoryTrace(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const file = params.file?.trim() || params.paths?.[0]?.trim();
+  const taskId = params.id?.trim() || params.taskId?.trim();
+  if (!file && !taskId) {
+    return result("Error: agents.memory.trace requires file or id.", {
+      mode: "agents.memory.trace",
+      error: "missing_target",
+    });
+  }
+
+  const store = await ensureMemory(cwd);
+  if (!store || !store.enabled || store.degraded) {
+    return result("Memory store unavailable.", {
+      mode: "agents.memory.trace",
+      available: false,
+      reason: store?.reason,
+    });
+  }
+
+  const entries = traceMemory(store, { file, taskId });
+  const label = [file, taskId].filter(Boolean).join(" / ");
+  if (entries.length === 0) {
+    return result(`No memories touch ${label}.`, {
+      mode: "agents.memory.trace",
+      file: file ?? null,
+      taskId: taskId ?? null,
+      entries: [],
+    });
+  }
+
+  const lines = entries.map((entry) => {
+    const commits = entry.provenance?.commits?.length ? ` (commits: ${entry.provenance.commits.map(sha => sha.slice(0, 8)).join(", ")})` : "";
+    const crewTask = entry.provenance?.crewTaskId ? ` [${entry.provenance.crewTaskId}]` : "";
+    return `- ${entry.timestamp} ${entry.agent} ${entry.type}${crewTask}: ${entry.text}${commits}`;
+  });
+
+  return result(`# Memory trace: ${label}\n${lines.join("\n")}`, {
+    mode: "agents.memory.trace",
+    file: file ?? null,
+    taskId: taskId ?? null,
+    entries,
+  });
+}
+
+export async function executeAgentsHistory(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const format = params.format ?? "markdown";
+  if (format !== "markdown" && format !== "json") {
+    return result("Error: format must be markdown or json.", {
+      mode: "agents.history",
+      error: "invalid_format",
+    });
+  }
+
+  const now = Date.now();
+  const since = params.since ? parseSince(params.since, now) : null;
+  if (params.since && since === null) {
+    return result(`Error: since '${params.since}' is not an ISO timestamp or relative window (e.g. 24h, 7d).`, {
+      mode: "agents.history",
+      error: "invalid_since",
+    });
+  }
+
+  let events = readHistory(cwd);
+  if (params.name) events = events.filter(event => event.agent === params.name);
+  const report = buildTimelineReport(events, { since, until: now });
+
+  return result(format === "json" ? JSON.stringify(report, null, 2) : renderTimelineMarkdown(report), {
+    mode: "agents.history",
+    format,
+    report,
+  });
+}
+
+function formatProfile(profile: ResolvedAgentProfile): string {
+  const parts = [
+    profile.model ?? "default model",
+    profile.thinking ? `thinking ${profile.thinking}` : null,
+    profile.workstream ? `workstream ${profile.workstream}` : null,
+    profile.tools?.length ? `tools ${profile.tools.join(", ")}` : null,
+    profile.env ? `env ${Object.keys(profile.env).join(", ")}` : null,
+    profile.messageBudget !== undefined ? `budget ${profile.messageBudget}` : null,
+    profile.memory ? `memory ${Object.entries(profile.memory).map(([key, value]) => `${key}=${value}`).join(", ")}` : null,
+    profile.prompt ? `prompt ${profile.prompt.length} chars` : null,
+  ].filter(Boolean);
+  const chain = profile.chain.length > 1 ? ` (${profile.chain.join(" → ")})` : "";
+  return `- ${profile.name}${chain}: ${parts.join(" · ")}`;
+}
+
+/** The agent's worktree, or one left on disk by a killed/reaped agent. */
+function findWorktree(name: string, cwd: string): { agent: SpawnedAgent | null; worktree: AgentWorktree | null } {
+  const agent = getSpawned(name, cwd);
+  if (agent?.worktree) return { agent, worktree: agent.worktree };
+  const orphanPath = path.join(worktreesDir(cwd), name);
+  if (!fs.existsSync(orphanPath)) return { agent, worktree: null };
+  return { agent, worktree: { path: orphanPath, branch: worktreeBranch(name), baseBranch: null, baseCommit: "" } };
+}
+
+export async function executeAgentsMerge(
+  params: CrewParams,
+  state: MessengerState,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const name = params.name;
+
+  if (!name) {
+    return result("Error: agents.merge requires name.", {
+      mode: "agents.merge",
+      error: "missing_name",
+    });
+  }
+
+  const strategy: MergeStrategy = params.strategy ?? "merge";
+  if (strategy !== "merge" && strategy !== "rebase") {
+    return result("Error: strategy must be merge or rebase.", {
+      mode: "agents.merge",
+      error: "invalid_strategy",
+      name,
+    });
+  }
+
+  const { agent, worktree } = findWorktree(name, cwd);
+  if (!worktree) {
+    return result(`Error: ${name} has no git worktree (spawn with worktree: true).`, {
+      mode: "agents.merge",
+      error: agent ? "no_worktree" : "not_found",
+      name,
+    });
+  }
+
+  const outcome = mergeWorktree(cwd, worktree, strategy);
+  logHistory({
+    event: "merge",
+    agent: name,
+    timestamp: new Date().toISOString(),
+    details: {
+      strategy,
+      branch: outcome.branch,
+      into: outcome.into,
+      commits: outcome.commits,
+      ...(outcome.error ? { error: outcome.error, conflicts: outcome.conflicts } : { head: outcome.head }),
+    },
+  }, cwd);
+
+  if (!outcome.ok) {
+    const conflicts = outcome.conflicts.length > 0
+      ? `\nConflicts:\n${outcome.conflicts.map(file => `- ${file}`).join("\n")}`
+      : "";
+    return result(`Error: ${strategy} of ${outcome.branch} into ${outcome.into} failed (${outcome.message}); nothing was changed.${conflicts}`, {
+      mode: "agents.merge",
+      error: outcome.error,
+      name,
+      strategy,
+      branch: outcome.branch,
+      into: outcome.into,
+      conflicts: outcome.conflicts,
+    });
+  }
+
+  // A live worker keeps its worktree until agents.kill; leftovers are cleaned up now.
+  const cleanup = agent?.worktree ? null : removeWorktree(cwd, worktree);
+  logFeedEvent(cwd, state.agentName, "message", name, `merged ${outcome.branch} into ${outcome.into}`);
+
+  const summary = outcome.commits === 0
+    ? `${outcome.branch} has no commits beyond ${outcome.into}.`
+    : `Merged ${outcome.commits} commit(s) from ${outcome.branch} into ${outcome.into} (${strategy}).`;
+  return result(summary, {
+    mode: "agents.merge",
+    name,
+    strategy,
+    branch: outcome.branch,
+    into: outcome.into,
+    commits: outcome.commits,
+    head: outcome.head,
+    conflicts: [],
+    ...(cleanup ? { worktree: cleanup } : {}),
+  });
+}
+
+export async function executeAgentsProfiles(
+  params: CrewParams,
+  ctx: ExtensionContext,
+) {
+  const cwd = orchestratorCwd(ctx);
+  const config = loadCrewConfig(crewStore.getCrewDir(cwd));
+  const requested = params.profile?.trim();
+
+  if (requested) {
+    const resolution = resolveProfile(cwd, requested, config.orchestrator.profiles);
+    if (!resolution.ok) {
+      return result(`Error: ${resolution.message}.`, {
+        mode: "agents.profiles",
+        error: resolution.error,
+        profile: requested,
       });
-    } catch {
-      // fall through to command output
     }
+    return result(`${formatProfile(resolution.profile)}\n\n${JSON.stringify(resolution.profile, null, 2)}`, {
+      mode: "agents.profiles",
+      profile: resolution.profile,
+    });
   }
 
-  return result(`To attach: ${command}`, {
-    mode: "agents.attach",
-    name,
-    attached: false,
-    command,
+  const resolutions = listProfiles(cwd, config.orchestrator.profiles);
+  const profiles = resolutions.flatMap(resolution => resolution.ok ? [resolution.profile] : []);
+  const errors = resolutions.flatMap(resolution => resolution.ok
+    ? []
+    : [{ name: resolution.name, error: resolution.error, message: resolution.message }]);
+  if (resolutions.length === 0) {
+    return result(`No profiles defined. Add .md files to ${profilesDir(cwd)} or orchestrator.profiles in config.`, {
+      mode: "agents.profiles",
+      profiles,
+      errors,
+    });
+  }
+
+  const lines = [
+    `# Agent profiles (${profiles.length})`,
+    ...profiles.map(formatProfile),
+    ...errors.map(entry => `- ${entry.name}: ⚠️ ${entry.message}`),
+  ];
+  return result(lines.join("\n"), {
+    mode: "agents.profiles",
+    profiles,
+    errors,
   });
 }
 
@@ -1637,6 +3117,7 @@ export async function execute(
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
+  signal?: AbortSignal,
 ) {
   switch (op) {
     case "list":
@@ -1654,30 +3135,74 @@ export async function execute(
     case "check":
       return executeAgentsCheck(params, state, dirs, ctx);
 
+    case "queue":
+      return executeAgentsQueue(params, state, dirs, ctx);
+
+    case "dequeue":
+      return executeAgentsDequeue(params, ctx);
+
     case "done":
       return executeAgentsDone(params, state, dirs, ctx);
 
     case "logs":
-      return executeAgentsLogs(params, ctx);
+      return executeAgentsLogs(params, ctx, signal);
 
     case "attach":
       return executeAgentsAttach(params, ctx);
 
+    case "history":
+      return executeAgentsHistory(params, ctx);
+
+    case "profiles":
+      return executeAgentsProfiles(params, ctx);
+
+    case "merge":
+      return executeAgentsMerge(params, state, ctx);
+
     case "memory.stats": {
-      const cwd = ctx.cwd ?? process.cwd();
-      const store = await ensureMemory(cwd);
+      const cwd = orchestratorCwd(ctx);
+      const scope = resolveMemoryScope(params);
+      if (!scope) {
+        return result("Error: scope must be project or global.", { mode: "agents.memory.stats", error: "invalid_scope" });
+      }
+      const store = await ensureScopedMemory(cwd, scope);
       if (!store) {
-        return result("Memory store unavailable.", { mode: "agents.memory.stats", available: false });
+        return result("Memory store unavailable.", { mode: "agents.memory.stats", available: false, scope });
       }
       const stats = getMemoryStats(store);
       return result(JSON.stringify(stats, null, 2), {
         mode: "agents.memory.stats",
+        scope,
         stats,
       });
     }
 
+    case "memory.search":
+      return executeAgentsMemorySearch(params, ctx);
+
+    case "memory.add":
+      return executeAgentsMemoryAdd(params, state, ctx);
+
+    case "memory.forget":
+      return executeAgentsMemoryForget(params, ctx);
+
+    case "memory.export":
+      return executeAgentsMemoryExport(params, ctx);
+
+    case "memory.import":
+      return executeAgentsMemoryImport(params, ctx);
+
+    case "memory.compact":
+      return executeAgentsMemoryCompact(params, ctx);
+
+    case "memory.reindex":
+      return executeAgentsMemoryReindex(params, ctx);
+
+    case "memory.trace":
+      return executeAgentsMemoryTrace(params, ctx);
+
     case "memory.reset": {
-      const cwd = ctx.cwd ?? process.cwd();
+      const cwd = orchestratorCwd(ctx);
       resetMemory(cwd);
       return result("Orchestrator memory reset.", {
         mode: "agents.memory.reset",
@@ -8,6 +8,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { orchestratorCwd } from "../../lib.js";
 import type { CrewParams } from "../types.js";
 import { result } from "../utils/result.js";
 import { spawnAgents } from "../agents.js";
@@ -225,7 +226,7 @@ export async function execute(
   agentName: string,
   onProgress?: () => void,
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const { prd, prompt } = params;
   const reportProgress = () => onProgress?.();
   resetPlanningCancellation();
@@ -7,6 +7,7 @@
 
 import { execSync } from "node:child_process";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { orchestratorCwd } from "../../lib.js";
 import type { CrewParams } from "../types.js";
 import { result } from "../utils/result.js";
 import { spawnAgents } from "../agents.js";
@@ -19,7 +20,7 @@ export async function execute(
   params: CrewParams,
   ctx: ExtensionContext
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const { target, type } = params;
   const config = loadCrewConfig(store.getCrewDir(cwd));
   const reviewerModel = config.models?.reviewer;
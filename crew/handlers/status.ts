@@ -9,7 +9,7 @@ import { result } from "../utils/result.js";
 import { discoverCrewAgents } from "../utils/discover.js";
 import { uninstallAgents } from "../utils/install.js";
 import { loadCrewConfig } from "../utils/config.js";
-import { formatDuration } from "../../lib.js";
+import { formatDuration, orchestratorCwd } from "../../lib.js";
 import * as store from "../store.js";
 import { autonomousState, getPlanningUpdateAgeMs, isAutonomousForCwd, isPlanningForCwd, isPlanningStalled, planningState, PLANNING_STALE_TIMEOUT_MS } from "../state.js";
 
@@ -17,7 +17,7 @@ import { autonomousState, getPlanningUpdateAgeMs, isAutonomousForCwd, isPlanning
  * Execute status action - shows plan progress.
  */
 export async function execute(ctx: ExtensionContext) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const plan = store.getPlan(cwd);
 
   if (!plan) {
@@ -197,7 +197,7 @@ export async function executeCrew(
   op: string,
   ctx: ExtensionContext
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
 
   switch (op) {
     case "status": {
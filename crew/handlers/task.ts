@@ -7,6 +7,7 @@
 
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { MessengerState } from "../../lib.js";
+import { orchestratorCwd } from "../../lib.js";
 import type { CrewParams, Task, TaskEvidence } from "../types.js";
 import { result } from "../utils/result.js";
 import { loadCrewConfig } from "../utils/config.js";
@@ -22,7 +23,7 @@ export async function execute(
   state: MessengerState,
   ctx: ExtensionContext
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
 
   switch (op) {
     case "create":
@@ -7,6 +7,7 @@
 
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { Dirs } from "../../lib.js";
+import { orchestratorCwd } from "../../lib.js";
 import type { CrewParams, AppendEntryFn } from "../types.js";
 import { result } from "../utils/result.js";
 import { resolveModel, spawnAgents } from "../agents.js";
@@ -27,7 +28,7 @@ export async function execute(
   appendEntry: AppendEntryFn,
   signal?: AbortSignal
 ) {
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
   const config = loadCrewConfig(getCrewDir(cwd));
   const { autonomous, concurrency: concurrencyOverride } = params;
 
@@ -7,6 +7,7 @@
 
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { MessengerState, Dirs, AgentMailMessage, NameThemeConfig } from "../lib.js";
+import { orchestratorCwd } from "../lib.js";
 import * as handlers from "../handlers.js";
 import type { CrewParams, AppendEntryFn } from "./types.js";
 import { result } from "./utils/result.js";
@@ -90,19 +91,19 @@ export async function executeCrewAction(
     // Coordination actions (delegate to existing handlers)
     // ═══════════════════════════════════════════════════════════════════════
     case 'status':
-      return handlers.executeStatus(state, dirs, ctx.cwd ?? process.cwd());
+      return handlers.executeStatus(state, dirs, orchestratorCwd(ctx));
 
     case 'leave':
       return handlers.executeLeave(state, dirs, ctx);
 
     case 'list':
-      return handlers.executeList(state, dirs, ctx.cwd ?? process.cwd(), { stuckThreshold: config?.stuckThreshold });
+      return handlers.executeList(state, dirs, orchestratorCwd(ctx), { stuckThreshold: config?.stuckThreshold });
 
     case 'whois': {
       if (!params.name) {
         return result("Error: name required for whois action.", { mode: "whois", error: "missing_name" });
       }
-      return handlers.executeWhois(state, dirs, ctx.cwd ?? process.cwd(), params.name, { stuckThreshold: config?.stuckThreshold });
+      return handlers.executeWhois(state, dirs, orchestratorCwd(ctx), params.name, { stuckThreshold: config?.stuckThreshold });
     }
 
     case 'set_status': {
@@ -110,7 +111,7 @@ export async function executeCrewAction(
     }
 
     case 'feed': {
-      return handlers.executeFeed(ctx.cwd ?? process.cwd(), params.limit, config?.crewEventsInFeed ?? true);
+      return handlers.executeFeed(orchestratorCwd(ctx), params.limit, config?.crewEventsInFeed ?? true);
     }
 
     case 'spec':
@@ -120,10 +121,66 @@ export async function executeCrewAction(
       return handlers.executeSetSpec(state, dirs, ctx, params.spec);
 
     case 'send':
-      return handlers.executeSend(state, dirs, ctx.cwd ?? process.cwd(), params.to, false, params.message, params.replyTo);
+      return handlers.executeSend(state, dirs, orchestratorCwd(ctx), params.to, false, params.message, params.replyTo, {
+        priority: params.messagePriority, deliverAt: params.deliverAt, expiresAt: params.expiresAt,
+      });
 
     case 'broadcast':
-      return handlers.executeSend(state, dirs, ctx.cwd ?? process.cwd(), undefined, true, params.message, params.replyTo);
+      return handlers.executeSend(state, dirs, orchestratorCwd(ctx), undefined, true, params.message, params.replyTo, {
+        priority: params.messagePriority, deliverAt: params.deliverAt, expiresAt: params.expiresAt,
+      });
+
+    case 'messages': {
+      if (!op) {
+        return result("Error: messages action requires operation (e.g., 'messages.status', 'messages.history').",
+          { mode: "messages", error: "missing_operation" });
+      }
+      if (op === 'status') {
+        return handlers.executeMessageStatus(state, dirs, params.id);
+      }
+      if (op === 'deadletter') {
+        return handlers.executeDeadLetters(state, dirs, params.name, params.limit);
+      }
+      if (op === 'history') {
+        return handlers.executeMessageHistory(state, dirs, {
+          peer: params.name,
+          since: params.since,
+          thread: params.id,
+          limit: params.limit,
+        });
+      }
+      if (op === 'thread') {
+        return handlers.executeMessageThread(state, dirs, params.id);
+      }
+      return result(`Unknown action: ${action}`, { mode: "error", error: "unknown_action", action });
+    }
+
+    case 'ask':
+      return handlers.executeAsk(
+        state,
+        dirs,
+        orchestratorCwd(ctx),
+        { to: params.to, message: params.message, timeoutMs: params.timeoutMs },
+        deliverMessage,
+        signal,
+      );
+
+    case 'channel': {
+      if (!op) {
+        return result("Error: channel action requires operation (e.g., 'channel.join', 'channel.leave', 'channel.list').",
+          { mode: "channel", error: "missing_operation" });
+      }
+      if (op === 'join') {
+        return handlers.executeChannelJoin(state, dirs, params.channel);
+      }
+      if (op === 'leave') {
+        return handlers.executeChannelLeave(state, dirs, params.channel);
+      }
+      if (op === 'list') {
+        return handlers.executeChannelList(state, dirs);
+      }
+      return result(`Unknown action: ${action}`, { mode: "error", error: "unknown_action", action });
+    }
 
     case 'reserve':
       if (!params.paths || params.paths.length === 0) {
@@ -181,7 +238,7 @@ export async function executeCrewAction(
       }
       try {
         const orchestratorHandlers = await import("./handlers/orchestrator.js");
-        return orchestratorHandlers.execute(op, params, state, dirs, ctx);
+        return orchestratorHandlers.execute(op, params, state, dirs, ctx, signal);
       } catch (e) {
         return result(`Error: agents.${op} handler failed: ${e instanceof Error ? e.message : 'unknown'}`,
           { mode: "agents", error: "handler_error", operation: op });
@@ -204,7 +261,7 @@ export async function executeCrewAction(
 
     case 'plan': {
       if (op === 'cancel') {
-        const cwd = ctx.cwd ?? process.cwd();
+        const cwd = orchestratorCwd(ctx);
         if (!isPlanningForCwd(cwd)) {
           return result("No active planning to cancel.", { mode: "plan.cancel" });
         }
@@ -223,7 +280,7 @@ export async function executeCrewAction(
 
     case 'work': {
       if (op === 'stop') {
-        const cwd = ctx.cwd ?? process.cwd();
+        const cwd = orchestratorCwd(ctx);
         if (!isAutonomousForCwd(cwd)) {
           return result("No autonomous work running for this project.", { mode: "work.stop" });
         }
@@ -0,0 +1,316 @@
+import { spawn, execFileSync, type ChildProcess } from "node:child_process";
+import * as fs from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { appendLog, tmuxPipeCommand, type AgentLogSink } from "./logs.js";
+import type { SandboxCommands, SandboxConfig, SpawnBackend, SpawnedAgent } from "./types.js";
+
+const PROCESS_LOG_LIMIT = 2000;
+
+export interface BackendLaunch {
+  name: string;
+  cwd: string;
+  /** Arguments for `pi` (model, thinking, profile args, extension, prompt). */
+  args: string[];
+  /** Worker env on top of the orchestrator's, including PI_AGENT_NAME. */
+  env: Record<string, string>;
+  extensionDir: string;
+  /** Required by the sandbox backend. */
+  sandbox?: SandboxConfig;
+  /** Persistent log the worker's output is also written to. */
+  log?: AgentLogSink;
+  /** Called once a process-backed worker exits, with its last output lines. */
+  onExit?: (logs: string[]) => void;
+}
+
+export interface BackendHandle {
+  pid: number;
+  tmuxPaneId: string | null;
+  tmuxWindowId: string | null;
+  sandbox?: SandboxCommands;
+}
+
+export interface BackendAttach {
+  command: string | null;
+  attached: boolean;
+}
+
+/** Where orchestrator workers run: launch, liveness, teardown, output and attach. */
+export interface SpawnBackendDriver {
+  id: SpawnBackend;
+  /**
+   * Whether the mesh PID must be the launched PID or its descendant. Wrappers
+   * that start the worker elsewhere (e.g. `docker run`) can't promise that.
+   */
+  ownsWorkerPid: boolean;
+  /** Launches `pi`; throws when the backend cannot start the worker. */
+  spawn(launch: BackendLaunch): BackendHandle;
+  isAlive(agent: SpawnedAgent): boolean;
+  /** Releases what the backend holds for the agent (pane, wrapper, container). */
+  kill(agent: SpawnedAgent): void;
+  /** Last `lines` of output, or null when none were captured; throws on capture errors. */
+  logs(agent: SpawnedAgent, lines: number): string[] | null;
+  attach(agent: SpawnedAgent): BackendAttach;
+}
+
+interface ProcessRuntime {
+  proc: ChildProcess;
+  logs: string[];
+  sink?: AgentLogSink;
+}
+
+const processRuntimes = new Map<string, ProcessRuntime>();
+
+function isPidAlive(pid: number): boolean {
+  if (!Number.isFinite(pid) || pid <= 0) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function shellEscape(input: string): string {
+  return `'${input.replace(/'/g, `'\\''`)}'`;
+}
+
+function appendLogs(name: string, chunk: string): void {
+  const runtime = processRuntimes.get(name);
+  if (!runtime) return;
+
+  const lines = chunk.replace(/\r/g, "").split("\n").filter(Boolean);
+  runtime.logs.push(...lines);
+  if (runtime.sink) appendLog(runtime.sink, lines);
+
+  if (runtime.logs.length > PROCESS_LOG_LIMIT) {
+    runtime.logs.splice(0, runtime.logs.length - PROCESS_LOG_LIMIT);
+  }
+}
+
+/** Runs a worker as a child process whose stdout/stderr are kept in memory. */
+function spawnProcess(command: string, args: string[], launch: BackendLaunch): BackendHandle {
+  const proc = spawn(command, args, {
+    cwd: launch.cwd,
+    stdio: ["ignore", "pipe", "pipe"],
+    env: { ...process.env, ...launch.env },
+  });
+  processRuntimes.set(launch.name, { proc, logs: [], sink: launch.log });
+
+  proc.stdout?.on("data", (chunk) => appendLogs(launch.name, String(chunk)));
+  proc.stderr?.on("data", (chunk) => appendLogs(launch.name, String(chunk)));
+  proc.on("error", (error) => appendLogs(launch.name, `[spawn error] ${error.message}`));
+  proc.on("close", () => {
+    const logs = processRuntimes.get(launch.name)?.logs ?? [];
+    processRuntimes.delete(launch.name);
+    launch.onExit?.(logs);
+  });
+
+  return { pid: proc.pid ?? 0, tmuxPaneId: null, tmuxWindowId: null };
+}
+
+function processLogs(agent: SpawnedAgent, lines: number): string[] | null {
+  const runtime = processRuntimes.get(agent.name);
+  return runtime ? runtime.logs.slice(-Math.max(1, lines)) : null;
+}
+
+function releaseProcess(agent: SpawnedAgent): void {
+  const runtime = processRuntimes.get(agent.name);
+  processRuntimes.delete(agent.name);
+  if (runtime && runtime.proc.exitCode === null && !runtime.proc.killed) {
+    try { runtime.proc.kill("SIGTERM"); } catch {}
+  }
+}
+
+export function tmuxAvailable(): boolean {
+  try {
+    execFileSync("tmux", ["display-message", "-p", "#{session_name}"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const tmuxBackend: SpawnBackendDriver = {
+  id: "tmux",
+  ownsWorkerPid: true,
+
+  spawn(launch) {
+    const command = [
+      ...Object.entries(launch.env).map(([key, value]) => `${key}=${shellEscape(value)}`),
+      "pi",
+      ...launch.args.map(shellEscape),
+    ].join(" ");
+
+    const output = String(execFileSync(
+      "tmux",
+      ["new-window", "-P", "-F", "#{pane_id} #{window_id} #{pane_pid}", "-n", launch.name, command],
+      { encoding: "utf-8" },
+    )).trim();
+
+    const [pane, win, panePidRaw] = output.split(/\s+/);
+    if (pane && launch.log) {
+      try {
+        fs.mkdirSync(dirname(launch.log.file), { recursive: true });
+        execFileSync("tmux", ["pipe-pane", "-o", "-t", pane, tmuxPipeCommand(launch.log.file)], { stdio: "ignore" });
+      } catch {
+        // scrollback capture still works without the persistent copy
+      }
+    }
+    return { pid: Number(panePidRaw) || 0, tmuxPaneId: pane || null, tmuxWindowId: win || null };
+  },
+
+  isAlive(agent) {
+    return isPidAlive(agent.pid);
+  },
+
+  kill(agent) {
+    if (!agent.tmuxPaneId) return;
+    try {
+      execFileSync("tmux", ["kill-pane", "-t", agent.tmuxPaneId], { stdio: "ignore" });
+    } catch {
+      // ignore
+    }
+  },
+
+  logs(agent, lines) {
+    if (!agent.tmuxPaneId) throw new Error(`${agent.name} has no tmux pane id`);
+    const output = String(execFileSync(
+      "tmux",
+      ["capture-pane", "-t", agent.tmuxPaneId, "-p", "-S", `-${Math.max(1, lines)}`],
+      { encoding: "utf-8" },
+    )).trim();
+    return output ? output.split("\n") : null;
+  },
+
+  attach(agent) {
+    if (!agent.tmuxWindowId) return { command: null, attached: false };
+    const command = `tmux select-window -t ${agent.tmuxWindowId}`;
+    if (process.env.TMUX) {
+      try {
+        execFileSync("tmux", ["select-window", "-t", agent.tmuxWindowId], { stdio: "ignore" });
+        return { command, attached: true };
+      } catch {
+        // fall through to command output
+      }
+    }
+    return { command, attached: false };
+  },
+};
+
+const headlessBackend: SpawnBackendDriver = {
+  id: "headless",
+  ownsWorkerPid: true,
+
+  spawn(launch) {
+    return spawnProcess("pi", launch.args, launch);
+  },
+
+  isAlive(agent) {
+    return isPidAlive(agent.pid);
+  },
+
+  kill: releaseProcess,
+  logs: processLogs,
+
+  attach() {
+    return { command: null, attached: false };
+  },
+};
+
+function messengerDir(): string {
+  return process.env.PI_MESSENGER_DIR || join(homedir(), ".pi", "agent", "messenger");
+}
+
+/**
+ * Expands a sandbox template. Tokens may contain `{name}`, `{cwd}`, `{home}`,
+ * `{extension}` and `{messengerDir}`; a bare `{env}` token becomes `-e KEY=value`
+ * pairs and a bare `{pi}` token becomes `pi` plus its arguments (appended when
+ * the template has none).
+ */
+export function expandSandboxTemplate(
+  template: string[],
+  vars: { name: string; cwd: string; extensionDir: string },
+  env: Record<string, string> = {},
+  piArgs?: string[],
+): string[] {
+  // Replacer functions, so `$&` and friends in a path or name stay literal.
+  const substitute = (token: string) => token
+    .replace(/\{name\}/g, () => vars.name)
+    .replace(/\{cwd\}/g, () => vars.cwd)
+    .replace(/\{home\}/g, () => homedir())
+    .replace(/\{extension\}/g, () => vars.extensionDir)
+    .replace(/\{messengerDir\}/g, () => messengerDir());
+
+  const expanded: string[] = [];
+  for (const token of template) {
+    if (token === "{env}") {
+      for (const [key, value] of Object.entries(env)) expanded.push("-e", `${key}=${value}`);
+    } else if (token === "{pi}") {
+      if (piArgs) expanded.push("pi", ...piArgs);
+    } else {
+      expanded.push(substitute(token));
+    }
+  }
+  if (piArgs && !template.includes("{pi}")) expanded.push("pi", ...piArgs);
+  return expanded;
+}
+
+const sandboxBackend: SpawnBackendDriver = {
+  id: "sandbox",
+  ownsWorkerPid: false,
+
+  spawn(launch) {
+    const sandbox = launch.sandbox;
+    if (!sandbox || sandbox.command.length === 0) {
+      throw new Error("orchestrator.sandbox.command is empty");
+    }
+    const [command, ...args] = expandSandboxTemplate(sandbox.command, launch, launch.env, launch.args);
+    const handle = spawnProcess(command, args, launch);
+    return {
+      ...handle,
+      sandbox: {
+        stopCommand: expandSandboxTemplate(sandbox.stopCommand, launch),
+        attachCommand: expandSandboxTemplate(sandbox.attachCommand, launch),
+      },
+    };
+  },
+
+  isAlive(agent) {
+    return isPidAlive(agent.pid);
+  },
+
+  kill(agent) {
+    releaseProcess(agent);
+    const [command, ...args] = agent.sandbox?.stopCommand ?? [];
+    if (!command) return;
+    try {
+      execFileSync(command, args, { stdio: "ignore", timeout: 15_000 });
+    } catch {
+      // best effort: the wrapper may already be gone
+    }
+  },
+
+  logs: processLogs,
+
+  attach(agent) {
+    const command = agent.sandbox?.attachCommand ?? [];
+    return { command: command.length > 0 ? command.map(shellEscape).join(" ") : null, attached: false };
+  },
+};
+
+/**
+ * Backend for `orchestrator.backend`: `auto` picks tmux inside a tmux session
+ * and headless otherwise.
+ */
+export function resolveBackend(setting: SpawnBackend | "auto"): SpawnBackendDriver {
+  if (setting === "auto") return tmuxAvailable() ? tmuxBackend : headlessBackend;
+  return getBackend(setting);
+}
+
+/** Driver for an agent's recorded backend. */
+export function getBackend(id: SpawnBackend): SpawnBackendDriver {
+  if (id === "tmux") return tmuxBackend;
+  if (id === "sandbox") return sandboxBackend;
+  return headlessBackend;
+}
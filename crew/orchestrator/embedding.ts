@@ -17,6 +17,7 @@ export interface EmbeddingRequest {
   dimensions: number;
   timeoutMs: number;
   taskType?: EmbeddingTaskType;
+  endpoint?: string;
 }
 
 export interface EmbeddingResult {
@@ -25,6 +26,21 @@ export interface EmbeddingResult {
   error?: string;
 }
 
+export interface EmbeddingProvider {
+  embed(text: string, config: EmbeddingRequest): Promise<EmbeddingResult>;
+}
+
+interface ProviderRequest {
+  endpoint: string;
+  apiKey: string | undefined;
+  apiKeyOptional?: boolean;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+  parser: (json: unknown) => number[] | null;
+}
+
+const LOCAL_MIN_TOKEN_LENGTH = 2;
+
 let localSecretsCache: Record<string, string> | null | undefined;
 const insecurePermissionWarned = new Set<string>();
 
@@ -152,13 +168,7 @@ function normalizeBaseUrl(baseUrl: string): string {
   return baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl;
 }
 
-function resolveOpenAIConfig(config: EmbeddingRequest): {
-  endpoint: string;
-  apiKey: string | undefined;
-  headers: Record<string, string>;
-  body: Record<string, unknown>;
-  parser: (json: unknown) => number[] | null;
-} {
+function resolveOpenAIConfig(config: EmbeddingRequest): ProviderRequest {
   const apiKey = getSecret(["OPENAI_API_KEY"]);
 
   return {
@@ -177,13 +187,7 @@ function resolveOpenAIConfig(config: EmbeddingRequest): {
   };
 }
 
-function resolveGeminiConfig(config: EmbeddingRequest): {
-  endpoint: string;
-  apiKey: string | undefined;
-  headers: Record<string, string>;
-  body: Record<string, unknown>;
-  parser: (json: unknown) => number[] | null;
-} {
+function resolveGeminiConfig(config: EmbeddingRequest): ProviderRequest {
   const apiKey = getSecret([
     "GEMINI_API_KEY",
     "GOOGLE_API_KEY",
@@ -224,46 +228,65 @@ function resolveGeminiConfig(config: EmbeddingRequest): {
   };
 }
 
-function textToInput(config: EmbeddingRequest): string {
-  return (config as EmbeddingRequest & { text?: string }).text ?? "";
-}
 
-function buildProviderRequest(config: EmbeddingRequest, text: string): {
-  endpoint: string;
-  apiKey: string | undefined;
-  headers: Record<string, string>;
-  body: Record<string, unknown>;
-  parser: (json: unknown) => number[] | null;
-} | null {
-  const extended = { ...config, text } as EmbeddingRequest & { text: string };
-  const provider = config.provider.toLowerCase();
+function resolveHttpConfig(config: EmbeddingRequest): ProviderRequest | null {
+  const base = config.endpoint?.trim() || process.env.PI_MESSENGER_EMBEDDING_API_BASE?.trim();
+  if (!base) return null;
 
-  if (provider === "openai") {
-    return resolveOpenAIConfig(extended);
+  const apiKey = getSecret(["PI_MESSENGER_EMBEDDING_API_KEY"]);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
   }
 
-  if (provider === "google" || provider === "gemini") {
-    return resolveGeminiConfig(extended);
+  return {
+    endpoint: base,
+    apiKey,
+    apiKeyOptional: true,
+    headers,
+    body: {
+      model: config.model,
+      input: textToInput(config),
+      dimensions: config.dimensions,
+    },
+    parser: parseHttpEmbedding,
+  };
+}
+
+/**
+ * Accepts the OpenAI `data[0].embedding` shape as well as the bare
+ * `embedding` / `embeddings[0]` arrays returned by Ollama-style servers.
+ */
+function parseHttpEmbedding(json: unknown): number[] | null {
+  const openai = parseOpenAIEmbedding(json);
+  if (openai) return openai;
+  if (!json || typeof json !== "object") return null;
+
+  const single = toNumberArray((json as { embedding?: unknown }).embedding);
+  if (single) return single;
+
+  const batch = (json as { embeddings?: unknown }).embeddings;
+  if (Array.isArray(batch) && batch.length > 0) {
+    return toNumberArray(batch[0]);
   }
 
   return null;
 }
 
-export async function embed(text: string, config: EmbeddingRequest): Promise<EmbeddingResult> {
-  const resolved = buildProviderRequest(config, text);
-  if (!resolved) {
-    return {
-      vector: [],
-      ok: false,
-      error: `Unsupported embedding provider: ${config.provider}`,
-    };
-  }
+function textToInput(config: EmbeddingRequest): string {
+  return (config as EmbeddingRequest & { text?: string }).text ?? "";
+}
 
-  if (!resolved.apiKey) {
+async function requestEmbedding(
+  providerName: string,
+  config: EmbeddingRequest,
+  resolved: ProviderRequest,
+): Promise<EmbeddingResult> {
+  if (!resolved.apiKey && !resolved.apiKeyOptional) {
     return {
       vector: [],
       ok: false,
-      error: `${config.provider.toUpperCase()} API key missing`,
+      error: `${providerName.toUpperCase()} API key missing`,
     };
   }
 
@@ -312,3 +335,119 @@ export async function embed(text: string, config: EmbeddingRequest): Promise<Emb
     clearTimeout(timeout);
   }
 }
+
+function remoteProvider(
+  resolve: (config: EmbeddingRequest) => ProviderRequest | null,
+  missingConfigError: string,
+): EmbeddingProvider {
+  return {
+    async embed(text, config) {
+      const extended = { ...config, text } as EmbeddingRequest & { text: string };
+      const resolved = resolve(extended);
+      if (!resolved) {
+        return { vector: [], ok: false, error: missingConfigError };
+      }
+      return requestEmbedding(config.provider, config, resolved);
+    },
+  };
+}
+
+function fnv1a(input: string, seed = 0x811c9dc5): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+}
+
+function localFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string) => features.set(feature, (features.get(feature) ?? 0) + 1);
+
+  const tokens = text
+    .toLowerCase()
+    .split(/[^a-z0-9_./-]+/)
+    .map(token => token.replace(/^[./-]+|[./-]+$/g, ""))
+    .filter(token => token.length >= LOCAL_MIN_TOKEN_LENGTH);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    add(`w:${token}`);
+    if (i + 1 < tokens.length) {
+      add(`b:${token} ${tokens[i + 1]}`);
+    }
+
+    const padded = `^${token}$`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Deterministic hashed n-gram embedder (word unigrams/bigrams + char trigrams,
+ * sublinear term frequency, signed feature hashing). No network or API key;
+ * quality is lexical rather than semantic, which is enough for offline recall.
+ */
+export function embedLocal(text: string, dimensions: number): number[] {
+  const size = Math.max(1, Math.floor(dimensions));
+  const vector = new Array<number>(size).fill(0);
+
+  for (const [feature, count] of localFeatures(text)) {
+    const weight = (feature.startsWith("c:") ? 0.5 : 1) * (1 + Math.log(count));
+    const index = fnv1a(feature) % size;
+    const sign = (fnv1a(feature, 0x9747b28c) & 1) === 0 ? 1 : -1;
+    vector[index] += sign * weight;
+  }
+
+  return normalize(vector);
+}
+
+const localProvider: EmbeddingProvider = {
+  async embed(text, config) {
+    const vector = embedLocal(text, config.dimensions);
+    if (vector.every(v => v === 0)) {
+      return { vector: [], ok: false, error: "Local embedding produced no features" };
+    }
+    return { vector, ok: true };
+  },
+};
+
+const providers = new Map<string, EmbeddingProvider>();
+
+export function registerEmbeddingProvider(name: string, provider: EmbeddingProvider): void {
+  providers.set(name.trim().toLowerCase(), provider);
+}
+
+export function getEmbeddingProvider(name: string): EmbeddingProvider | null {
+  return providers.get(name.trim().toLowerCase()) ?? null;
+}
+
+export function listEmbeddingProviders(): string[] {
+  return Array.from(providers.keys()).sort();
+}
+
+registerEmbeddingProvider("openai", remoteProvider(resolveOpenAIConfig, "OpenAI embedding config missing"));
+registerEmbeddingProvider("google", remoteProvider(resolveGeminiConfig, "Gemini embedding config missing"));
+registerEmbeddingProvider("gemini", remoteProvider(resolveGeminiConfig, "Gemini embedding config missing"));
+registerEmbeddingProvider(
+  "http",
+  remoteProvider(resolveHttpConfig, "HTTP embedding endpoint missing (set memory.embeddingEndpoint or PI_MESSENGER_EMBEDDING_API_BASE)"),
+);
+registerEmbeddingProvider("local", localProvider);
+
+export async function embed(text: string, config: EmbeddingRequest): Promise<EmbeddingResult> {
+  const provider = getEmbeddingProvider(config.provider);
+  if (!provider) {
+    return {
+      vector: [],
+      ok: false,
+      error: `Unsupported embedding provider: ${config.provider}`,
+    };
+  }
+
+  return provider.embed(text, config);
+}
@@ -0,0 +1,724 @@
+import * as fs from "node:fs";
+import { join } from "node:path";
+import type { ZVecCollection, ZVecDoc } from "@zvec/zvec";
+
+/**
+ * Pure-TypeScript stand-in for the `@zvec/zvec` runtime: a flat (brute force)
+ * cosine index covering the collection surface the orchestrator memory uses.
+ *
+ * On disk a collection is a directory holding `flat-manifest.json` plus one
+ * generation of `docs-<n>.jsonl` (append-only put/delete log) and
+ * `vectors-<n>.f32` (little-endian Float32 rows). Inserts append to both
+ * files; optimizeSync rewrites live rows into the next generation and only
+ * then points the manifest at it, so a crash never mixes generations.
+ *
+ * The orchestrator, its workers and every session sharing the global store
+ * open the same directory, so each operation holds `flat.lock` and first
+ * reloads if another process changed the files since it last looked. The
+ * collection API is synchronous and must not stall the event loop, so it only
+ * ever tries the lock once: callers that write take it beforehand with
+ * `withFlatLock` (which waits on timers), and a read that finds another
+ * process holding it answers from the last loaded state.
+ */
+
+const MANIFEST_FILE = "flat-manifest.json";
+const LOCK_FILE = "flat.lock";
+const FORMAT = "flat-v1";
+const BYTES_PER_FLOAT = 4;
+const LOCK_STALE_MS = 10_000;
+const LOCK_TIMEOUT_MS = 60_000;
+const LOCK_RETRY_MS = 50;
+
+/** Lock directories this process holds, with nesting depth (operations call each other). */
+const heldLocks = new Map<string, number>();
+/** Tail of the `withFlatLock` callers queued per directory within this process. */
+const lockQueues = new Map<string, Promise<void>>();
+
+const DataType = { STRING: 1, BOOL: 2, INT32: 3, INT64: 4, FLOAT: 5, DOUBLE: 6, VECTOR_FP32: 7 } as const;
+const IndexType = { FLAT: 1, HNSW: 2 } as const;
+const MetricType = { COSINE: 1, L2: 2, IP: 3 } as const;
+
+interface FieldSchema {
+  name: string;
+  dataType?: number;
+  nullable?: boolean;
+}
+
+interface VectorSchema {
+  name: string;
+  dimension: number;
+}
+
+interface SchemaParams {
+  name?: string;
+  vectors: VectorSchema | VectorSchema[];
+  fields?: FieldSchema | FieldSchema[];
+}
+
+interface Manifest {
+  format: string;
+  generation: number;
+  name: string;
+  vector: VectorSchema;
+  fields: FieldSchema[];
+}
+
+interface FlatDoc {
+  row: number;
+  vector: Float32Array;
+  norm: number;
+  fields: Record<string, unknown>;
+}
+
+type LogRecord =
+  | { op: "put"; id: string; row: number; fields: Record<string, unknown> }
+  | { op: "del"; id: string };
+
+interface DocInput {
+  id: string;
+  vectors?: Record<string, ArrayLike<number>>;
+  fields?: Record<string, unknown>;
+}
+
+interface Status {
+  ok: boolean;
+  code: string;
+  message: string;
+}
+
+type Condition =
+  | { kind: "and" | "or"; left: Condition; right: Condition }
+  | { kind: "cmp"; field: string; op: string; value: string | number };
+
+class FlatCollectionSchema {
+  readonly name: string;
+  readonly vectorSchema: VectorSchema;
+  readonly fieldSchemas: FieldSchema[];
+
+  constructor(params: SchemaParams) {
+    const vectors = Array.isArray(params.vectors) ? params.vectors : [params.vectors];
+    if (vectors.length !== 1) {
+      throw new Error("flat index supports exactly one vector field");
+    }
+    this.name = params.name ?? "collection";
+    this.vectorSchema = { name: vectors[0].name, dimension: vectors[0].dimension };
+    this.fieldSchemas = (Array.isArray(params.fields) ? params.fields : params.fields ? [params.fields] : [])
+      .map(field => ({ name: field.name, dataType: field.dataType, nullable: field.nullable }));
+  }
+
+  vector(name: string): VectorSchema | undefined {
+    return name === this.vectorSchema.name ? this.vectorSchema : undefined;
+  }
+
+  field(name: string): FieldSchema | undefined {
+    return this.fieldSchemas.find(field => field.name === name);
+  }
+}
+
+function status(ok: boolean, code = "OK", message = ""): Status {
+  return { ok, code, message };
+}
+
+function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const temp = `${filePath}.tmp-${process.pid}-${Date.now()}`;
+  fs.writeFileSync(temp, data);
+  fs.renameSync(temp, filePath);
+}
+
+function isStaleLock(lockPath: string): boolean {
+  try {
+    const pid = parseInt(fs.readFileSync(lockPath, "utf-8").trim(), 10);
+    // Ours but not held: left behind by a throw between create and unlink.
+    if (pid === process.pid) return true;
+    if (pid) {
+      try {
+        process.kill(pid, 0);
+        return false;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ESRCH") return true;
+      }
+    }
+    return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    return false; // released (or still being written) in the meantime
+  }
+}
+
+/** One attempt at the lockfile, clearing it first if its holder is gone. */
+function tryLock(lockPath: string): boolean {
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      if (!isStaleLock(lockPath)) return false;
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Runs `work` holding the collection's lockfile; re-entrant within a process.
+ * Never waits: if another process holds the lock, returns `busy()` or throws.
+ */
+function withDirLock<T>(dir: string, work: () => T, busy?: () => T): T {
+  const depth = heldLocks.get(dir) ?? 0;
+  if (depth > 0) {
+    heldLocks.set(dir, depth + 1);
+    try {
+      return work();
+    } finally {
+      heldLocks.set(dir, depth);
+    }
+  }
+
+  const lockPath = join(dir, LOCK_FILE);
+  if (!tryLock(lockPath)) {
+    if (busy) return busy();
+    throw new Error(`flat index: ${lockPath} is held by another process`);
+  }
+
+  heldLocks.set(dir, 1);
+  try {
+    return work();
+  } finally {
+    heldLocks.delete(dir);
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Holds the lock of the collection in `dir` (created if missing) while `work`
+ * runs, retrying on a timer until the other holder lets go. Collection calls
+ * made inside `work` reuse it instead of trying again.
+ */
+export async function withFlatLock<T>(dir: string, work: () => T | Promise<T>): Promise<T> {
+  const previous = lockQueues.get(dir) ?? Promise.resolve();
+  let release: () => void = () => {};
+  const current = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  lockQueues.set(dir, tail);
+
+  await previous;
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const lockPath = join(dir, LOCK_FILE);
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    while (!tryLock(lockPath)) {
+      if (Date.now() >= deadline) throw new Error(`flat index: timed out waiting for ${lockPath}`);
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    heldLocks.set(dir, 1);
+    try {
+      return await work();
+    } finally {
+      heldLocks.delete(dir);
+      fs.rmSync(lockPath, { force: true });
+    }
+  } finally {
+    release();
+    if (lockQueues.get(dir) === tail) lockQueues.delete(dir);
+  }
+}
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return -1;
+  }
+}
+
+function docsFile(dir: string, generation: number): string {
+  return join(dir, `docs-${generation}.jsonl`);
+}
+
+function vectorsFile(dir: string, generation: number): string {
+  return join(dir, `vectors-${generation}.f32`);
+}
+
+function vectorNorm(vector: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  return Math.sqrt(sum);
+}
+
+function encodeVector(vector: Float32Array): Buffer {
+  const buffer = Buffer.alloc(vector.length * BYTES_PER_FLOAT);
+  for (let i = 0; i < vector.length; i++) buffer.writeFloatLE(vector[i], i * BYTES_PER_FLOAT);
+  return buffer;
+}
+
+function tokenizeFilter(filter: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < filter.length) {
+    const ch = filter[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push(ch);
+      i++;
+    } else if (ch === "\"") {
+      let value = "";
+      i++;
+      while (i < filter.length && filter[i] !== "\"") {
+        if (filter[i] === "\\" && i + 1 < filter.length) i++;
+        value += filter[i];
+        i++;
+      }
+      if (i >= filter.length) throw new Error(`flat index: unterminated string in filter: ${filter}`);
+      tokens.push(`"${value}`);
+      i++;
+    } else {
+      const match = filter.slice(i).match(/^(>=|<=|!=|=|>|<|[^\s()"=<>!]+)/);
+      if (!match) throw new Error(`flat index: invalid filter: ${filter}`);
+      tokens.push(match[1]);
+      i += match[1].length;
+    }
+  }
+  return tokens;
+}
+
+/** Parses the `a = "x" AND (b = "y" OR c >= 1)` subset of zvec filters; AND binds tighter than OR. */
+function parseFilter(filter: string): Condition {
+  const tokens = tokenizeFilter(filter);
+  let pos = 0;
+
+  const fail = (): never => {
+    throw new Error(`flat index: invalid filter: ${filter}`);
+  };
+
+  const parsePrimary = (): Condition => {
+    if (tokens[pos] === "(") {
+      pos++;
+      const inner = parseOr();
+      if (tokens[pos] !== ")") fail();
+      pos++;
+      return inner;
+    }
+    const field = tokens[pos++];
+    const op = tokens[pos++];
+    const raw = tokens[pos++];
+    if (!field || !/^\w+$/.test(field) || !["=", "!=", ">=", "<=", ">", "<"].includes(op) || raw === undefined) fail();
+    const value = raw.startsWith("\"") ? raw.slice(1) : Number(raw);
+    if (typeof value === "number" && !Number.isFinite(value)) fail();
+    return { kind: "cmp", field, op, value };
+  };
+
+  const parseAnd = (): Condition => {
+    let left = parsePrimary();
+    while (tokens[pos]?.toUpperCase() === "AND") {
+      pos++;
+      left = { kind: "and", left, right: parsePrimary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): Condition => {
+    let left = parseAnd();
+    while (tokens[pos]?.toUpperCase() === "OR") {
+      pos++;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const condition = parseOr();
+  if (pos !== tokens.length) fail();
+  return condition;
+}
+
+function evaluate(condition: Condition, fields: Record<string, unknown>): boolean {
+  if (condition.kind === "and") return evaluate(condition.left, fields) && evaluate(condition.right, fields);
+  if (condition.kind === "or") return evaluate(condition.left, fields) || evaluate(condition.right, fields);
+
+  const actual = fields[condition.field];
+  if (condition.op === "=") return actual === condition.value || (typeof condition.value === "number" && Number(actual) === condition.value);
+  if (condition.op === "!=") return !(actual === condition.value || (typeof condition.value === "number" && Number(actual) === condition.value));
+
+  const left = Number(actual);
+  const right = Number(condition.value);
+  if (!Number.isFinite(left) || !Number.isFinite(right)) return false;
+  if (condition.op === ">=") return left >= right;
+  if (condition.op === "<=") return left <= right;
+  if (condition.op === ">") return left > right;
+  return left < right;
+}
+
+class FlatCollection {
+  readonly path: string;
+  readonly schema: FlatCollectionSchema;
+  private manifest: Manifest;
+  private readonly docs = new Map<string, FlatDoc>();
+  private nextRow = 0;
+  private closed = false;
+  /** File sizes as of the last load or own write; anything else means another writer. */
+  private synced = { docs: -1, vectors: -1 };
+
+  constructor(dir: string, manifest: Manifest) {
+    this.path = dir;
+    this.manifest = manifest;
+    this.schema = new FlatCollectionSchema({ name: manifest.name, vectors: manifest.vector, fields: manifest.fields });
+    withDirLock(dir, () => this.load(), () => this.load());
+  }
+
+  get stats(): { docCount: number; indexCompleteness: Record<string, number> } {
+    return this.read(() => ({ docCount: this.docs.size, indexCompleteness: { [this.manifest.vector.name]: 1 } }));
+  }
+
+  private get dimension(): number {
+    return this.manifest.vector.dimension;
+  }
+
+  /** Holds the lock and catches up with other processes before `work`. */
+  private locked<T>(work: () => T): T {
+    this.ensureOpen();
+    return withDirLock(this.path, () => {
+      this.refresh();
+      return work();
+    });
+  }
+
+  /** Like `locked`, but answers from the loaded state while another process writes. */
+  private read<T>(work: () => T): T {
+    this.ensureOpen();
+    return withDirLock(this.path, () => {
+      this.refresh();
+      return work();
+    }, work);
+  }
+
+  private markSynced(): void {
+    this.synced = {
+      docs: fileSize(docsFile(this.path, this.manifest.generation)),
+      vectors: fileSize(vectorsFile(this.path, this.manifest.generation)),
+    };
+  }
+
+  private refresh(): void {
+    let manifest: Manifest;
+    try {
+      manifest = readManifest(this.path);
+    } catch {
+      return; // mid-recreate; keep the current view
+    }
+    const unchanged = manifest.generation === this.manifest.generation
+      && manifest.fields.length === this.manifest.fields.length
+      && fileSize(docsFile(this.path, manifest.generation)) === this.synced.docs
+      && fileSize(vectorsFile(this.path, manifest.generation)) === this.synced.vectors;
+    if (unchanged) return;
+
+    this.manifest = manifest;
+    this.schema.fieldSchemas.splice(0, this.schema.fieldSchemas.length, ...manifest.fields);
+    this.docs.clear();
+    this.load();
+  }
+
+  private load(): void {
+    const rowBytes = this.dimension * BYTES_PER_FLOAT;
+    const vectorsPath = vectorsFile(this.path, this.manifest.generation);
+    const logPath = docsFile(this.path, this.manifest.generation);
+    const vectorBytes = fs.existsSync(vectorsPath) ? fs.readFileSync(vectorsPath) : Buffer.alloc(0);
+    const rowCount = Math.floor(vectorBytes.length / rowBytes);
+    const rawLog = fs.existsSync(logPath) ? fs.readFileSync(logPath, "utf-8") : "";
+
+    let damaged = vectorBytes.length !== rowCount * rowBytes || (rawLog.length > 0 && !rawLog.endsWith("\n"));
+    for (const line of rawLog.split("\n")) {
+      if (!line.trim()) continue;
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line) as LogRecord;
+      } catch {
+        damaged = true;
+        continue;
+      }
+
+      if (record.op === "del") {
+        this.docs.delete(record.id);
+        continue;
+      }
+
+      if (record.op !== "put" || typeof record.row !== "number" || record.row >= rowCount) {
+        damaged = true;
+        continue;
+      }
+
+      const vector = new Float32Array(this.dimension);
+      for (let i = 0; i < this.dimension; i++) {
+        vector[i] = vectorBytes.readFloatLE(record.row * rowBytes + i * BYTES_PER_FLOAT);
+      }
+      this.docs.set(record.id, { row: record.row, vector, norm: vectorNorm(vector), fields: record.fields ?? {} });
+    }
+    this.nextRow = rowCount;
+
+    // Torn appends (crash mid-write) would misalign later rows; rewrite cleanly.
+    // Without the lock that waits until the next locked call reloads.
+    if (damaged && !heldLocks.has(this.path)) {
+      this.synced = { docs: -1, vectors: -1 };
+      return;
+    }
+    if (damaged) {
+      this.rewrite();
+    }
+    this.markSynced();
+  }
+
+  private ensureOpen(): void {
+    if (this.closed) throw new Error(`flat index: collection closed: ${this.path}`);
+  }
+
+  private writeManifest(): void {
+    writeFileAtomic(join(this.path, MANIFEST_FILE), JSON.stringify(this.manifest, null, 2));
+  }
+
+  private append(id: string, vector: Float32Array, fields: Record<string, unknown>): void {
+    const row = this.nextRow;
+    fs.appendFileSync(vectorsFile(this.path, this.manifest.generation), encodeVector(vector));
+    fs.appendFileSync(docsFile(this.path, this.manifest.generation), `${JSON.stringify({ op: "put", id, row, fields })}\n`);
+    this.nextRow += 1;
+    this.docs.set(id, { row, vector, norm: vectorNorm(vector), fields });
+    this.markSynced();
+  }
+
+  private rewrite(): void {
+    const previous = this.manifest.generation;
+    const generation = previous + 1;
+    const lines: string[] = [];
+    const vectors: Buffer[] = [];
+    let row = 0;
+    for (const [id, doc] of this.docs) {
+      lines.push(JSON.stringify({ op: "put", id, row, fields: doc.fields }));
+      vectors.push(encodeVector(doc.vector));
+      doc.row = row;
+      row += 1;
+    }
+
+    writeFileAtomic(vectorsFile(this.path, generation), Buffer.concat(vectors));
+    writeFileAtomic(docsFile(this.path, generation), lines.length > 0 ? `${lines.join("\n")}\n` : "");
+    this.manifest = { ...this.manifest, generation };
+    this.writeManifest();
+    this.nextRow = row;
+
+    fs.rmSync(vectorsFile(this.path, previous), { force: true });
+    fs.rmSync(docsFile(this.path, previous), { force: true });
+    this.markSynced();
+  }
+
+  private toVector(input: DocInput): Float32Array | string {
+    const raw = input.vectors?.[this.manifest.vector.name];
+    if (!raw || typeof raw.length !== "number") return `missing vector field ${this.manifest.vector.name}`;
+    if (raw.length !== this.dimension) return `vector dimension ${raw.length} != ${this.dimension}`;
+    const vector = Float32Array.from(raw);
+    for (let i = 0; i < vector.length; i++) {
+      if (!Number.isFinite(vector[i])) return "vector contains non-finite values";
+    }
+    return vector;
+  }
+
+  private writeOne(input: DocInput, mode: "insert" | "upsert"): Status {
+    if (!input?.id) return status(false, "INVALID_ARGUMENT", "missing id");
+
+    const existing = this.docs.get(input.id);
+    if (mode === "insert" && existing) return status(false, "ALREADY_EXISTS", `doc ${input.id} already exists`);
+
+    const vector = existing && !input.vectors ? existing.vector : this.toVector(input);
+    if (typeof vector === "string") return status(false, "INVALID_ARGUMENT", vector);
+
+    const fields = { ...(existing?.fields ?? {}), ...(input.fields ?? {}) };
+    this.append(input.id, vector, fields);
+    return status(true);
+  }
+
+  insertSync(docs: DocInput | DocInput[]): Status | Status[] {
+    return this.locked(() => Array.isArray(docs) ? docs.map(doc => this.writeOne(doc, "insert")) : this.writeOne(docs, "insert"));
+  }
+
+  upsertSync(docs: DocInput | DocInput[]): Status | Status[] {
+    return this.locked(() => Array.isArray(docs) ? docs.map(doc => this.writeOne(doc, "upsert")) : this.writeOne(docs, "upsert"));
+  }
+
+  deleteSync(ids: string | string[]): Status | Status[] {
+    return this.locked(() => {
+      const statuses = (Array.isArray(ids) ? ids : [ids]).map(id => {
+        if (!this.docs.delete(id)) return status(false, "NOT_FOUND", `doc ${id} not found`);
+        fs.appendFileSync(docsFile(this.path, this.manifest.generation), `${JSON.stringify({ op: "del", id })}\n`);
+        return status(true);
+      });
+      this.markSynced();
+      return Array.isArray(ids) ? statuses : statuses[0];
+    });
+  }
+
+  deleteByFilterSync(filter: string): Status {
+    const condition = parseFilter(filter);
+    return this.locked(() => {
+      const ids = Array.from(this.docs).filter(([, doc]) => evaluate(condition, doc.fields)).map(([id]) => id);
+      if (ids.length > 0) this.deleteSync(ids);
+      return status(true);
+    });
+  }
+
+  private toZvecDoc(id: string, doc: FlatDoc, score: number, outputFields?: string[], includeVector = false): ZVecDoc {
+    const fields = outputFields
+      ? Object.fromEntries(outputFields.filter(key => key in doc.fields).map(key => [key, doc.fields[key]]))
+      : { ...doc.fields };
+    return {
+      id,
+      score,
+      fields,
+      vectors: includeVector ? { [this.manifest.vector.name]: Array.from(doc.vector) } : {},
+    } as ZVecDoc;
+  }
+
+  fetchSync(ids: string | string[]): Record<string, ZVecDoc> {
+    return this.read(() => {
+      const out: Record<string, ZVecDoc> = {};
+      for (const id of Array.isArray(ids) ? ids : [ids]) {
+        const doc = this.docs.get(id);
+        if (doc) out[id] = this.toZvecDoc(id, doc, 0, undefined, true);
+      }
+      return out;
+    });
+  }
+
+  /** `score` is cosine distance (1 - cosine similarity), lower is closer. */
+  querySync(params: {
+    fieldName?: string;
+    vector?: ArrayLike<number>;
+    topk?: number;
+    filter?: string;
+    includeVector?: boolean;
+    outputFields?: string[];
+  }): ZVecDoc[] {
+    return this.read(() => this.query(params));
+  }
+
+  private query(params: {
+    vector?: ArrayLike<number>;
+    topk?: number;
+    filter?: string;
+    includeVector?: boolean;
+    outputFields?: string[];
+  }): ZVecDoc[] {
+    const condition = params.filter ? parseFilter(params.filter) : null;
+    const topk = Math.max(1, params.topk ?? 10);
+    const query = params.vector;
+    if (query && query.length !== this.dimension) {
+      throw new Error(`flat index: query dimension ${query.length} != ${this.dimension}`);
+    }
+    const queryNorm = query ? vectorNorm(query) : 0;
+
+    const scored: Array<{ id: string; doc: FlatDoc; score: number }> = [];
+    for (const [id, doc] of this.docs) {
+      if (condition && !evaluate(condition, doc.fields)) continue;
+      let score = 0;
+      if (query) {
+        let dot = 0;
+        for (let i = 0; i < query.length; i++) dot += query[i] * doc.vector[i];
+        const denom = queryNorm * doc.norm;
+        score = 1 - (denom > 0 ? dot / denom : 0);
+      }
+      scored.push({ id, doc, score });
+    }
+
+    if (query) scored.sort((a, b) => a.score - b.score);
+    return scored
+      .slice(0, topk)
+      .map(({ id, doc, score }) => this.toZvecDoc(id, doc, score, params.outputFields, params.includeVector ?? false));
+  }
+
+  addColumnSync(params: { fieldSchema: FieldSchema }): void {
+    const name = params.fieldSchema?.name;
+    if (!name) throw new Error("flat index: addColumn requires a field name");
+    this.locked(() => {
+      if (this.manifest.fields.some(field => field.name === name)) {
+        throw new Error(`flat index: column ${name} already exists`);
+      }
+      const field = { name, dataType: params.fieldSchema.dataType, nullable: params.fieldSchema.nullable };
+      this.manifest = { ...this.manifest, fields: [...this.manifest.fields, field] };
+      this.schema.fieldSchemas.push(field);
+      this.writeManifest();
+    });
+  }
+
+  /** Drops deleted and superseded rows by rewriting into a new generation. */
+  optimizeSync(): void {
+    this.locked(() => {
+      if (this.nextRow > this.docs.size) {
+        this.rewrite();
+      }
+    });
+  }
+
+  closeSync(): void {
+    this.closed = true;
+  }
+}
+
+function readManifest(dir: string): Manifest {
+  const raw = fs.readFileSync(join(dir, MANIFEST_FILE), "utf-8");
+  const manifest = JSON.parse(raw) as Manifest;
+  if (manifest.format !== FORMAT || !manifest.vector || !Number.isInteger(manifest.vector.dimension)) {
+    throw new Error(`flat index: unsupported manifest in ${dir}`);
+  }
+  return manifest;
+}
+
+function createAndOpen(dir: string, schema: FlatCollectionSchema): ZVecCollection {
+  if (!(schema instanceof FlatCollectionSchema)) {
+    throw new Error("flat index: schema must come from the flat runtime");
+  }
+  fs.mkdirSync(dir, { recursive: true });
+  return withDirLock(dir, () => createLocked(dir, schema));
+}
+
+function createLocked(dir: string, schema: FlatCollectionSchema): ZVecCollection {
+  let previous: number | null = null;
+  try {
+    previous = readManifest(dir).generation;
+  } catch {
+    // fresh directory
+  }
+  const generation = previous === null ? 0 : previous + 1;
+
+  const manifest: Manifest = {
+    format: FORMAT,
+    generation,
+    name: schema.name,
+    vector: schema.vectorSchema,
+    fields: schema.fieldSchemas,
+  };
+  fs.writeFileSync(vectorsFile(dir, generation), Buffer.alloc(0));
+  fs.writeFileSync(docsFile(dir, generation), "");
+  writeFileAtomic(join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  if (previous !== null) {
+    fs.rmSync(vectorsFile(dir, previous), { force: true });
+    fs.rmSync(docsFile(dir, previous), { force: true });
+  }
+  return new FlatCollection(dir, manifest) as unknown as ZVecCollection;
+}
+
+function open(dir: string): ZVecCollection {
+  if (!fs.existsSync(join(dir, MANIFEST_FILE))) {
+    throw new Error(`flat index: no collection at ${dir}`);
+  }
+  const openCollection = (): ZVecCollection => new FlatCollection(dir, readManifest(dir)) as unknown as ZVecCollection;
+  return withDirLock(dir, openCollection, openCollection);
+}
+
+/** Runtime object shaped like the `@zvec/zvec` module exports memory.ts consumes. */
+export function createFlatRuntime(): Record<string, unknown> {
+  return {
+    ZVecDataType: DataType,
+    ZVecIndexType: IndexType,
+    ZVecMetricType: MetricType,
+    ZVecCollectionSchema: FlatCollectionSchema,
+    ZVecCreateAndOpen: createAndOpen,
+    ZVecOpen: open,
+  };
+}
@@ -0,0 +1,167 @@
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const FIELD_BOOST_TEXT = 1;
+const FIELD_BOOST_FILES = 3;
+const FIELD_BOOST_TASK = 3;
+const SCORE_HALF_SATURATION = 2;
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into",
+  "is", "it", "of", "on", "or", "that", "the", "this", "to", "was", "with",
+]);
+
+export interface LexicalDocInput {
+  id: string;
+  text: string;
+  files?: string[];
+  taskId?: string;
+  agent?: string;
+  type?: string;
+  workstream?: string;
+}
+
+export interface LexicalDocMeta {
+  agent: string;
+  type: string;
+  workstream: string;
+}
+
+interface IndexedDoc {
+  terms: Map<string, number>;
+  length: number;
+  meta: LexicalDocMeta;
+}
+
+export interface LexicalIndex {
+  docs: Map<string, IndexedDoc>;
+  docFreq: Map<string, number>;
+  totalLength: number;
+}
+
+export interface LexicalHit {
+  id: string;
+  score: number;
+  normalized: number;
+}
+
+/**
+ * Splits text into lowercase terms. Identifier-like tokens (paths, `task-12`,
+ * snake_case) are kept whole and also split into their parts so both the exact
+ * identifier and its components match.
+ */
+export function tokenizeLexical(text: string): string[] {
+  const terms: string[] = [];
+  const raw = text.toLowerCase().split(/[^a-z0-9_./-]+/);
+
+  for (const candidate of raw) {
+    const token = candidate.replace(/^[./-]+|[./-]+$/g, "");
+    if (token.length < 2) continue;
+
+    if (!STOPWORDS.has(token)) {
+      terms.push(token);
+    }
+
+    const parts = token.split(/[./_-]+/).filter(part => part.length >= 2 && !STOPWORDS.has(part));
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+
+  return terms;
+}
+
+function addTerms(target: Map<string, number>, terms: string[], boost: number): number {
+  for (const term of terms) {
+    target.set(term, (target.get(term) ?? 0) + boost);
+  }
+  return terms.length * boost;
+}
+
+export function createLexicalIndex(): LexicalIndex {
+  return {
+    docs: new Map(),
+    docFreq: new Map(),
+    totalLength: 0,
+  };
+}
+
+export function removeLexicalDoc(index: LexicalIndex, id: string): void {
+  const existing = index.docs.get(id);
+  if (!existing) return;
+
+  for (const term of existing.terms.keys()) {
+    const next = (index.docFreq.get(term) ?? 1) - 1;
+    if (next <= 0) {
+      index.docFreq.delete(term);
+    } else {
+      index.docFreq.set(term, next);
+    }
+  }
+
+  index.totalLength -= existing.length;
+  index.docs.delete(id);
+}
+
+export function addLexicalDoc(index: LexicalIndex, doc: LexicalDocInput): void {
+  removeLexicalDoc(index, doc.id);
+
+  const terms = new Map<string, number>();
+  let length = addTerms(terms, tokenizeLexical(doc.text), FIELD_BOOST_TEXT);
+  for (const file of doc.files ?? []) {
+    length += addTerms(terms, tokenizeLexical(file), FIELD_BOOST_FILES);
+  }
+  if (doc.taskId) {
+    length += addTerms(terms, tokenizeLexical(doc.taskId), FIELD_BOOST_TASK);
+  }
+
+  for (const term of terms.keys()) {
+    index.docFreq.set(term, (index.docFreq.get(term) ?? 0) + 1);
+  }
+
+  index.docs.set(doc.id, {
+    terms,
+    length,
+    meta: {
+      agent: doc.agent ?? "",
+      type: doc.type ?? "",
+      workstream: doc.workstream ?? "",
+    },
+  });
+  index.totalLength += length;
+}
+
+export function searchLexical(
+  index: LexicalIndex,
+  query: string,
+  options?: {
+    limit?: number;
+    accept?: (meta: LexicalDocMeta) => boolean;
+  },
+): LexicalHit[] {
+  const queryTerms = Array.from(new Set(tokenizeLexical(query)));
+  const docCount = index.docs.size;
+  if (queryTerms.length === 0 || docCount === 0) return [];
+
+  const avgLength = index.totalLength / docCount || 1;
+  const hits: LexicalHit[] = [];
+
+  for (const [id, doc] of index.docs) {
+    if (options?.accept && !options.accept(doc.meta)) continue;
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.terms.get(term);
+      if (!tf) continue;
+      const df = index.docFreq.get(term) ?? 0;
+      const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength));
+      score += idf * ((tf * (BM25_K1 + 1)) / norm);
+    }
+
+    if (score > 0) {
+      hits.push({ id, score, normalized: score / (score + SCORE_HALF_SATURATION) });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return hits.slice(0, Math.max(1, options?.limit ?? hits.length));
+}
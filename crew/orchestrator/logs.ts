@@ -0,0 +1,235 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+const ENTRY_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) (.*)$/;
+// CSI sequences (colors, cursor moves) and OSC sequences (titles, hyperlinks).
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]/g;
+const FOLLOW_POLL_MS = 250;
+
+/** Where a worker's output is persisted, with the rotation limits to apply. */
+export interface AgentLogSink {
+  file: string;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+export interface AgentLogEntry {
+  /** ISO timestamp the line was written, null for lines without one. */
+  at: string | null;
+  text: string;
+}
+
+export interface AgentLogQuery {
+  lines: number;
+  grep?: RegExp | null;
+  since?: number | null;
+}
+
+export function agentLogsDir(cwd: string): string {
+  return path.join(cwd, ".pi", "messenger", "orchestrator", "logs");
+}
+
+export function agentLogSink(cwd: string, name: string, limits: { maxBytes: number; maxFiles: number }): AgentLogSink {
+  return { file: path.join(agentLogsDir(cwd), `${name}.log`), ...limits };
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+/** `grep` is a regular expression; patterns that don't compile match literally. */
+export function compileGrep(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  }
+}
+
+/** Shifts `<name>.log` to `<name>.log.1` (and so on) once it reaches `maxBytes`. */
+export function rotateLog(sink: AgentLogSink): boolean {
+  let size = 0;
+  try {
+    size = fs.statSync(sink.file).size;
+  } catch {
+    return false;
+  }
+  if (sink.maxBytes <= 0 || size < sink.maxBytes) return false;
+
+  const keep = Math.max(0, Math.floor(sink.maxFiles));
+  try {
+    fs.rmSync(`${sink.file}.${keep}`, { force: true });
+    for (let index = keep - 1; index >= 1; index--) {
+      const from = `${sink.file}.${index}`;
+      if (fs.existsSync(from)) fs.renameSync(from, `${sink.file}.${index + 1}`);
+    }
+    if (keep > 0) fs.renameSync(sink.file, `${sink.file}.1`);
+    else fs.rmSync(sink.file, { force: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Rotates every agent log in the directory; used for logs written by tmux, not by us. */
+export function rotateAgentLogs(cwd: string, limits: { maxBytes: number; maxFiles: number }): void {
+  let entries: string[] = [];
+  try {
+    entries = fs.readdirSync(agentLogsDir(cwd)).filter(entry => entry.endsWith(".log"));
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    rotateLog({ file: path.join(agentLogsDir(cwd), entry), ...limits });
+  }
+}
+
+export function appendLog(sink: AgentLogSink, lines: string[], now: Date = new Date()): void {
+  const text = lines.map(stripAnsi).filter(line => line.trim().length > 0);
+  if (text.length === 0) return;
+  const at = now.toISOString();
+  try {
+    fs.mkdirSync(path.dirname(sink.file), { recursive: true });
+    rotateLog(sink);
+    fs.appendFileSync(sink.file, text.map(line => `${at} ${line}\n`).join(""));
+  } catch {
+    // best effort: losing a log line must never take the worker down
+  }
+}
+
+// Runs once per pane rather than forking `date` per line. Appending per line
+// reopens the file, so rotation can rename it underneath.
+const TMUX_PIPE_SCRIPT = [
+  "const fs = require(\"node:fs\");",
+  "const file = process.argv[1];",
+  "require(\"node:readline\").createInterface({ input: process.stdin }).on(\"line\", line => {",
+  "  try { fs.appendFileSync(file, new Date().toISOString() + \" \" + line + \"\\n\"); } catch {}",
+  "});",
+].join(" ");
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Shell command for `tmux pipe-pane` that timestamps each pane line into the log. */
+export function tmuxPipeCommand(file: string): string {
+  return `${shellQuote(process.execPath)} -e ${shellQuote(TMUX_PIPE_SCRIPT)} ${shellQuote(file)}`;
+}
+
+function parseEntries(content: string): AgentLogEntry[] {
+  const entries: AgentLogEntry[] = [];
+  for (const raw of content.split("\n")) {
+    const line = stripAnsi(raw.replace(/\r/g, ""));
+    if (!line.trim()) continue;
+    const match = line.match(ENTRY_PATTERN);
+    entries.push(match ? { at: match[1], text: match[2] } : { at: null, text: line });
+  }
+  return entries;
+}
+
+function matchesQuery(entry: AgentLogEntry, query: Omit<AgentLogQuery, "lines">): boolean {
+  if (query.since !== undefined && query.since !== null) {
+    if (!entry.at || Date.parse(entry.at) < query.since) return false;
+  }
+  return !query.grep || query.grep.test(entry.text);
+}
+
+/** Log files for `name`, oldest rotation first. */
+function logFiles(cwd: string, name: string): string[] {
+  const dir = agentLogsDir(cwd);
+  const base = `${name}.log`;
+  let entries: string[] = [];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const rotated = entries
+    .map(entry => ({ entry, index: entry.startsWith(`${base}.`) ? Number(entry.slice(base.length + 1)) : NaN }))
+    .filter(item => Number.isInteger(item.index) && item.index > 0)
+    .sort((a, b) => b.index - a.index)
+    .map(item => path.join(dir, item.entry));
+  return entries.includes(base) ? [...rotated, path.join(dir, base)] : rotated;
+}
+
+export function hasAgentLog(cwd: string, name: string): boolean {
+  return logFiles(cwd, name).length > 0;
+}
+
+/** Last `lines` persisted entries matching `grep`/`since`, across rotated files. */
+export function readAgentLog(cwd: string, name: string, query: AgentLogQuery): AgentLogEntry[] {
+  const entries: AgentLogEntry[] = [];
+  for (const file of logFiles(cwd, name)) {
+    let content = "";
+    try {
+      content = fs.readFileSync(file, "utf-8");
+    } catch {
+      continue;
+    }
+    for (const entry of parseEntries(content)) {
+      if (matchesQuery(entry, query)) entries.push(entry);
+    }
+  }
+  return entries.slice(-Math.max(1, query.lines));
+}
+
+/**
+ * Waits up to `timeoutMs` for new lines in the live log and returns the
+ * matching ones, as soon as any arrive. Stops early when `signal` aborts.
+ */
+export async function followAgentLog(
+  cwd: string,
+  name: string,
+  query: Omit<AgentLogQuery, "lines"> & { timeoutMs: number; signal?: AbortSignal },
+): Promise<AgentLogEntry[]> {
+  const file = path.join(agentLogsDir(cwd), `${name}.log`);
+  const sizeOf = () => {
+    try {
+      return fs.statSync(file).size;
+    } catch {
+      return 0;
+    }
+  };
+
+  let offset = sizeOf();
+  const deadline = Date.now() + Math.max(0, query.timeoutMs);
+  const collected: AgentLogEntry[] = [];
+  while (collected.length === 0 && Date.now() < deadline && !query.signal?.aborted) {
+    await pause(FOLLOW_POLL_MS, query.signal);
+    if (query.signal?.aborted) break;
+    const size = sizeOf();
+    if (size < offset) offset = 0; // rotated underneath us
+    if (size === offset) continue;
+
+    let chunk = "";
+    try {
+      const fd = fs.openSync(file, "r");
+      try {
+        const buffer = Buffer.alloc(size - offset);
+        fs.readSync(fd, buffer, 0, buffer.length, offset);
+        chunk = buffer.toString("utf-8");
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch {
+      continue;
+    }
+    // Only consume complete lines; a partial one is read again next poll.
+    const complete = chunk.lastIndexOf("\n") + 1;
+    offset += Buffer.byteLength(chunk.slice(0, complete));
+    collected.push(...parseEntries(chunk.slice(0, complete)).filter(entry => matchesQuery(entry, query)));
+  }
+  return collected;
+}
+
+function pause(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -1,24 +1,57 @@
 import * as fs from "node:fs";
 import { randomUUID, createHash } from "node:crypto";
+import { homedir } from "node:os";
 import { join, dirname } from "node:path";
 import type { ZVecCollection, ZVecDoc } from "@zvec/zvec";
-import { embed } from "./embedding.js";
+import { embed, type EmbeddingRequest, type EmbeddingTaskType } from "./embedding.js";
+import { createFlatRuntime, withFlatLock } from "./flat-index.js";
+import {
+  addLexicalDoc,
+  createLexicalIndex,
+  searchLexical,
+  type LexicalDocMeta,
+  type LexicalIndex,
+} from "./lexical.js";
 import type {
   MemoryConfig,
   MemoryStore,
   MemoryType,
+  MemoryBackend,
   MemoryEntry,
+  MemoryExclusionReason,
+  MemoryInjectionCandidate,
+  MemoryInjectionReport,
+  MemoryExportRecord,
+  MemoryExportResult,
+  MemoryImportResult,
+  MemoryCompactResult,
+  MemoryProvenance,
+  MemoryReindexResult,
+  MemoryScope,
   MemoryStats,
   TtlConfig,
 } from "./types.js";
 
 const COLLECTION_NAME = "orchestrator_memory";
 const VECTOR_FIELD = "embedding";
-const SCHEMA_VERSION = 2;
+const SCHEMA_VERSION = 3;
+// Older schema versions that can be upgraded in place by adding columns.
+const MIGRATABLE_SCHEMA_VERSIONS = new Set([2]);
 const CIRCUIT_BREAKER_FAILURES = 3;
 const CIRCUIT_BREAKER_COOLDOWN_MS = 60_000;
 const MAX_AGENT_SHARE = 0.4;
 const ZVEC_RETRY_MS = 30_000;
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+const LEXICAL_MIN_SCORE = 0.5;
+const EXPORT_FETCH_BATCH = 200;
+const COMPACT_DEFAULT_TYPES: MemoryType[] = ["summary", "message"];
+const COMPACT_MAX_CHARS = 4000;
+const REINDEX_DEFAULT_BATCH = 25;
+const MEMORY_LOCK_FILE = "memory.lock";
+const MEMORY_LOCK_STALE_MS = 10_000;
+// Long enough to wait out a reindex in another process.
+const MEMORY_LOCK_TIMEOUT_MS = 60_000;
+const MEMORY_LOCK_RETRY_MS = 50;
 const CORRUPTION_HINTS = [
   "corrupt",
   "corruption",
@@ -32,8 +65,10 @@ const CORRUPTION_HINTS = [
 ];
 
 let activeStore: MemoryStore | null = null;
+let activeGlobalStore: MemoryStore | null = null;
 let zvecRuntimeCache: Record<string, unknown> | null | undefined;
 let zvecLastFailureAt = 0;
+let flatRuntimeCache: Record<string, unknown> | null = null;
 let mutationQueue: Promise<void> = Promise.resolve();
 
 class SchemaMismatchError extends Error {}
@@ -59,8 +94,21 @@ function writeJsonAtomic(filePath: string, data: unknown): void {
   fs.renameSync(temp, filePath);
 }
 
-function memoryDir(projectDir: string): string {
-  return join(projectDir, ".pi", "messenger", "orchestrator", "memory");
+/**
+ * Root of the user-level ("global") memory shared by every project. It is
+ * passed wherever a project directory is expected.
+ */
+export function globalMemoryRoot(): string {
+  return process.env.PI_MESSENGER_GLOBAL_MEMORY_DIR?.trim() || join(homedir(), ".pi", "agent", "messenger-orchestrator");
+}
+
+function orchestratorDir(projectDir: string): string {
+  return projectDir === globalMemoryRoot() ? projectDir : join(projectDir, ".pi", "messenger", "orchestrator");
+}
+
+/** The flat backend gets its own directory so it never opens (or clobbers) a zvec collection. */
+function memoryDir(projectDir: string, backend: MemoryBackend = "zvec"): string {
+  return join(orchestratorDir(projectDir), backend === "flat" ? "memory-flat" : "memory");
 }
 
 function metadataPath(collectionPath: string): string {
@@ -68,11 +116,15 @@ function metadataPath(collectionPath: string): string {
 }
 
 function backupRoot(projectDir: string): string {
-  return join(projectDir, ".pi", "messenger", "orchestrator", "memory-backups");
+  return join(orchestratorDir(projectDir), "memory-backups");
+}
+
+function exportRoot(projectDir: string): string {
+  return join(orchestratorDir(projectDir), "memory-exports");
 }
 
 function breakerStatePath(projectDir: string): string {
-  return join(projectDir, ".pi", "messenger", "orchestrator", "memory-breaker.json");
+  return join(orchestratorDir(projectDir), "memory-breaker.json");
 }
 
 function timestampTag(date = new Date()): string {
@@ -97,7 +149,51 @@ function safeParseJson<T>(value: string): T | null {
   }
 }
 
-async function withMutationLock<T>(work: () => T | Promise<T>): Promise<T> {
+function isStaleMemoryLock(lockPath: string): boolean {
+  try {
+    const pid = parseInt(fs.readFileSync(lockPath, "utf-8").trim(), 10);
+    // Mutations are queued within a process, so our own pid means a leftover.
+    if (pid === process.pid) return true;
+    if (pid) {
+      try {
+        process.kill(pid, 0);
+        return false;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ESRCH") return true;
+      }
+    }
+    return Date.now() - fs.statSync(lockPath).mtimeMs > MEMORY_LOCK_STALE_MS;
+  } catch {
+    return false;
+  }
+}
+
+async function acquireMemoryLock(lockDir: string): Promise<() => void> {
+  ensureDir(lockDir);
+  const lockPath = join(lockDir, MEMORY_LOCK_FILE);
+  const deadline = Date.now() + MEMORY_LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+      return () => fs.rmSync(lockPath, { force: true });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      if (isStaleMemoryLock(lockPath)) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) throw new Error(`memory_locked: timed out waiting for ${lockPath}`);
+      await new Promise(resolve => setTimeout(resolve, MEMORY_LOCK_RETRY_MS));
+    }
+  }
+}
+
+/**
+ * Serializes memory mutations: queued within this process and, with `lockDir`,
+ * guarded by a lockfile there so other sessions sharing the store (workers, or
+ * every project using the global store) take turns.
+ */
+async function withMutationLock<T>(work: () => T | Promise<T>, lockDir?: string): Promise<T> {
   const previous = mutationQueue;
   let release: () => void = () => {};
   mutationQueue = new Promise<void>((resolve) => {
@@ -106,12 +202,26 @@ async function withMutationLock<T>(work: () => T | Promise<T>): Promise<T> {
 
   await previous;
   try {
-    return await work();
+    const unlock = lockDir ? await acquireMemoryLock(lockDir) : null;
+    try {
+      return await work();
+    } finally {
+      unlock?.();
+    }
   } finally {
     release();
   }
 }
 
+/** The flat index never waits for its own lock (its API is sync), so writers take it here. */
+function withCollectionLock<T>(store: MemoryStore, work: () => T | Promise<T>): Promise<T> {
+  return store.backend === "flat" ? withFlatLock(store.collectionPath, work) : Promise.resolve().then(work);
+}
+
+function withStoreLock<T>(store: MemoryStore, work: () => T | Promise<T>): Promise<T> {
+  return withMutationLock(() => withCollectionLock(store, work), orchestratorDir(store.projectDir));
+}
+
 function parseFiles(raw: unknown): string[] {
   if (typeof raw !== "string" || raw.length === 0) return [];
   const parsed = safeParseJson<unknown>(raw);
@@ -119,6 +229,13 @@ function parseFiles(raw: unknown): string[] {
   return parsed.filter((item): item is string => typeof item === "string");
 }
 
+function parseProvenance(raw: unknown): MemoryProvenance | undefined {
+  if (typeof raw !== "string" || raw.length === 0) return undefined;
+  const parsed = safeParseJson<MemoryProvenance>(raw);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
 function contentHash(text: string): string {
   return createHash("sha256").update(text).digest("hex");
 }
@@ -179,6 +296,18 @@ function distanceToSimilarity(distance: unknown): number {
   return 1 / (1 + distance);
 }
 
+function vectorSimilarity(query: number[], stored: unknown): number {
+  if (!stored || typeof (stored as ArrayLike<number>).length !== "number") return 0;
+  const values = stored as ArrayLike<number>;
+  if (values.length !== query.length) return 0;
+
+  let dot = 0;
+  for (let i = 0; i < query.length; i++) {
+    dot += query[i] * Number(values[i] ?? 0);
+  }
+  return distanceToSimilarity(1 - dot);
+}
+
 function recencyBonus(createdAtMs: number): number {
   const ageMs = Math.max(0, Date.now() - createdAtMs);
   const dayMs = 24 * 60 * 60 * 1000;
@@ -187,6 +316,17 @@ function recencyBonus(createdAtMs: number): number {
   return 0.15 * (1 - (ageMs / weekMs));
 }
 
+function embeddingRequest(store: MemoryStore, taskType: EmbeddingTaskType): EmbeddingRequest {
+  return {
+    provider: store.config.embeddingProvider,
+    model: store.config.embeddingModel,
+    dimensions: store.config.dimensions,
+    timeoutMs: store.config.embeddingTimeoutMs,
+    taskType,
+    ...(store.config.embeddingEndpoint ? { endpoint: store.config.embeddingEndpoint } : {}),
+  };
+}
+
 function breakerOpen(store: MemoryStore): boolean {
   return Date.now() < store.breakerOpenUntil;
 }
@@ -264,18 +404,21 @@ function defaultStats(store: MemoryStore): MemoryStats {
     dimensions: store.config.dimensions,
     embeddingModel: store.config.embeddingModel,
     collectionPath: store.collectionPath,
+    backend: store.backend ?? "zvec",
   };
 }
 
-function createStore(projectDir: string, config: MemoryConfig): MemoryStore {
+function createStore(projectDir: string, config: MemoryConfig, backend: MemoryBackend = "zvec"): MemoryStore {
   return {
     enabled: config.enabled,
     degraded: !config.enabled,
     reason: config.enabled ? undefined : "memory_disabled",
     projectDir,
-    collectionPath: memoryDir(projectDir),
+    backend,
+    collectionPath: memoryDir(projectDir, backend),
     config,
     collection: null,
+    lexicalIndex: null,
     consecutiveEmbeddingFailures: 0,
     breakerOpenUntil: 0,
     lastError: undefined,
@@ -305,6 +448,23 @@ async function getZvecRuntime(): Promise<Record<string, unknown> | null> {
   }
 }
 
+/**
+ * Picks the vector runtime for `memory.backend`: "zvec" requires the native
+ * module, "flat" always uses the pure-TS index, and "auto" (the default)
+ * prefers zvec and falls back to flat when it cannot load.
+ */
+async function resolveRuntime(config: MemoryConfig): Promise<{ backend: MemoryBackend; runtime: Record<string, unknown> } | null> {
+  const mode = config.backend ?? "auto";
+  if (mode !== "flat") {
+    const runtime = await getZvecRuntime();
+    if (runtime) return { backend: "zvec", runtime };
+    if (mode === "zvec") return null;
+  }
+
+  flatRuntimeCache ??= createFlatRuntime();
+  return { backend: "flat", runtime: flatRuntimeCache };
+}
+
 function runtimeOrThrow(runtime: Record<string, unknown>, key: string): unknown {
   const direct = runtime[key];
   if (direct) {
@@ -350,6 +510,7 @@ function createSchema(runtime: Record<string, unknown>, config: MemoryConfig): u
       { name: "embeddingModel", dataType: ZVecDataType.STRING },
       { name: "embeddingDimensions", dataType: ZVecDataType.INT32 },
       { name: "text", dataType: ZVecDataType.STRING },
+      { name: "provenance", dataType: ZVecDataType.STRING, nullable: true },
     ],
   });
 }
@@ -376,7 +537,7 @@ function openCollection(
   }
 }
 
-function validateMetadata(collectionPath: string, config: MemoryConfig): void {
+function validateMetadata(collectionPath: string, config: MemoryConfig): number {
   const filePath = metadataPath(collectionPath);
   const expected = {
     schemaVersion: SCHEMA_VERSION,
@@ -386,7 +547,7 @@ function validateMetadata(collectionPath: string, config: MemoryConfig): void {
 
   if (!fs.existsSync(filePath)) {
     writeJsonAtomic(filePath, expected);
-    return;
+    return SCHEMA_VERSION;
   }
 
   const raw = fs.readFileSync(filePath, "utf-8");
@@ -395,15 +556,45 @@ function validateMetadata(collectionPath: string, config: MemoryConfig): void {
     throw new SchemaMismatchError("Memory metadata is corrupt. Run pi_messenger({ action: \"agents.memory.reset\" }).");
   }
 
-  if (parsed.schemaVersion !== SCHEMA_VERSION) {
+  const storedVersion = Number(parsed.schemaVersion);
+  if (storedVersion !== SCHEMA_VERSION && !MIGRATABLE_SCHEMA_VERSIONS.has(storedVersion)) {
     throw new SchemaMismatchError("Memory schema version changed. Run pi_messenger({ action: \"agents.memory.reset\" }).");
   }
 
   if (parsed.embeddingDimensions !== config.dimensions) {
-    throw new SchemaMismatchError(`Memory embedding dimensions mismatch (${parsed.embeddingDimensions} != ${config.dimensions}). Run pi_messenger({ action: \"agents.memory.reset\" }).`);
+    throw new SchemaMismatchError(`Memory embedding dimensions mismatch (${parsed.embeddingDimensions} != ${config.dimensions}). Run pi_messenger({ action: \"agents.memory.reindex\" }) to re-embed existing memories.`);
+  }
+
+  return storedVersion;
+}
+
+/** Adds the columns introduced since the migratable schema versions. */
+function addMissingColumns(runtime: Record<string, unknown>, collection: ZVecCollection): void {
+  const ZVecDataType = runtimeOrThrow(runtime, "ZVecDataType") as Record<string, number>;
+  try {
+    collection.addColumnSync({
+      fieldSchema: { name: "provenance", dataType: ZVecDataType.STRING, nullable: true } as never,
+    });
+  } catch (error) {
+    throw new SchemaMismatchError(`Memory schema migration failed (${isErrorWithMessage(error) ? error.message : "unknown"}). Run pi_messenger({ action: \"agents.memory.reset\" }).`);
   }
 }
 
+function migrateSchema(
+  runtime: Record<string, unknown>,
+  collection: ZVecCollection,
+  collectionPath: string,
+  config: MemoryConfig,
+): void {
+  addMissingColumns(runtime, collection);
+
+  writeJsonAtomic(metadataPath(collectionPath), {
+    schemaVersion: SCHEMA_VERSION,
+    embeddingDimensions: config.dimensions,
+    collection: COLLECTION_NAME,
+  });
+}
+
 function validateCollectionShape(collection: ZVecCollection, config: MemoryConfig): void {
   let dim: unknown;
   try {
@@ -413,7 +604,7 @@ function validateCollectionShape(collection: ZVecCollection, config: MemoryConfi
   }
 
   if (dim !== config.dimensions) {
-    throw new SchemaMismatchError(`Memory vector dimension mismatch (${String(dim)} != ${config.dimensions}). Run pi_messenger({ action: \"agents.memory.reset\" }).`);
+    throw new SchemaMismatchError(`Memory vector dimension mismatch (${String(dim)} != ${config.dimensions}). Run pi_messenger({ action: \"agents.memory.reindex\" }) to re-embed existing memories.`);
   }
 }
 
@@ -511,17 +702,21 @@ function runHealthCheck(store: MemoryStore): { ok: boolean; error?: string } {
   }
 }
 
-function queryAll(store: MemoryStore, outputFields: string[]): ZVecDoc[] {
+function queryAllOrThrow(store: MemoryStore, outputFields: string[]): ZVecDoc[] {
   if (!store.collection) return [];
   const count = Math.max(0, store.collection.stats?.docCount ?? 0);
   if (count === 0) return [];
 
+  return store.collection.querySync({
+    filter: "createdAtMs >= 0",
+    topk: Math.max(1, count),
+    outputFields,
+  });
+}
+
+function queryAll(store: MemoryStore, outputFields: string[]): ZVecDoc[] {
   try {
-    return store.collection.querySync({
-      filter: "createdAtMs >= 0",
-      topk: Math.max(1, count),
-      outputFields,
-    });
+    return queryAllOrThrow(store, outputFields);
   } catch {
     return [];
   }
@@ -553,6 +748,76 @@ function buildFilter(
   return parts.join(" AND ");
 }
 
+function matchesFilter(
+  meta: LexicalDocMeta,
+  agentFilter?: string,
+  typeFilter?: MemoryType[],
+  workstreamFilter?: string,
+): boolean {
+  if (agentFilter && meta.agent !== agentFilter) return false;
+  if (typeFilter && typeFilter.length > 0 && !typeFilter.includes(meta.type as MemoryType)) return false;
+  if (workstreamFilter && workstreamFilter.trim() && meta.workstream !== workstreamFilter.trim()) return false;
+  return true;
+}
+
+function invalidateLexicalIndex(store: MemoryStore): void {
+  store.lexicalIndex = null;
+}
+
+function ensureLexicalIndex(store: MemoryStore): LexicalIndex {
+  if (store.lexicalIndex) return store.lexicalIndex;
+
+  const index = createLexicalIndex();
+  for (const doc of queryAll(store, ["agent", "type", "workstream", "taskId", "files", "text"])) {
+    const fields = doc.fields ?? {};
+    addLexicalDoc(index, {
+      id: doc.id,
+      text: typeof fields.text === "string" ? fields.text : "",
+      files: parseFiles(fields.files),
+      taskId: typeof fields.taskId === "string" ? fields.taskId : undefined,
+      agent: typeof fields.agent === "string" ? fields.agent : "",
+      type: typeof fields.type === "string" ? fields.type : "",
+      workstream: typeof fields.workstream === "string" ? fields.workstream : "",
+    });
+  }
+
+  store.lexicalIndex = index;
+  return index;
+}
+
+function fetchDocs(store: MemoryStore, ids: string[]): Record<string, ZVecDoc> {
+  if (!store.collection || ids.length === 0) return {};
+  try {
+    return store.collection.fetchSync(ids) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function docToEntry(doc: ZVecDoc, similarity: number, lexicalScore: number, lexicalWeight: number): MemoryEntry {
+  const fields = doc.fields ?? {};
+  const createdAtMs = Number(fields.createdAtMs ?? 0) || 0;
+  return {
+    id: doc.id,
+    text: typeof fields.text === "string" ? fields.text : "",
+    agent: typeof fields.agent === "string" ? fields.agent : "unknown",
+    type: asMemoryType(fields.type),
+    source: typeof fields.source === "string" ? fields.source : "unknown",
+    timestamp: typeof fields.timestamp === "string" ? fields.timestamp : new Date(createdAtMs || Date.now()).toISOString(),
+    createdAtMs,
+    taskId: typeof fields.taskId === "string" && fields.taskId.length > 0 ? fields.taskId : undefined,
+    workstream: typeof fields.workstream === "string" && fields.workstream.length > 0
+      ? fields.workstream
+      : undefined,
+    files: parseFiles(fields.files),
+    contentHash: typeof fields.contentHash === "string" ? fields.contentHash : "",
+    provenance: parseProvenance(fields.provenance),
+    similarity,
+    lexicalScore,
+    relevance: similarity + (lexicalWeight * lexicalScore) + recencyBonus(createdAtMs),
+  };
+}
+
 function importance(type: MemoryType): number {
   switch (type) {
     case "summary": return 3;
@@ -617,6 +882,7 @@ function evictIfNeeded(store: MemoryStore): number {
 
   try {
     store.collection.deleteSync(deletions);
+    invalidateLexicalIndex(store);
     return deletions.length;
   } catch {
     return 0;
@@ -637,11 +903,94 @@ function hasContentHash(store: MemoryStore, hash: string): boolean {
   }
 }
 
+async function embedDocument(store: MemoryStore, text: string): Promise<{ vector?: number[]; error: string }> {
+  const embedded = await embed(text, embeddingRequest(store, "RETRIEVAL_DOCUMENT"));
+
+  if (!embedded.ok || !Array.isArray(embedded.vector) || embedded.vector.length === 0) {
+    markEmbeddingFailure(store, embedded.error ?? "embedding_failed");
+    return { error: embedded.error ?? "embedding_failed" };
+  }
+
+  if (embedded.vector.length !== store.config.dimensions) {
+    markEmbeddingFailure(store, `embedding_dimensions_mismatch:${embedded.vector.length}`);
+    return { error: "embedding_dimensions_mismatch" };
+  }
+
+  markEmbeddingSuccess(store);
+  return { vector: embedded.vector, error: "" };
+}
+
+function insertMemoryDoc(
+  store: MemoryStore,
+  doc: {
+    id: string;
+    vector: number[];
+    text: string;
+    hash: string;
+    createdAtMs: number;
+    agent: string;
+    type: MemoryType;
+    source: string;
+    taskId?: string;
+    workstream?: string;
+    files?: string[];
+    provenance?: MemoryProvenance;
+  },
+): { ok: boolean; error?: string } {
+  if (!store.collection) return { ok: false, error: "memory_unavailable" };
+
+  try {
+    const status = store.collection.insertSync({
+      id: doc.id,
+      vectors: { [VECTOR_FIELD]: doc.vector },
+      fields: {
+        agent: doc.agent,
+        type: doc.type,
+        source: doc.source,
+        timestamp: new Date(doc.createdAtMs).toISOString(),
+        createdAtMs: doc.createdAtMs,
+        taskId: doc.taskId ?? "",
+        workstream: doc.workstream?.trim() ?? "",
+        files: JSON.stringify(doc.files ?? []),
+        contentHash: doc.hash,
+        schemaVersion: SCHEMA_VERSION,
+        embeddingModel: store.config.embeddingModel,
+        embeddingDimensions: store.config.dimensions,
+        text: doc.text,
+        provenance: doc.provenance ? JSON.stringify(doc.provenance) : "",
+      },
+    }) as { ok?: boolean; message?: string };
+
+    if (!status || status.ok !== true) {
+      return { ok: false, error: status?.message ?? "insert_failed" };
+    }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : "insert_failed" };
+  }
+
+  if (store.lexicalIndex) {
+    addLexicalDoc(store.lexicalIndex, {
+      id: doc.id,
+      text: doc.text,
+      files: doc.files,
+      taskId: doc.taskId,
+      agent: doc.agent,
+      type: doc.type,
+      workstream: doc.workstream?.trim() ?? "",
+    });
+  }
+
+  return { ok: true };
+}
+
 function initializeCollection(store: MemoryStore, runtime: Record<string, unknown>): void {
   const collectionPath = store.collectionPath;
   const collection = openCollection(runtime, collectionPath, store.config);
   validateCollectionShape(collection, store.config);
-  validateMetadata(collectionPath, store.config);
+  const storedVersion = validateMetadata(collectionPath, store.config);
+  if (storedVersion !== SCHEMA_VERSION) {
+    migrateSchema(runtime, collection, collectionPath, store.config);
+  }
 
   store.collection = collection;
   store.degraded = false;
@@ -689,30 +1038,27 @@ function attemptSelfHeal(
   }
 }
 
-export async function initMemory(projectDir: string, config: MemoryConfig): Promise<MemoryStore> {
-  if (activeStore && activeStore.projectDir !== projectDir) {
-    closeMemory(activeStore);
-  }
-
-  const store = createStore(projectDir, config);
-  loadBreakerState(store);
-
+async function openStore(projectDir: string, config: MemoryConfig): Promise<MemoryStore> {
   if (!config.enabled) {
-    activeStore = store;
+    const store = createStore(projectDir, config);
+    loadBreakerState(store);
     return store;
   }
 
-  const runtime = await getZvecRuntime();
-  if (!runtime) {
+  const resolved = await resolveRuntime(config);
+  const store = createStore(projectDir, config, resolved?.backend);
+  loadBreakerState(store);
+
+  if (!resolved) {
     store.degraded = true;
     store.reason = "zvec_unavailable";
-    activeStore = store;
     return store;
   }
 
+  const { runtime } = resolved;
+
   try {
-    initializeCollection(store, runtime);
-    activeStore = store;
+    await withCollectionLock(store, () => initializeCollection(store, runtime));
     return store;
   } catch (error) {
     closeMemory(store);
@@ -730,23 +1076,41 @@ export async function initMemory(projectDir: string, config: MemoryConfig): Prom
       if (healed.ok) {
         store.degraded = false;
         store.reason = undefined;
-        activeStore = store;
         return store;
       }
 
       store.degraded = true;
       store.reason = `self_heal_failed: ${healed.error ?? reason}`;
-      activeStore = store;
       return store;
     }
 
     store.degraded = true;
     store.reason = error instanceof Error ? error.message : "memory_init_failed";
-    activeStore = store;
     return store;
   }
 }
 
+export async function initMemory(projectDir: string, config: MemoryConfig): Promise<MemoryStore> {
+  if (activeStore && activeStore.projectDir !== projectDir) {
+    closeMemory(activeStore);
+  }
+
+  activeStore = await openStore(projectDir, config);
+  return activeStore;
+}
+
+export async function initGlobalMemory(config: MemoryConfig): Promise<MemoryStore> {
+  const root = globalMemoryRoot();
+  if (activeGlobalStore && activeGlobalStore.projectDir !== root) {
+    closeMemory(activeGlobalStore);
+  }
+
+  // Every session opens the same global store; creating or migrating it is
+  // done by one of them at a time.
+  activeGlobalStore = await withMutationLock(() => openStore(root, config), root);
+  return activeGlobalStore;
+}
+
 export async function remember(
   store: MemoryStore,
   text: string,
@@ -757,8 +1121,9 @@ export async function remember(
     taskId?: string;
     workstream?: string;
     files?: string[];
+    provenance?: MemoryProvenance;
   },
-): Promise<{ ok: boolean; degraded?: boolean; error?: string }> {
+): Promise<{ ok: boolean; degraded?: boolean; error?: string; id?: string; duplicate?: boolean }> {
   const trimmed = text.trim();
   if (!trimmed) {
     return { ok: false, error: "empty_text" };
@@ -774,74 +1139,151 @@ export async function remember(
 
   const hash = contentHash(trimmed);
   if (hasContentHash(store, hash)) {
-    return { ok: true };
-  }
-
-  const embedded = await embed(trimmed, {
-    provider: store.config.embeddingProvider,
-    model: store.config.embeddingModel,
-    dimensions: store.config.dimensions,
-    timeoutMs: store.config.embeddingTimeoutMs,
-    taskType: "RETRIEVAL_DOCUMENT",
-  });
-
-  if (!embedded.ok || !Array.isArray(embedded.vector) || embedded.vector.length === 0) {
-    markEmbeddingFailure(store, embedded.error ?? "embedding_failed");
-    return { ok: false, degraded: true, error: embedded.error ?? "embedding_failed" };
+    return { ok: true, duplicate: true };
   }
 
-  if (embedded.vector.length !== store.config.dimensions) {
-    markEmbeddingFailure(store, `embedding_dimensions_mismatch:${embedded.vector.length}`);
-    return { ok: false, degraded: true, error: "embedding_dimensions_mismatch" };
+  const embedded = await embedDocument(store, trimmed);
+  if (!embedded.vector) {
+    return { ok: false, degraded: true, error: embedded.error };
   }
 
-  markEmbeddingSuccess(store);
-
   const now = Date.now();
   const id = `${now}-${randomUUID().slice(0, 8)}`;
 
-  return withMutationLock(() => {
+  return withStoreLock(store, () => {
     if (!store.collection) {
       return { ok: false, degraded: true, error: "memory_unavailable" };
     }
 
     if (hasContentHash(store, hash)) {
-      return { ok: true };
+      return { ok: true, duplicate: true };
     }
 
-    try {
-      const status = store.collection.insertSync({
-        id,
-        vectors: { [VECTOR_FIELD]: embedded.vector },
-        fields: {
-          agent: metadata.agent,
-          type: metadata.type,
-          source: metadata.source,
-          timestamp: new Date(now).toISOString(),
-          createdAtMs: now,
-          taskId: metadata.taskId ?? "",
-          workstream: metadata.workstream?.trim() ?? "",
-          files: JSON.stringify(metadata.files ?? []),
-          contentHash: hash,
-          schemaVersion: SCHEMA_VERSION,
-          embeddingModel: store.config.embeddingModel,
-          embeddingDimensions: store.config.dimensions,
-          text: trimmed,
-        },
-      }) as { ok?: boolean; message?: string };
-
-      if (!status || status.ok !== true) {
-        return { ok: false, degraded: true, error: status?.message ?? "insert_failed" };
+    const inserted = insertMemoryDoc(store, {
+      id,
+      vector: embedded.vector,
+      text: trimmed,
+      hash,
+      createdAtMs: now,
+      ...metadata,
+    });
+    if (!inserted.ok) {
+      return { ok: false, degraded: true, error: inserted.error };
+    }
+
+    evictIfNeeded(store);
+    return { ok: true, id };
+  }).catch((error: unknown) => ({ ok: false, error: isErrorWithMessage(error) ? error.message : "unknown" }));
+}
+
+function storeScope(store: MemoryStore): MemoryScope {
+  return store.projectDir === globalMemoryRoot() ? "global" : "project";
+}
+
+function storeUsable(store: MemoryStore | null | undefined): store is MemoryStore & { collection: ZVecCollection } {
+  return !!store && store.enabled && !store.degraded && !!store.collection;
+}
+
+function rankCandidates(
+  store: MemoryStore & { collection: ZVecCollection },
+  text: string,
+  vector: number[],
+  topk: number,
+  minSimilarity: number,
+  options?: { agentFilter?: string; typeFilter?: MemoryType[]; workstreamFilter?: string },
+  rejected?: MemoryEntry[],
+): MemoryEntry[] {
+  const filter = buildFilter(options?.agentFilter, options?.typeFilter, options?.workstreamFilter);
+  const lexicalWeight = Math.max(0, store.config.lexicalWeight ?? 0);
+  const candidateK = lexicalWeight > 0 ? topk * HYBRID_CANDIDATE_MULTIPLIER : topk;
+
+  const docs = store.collection.querySync({
+    fieldName: VECTOR_FIELD,
+    vector,
+    topk: candidateK,
+    ...(filter ? { filter } : {}),
+    outputFields: [
+      "agent",
+      "type",
+      "source",
+      "timestamp",
+      "createdAtMs",
+      "taskId",
+      "workstream",
+      "files",
+      "contentHash",
+      "provenance",
+      "text",
+    ],
+  });
+
+  const candidates = new Map<string, { doc: ZVecDoc; similarity: number; lexical: number }>();
+  for (const doc of docs) {
+    candidates.set(doc.id, { doc, similarity: distanceToSimilarity(doc.score), lexical: 0 });
+  }
+
+  // Hybrid recall: BM25 hits catch exact identifiers (task ids, file paths,
+  // function names) that the embedding ranks poorly.
+  if (lexicalWeight > 0) {
+    const hits = searchLexical(ensureLexicalIndex(store), text, {
+      limit: candidateK,
+      accept: meta => matchesFilter(meta, options?.agentFilter, options?.typeFilter, options?.workstreamFilter),
+    });
+
+    const missing: string[] = [];
+    for (const hit of hits) {
+      const existing = candidates.get(hit.id);
+      if (existing) {
+        existing.lexical = hit.normalized;
+      } else {
+        missing.push(hit.id);
       }
+    }
 
-      evictIfNeeded(store);
-      return { ok: true };
-    } catch (error) {
-      return { ok: false, degraded: true, error: error instanceof Error ? error.message : "insert_failed" };
+    const fetched = fetchDocs(store, missing);
+    for (const hit of hits) {
+      const doc = fetched[hit.id];
+      if (!doc || candidates.has(hit.id)) continue;
+      candidates.set(hit.id, {
+        doc,
+        similarity: vectorSimilarity(vector, doc.vectors?.[VECTOR_FIELD]),
+        lexical: hit.normalized,
+      });
     }
-  });
+  }
+
+  const scope = storeScope(store);
+  const ranked: MemoryEntry[] = [];
+  for (const candidate of candidates.values()) {
+    const entry = { ...docToEntry(candidate.doc, candidate.similarity, candidate.lexical, lexicalWeight), scope };
+    if (candidate.similarity < minSimilarity && candidate.lexical < LEXICAL_MIN_SCORE) {
+      rejected?.push(entry);
+      continue;
+    }
+    ranked.push(entry);
+  }
+  return ranked;
+}
+
+function toInjectionCandidate(entry: MemoryEntry, tokens: number, reason?: MemoryExclusionReason): MemoryInjectionCandidate {
+  return {
+    id: entry.id,
+    scope: entry.scope ?? "project",
+    type: entry.type,
+    agent: entry.agent,
+    similarity: entry.similarity,
+    relevance: entry.relevance,
+    tokens,
+    included: reason === undefined,
+    ...(reason ? { reason } : {}),
+  };
 }
 
+/**
+ * Hybrid recall over the project store, optionally merged with the global
+ * store. With `report`, also returns every candidate considered and why each
+ * excluded one was dropped, for tuning autoInjectTopK/minSimilarity.
+ */
 export async function recall(
   store: MemoryStore,
   query: string,
@@ -852,14 +1294,17 @@ export async function recall(
     agentFilter?: string;
     typeFilter?: MemoryType[];
     workstreamFilter?: string;
+    globalStore?: MemoryStore | null;
+    globalWeight?: number;
+    report?: boolean;
   },
-): Promise<{ results: MemoryEntry[]; degraded?: boolean }> {
+): Promise<{ results: MemoryEntry[]; degraded?: boolean; report?: MemoryInjectionReport }> {
   const text = query.trim();
   if (!text) {
     return { results: [] };
   }
 
-  if (!store.enabled || store.degraded || !store.collection) {
+  if (!storeUsable(store)) {
     return { results: [], degraded: true };
   }
 
@@ -867,13 +1312,7 @@ export async function recall(
     return { results: [], degraded: true };
   }
 
-  const embedded = await embed(text, {
-    provider: store.config.embeddingProvider,
-    model: store.config.embeddingModel,
-    dimensions: store.config.dimensions,
-    timeoutMs: store.config.embeddingTimeoutMs,
-    taskType: "RETRIEVAL_QUERY",
-  });
+  const embedded = await embed(text, embeddingRequest(store, "RETRIEVAL_QUERY"));
 
   if (!embedded.ok || !Array.isArray(embedded.vector) || embedded.vector.length === 0) {
     markEmbeddingFailure(store, embedded.error ?? "embedding_failed");
@@ -890,54 +1329,39 @@ export async function recall(
   const topk = Math.max(1, options?.topk ?? store.config.autoInjectTopK);
   const minSimilarity = options?.minSimilarity ?? store.config.minSimilarity;
   const maxTokens = Math.max(1, options?.maxTokens ?? store.config.maxInjectionTokens);
-  const filter = buildFilter(options?.agentFilter, options?.typeFilter, options?.workstreamFilter);
 
   try {
-    const docs = store.collection.querySync({
-      fieldName: VECTOR_FIELD,
-      vector: embedded.vector,
-      topk,
-      ...(filter ? { filter } : {}),
-      outputFields: [
-        "agent",
-        "type",
-        "source",
-        "timestamp",
-        "createdAtMs",
-        "taskId",
-        "workstream",
-        "files",
-        "contentHash",
-        "text",
-      ],
-    });
-
-    const ranked: MemoryEntry[] = [];
-
-    for (const doc of docs) {
-      const fields = doc.fields ?? {};
-      const similarity = distanceToSimilarity(doc.score);
-      if (similarity < minSimilarity) continue;
-
-      const createdAtMs = Number(fields.createdAtMs ?? 0) || 0;
-      const entry: MemoryEntry = {
-        id: doc.id,
-        text: typeof fields.text === "string" ? fields.text : "",
-        agent: typeof fields.agent === "string" ? fields.agent : "unknown",
-        type: asMemoryType(fields.type),
-        source: typeof fields.source === "string" ? fields.source : "unknown",
-        timestamp: typeof fields.timestamp === "string" ? fields.timestamp : new Date(createdAtMs || Date.now()).toISOString(),
-        createdAtMs,
-        taskId: typeof fields.taskId === "string" && fields.taskId.length > 0 ? fields.taskId : undefined,
-        workstream: typeof fields.workstream === "string" && fields.workstream.length > 0
-          ? fields.workstream
-          : undefined,
-        files: parseFiles(fields.files),
-        contentHash: typeof fields.contentHash === "string" ? fields.contentHash : "",
-        similarity,
-        relevance: similarity + recencyBonus(createdAtMs),
-      };
-      ranked.push(entry);
+    const rejected: MemoryEntry[] | undefined = options?.report ? [] : undefined;
+    const duplicates: MemoryEntry[] = [];
+    const ranked = rankCandidates(store, text, embedded.vector, topk, minSimilarity, options, rejected);
+
+    // Global memories compete with project ones after scaling by globalWeight.
+    // Vectors are only comparable when both stores use the same embedding space,
+    // and workstreams are project-local so they do not filter global entries.
+    const globalStore = options?.globalStore;
+    const globalWeight = Math.max(0, options?.globalWeight ?? store.config.globalWeight ?? 0);
+    if (
+      globalWeight > 0
+      && globalStore !== store
+      && storeUsable(globalStore)
+      && globalStore.config.embeddingModel === store.config.embeddingModel
+      && globalStore.config.dimensions === store.config.dimensions
+    ) {
+      const seen = new Set(ranked.map(entry => entry.contentHash));
+      try {
+        const globalOptions = { agentFilter: options?.agentFilter, typeFilter: options?.typeFilter };
+        const globalRejected: MemoryEntry[] = [];
+        for (const entry of rankCandidates(globalStore, text, embedded.vector, topk, minSimilarity, globalOptions, globalRejected)) {
+          if (seen.has(entry.contentHash)) {
+            duplicates.push(entry);
+            continue;
+          }
+          ranked.push({ ...entry, relevance: entry.relevance * globalWeight });
+        }
+        rejected?.push(...globalRejected.map(entry => ({ ...entry, relevance: entry.relevance * globalWeight })));
+      } catch {
+        // global memory is best effort
+      }
     }
 
     ranked.sort((a, b) => {
@@ -946,25 +1370,46 @@ export async function recall(
     });
 
     const clipped: MemoryEntry[] = [];
+    const candidates: MemoryInjectionCandidate[] = [];
     let usedTokens = 0;
-    for (const entry of ranked) {
+    ranked.forEach((entry, index) => {
       const tokens = approxTokens(entry.text);
-      if (usedTokens + tokens > maxTokens) {
-        continue;
+      let reason: MemoryExclusionReason | undefined;
+      if (index >= topk) {
+        reason = "beyond_topk";
+      } else if (usedTokens + tokens > maxTokens) {
+        reason = "over_token_budget";
+      } else {
+        clipped.push(entry);
+        usedTokens += tokens;
       }
-      clipped.push(entry);
-      usedTokens += tokens;
+      candidates.push(toInjectionCandidate(entry, tokens, reason));
+    });
+
+    if (!rejected) {
+      return { results: clipped };
+    }
+
+    for (const entry of rejected) {
+      candidates.push(toInjectionCandidate(entry, approxTokens(entry.text), "below_min_similarity"));
+    }
+    for (const entry of duplicates) {
+      candidates.push(toInjectionCandidate(entry, approxTokens(entry.text), "duplicate"));
     }
 
-    return { results: clipped };
+    return {
+      results: clipped,
+      report: { topk, minSimilarity, maxTokens, usedTokens, included: clipped.length, candidates },
+    };
   } catch {
     return { results: [], degraded: true };
   }
 }
 
-export function forgetAgent(store: MemoryStore, agentName: string): number {
+export async function forgetAgent(store: MemoryStore, agentName: string): Promise<number> {
   if (!store.collection || !agentName) return 0;
-  try {
+  return withStoreLock(store, () => {
+    if (!store.collection) return 0;
     const docs = store.collection.querySync({
       filter: `agent = "${escapeFilterValue(agentName)}"`,
       topk: Math.max(1, store.collection.stats.docCount),
@@ -972,10 +1417,743 @@ export function forgetAgent(store: MemoryStore, agentName: string): number {
     });
     if (docs.length === 0) return 0;
     store.collection.deleteSync(docs.map(doc => doc.id));
+    invalidateLexicalIndex(store);
     return docs.length;
-  } catch {
-    return 0;
+  }).catch(() => 0);
+}
+
+export async function forgetMemory(
+  store: MemoryStore,
+  target: { id?: string; contentHash?: string },
+): Promise<number> {
+  if (!store.collection) return 0;
+
+  return withStoreLock(store, () => {
+    if (!store.collection) return 0;
+    const ids = new Set<string>();
+    const id = target.id?.trim();
+    if (id && store.collection.fetchSync([id])[id]) {
+      ids.add(id);
+    }
+
+    const hash = target.contentHash?.trim();
+    if (hash) {
+      const docs = store.collection.querySync({
+        filter: `contentHash = "${escapeFilterValue(hash)}"`,
+        topk: Math.max(1, store.collection.stats.docCount),
+        outputFields: ["contentHash"],
+      });
+      for (const doc of docs) ids.add(doc.id);
+    }
+
+    if (ids.size === 0) return 0;
+    store.collection.deleteSync(Array.from(ids));
+    invalidateLexicalIndex(store);
+    return ids.size;
+  }).catch(() => 0);
+}
+
+function toVectorArray(raw: unknown): number[] | undefined {
+  if (Array.isArray(raw)) return raw.map(Number);
+  if (raw instanceof Float32Array || raw instanceof Int8Array) return Array.from(raw);
+  return undefined;
+}
+
+function docToExportRecord(doc: ZVecDoc, vector?: number[]): MemoryExportRecord {
+  const fields = doc.fields ?? {};
+  const createdAtMs = Number(fields.createdAtMs ?? 0) || 0;
+  const provenance = parseProvenance(fields.provenance);
+  return {
+    id: doc.id,
+    text: typeof fields.text === "string" ? fields.text : "",
+    agent: typeof fields.agent === "string" ? fields.agent : "unknown",
+    type: asMemoryType(fields.type),
+    source: typeof fields.source === "string" ? fields.source : "unknown",
+    timestamp: typeof fields.timestamp === "string" ? fields.timestamp : new Date(createdAtMs).toISOString(),
+    createdAtMs,
+    ...(typeof fields.taskId === "string" && fields.taskId.length > 0 ? { taskId: fields.taskId } : {}),
+    ...(typeof fields.workstream === "string" && fields.workstream.length > 0 ? { workstream: fields.workstream } : {}),
+    files: parseFiles(fields.files),
+    contentHash: typeof fields.contentHash === "string" ? fields.contentHash : "",
+    embeddingModel: typeof fields.embeddingModel === "string" ? fields.embeddingModel : "",
+    embeddingDimensions: Number(fields.embeddingDimensions ?? 0) || 0,
+    ...(provenance ? { provenance } : {}),
+    ...(vector ? { vector } : {}),
+  };
+}
+
+/**
+ * Writes every memory entry as one JSON record per line, oldest first.
+ * Vectors are included by default so an import into a store with the same
+ * embedding model and dimensions can skip re-embedding.
+ */
+export function exportMemory(
+  store: MemoryStore,
+  options: { outPath?: string; includeVectors?: boolean; workstream?: string } = {},
+): MemoryExportResult {
+  const includeVectors = options.includeVectors ?? true;
+  const workstream = options.workstream?.trim();
+  const outPath = options.outPath?.trim() || join(exportRoot(store.projectDir), `memory-${timestampTag()}.jsonl`);
+
+  const docs = queryAll(store, [
+    "agent",
+    "type",
+    "source",
+    "timestamp",
+    "createdAtMs",
+    "taskId",
+    "workstream",
+    "files",
+    "contentHash",
+    "embeddingModel",
+    "embeddingDimensions",
+    "provenance",
+    "text",
+  ]).filter(doc => !workstream || doc.fields?.workstream === workstream);
+
+  const vectors = new Map<string, number[]>();
+  if (includeVectors && store.collection) {
+    for (let i = 0; i < docs.length; i += EXPORT_FETCH_BATCH) {
+      const batch = docs.slice(i, i + EXPORT_FETCH_BATCH).map(doc => doc.id);
+      for (const [id, fetched] of Object.entries(fetchDocs(store, batch))) {
+        const vector = toVectorArray(fetched.vectors?.[VECTOR_FIELD]);
+        if (vector) vectors.set(id, vector);
+      }
+    }
+  }
+
+  const records = docs
+    .map(doc => ({ ...docToExportRecord(doc, vectors.get(doc.id)), embeddingProvider: store.config.embeddingProvider }))
+    .filter(record => record.text.length > 0)
+    .sort((a, b) => a.createdAtMs - b.createdAtMs);
+
+  ensureDir(dirname(outPath));
+  const lines = records.map(record => JSON.stringify(record));
+  fs.writeFileSync(outPath, lines.join("\n") + (lines.length > 0 ? "\n" : ""));
+
+  return {
+    outPath,
+    exported: records.length,
+    withVectors: records.filter(record => record.vector).length,
+  };
+}
+
+/**
+ * Loads records written by `exportMemory`. Entries whose content hash already
+ * exists are skipped; stored vectors are reused only when the embedding
+ * provider, model and dimensions match this store, otherwise the text is
+ * re-embedded. Stops at the first write that cannot take the store lock.
+ */
+export async function importMemory(store: MemoryStore, inPath: string): Promise<MemoryImportResult> {
+  const summary: MemoryImportResult = {
+    inPath,
+    total: 0,
+    imported: 0,
+    reembedded: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  const fail = (line: number, error: string) => {
+    summary.failed += 1;
+    if (summary.errors.length < 10) summary.errors.push(`line ${line}: ${error}`);
+  };
+
+  if (!store.enabled || store.degraded || !store.collection) {
+    summary.errors.push(store.reason ?? "memory_unavailable");
+    return summary;
+  }
+
+  const lines = fs.readFileSync(inPath, "utf-8").split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    const raw = lines[index].trim();
+    if (!raw) continue;
+    summary.total += 1;
+
+    const record = safeParseJson<Partial<MemoryExportRecord>>(raw);
+    const text = typeof record?.text === "string" ? record.text.trim() : "";
+    if (!record || !text) {
+      fail(index + 1, "invalid_record");
+      continue;
+    }
+
+    const hash = contentHash(text);
+    if (hasContentHash(store, hash)) {
+      summary.skipped += 1;
+      continue;
+    }
+
+    let vector = Array.isArray(record.vector)
+      && record.vector.length === store.config.dimensions
+      && record.embeddingProvider === store.config.embeddingProvider
+      && record.embeddingModel === store.config.embeddingModel
+      ? record.vector.map(Number)
+      : undefined;
+
+    if (!vector) {
+      if (breakerOpen(store)) {
+        fail(index + 1, "embedding_circuit_breaker_open");
+        continue;
+      }
+      const embedded = await embedDocument(store, text);
+      if (!embedded.vector) {
+        fail(index + 1, embedded.error);
+        continue;
+      }
+      vector = embedded.vector;
+      summary.reembedded += 1;
+    }
+
+    const createdAtMs = typeof record.createdAtMs === "number" && Number.isFinite(record.createdAtMs)
+      ? record.createdAtMs
+      : Date.parse(record.timestamp ?? "") || Date.now();
+    const files = Array.isArray(record.files)
+      ? record.files.filter((file): file is string => typeof file === "string")
+      : [];
+
+    const inserted = await withStoreLock(store, () => {
+      if (!store.collection) return { ok: false, error: "memory_unavailable" };
+      if (hasContentHash(store, hash)) return { ok: true, duplicate: true };
+
+      const preferredId = typeof record.id === "string" ? record.id.trim() : "";
+      const id = preferredId && !fetchDocs(store, [preferredId])[preferredId]
+        ? preferredId
+        : `${createdAtMs}-${randomUUID().slice(0, 8)}`;
+
+      return insertMemoryDoc(store, {
+        id,
+        vector: vector!,
+        text,
+        hash,
+        createdAtMs,
+        agent: typeof record.agent === "string" && record.agent ? record.agent : "unknown",
+        type: asMemoryType(record.type),
+        source: typeof record.source === "string" && record.source ? record.source : "import",
+        taskId: typeof record.taskId === "string" ? record.taskId : undefined,
+        workstream: typeof record.workstream === "string" ? record.workstream : undefined,
+        files,
+        ...(record.provenance && typeof record.provenance === "object" ? { provenance: record.provenance } : {}),
+      });
+    }).catch((error: unknown) => ({ ok: false, locked: true, error: isErrorWithMessage(error) ? error.message : "unknown" }));
+
+    if ("locked" in inserted) {
+      fail(index + 1, inserted.error);
+      summary.error = inserted.error;
+      break;
+    }
+    if ("duplicate" in inserted) {
+      summary.skipped += 1;
+    } else if (inserted.ok) {
+      summary.imported += 1;
+    } else {
+      fail(index + 1, inserted.error ?? "insert_failed");
+    }
+  }
+
+  if (summary.imported > 0 && !summary.error) {
+    await withStoreLock(store, () => {
+      evictIfNeeded(store);
+    }).catch((error: unknown) => {
+      summary.error = isErrorWithMessage(error) ? error.message : "unknown";
+    });
+  }
+
+  return summary;
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + (value * value), 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i];
+  return dot;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Extractive merge: newest entry first, then any sentences from older entries
+ * that have not already been said.
+ */
+function mergeTexts(entries: MemoryExportRecord[]): string {
+  const seen = new Set<string>();
+  const kept: string[] = [];
+  let length = 0;
+
+  for (const entry of entries) {
+    for (const sentence of splitSentences(entry.text)) {
+      const key = sentence.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+      if (!key || seen.has(key)) continue;
+      if (length + sentence.length > COMPACT_MAX_CHARS) return kept.join(" ");
+      seen.add(key);
+      kept.push(sentence);
+      length += sentence.length + 1;
+    }
+  }
+
+  return kept.join(" ");
+}
+
+/**
+ * Clusters near-duplicate entries within each workstream and replaces every
+ * cluster with one merged entry whose provenance lists the source ids.
+ */
+export async function compactMemory(
+  store: MemoryStore,
+  options: { workstream?: string; types?: MemoryType[]; similarity?: number; dryRun?: boolean } = {},
+): Promise<MemoryCompactResult> {
+  const threshold = Math.min(1, Math.max(0, options.similarity ?? store.config.compactSimilarity ?? 0.85));
+  const types = options.types && options.types.length > 0 ? options.types : COMPACT_DEFAULT_TYPES;
+  const workstream = options.workstream?.trim();
+  const summary: MemoryCompactResult = {
+    dryRun: options.dryRun ?? false,
+    scanned: 0,
+    clusters: [],
+    removed: 0,
+    created: 0,
+    failed: 0,
+  };
+
+  if (!store.enabled || store.degraded || !store.collection) {
+    summary.error = store.reason ?? "memory_unavailable";
+    return summary;
+  }
+
+  const docs = queryAll(store, [
+    "agent",
+    "type",
+    "source",
+    "timestamp",
+    "createdAtMs",
+    "taskId",
+    "workstream",
+    "files",
+    "contentHash",
+    "embeddingModel",
+    "embeddingDimensions",
+    "provenance",
+    "text",
+  ]).filter(doc => {
+    const fields = doc.fields ?? {};
+    if (!types.includes(asMemoryType(fields.type))) return false;
+    return !workstream || fields.workstream === workstream;
+  });
+  summary.scanned = docs.length;
+
+  const vectors = new Map<string, number[]>();
+  for (let i = 0; i < docs.length; i += EXPORT_FETCH_BATCH) {
+    const batch = docs.slice(i, i + EXPORT_FETCH_BATCH).map(doc => doc.id);
+    for (const [id, fetched] of Object.entries(fetchDocs(store, batch))) {
+      const vector = toVectorArray(fetched.vectors?.[VECTOR_FIELD]);
+      if (vector && vector.length === store.config.dimensions) vectors.set(id, vector);
+    }
+  }
+
+  type VectorRecord = MemoryExportRecord & { vector: number[] };
+  const groups = new Map<string, VectorRecord[]>();
+  for (const doc of docs) {
+    const vector = vectors.get(doc.id);
+    if (!vector) continue;
+    const record: VectorRecord = { ...docToExportRecord(doc), vector };
+    const key = record.workstream ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  const clusters: VectorRecord[][] = [];
+  for (const records of groups.values()) {
+    const centroids: Array<{ centroid: number[]; members: VectorRecord[] }> = [];
+    records.sort((a, b) => a.createdAtMs - b.createdAtMs);
+
+    for (const record of records) {
+      const vector = record.vector;
+      let best: (typeof centroids)[number] | null = null;
+      let bestScore = threshold;
+      for (const candidate of centroids) {
+        const score = cosine(candidate.centroid, vector);
+        if (score >= bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+
+      if (!best) {
+        centroids.push({ centroid: vector, members: [record] });
+        continue;
+      }
+
+      best.members.push(record);
+      const n = best.members.length;
+      best.centroid = normalizeVector(best.centroid.map((value, i) => ((value * (n - 1)) + vector[i]) / n));
+    }
+
+    for (const cluster of centroids) {
+      if (cluster.members.length > 1) clusters.push(cluster.members);
+    }
+  }
+
+  for (const members of clusters) {
+    const newestFirst = [...members].sort((a, b) => b.createdAtMs - a.createdAtMs);
+    const newest = newestFirst[0];
+    const agents = new Set(members.map(member => member.agent));
+    const sourceIds = Array.from(new Set(members.flatMap(member => [
+      member.id,
+      ...(member.provenance?.sourceIds ?? []),
+    ])));
+    const text = mergeTexts(newestFirst);
+    const type: MemoryType = members.some(member => member.type === "decision") ? "decision" : "summary";
+    const files = Array.from(new Set(members.flatMap(member => member.files)));
+
+    summary.clusters.push({
+      workstream: newest.workstream ?? null,
+      type,
+      sourceIds: members.map(member => member.id),
+      text,
+    });
+
+    if (summary.dryRun) continue;
+    if (breakerOpen(store)) {
+      summary.failed += 1;
+      continue;
+    }
+
+    const { vector } = await embedDocument(store, text);
+    if (!vector) {
+      summary.failed += 1;
+      continue;
+    }
+
+    const hash = contentHash(text);
+    const outcome = await withStoreLock(store, () => {
+      if (!store.collection) return { ok: false, created: false };
+
+      // Delete first: the merged text may be identical to one of the members.
+      try {
+        store.collection.deleteSync(members.map(member => member.id));
+        invalidateLexicalIndex(store);
+      } catch {
+        return { ok: false, created: false };
+      }
+
+      // Another entry already holds the merged text: the members fold into it.
+      if (hasContentHash(store, hash)) return { ok: true, created: false };
+
+      const inserted = insertMemoryDoc(store, {
+        id: `${newest.createdAtMs}-${randomUUID().slice(0, 8)}`,
+        vector,
+        text,
+        hash,
+        createdAtMs: newest.createdAtMs,
+        agent: agents.size === 1 ? newest.agent : "consolidated",
+        type,
+        source: "agents.memory.compact",
+        taskId: newestFirst.find(member => member.taskId)?.taskId,
+        workstream: newest.workstream,
+        files,
+        provenance: { sourceIds },
+      });
+      if (inserted.ok) return { ok: true, created: true };
+
+      for (const member of members) {
+        insertMemoryDoc(store, {
+          ...member,
+          hash: member.contentHash || contentHash(member.text),
+        });
+      }
+      return { ok: false, created: false };
+    }).catch((error: unknown) => ({ ok: false, created: false, error: isErrorWithMessage(error) ? error.message : "unknown" }));
+
+    if ("error" in outcome) {
+      // The store stayed locked: later clusters would only wait out the same timeout.
+      summary.failed += 1;
+      summary.error = outcome.error;
+      break;
+    }
+    if (outcome.ok) {
+      if (outcome.created) summary.created += 1;
+      summary.removed += members.length;
+    } else {
+      summary.failed += 1;
+    }
+  }
+
+  return summary;
+}
+
+function mostCommon(values: string[]): string | null {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  let best: string | null = null;
+  for (const [value, count] of counts) {
+    if (best === null || count > (counts.get(best) ?? 0)) best = value;
   }
+  return best;
+}
+
+/**
+ * Re-embeds every stored entry with the configured provider, model and
+ * dimensions into a fresh collection, then swaps it in place of the old one
+ * (which is kept under memory-backups). Aborts without touching the existing
+ * collection if the embedding circuit breaker opens.
+ */
+export async function reindexMemory(
+  projectDir: string,
+  config: MemoryConfig,
+  options: { batchSize?: number; onProgress?: (done: number, total: number) => void } = {},
+): Promise<MemoryReindexResult> {
+  const summary: MemoryReindexResult = {
+    ok: false,
+    total: 0,
+    reindexed: 0,
+    failed: 0,
+    failedIds: [],
+    batches: 0,
+    fromModel: null,
+    fromDimensions: null,
+    toModel: config.embeddingModel,
+    toDimensions: config.dimensions,
+  };
+
+  const resolved = await resolveRuntime(config);
+  if (!resolved) {
+    summary.error = "zvec_unavailable";
+    return summary;
+  }
+
+  const { backend, runtime } = resolved;
+  const collectionPath = memoryDir(projectDir, backend);
+
+  if (!fs.existsSync(collectionPath)) {
+    summary.ok = true;
+    return summary;
+  }
+
+  for (const open of [activeStore, activeGlobalStore]) {
+    if (open && open.collectionPath === collectionPath) {
+      closeMemory(open);
+    }
+  }
+
+  return withMutationLock(async () => {
+    const ZVecOpen = runtimeOrThrow(runtime, "ZVecOpen") as (path: string) => ZVecCollection;
+    const ZVecCreateAndOpen = runtimeOrThrow(runtime, "ZVecCreateAndOpen") as (path: string, schema: unknown) => ZVecCollection;
+
+    const source = createStore(projectDir, config, backend);
+    try {
+      source.collection = ZVecOpen(collectionPath);
+    } catch (error) {
+      summary.error = `open_failed: ${isErrorWithMessage(error) ? error.message : "unknown"}`;
+      return summary;
+    }
+
+    try {
+      summary.fromDimensions = Number(source.collection.schema.vector(VECTOR_FIELD)?.dimension) || null;
+    } catch {
+      summary.fromDimensions = null;
+    }
+
+    // An older collection lacks the columns read below until it is migrated.
+    // Its metadata keeps the old dimensions: the swap rewrites them.
+    const metadata = safeParseJson<Record<string, unknown>>(
+      fs.existsSync(metadataPath(collectionPath)) ? fs.readFileSync(metadataPath(collectionPath), "utf-8") : "",
+    );
+    if (metadata && MIGRATABLE_SCHEMA_VERSIONS.has(Number(metadata.schemaVersion))) {
+      try {
+        addMissingColumns(runtime, source.collection);
+        writeJsonAtomic(metadataPath(collectionPath), { ...metadata, schemaVersion: SCHEMA_VERSION });
+      } catch (error) {
+        closeMemory(source);
+        summary.error = `migrate_failed: ${isErrorWithMessage(error) ? error.message : "unknown"}`;
+        return summary;
+      }
+    }
+
+    let docs: ZVecDoc[];
+    try {
+      docs = queryAllOrThrow(source, [
+        "agent",
+        "type",
+        "source",
+        "createdAtMs",
+        "taskId",
+        "workstream",
+        "files",
+        "contentHash",
+        "embeddingModel",
+        "provenance",
+        "text",
+      ]).filter(doc => doc.fields?.agent !== "__health__");
+    } catch (error) {
+      closeMemory(source);
+      summary.error = `read_failed: ${isErrorWithMessage(error) ? error.message : "unknown"}`;
+      return summary;
+    }
+    summary.total = docs.length;
+    summary.fromModel = mostCommon(docs.map(doc => String(doc.fields?.embeddingModel ?? "")));
+
+    const targetPath = `${collectionPath}.reindex-${timestampTag()}`;
+    const target = createStore(projectDir, config, backend);
+    loadBreakerState(target);
+
+    const discardTarget = () => {
+      closeMemory(target);
+      fs.rmSync(targetPath, { recursive: true, force: true });
+    };
+
+    try {
+      target.collection = ZVecCreateAndOpen(targetPath, createSchema(runtime, config));
+    } catch (error) {
+      closeMemory(source);
+      summary.error = `create_failed: ${isErrorWithMessage(error) ? error.message : "unknown"}`;
+      return summary;
+    }
+
+    const failedRecords: MemoryExportRecord[] = [];
+    const batchSize = Math.max(1, Math.floor(options.batchSize ?? REINDEX_DEFAULT_BATCH));
+    for (let start = 0; start < docs.length; start += batchSize) {
+      for (const doc of docs.slice(start, start + batchSize)) {
+        if (breakerOpen(target)) {
+          closeMemory(source);
+          discardTarget();
+          summary.error = "embedding_circuit_breaker_open";
+          return summary;
+        }
+
+        const record = docToExportRecord(doc);
+        const embedded = record.text ? await embedDocument(target, record.text) : { error: "empty_text" };
+        const inserted = embedded.vector
+          ? insertMemoryDoc(target, {
+            ...record,
+            vector: embedded.vector,
+            hash: record.contentHash || contentHash(record.text),
+          })
+          : { ok: false };
+
+        if (inserted.ok) {
+          summary.reindexed += 1;
+        } else {
+          summary.failed += 1;
+          summary.failedIds.push(record.id);
+          failedRecords.push(record);
+        }
+      }
+
+      summary.batches += 1;
+      options.onProgress?.(Math.min(docs.length, start + batchSize), docs.length);
+    }
+
+    closeMemory(source);
+    closeMemory(target);
+
+    // Entries that could not be re-embedded are saved in export format, so
+    // agents.memory.import can retry them once the embedder works.
+    if (failedRecords.length > 0) {
+      const failedPath = join(exportRoot(projectDir), `reindex-failed-${timestampTag()}.jsonl`);
+      try {
+        ensureDir(dirname(failedPath));
+        fs.writeFileSync(failedPath, failedRecords.map(record => JSON.stringify(record)).join("\n") + "\n");
+      } catch (error) {
+        fs.rmSync(targetPath, { recursive: true, force: true });
+        summary.error = `save_failed: ${isErrorWithMessage(error) ? error.message : "unknown"}`;
+        return summary;
+      }
+      summary.failedPath = failedPath;
+    }
+
+    let backupPath: string | null = null;
+    try {
+      backupPath = backupAndResetCollectionPath(projectDir, collectionPath, "pre-reindex");
+      fs.renameSync(targetPath, collectionPath);
+    } catch (error) {
+      if (backupPath && !fs.existsSync(collectionPath)) {
+        fs.renameSync(backupPath, collectionPath);
+      }
+      fs.rmSync(targetPath, { recursive: true, force: true });
+      summary.error = `swap_failed: ${isErrorWithMessage(error) ? error.message : "unknown"}`;
+      return summary;
+    }
+
+    writeJsonAtomic(metadataPath(collectionPath), {
+      schemaVersion: SCHEMA_VERSION,
+      embeddingDimensions: config.dimensions,
+      collection: COLLECTION_NAME,
+    });
+
+    summary.ok = true;
+    if (backupPath) summary.backupPath = backupPath;
+    return summary;
+  }, orchestratorDir(projectDir)).catch((error: unknown) => ({
+    ...summary,
+    ok: false,
+    error: isErrorWithMessage(error) ? error.message : "unknown",
+  }));
+}
+
+const WORKTREE_PATH = /^\.pi\/messenger\/orchestrator\/worktrees\/[^/]+\//;
+
+/** Project-relative form of a path; files a worker reported from its worktree map to the same path. */
+function normalizeTracePath(projectDir: string, filePath: string): string {
+  const trimmed = filePath.trim().replace(/\\/g, "/");
+  const root = projectDir.replace(/\\/g, "/").replace(/\/+$/, "");
+  const relative = trimmed.startsWith(`${root}/`) ? trimmed.slice(root.length + 1) : trimmed;
+  return relative.replace(/^(\.\/)+/, "").replace(WORKTREE_PATH, "");
+}
+
+/**
+ * Both sides are project-relative, so they must be equal. A stored path from
+ * outside the project still matches on whole trailing segments, but only for
+ * a query with a directory: a bare `index.ts` would match every index.ts.
+ */
+function pathsMatch(stored: string, query: string): boolean {
+  if (stored === query) return true;
+  return query.includes("/") && stored.startsWith("/") && stored.endsWith(`/${query}`);
+}
+
+/**
+ * Lists every memory that touched a file or belongs to a task (by `taskId`
+ * or provenance `crewTaskId`), oldest first.
+ */
+export function traceMemory(
+  store: MemoryStore,
+  target: { file?: string; taskId?: string },
+): MemoryEntry[] {
+  const file = target.file?.trim() ? normalizeTracePath(store.projectDir, target.file) : null;
+  const taskId = target.taskId?.trim() || null;
+  if (!file && !taskId) return [];
+
+  const docs = queryAll(store, [
+    "agent",
+    "type",
+    "source",
+    "timestamp",
+    "createdAtMs",
+    "taskId",
+    "workstream",
+    "files",
+    "contentHash",
+    "provenance",
+    "text",
+  ]);
+
+  return docs
+    .map(doc => docToEntry(doc, 0, 0, 0))
+    .filter((entry) => {
+      if (file && (entry.files ?? []).some(candidate => pathsMatch(normalizeTracePath(store.projectDir, candidate), file))) {
+        return true;
+      }
+      return !!taskId && (entry.taskId === taskId || entry.provenance?.crewTaskId === taskId);
+    })
+    .sort((a, b) => a.createdAtMs - b.createdAtMs);
 }
 
 export function pruneExpired(store: MemoryStore, ttlDays: TtlConfig): number {
@@ -1001,6 +2179,7 @@ export function pruneExpired(store: MemoryStore, ttlDays: TtlConfig): number {
   if (toDelete.length === 0) return 0;
   try {
     store.collection.deleteSync(toDelete);
+    invalidateLexicalIndex(store);
     return toDelete.length;
   } catch {
     return 0;
@@ -1033,16 +2212,20 @@ export function getMemoryStats(store: MemoryStore): MemoryStats {
 }
 
 export function resetMemory(projectDir: string): void {
-  const targetPath = memoryDir(projectDir);
+  const targetPaths = [memoryDir(projectDir, "zvec"), memoryDir(projectDir, "flat")];
 
-  if (activeStore && activeStore.collectionPath === targetPath) {
-    closeMemory(activeStore);
+  for (const open of [activeStore, activeGlobalStore]) {
+    if (open && targetPaths.includes(open.collectionPath)) {
+      closeMemory(open);
+    }
   }
 
-  try {
-    fs.rmSync(targetPath, { recursive: true, force: true });
-  } catch {
-    // ignore
+  for (const targetPath of targetPaths) {
+    try {
+      fs.rmSync(targetPath, { recursive: true, force: true });
+    } catch {
+      // ignore
+    }
   }
 
   try {
@@ -1064,12 +2247,26 @@ export function closeMemory(store?: MemoryStore | null): void {
     }
     target.collection = null;
   }
+  target.lexicalIndex = null;
 
   if (activeStore === target) {
     activeStore = null;
   }
+  if (activeGlobalStore === target) {
+    activeGlobalStore = null;
+  }
+}
+
+/** Closes both the project and the global store (session shutdown). */
+export function closeAllMemory(): void {
+  closeMemory(activeStore);
+  closeMemory(activeGlobalStore);
 }
 
 export function getActiveMemoryStore(): MemoryStore | null {
   return activeStore;
 }
+
+export function getActiveGlobalMemoryStore(): MemoryStore | null {
+  return activeGlobalStore;
+}
@@ -0,0 +1,200 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AgentProfile, AgentProfileMemory, ResolvedAgentProfile } from "./types.js";
+
+const MEMORY_KEYS = ["autoInjectTopK", "minSimilarity", "maxInjectionTokens"] as const;
+
+interface ProfileEntry {
+  profile: AgentProfile;
+  source: string;
+}
+
+export type ProfileResolution =
+  | { ok: true; profile: ResolvedAgentProfile }
+  | { ok: false; name: string; error: "profile_not_found" | "profile_cycle"; message: string };
+
+export function profilesDir(cwd: string): string {
+  return path.join(cwd, ".pi", "agents");
+}
+
+function parseFrontmatter(content: string): { fields: Record<string, string>; body: string } | null {
+  const normalized = content.replace(/\r\n/g, "\n");
+  if (!normalized.startsWith("---\n")) return null;
+  const endIdx = normalized.indexOf("\n---", 4);
+  if (endIdx === -1) return null;
+
+  const fields: Record<string, string> = {};
+  for (const line of normalized.slice(4, endIdx).split("\n")) {
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!match) continue;
+    const raw = match[2].trim();
+    if (raw) fields[match[1]] = raw.replace(/^['"]|['"]$/g, "");
+  }
+  return { fields, body: normalized.slice(endIdx + 4).trim() };
+}
+
+function parseList(raw: unknown): string[] | undefined {
+  const items = Array.isArray(raw)
+    ? raw.filter((item): item is string => typeof item === "string")
+    : typeof raw === "string" ? raw.split(",") : [];
+  const trimmed = items.map(item => item.trim()).filter(Boolean);
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/** Frontmatter env accepts a JSON object or `KEY=value, KEY2=value`. */
+function parseEnv(raw: unknown): Record<string, string> | undefined {
+  let source = raw;
+  if (typeof raw === "string") {
+    try {
+      source = JSON.parse(raw);
+    } catch {
+      source = Object.fromEntries(raw.split(",")
+        .map(pair => pair.split("="))
+        .filter(parts => parts.length >= 2 && parts[0].trim())
+        .map(([key, ...value]) => [key.trim(), value.join("=").trim()]));
+    }
+  }
+  if (!source || typeof source !== "object" || Array.isArray(source)) return undefined;
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
+    if (["string", "number", "boolean"].includes(typeof value)) env[key] = String(value);
+  }
+  return Object.keys(env).length > 0 ? env : undefined;
+}
+
+function parseNumber(raw: unknown): number | undefined {
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function parseMemory(raw: unknown, flat: Record<string, unknown> = {}): AgentProfileMemory | undefined {
+  let source: unknown = raw;
+  if (typeof raw === "string") {
+    try { source = JSON.parse(raw); } catch { source = {}; }
+  }
+  const merged = { ...flat, ...(source && typeof source === "object" ? source as Record<string, unknown> : {}) };
+  const memory: AgentProfileMemory = {};
+  for (const key of MEMORY_KEYS) {
+    const value = parseNumber(merged[key]);
+    if (value !== undefined) memory[key] = value;
+  }
+  return Object.keys(memory).length > 0 ? memory : undefined;
+}
+
+function optionalString(raw: unknown): string | undefined {
+  return typeof raw === "string" && raw.trim() ? raw.trim() : undefined;
+}
+
+/** Normalizes a profile from config JSON or parsed frontmatter, dropping malformed fields. */
+function normalizeProfile(raw: Record<string, unknown>, prompt?: string): AgentProfile {
+  const profile: AgentProfile = {};
+  const text = optionalString(prompt) ?? optionalString(raw.prompt);
+  const assign = <K extends keyof AgentProfile>(key: K, value: AgentProfile[K] | undefined) => {
+    if (value !== undefined) profile[key] = value;
+  };
+  assign("extends", optionalString(raw.extends));
+  assign("description", optionalString(raw.description));
+  assign("model", optionalString(raw.model));
+  assign("thinking", optionalString(raw.thinking));
+  assign("env", parseEnv(raw.env));
+  assign("prompt", text);
+  assign("tools", parseList(raw.tools));
+  assign("workstream", optionalString(raw.workstream));
+  assign("messageBudget", parseNumber(raw.messageBudget));
+  assign("memory", parseMemory(raw.memory, raw));
+  return profile;
+}
+
+function loadProfileFiles(cwd: string): Map<string, ProfileEntry> {
+  const profiles = new Map<string, ProfileEntry>();
+  const dir = profilesDir(cwd);
+  let entries: string[] = [];
+  try {
+    entries = fs.readdirSync(dir).filter(entry => entry.endsWith(".md")).sort();
+  } catch {
+    return profiles;
+  }
+
+  for (const entry of entries) {
+    const filePath = path.join(dir, entry);
+    let content = "";
+    try {
+      content = fs.readFileSync(filePath, "utf-8");
+    } catch {
+      continue;
+    }
+    const parsed = parseFrontmatter(content);
+    if (!parsed) continue;
+    const name = parsed.fields.name ?? path.basename(entry, ".md");
+    profiles.set(name, { profile: normalizeProfile(parsed.fields, parsed.body), source: filePath });
+  }
+  return profiles;
+}
+
+/**
+ * All profiles visible from `cwd`: `.pi/agents/*.md` files, overridden by
+ * same-named `orchestrator.profiles` entries from user/project config.
+ */
+function loadProfiles(cwd: string, configProfiles: Record<string, AgentProfile> = {}): Map<string, ProfileEntry> {
+  const profiles = loadProfileFiles(cwd);
+  for (const [name, raw] of Object.entries(configProfiles)) {
+    if (!raw || typeof raw !== "object") continue;
+    profiles.set(name, { profile: normalizeProfile(raw as Record<string, unknown>), source: "config" });
+  }
+  return profiles;
+}
+
+function mergeProfiles(base: AgentProfile, child: AgentProfile): AgentProfile {
+  const merged: AgentProfile = { ...base, ...child };
+  if (base.env || child.env) merged.env = { ...base.env, ...child.env };
+  if (base.memory || child.memory) merged.memory = { ...base.memory, ...child.memory };
+  if (base.prompt && child.prompt) merged.prompt = `${base.prompt}\n\n${child.prompt}`;
+  return merged;
+}
+
+function resolveFrom(profiles: Map<string, ProfileEntry>, name: string): ProfileResolution {
+  const chain: string[] = [];
+  let current: string | undefined = name;
+  while (current) {
+    if (chain.includes(current)) {
+      return { ok: false, name, error: "profile_cycle", message: `profile '${name}' has an extends cycle (${[...chain, current].join(" → ")})` };
+    }
+    const entry = profiles.get(current);
+    if (!entry) {
+      const message = current === name
+        ? `profile '${name}' not found`
+        : `profile '${name}' extends unknown profile '${current}'`;
+      return { ok: false, name, error: "profile_not_found", message };
+    }
+    chain.push(current);
+    current = entry.profile.extends;
+  }
+
+  chain.reverse();
+  let merged: AgentProfile = {};
+  for (const link of chain) merged = mergeProfiles(merged, profiles.get(link)!.profile);
+  const { extends: _parent, ...fields } = merged;
+  return {
+    ok: true,
+    profile: { name, ...fields, chain, sources: chain.map(link => profiles.get(link)!.source) },
+  };
+}
+
+/** Resolves a profile by name, folding in its `extends` ancestors. */
+export function resolveProfile(
+  cwd: string,
+  name: string,
+  configProfiles?: Record<string, AgentProfile>,
+): ProfileResolution {
+  return resolveFrom(loadProfiles(cwd, configProfiles), name);
+}
+
+/** Resolves every known profile; broken ones are returned with their error. */
+export function listProfiles(
+  cwd: string,
+  configProfiles?: Record<string, AgentProfile>,
+): ProfileResolution[] {
+  const profiles = loadProfiles(cwd, configProfiles);
+  return [...profiles.keys()].sort().map(name => resolveFrom(profiles, name));
+}
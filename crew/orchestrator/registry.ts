@@ -2,13 +2,20 @@ import * as fs from "node:fs";
 import { execFileSync } from "node:child_process";
 import { homedir } from "node:os";
 import { join, dirname } from "node:path";
-import { formatDuration } from "../../lib.js";
+import { formatDuration, type Dirs } from "../../lib.js";
+import { leaveAllChannels } from "../../store.js";
 import { ingestDataEvent } from "../data/ingestion.js";
-import type { SpawnedAgent, SpawnedAgentStatus, HistoryEvent } from "./types.js";
+import { getBackend } from "./backends.js";
+import { readAgentLog } from "./logs.js";
+import type { SpawnedAgent, SpawnedAgentStatus, HistoryEvent, QueuedAssignment, CrashedAssignment } from "./types.js";
 
 const spawnedByThisProcess = new Set<string>();
 const idleNotified = new Set<string>();
 const MAX_SPAWNING_AGE_MS = 180_000;
+const CRASH_LOG_LINES = 40;
+const QUEUE_LOCK_STALE_MS = 10_000;
+const QUEUE_LOCK_TIMEOUT_MS = 5_000;
+const QUEUE_LOCK_RETRY_MS = 20;
 
 const VALID_TRANSITIONS: Record<SpawnedAgentStatus, Set<SpawnedAgentStatus>> = {
   spawning: new Set(["joined", "dead"]),
@@ -67,7 +74,7 @@ function isSpawnedAgent(value: unknown): value is SpawnedAgent {
     && (typeof v.assignedTask === "string" || v.assignedTask === null)
     && (v.currentWorkstream === undefined || typeof v.currentWorkstream === "string" || v.currentWorkstream === null)
     && typeof v.lastActivityAt === "number"
-    && (v.backend === "tmux" || v.backend === "headless");
+    && (v.backend === "tmux" || v.backend === "headless" || v.backend === "sandbox");
 }
 
 function orchestratorDir(cwd: string = process.cwd()): string {
@@ -82,29 +89,121 @@ function historyPath(cwd: string = process.cwd()): string {
   return join(orchestratorDir(cwd), "history.jsonl");
 }
 
+function meshDirs(): Dirs {
+  const base = process.env.PI_MESSENGER_DIR || join(homedir(), ".pi", "agent", "messenger");
+  return { base, registry: join(base, "registry"), inbox: join(base, "inbox") };
+}
+
 function meshRegistryDir(): string {
-  const baseDir = process.env.PI_MESSENGER_DIR || join(homedir(), ".pi", "agent", "messenger");
-  return join(baseDir, "registry");
+  return meshDirs().registry;
+}
+
+/** A later agent reusing the name must not inherit the channels. */
+function leaveMeshChannels(name: string): void {
+  try {
+    leaveAllChannels(meshDirs(), name);
+  } catch {
+    // best effort
+  }
 }
 
 function agentFilePath(name: string, cwd: string = process.cwd()): string {
   return join(agentsDir(cwd), `${name}.json`);
 }
 
-function canTransition(from: SpawnedAgentStatus, to: SpawnedAgentStatus): boolean {
-  if (from === to) return true;
-  return VALID_TRANSITIONS[from].has(to);
+function queueFilePath(name: string, cwd: string = process.cwd()): string {
+  return join(agentsDir(cwd), `${name}.queue.json`);
+}
+
+function queueLockPath(name: string, cwd: string = process.cwd()): string {
+  return join(agentsDir(cwd), `${name}.queue.lock`);
 }
 
-function isPidAlive(pid: number): boolean {
+function crashFilePath(name: string, cwd: string = process.cwd()): string {
+  return join(orchestratorDir(cwd), "crashed", `${name}.json`);
+}
+
+function isQueuedAssignment(value: unknown): value is QueuedAssignment {
+  if (!value || typeof value !== "object") return false;
+  const v = value as QueuedAssignment;
+  return typeof v.id === "string"
+    && typeof v.task === "string"
+    && (typeof v.workstream === "string" || v.workstream === null)
+    && typeof v.priority === "number"
+    && typeof v.enqueuedAt === "number"
+    && typeof v.enqueuedBy === "string";
+}
+
+function writeQueue(name: string, queue: QueuedAssignment[], cwd: string): void {
+  if (queue.length === 0) {
+    removeQueueFile(name, cwd);
+    return;
+  }
+  writeJsonAtomic(queueFilePath(name, cwd), queue);
+}
+
+function removeQueueFile(name: string, cwd: string): void {
   try {
-    process.kill(pid, 0);
-    return true;
+    fs.unlinkSync(queueFilePath(name, cwd));
+  } catch {
+    // ignore
+  }
+}
+
+function isStaleQueueLock(lockPath: string): boolean {
+  try {
+    const pid = parseInt(fs.readFileSync(lockPath, "utf-8").trim(), 10);
+    // Queue edits are synchronous once locked, so our own pid means a leftover.
+    if (pid === process.pid) return true;
+    if (pid) {
+      try {
+        process.kill(pid, 0);
+        return false;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ESRCH") return true;
+      }
+    }
+    return Date.now() - fs.statSync(lockPath).mtimeMs > QUEUE_LOCK_STALE_MS;
   } catch {
     return false;
   }
 }
 
+/**
+ * Runs a read-modify-write of an agent's queue file holding its lockfile, so
+ * the heartbeat, `agents.queue` and reaping in other sessions take turns.
+ */
+async function withQueueLock<T>(name: string, cwd: string, work: () => T): Promise<T> {
+  ensureDir(agentsDir(cwd));
+  const lockPath = queueLockPath(name, cwd);
+  const deadline = Date.now() + QUEUE_LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      if (isStaleQueueLock(lockPath)) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) throw new Error(`queue_locked: timed out waiting for ${lockPath}`);
+      await new Promise(resolve => setTimeout(resolve, QUEUE_LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return work();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function canTransition(from: SpawnedAgentStatus, to: SpawnedAgentStatus): boolean {
+  if (from === to) return true;
+  return VALID_TRANSITIONS[from].has(to);
+}
+
 function parsePid(raw: unknown): number | null {
   const pid = typeof raw === "number" ? raw : Number(raw);
   if (!Number.isFinite(pid) || pid <= 0) return null;
@@ -142,22 +241,65 @@ function isDescendantPid(pid: number, ancestorPid: number): boolean {
   return false;
 }
 
-function cleanupTmux(agent: SpawnedAgent): void {
-  if (!agent.tmuxPaneId) return;
+function findMeshRegistration(name: string): Record<string, unknown> | null {
+  const filePath = join(meshRegistryDir(), `${name}.json`);
+  return readJson<Record<string, unknown>>(filePath);
+}
+
+function captureBackendTail(agent: SpawnedAgent, cwd: string): string[] {
+  let tail: string[] = [];
   try {
-    execFileSync("tmux", ["kill-pane", "-t", agent.tmuxPaneId], { stdio: "ignore" });
+    tail = (getBackend(agent.backend).logs(agent, CRASH_LOG_LINES) ?? []).filter(line => line.trim().length > 0);
   } catch {
-    // ignore
+    // fall back to the persisted log
   }
+  if (tail.length > 0) return tail;
+  return readAgentLog(cwd, agent.name, { lines: CRASH_LOG_LINES }).map(entry => entry.text);
 }
 
-function findMeshRegistration(name: string): Record<string, unknown> | null {
-  const filePath = join(meshRegistryDir(), `${name}.json`);
-  return readJson<Record<string, unknown>>(filePath);
+function readMeshProgress(name: string): CrashedAssignment["progress"] {
+  const reg = findMeshRegistration(name);
+  if (!reg) return null;
+  const session = reg.session as Record<string, unknown> | undefined;
+  const activity = reg.activity as Record<string, unknown> | undefined;
+  return {
+    toolCalls: Number(session?.toolCalls ?? 0) || 0,
+    tokens: Number(session?.tokens ?? 0) || 0,
+    filesModified: Array.isArray(session?.filesModified)
+      ? session.filesModified.filter((file): file is string => typeof file === "string")
+      : [],
+    currentActivity: typeof activity?.currentActivity === "string" ? activity.currentActivity : null,
+  };
 }
 
-function markDeadAndDelete(agent: SpawnedAgent, cwd: string, reason: string): void {
+/**
+ * Saves the task (and queue) of an agent that died mid-assignment when its
+ * restart policy still allows a respawn. Returns whether it was saved.
+ */
+function rescueAssignment(agent: SpawnedAgent, cwd: string, reason: string, logs?: string[]): boolean {
+  if (agent.status !== "assigned" || !agent.assignedTask) return false;
+  const maxRestarts = agent.restartPolicy?.maxRestarts ?? 0;
+  if ((agent.restarts ?? 0) >= maxRestarts) return false;
+
+  const crash: CrashedAssignment = {
+    agent,
+    reason,
+    crashedAt: Date.now(),
+    queue: getQueue(agent.name, cwd),
+    logs: (logs && logs.length > 0 ? logs : captureBackendTail(agent, cwd)).slice(-CRASH_LOG_LINES),
+    progress: readMeshProgress(agent.name),
+  };
+  try {
+    writeJsonAtomic(crashFilePath(agent.name, cwd), crash);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function markDeadAndDelete(agent: SpawnedAgent, cwd: string, reason: string, logs?: string[]): void {
   const filePath = agentFilePath(agent.name, cwd);
+  const restartPending = rescueAssignment(agent, cwd, reason, logs);
   try {
     const dead: SpawnedAgent = {
       ...agent,
@@ -170,13 +312,16 @@ function markDeadAndDelete(agent: SpawnedAgent, cwd: string, reason: string): vo
     // ignore
   }
 
-  cleanupTmux(agent);
+  getBackend(agent.backend).kill(agent);
 
   try {
     fs.unlinkSync(filePath);
   } catch {
     // ignore
   }
+  const droppedQueue = restartPending ? 0 : getQueue(agent.name, cwd).length;
+  void clearQueue(agent.name, cwd);
+  leaveMeshChannels(agent.name);
 
   spawnedByThisProcess.delete(agent.name);
   idleNotified.delete(agent.name);
@@ -188,12 +333,14 @@ function markDeadAndDelete(agent: SpawnedAgent, cwd: string, reason: string): vo
       reason,
       pid: agent.pid,
       previousStatus: agent.status,
+      ...(droppedQueue > 0 ? { droppedQueue } : {}),
+      ...(restartPending ? { restartPending, task: agent.assignedTask } : {}),
     },
   }, cwd);
 }
 
 function shouldReap(agent: SpawnedAgent): string | null {
-  if (!isPidAlive(agent.pid)) {
+  if (!getBackend(agent.backend).isAlive(agent)) {
     return "pid_exited";
   }
 
@@ -237,6 +384,8 @@ export function unregisterSpawned(name: string, cwd: string = process.cwd()): vo
   } catch {
     // ignore
   }
+  void clearQueue(name, cwd);
+  leaveMeshChannels(name);
   spawnedByThisProcess.delete(name);
   idleNotified.delete(name);
 }
@@ -252,7 +401,7 @@ export function getAllSpawned(cwd: string = process.cwd()): SpawnedAgent[] {
 
   const entries: SpawnedAgent[] = [];
   for (const file of fs.readdirSync(dir)) {
-    if (!file.endsWith(".json")) continue;
+    if (!file.endsWith(".json") || file.endsWith(".queue.json")) continue;
     const parsed = readJson<unknown>(join(dir, file));
     if (isSpawnedAgent(parsed)) {
       entries.push(parsed);
@@ -262,6 +411,60 @@ export function getAllSpawned(cwd: string = process.cwd()): SpawnedAgent[] {
   return entries.sort((a, b) => a.spawnedAt - b.spawnedAt);
 }
 
+/** Pending assignments for an agent, highest priority first, FIFO within a priority. */
+export function getQueue(name: string, cwd: string = process.cwd()): QueuedAssignment[] {
+  const parsed = readJson<unknown>(queueFilePath(name, cwd));
+  return Array.isArray(parsed) ? parsed.filter(isQueuedAssignment) : [];
+}
+
+/** Rejects with `queue_locked: ...` if another session keeps the queue locked. */
+export async function enqueueAssignment(
+  name: string,
+  item: Omit<QueuedAssignment, "id" | "enqueuedAt"> & { id?: string; enqueuedAt?: number },
+  cwd: string = process.cwd(),
+): Promise<{ item: QueuedAssignment; position: number }> {
+  const queued: QueuedAssignment = {
+    ...item,
+    id: item.id ?? `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    enqueuedAt: item.enqueuedAt ?? Date.now(),
+  };
+
+  return withQueueLock(name, cwd, () => {
+    const queue = getQueue(name, cwd).filter(existing => existing.id !== queued.id);
+    let index = queue.findIndex(existing => existing.priority < queued.priority
+      || (existing.priority === queued.priority && existing.enqueuedAt > queued.enqueuedAt));
+    if (index < 0) index = queue.length;
+    queue.splice(index, 0, queued);
+    writeQueue(name, queue, cwd);
+    return { item: queued, position: index + 1 };
+  });
+}
+
+/** Removes the queued item with `id`, or the head of the queue when omitted. */
+export async function dequeueAssignment(
+  name: string,
+  id?: string,
+  cwd: string = process.cwd(),
+): Promise<QueuedAssignment | null> {
+  return withQueueLock(name, cwd, () => {
+    const queue = getQueue(name, cwd);
+    const index = id ? queue.findIndex(item => item.id === id) : 0;
+    if (index < 0 || index >= queue.length) return null;
+    const [removed] = queue.splice(index, 1);
+    writeQueue(name, queue, cwd);
+    return removed;
+  });
+}
+
+/**
+ * Drops an agent's queue. Done under the queue lock so an edit in flight
+ * elsewhere cannot write it back; that is immediate unless another session
+ * holds the lock, so synchronous callers need not wait for it.
+ */
+export function clearQueue(name: string, cwd: string = process.cwd()): Promise<void> {
+  return withQueueLock(name, cwd, () => removeQueueFile(name, cwd)).catch(() => {});
+}
+
 export function transitionState(
   name: string,
   to: SpawnedAgentStatus,
@@ -287,7 +490,28 @@ export function transitionState(
 
 export function isOrchestrator(): boolean {
   if (spawnedByThisProcess.size > 0) return true;
-  return getAllSpawned().some(agent => agent.status !== "dead");
+  // A crashed agent awaiting respawn keeps the heartbeat's upkeep running.
+  return getAllSpawned().some(agent => agent.status !== "dead") || getCrashedAssignments().length > 0;
+}
+
+/** Orchestrator history events in file order; malformed lines are skipped. */
+export function readHistory(cwd: string = process.cwd()): HistoryEvent[] {
+  const filePath = historyPath(cwd);
+  if (!fs.existsSync(filePath)) return [];
+
+  const events: HistoryEvent[] = [];
+  for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as HistoryEvent;
+      if (typeof parsed?.event === "string" && typeof parsed.agent === "string" && typeof parsed.timestamp === "string") {
+        events.push(parsed);
+      }
+    } catch {
+      // skip torn lines
+    }
+  }
+  return events;
 }
 
 export function logHistory(event: HistoryEvent, cwd: string = process.cwd()): void {
@@ -329,6 +553,49 @@ export function reapOrphans(cwd: string = process.cwd()): string[] {
   return reaped;
 }
 
+/**
+ * Reaps a single agent whose process is known to be gone (e.g. headless exit).
+ * `logs` is the captured output tail kept for a crash recap.
+ */
+export function reapSpawned(name: string, reason: string, cwd: string = process.cwd(), logs?: string[]): boolean {
+  const agent = getSpawned(name, cwd);
+  if (!agent || agent.status === "dead") return false;
+  markDeadAndDelete(agent, cwd, reason, logs);
+  return true;
+}
+
+/** Assignments rescued from crashed agents, oldest crash first. */
+export function getCrashedAssignments(cwd: string = process.cwd()): CrashedAssignment[] {
+  const dir = join(orchestratorDir(cwd), "crashed");
+  if (!fs.existsSync(dir)) return [];
+
+  const crashes: CrashedAssignment[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    const parsed = readJson<CrashedAssignment>(join(dir, file));
+    if (parsed && isSpawnedAgent(parsed.agent) && typeof parsed.crashedAt === "number") {
+      crashes.push({
+        ...parsed,
+        queue: Array.isArray(parsed.queue) ? parsed.queue.filter(isQueuedAssignment) : [],
+        logs: Array.isArray(parsed.logs) ? parsed.logs.filter((line): line is string => typeof line === "string") : [],
+      });
+    }
+  }
+  return crashes.sort((a, b) => a.crashedAt - b.crashedAt);
+}
+
+export function saveCrashedAssignment(crash: CrashedAssignment, cwd: string = process.cwd()): void {
+  writeJsonAtomic(crashFilePath(crash.agent.name, cwd), crash);
+}
+
+export function clearCrashedAssignment(name: string, cwd: string = process.cwd()): void {
+  try {
+    fs.unlinkSync(crashFilePath(name, cwd));
+  } catch {
+    // ignore
+  }
+}
+
 export function checkSpawnedAgentHealth(cwd: string = process.cwd()): string[] {
   return reapOrphans(cwd);
 }
@@ -0,0 +1,298 @@
+import { formatDuration } from "../../lib.js";
+import type { HistoryEvent } from "./types.js";
+
+export type TaskOutcome = "done" | "killed" | "reaped" | "open";
+
+export interface TimelineTask {
+  task: string;
+  workstream: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  outcome: TaskOutcome;
+}
+
+export interface AgentTimeline {
+  name: string;
+  firstSeenAt: string;
+  status: "spawning" | "idle" | "assigned" | "ended";
+  endReason: string | null;
+  spawns: number;
+  spawningMs: number;
+  idleMs: number;
+  assignedMs: number;
+  tasks: TimelineTask[];
+  reaps: Array<{ at: string; reason: string }>;
+  escalations: number;
+  restarts: number;
+}
+
+export interface TimelineReport {
+  from: string | null;
+  to: string;
+  events: number;
+  agents: AgentTimeline[];
+  totals: {
+    agents: number;
+    tasksDone: number;
+    tasksAbandoned: number;
+    tasksOpen: number;
+    spawningMs: number;
+    idleMs: number;
+    assignedMs: number;
+    utilization: number;
+    reaps: number;
+    spawnFailures: number;
+  };
+}
+
+interface Track {
+  timeline: AgentTimeline;
+  since: number;
+  openTask: { task: string; workstream: string | null; startedAt: number } | null;
+  closedTasks: Array<{ task: string; workstream: string | null; startedAt: number; endedAt: number | null; outcome: TaskOutcome }>;
+}
+
+function overlapMs(start: number, end: number, from: number, to: number): number {
+  return Math.max(0, Math.min(end, to) - Math.max(start, from));
+}
+
+function detailString(event: HistoryEvent, key: string): string | null {
+  const value = event.details?.[key];
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+function detailNumber(event: HistoryEvent, key: string): number {
+  const value = Number(event.details?.[key]);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Rebuilds per-agent timelines from orchestrator history. State durations are
+ * clipped to [since, until]; tasks are listed when they overlap the window.
+ */
+export function buildTimelineReport(
+  events: HistoryEvent[],
+  options: { since?: number | null; until?: number } = {},
+): TimelineReport {
+  const until = options.until ?? Date.now();
+  const from = options.since ?? Number.NEGATIVE_INFINITY;
+  const tracks = new Map<string, Track>();
+  let spawnFailures = 0;
+  let inWindow = 0;
+
+  const sorted = events
+    .map(event => ({ event, at: Date.parse(event.timestamp) }))
+    .filter(item => Number.isFinite(item.at) && item.at <= until)
+    .sort((a, b) => a.at - b.at);
+
+  const accumulate = (track: Track, end: number) => {
+    const ms = overlapMs(track.since, end, from, until);
+    const { timeline } = track;
+    if (timeline.status === "spawning") timeline.spawningMs += ms;
+    else if (timeline.status === "idle") timeline.idleMs += ms;
+    else if (timeline.status === "assigned") timeline.assignedMs += ms;
+    track.since = end;
+  };
+
+  const closeTask = (track: Track, at: number, outcome: TaskOutcome) => {
+    if (!track.openTask) return;
+    track.closedTasks.push({ ...track.openTask, endedAt: at, outcome });
+    track.openTask = null;
+  };
+
+  const trackFor = (name: string, at: number): Track => {
+    let track = tracks.get(name);
+    if (!track) {
+      track = {
+        timeline: {
+          name,
+          firstSeenAt: new Date(at).toISOString(),
+          status: "idle",
+          endReason: null,
+          spawns: 0,
+          spawningMs: 0,
+          idleMs: 0,
+          assignedMs: 0,
+          tasks: [],
+          reaps: [],
+          escalations: 0,
+          restarts: 0,
+        },
+        since: at,
+        openTask: null,
+        closedTasks: [],
+      };
+      tracks.set(name, track);
+    }
+    return track;
+  };
+
+  for (const { event, at } of sorted) {
+    if (at >= from) inWindow++;
+    const track = trackFor(event.agent, at);
+    const { timeline } = track;
+
+    switch (event.event) {
+      case "spawn": {
+        const spawningMs = detailNumber(event, "spawningMs");
+        if (timeline.status !== "ended") accumulate(track, at - spawningMs);
+        timeline.spawns++;
+        timeline.endReason = null;
+        track.since = at - spawningMs;
+        timeline.status = "spawning";
+        accumulate(track, at);
+        timeline.status = "idle";
+        break;
+      }
+      case "assign": {
+        accumulate(track, at);
+        closeTask(track, at, "open");
+        track.openTask = { task: detailString(event, "task") ?? "(unknown task)", workstream: detailString(event, "workstream"), startedAt: at };
+        timeline.status = "assigned";
+        break;
+      }
+      case "done": {
+        accumulate(track, at);
+        closeTask(track, at, "done");
+        timeline.status = "idle";
+        break;
+      }
+      case "kill":
+      case "reap": {
+        const reason = event.event === "kill" ? "killed" : detailString(event, "reason") ?? "unknown";
+        if (event.event === "reap" && reason === "spawn_timeout") {
+          // Failed spawns never log a spawn event; charge the wait as spawning time.
+          spawnFailures++;
+          const waitedMs = detailNumber(event, "timeoutMs");
+          track.since = at - waitedMs;
+          timeline.status = "spawning";
+        }
+        if (timeline.status !== "ended") accumulate(track, at);
+        closeTask(track, at, event.event === "kill" ? "killed" : "reaped");
+        if (event.event === "reap") timeline.reaps.push({ at: event.timestamp, reason });
+        timeline.status = "ended";
+        timeline.endReason = event.event === "kill" ? "killed" : `reaped (${reason})`;
+        break;
+      }
+      case "escalate":
+        if (at >= from) timeline.escalations++;
+        break;
+      case "restart":
+        if (at >= from) timeline.restarts++;
+        break;
+      default:
+        break;
+    }
+  }
+
+  const agents: AgentTimeline[] = [];
+  for (const track of tracks.values()) {
+    const { timeline } = track;
+    if (timeline.status !== "ended") accumulate(track, until);
+    const all = [
+      ...track.closedTasks,
+      ...(track.openTask ? [{ ...track.openTask, endedAt: null, outcome: "open" as const }] : []),
+    ];
+    timeline.tasks = all
+      .filter(task => (task.endedAt ?? until) >= from)
+      .map(task => ({
+        task: task.task,
+        workstream: task.workstream,
+        startedAt: new Date(task.startedAt).toISOString(),
+        endedAt: task.endedAt === null ? null : new Date(task.endedAt).toISOString(),
+        durationMs: Math.max(0, (task.endedAt ?? until) - task.startedAt),
+        outcome: task.outcome,
+      }));
+    timeline.reaps = timeline.reaps.filter(reap => Date.parse(reap.at) >= from);
+
+    const active = timeline.spawningMs + timeline.idleMs + timeline.assignedMs;
+    if (active > 0 || timeline.tasks.length > 0 || timeline.reaps.length > 0) agents.push(timeline);
+  }
+  agents.sort((a, b) => a.firstSeenAt.localeCompare(b.firstSeenAt) || a.name.localeCompare(b.name));
+
+  const sum = (pick: (agent: AgentTimeline) => number) => agents.reduce((total, agent) => total + pick(agent), 0);
+  const tasks = agents.flatMap(agent => agent.tasks);
+  const assignedMs = sum(agent => agent.assignedMs);
+  const idleMs = sum(agent => agent.idleMs);
+
+  return {
+    from: Number.isFinite(from) ? new Date(from).toISOString() : null,
+    to: new Date(until).toISOString(),
+    events: inWindow,
+    agents,
+    totals: {
+      agents: agents.length,
+      tasksDone: tasks.filter(task => task.outcome === "done").length,
+      tasksAbandoned: tasks.filter(task => task.outcome === "killed" || task.outcome === "reaped").length,
+      tasksOpen: tasks.filter(task => task.outcome === "open").length,
+      spawningMs: sum(agent => agent.spawningMs),
+      idleMs,
+      assignedMs,
+      utilization: assignedMs + idleMs > 0 ? assignedMs / (assignedMs + idleMs) : 0,
+      reaps: sum(agent => agent.reaps.length),
+      spawnFailures,
+    },
+  };
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+}
+
+export function renderTimelineMarkdown(report: TimelineReport): string {
+  const { totals } = report;
+  const lines: string[] = [];
+  lines.push(`# Orchestrator timeline (${report.from ?? "start of history"} → ${report.to})`);
+  lines.push("");
+  lines.push(
+    `Fleet: ${totals.agents} agent(s) · ${totals.tasksDone} task(s) done, ${totals.tasksAbandoned} abandoned, ${totals.tasksOpen} open · `
+    + `assigned ${formatDuration(totals.assignedMs)}, idle ${formatDuration(totals.idleMs)}, spawning ${formatDuration(totals.spawningMs)} `
+    + `(utilization ${percent(totals.utilization)}) · ${totals.reaps} reap(s)`,
+  );
+
+  if (report.agents.length === 0) {
+    lines.push("", "No orchestrator activity in this window.");
+    return lines.join("\n");
+  }
+
+  for (const agent of report.agents) {
+    const busy = agent.assignedMs + agent.idleMs;
+    lines.push("");
+    lines.push(`## ${agent.name}${agent.endReason ? ` (${agent.endReason})` : ` (${agent.status})`}`);
+    lines.push(
+      `Spawning ${formatDuration(agent.spawningMs)} · Idle ${formatDuration(agent.idleMs)} · Assigned ${formatDuration(agent.assignedMs)}`
+      + (busy > 0 ? ` (utilization ${percent(agent.assignedMs / busy)})` : ""),
+    );
+    if (agent.tasks.length > 0) {
+      lines.push("");
+      lines.push("| Task | Workstream | Started | Duration | Outcome |");
+      lines.push("|------|------------|---------|----------|---------|");
+      for (const task of agent.tasks) {
+        lines.push(`| ${escapeCell(task.task.slice(0, 80))} | ${task.workstream ?? "-"} | ${task.startedAt} | ${formatDuration(task.durationMs)} | ${task.outcome} |`);
+      }
+    }
+    const extras: string[] = [];
+    if (agent.reaps.length > 0) extras.push(`Reaps: ${agent.reaps.map(reap => `${reap.reason} at ${reap.at}`).join(", ")}`);
+    if (agent.escalations > 0) extras.push(`Escalations: ${agent.escalations}`);
+    if (agent.restarts > 0) extras.push(`Restarts: ${agent.restarts}`);
+    if (extras.length > 0) lines.push("", extras.join(" · "));
+  }
+
+  const idle = report.agents.filter(agent => agent.idleMs > 0).sort((a, b) => b.idleMs - a.idleMs);
+  const abandoned = report.agents.flatMap(agent => agent.tasks
+    .filter(task => task.outcome === "killed" || task.outcome === "reaped")
+    .map(task => ({ agent: agent.name, task })));
+  lines.push("", "## Where time went");
+  lines.push(`- Idle: ${idle.length > 0 ? idle.map(agent => `${agent.name} ${formatDuration(agent.idleMs)}`).join(", ") : "none"}`);
+  lines.push(`- Spawning: ${formatDuration(totals.spawningMs)}${totals.spawnFailures > 0 ? ` (${totals.spawnFailures} failed spawn(s))` : ""}`);
+  lines.push(`- Abandoned work: ${abandoned.length > 0
+    ? abandoned.map(item => `${item.agent} "${item.task.task.slice(0, 60)}" ${formatDuration(item.task.durationMs)} (${item.task.outcome})`).join(", ")
+    : "none"}`);
+
+  return lines.join("\n");
+}
@@ -1,6 +1,31 @@
 import type { ZVecCollection } from "@zvec/zvec";
+import type { LexicalIndex } from "./lexical.js";
 
-export type SpawnBackend = "tmux" | "headless";
+export type SpawnBackend = "tmux" | "headless" | "sandbox";
+
+/** `orchestrator.sandbox`: command templates for the wrapper backend. */
+export interface SandboxConfig {
+  command: string[];
+  stopCommand: string[];
+  attachCommand: string[];
+}
+
+/** Expanded `orchestrator.sandbox` stop/attach commands recorded at spawn. */
+export interface SandboxCommands {
+  stopCommand: string[];
+  attachCommand: string[];
+}
+
+/** Dedicated git worktree a spawned agent runs in (`spawn` with `worktree: true`). */
+export interface AgentWorktree {
+  path: string;
+  branch: string;
+  /** Branch checked out in the orchestrator's cwd at spawn, null when detached. */
+  baseBranch: string | null;
+  baseCommit: string;
+}
+
+export type MergeStrategy = "merge" | "rebase";
 
 export type SpawnedAgentStatus =
   | "spawning"
@@ -23,11 +48,92 @@ export interface SpawnedAgent {
   spawnedBy: string;
   assignedTask: string | null;
   currentWorkstream?: string | null;
+  lastWorkstream?: string | null;
   lastActivityAt: number;
   backend: SpawnBackend;
+  sandbox?: SandboxCommands | null;
+  assignedBy?: string | null;
+  assignmentTimeoutMs?: number | null;
+  deadlineAt?: number | null;
+  escalation?: EscalationStep | null;
+  restartPolicy?: RestartPolicy | null;
+  restarts?: number;
+  profile?: string | null;
+  worktree?: AgentWorktree | null;
+}
+
+export interface RestartPolicy {
+  maxRestarts: number;
+  backoffMs: number;
 }
 
-export type HistoryEventType = "spawn" | "kill" | "assign" | "done" | "reap";
+/** Memory injection overrides a profile applies on spawn and agents.assign. */
+export interface AgentProfileMemory {
+  autoInjectTopK?: number;
+  minSimilarity?: number;
+  maxInjectionTokens?: number;
+}
+
+/** Spawn profile as written in `.pi/agents/<name>.md` or `orchestrator.profiles`. */
+export interface AgentProfile {
+  extends?: string;
+  description?: string;
+  model?: string;
+  thinking?: string;
+  env?: Record<string, string>;
+  prompt?: string;
+  tools?: string[];
+  workstream?: string;
+  messageBudget?: number;
+  memory?: AgentProfileMemory;
+}
+
+/** Profile with its `extends` chain merged in, base first in `chain`. */
+export interface ResolvedAgentProfile extends Omit<AgentProfile, "extends"> {
+  name: string;
+  chain: string[];
+  sources: string[];
+}
+
+/** Assignment rescued from an agent that died mid-task, awaiting respawn. */
+export interface CrashedAssignment {
+  agent: SpawnedAgent;
+  reason: string;
+  crashedAt: number;
+  queue: QueuedAssignment[];
+  logs: string[];
+  progress: {
+    toolCalls: number;
+    tokens: number;
+    filesModified: string[];
+    currentActivity: string | null;
+  } | null;
+}
+
+/** Deadline escalation ladder, in the order the heartbeat walks it. */
+export type EscalationStep = "nudge" | "notify" | "reassign";
+
+/** Follow-up work proposed by a worker on agents.done, shaped for agents.assign/queue. */
+export interface DoneFollowUp {
+  task: string;
+  workstream: string | null;
+  priority: number;
+}
+
+export type HistoryEventType = "spawn" | "kill" | "assign" | "done" | "reap" | "queue" | "dequeue" | "route" | "escalate" | "restart" | "merge";
+
+export interface QueuedAssignment {
+  id: string;
+  task: string;
+  workstream: string | null;
+  priority: number;
+  enqueuedAt: number;
+  enqueuedBy: string;
+  /** Absolute deadline carried over to the assignment when dispatched. */
+  deadlineAt?: number | null;
+  /** Deadline in ms, counted from when the item is dispatched. */
+  timeoutMs?: number | null;
+}
 
 export interface HistoryEvent {
   event: HistoryEventType;
@@ -38,6 +144,10 @@ export interface HistoryEvent {
 
 export type MemoryType = "summary" | "message" | "decision" | "discovery";
 
+export type MemoryScope = "project" | "global";
+
+export type MemoryBackend = "zvec" | "flat";
+
 export interface TtlConfig {
   message: number;
   discovery: number;
@@ -49,15 +159,26 @@ export interface MemoryConfig {
   enabled: boolean;
   embeddingModel: string;
   embeddingProvider: string;
+  embeddingEndpoint?: string;
   dimensions: number;
   maxEntries: number;
   autoInjectTopK: number;
   minSimilarity: number;
   maxInjectionTokens: number;
   embeddingTimeoutMs: number;
+  lexicalWeight?: number;
+  compactSimilarity?: number;
+  globalWeight?: number;
+  backend?: MemoryBackend | "auto";
   ttlDays: TtlConfig;
 }
 
+export interface MemoryProvenance {
+  sourceIds?: string[];
+  commits?: string[];
+  crewTaskId?: string;
+}
+
 export interface MemoryEntry {
   id: string;
   text: string;
@@ -70,8 +191,106 @@ export interface MemoryEntry {
   workstream?: string;
   files?: string[];
   contentHash: string;
+  provenance?: MemoryProvenance;
+  scope?: MemoryScope;
+  similarity: number;
+  lexicalScore?: number;
+  relevance: number;
+}
+
+export type MemoryExclusionReason = "below_min_similarity" | "beyond_topk" | "over_token_budget" | "duplicate";
+
+export interface MemoryInjectionCandidate {
+  id: string;
+  scope: MemoryScope;
+  type: MemoryType;
+  agent: string;
   similarity: number;
   relevance: number;
+  tokens: number;
+  included: boolean;
+  reason?: MemoryExclusionReason;
+}
+
+export interface MemoryInjectionReport {
+  topk: number;
+  minSimilarity: number;
+  maxTokens: number;
+  usedTokens: number;
+  included: number;
+  candidates: MemoryInjectionCandidate[];
+}
+
+export interface MemoryExportRecord {
+  id: string;
+  text: string;
+  agent: string;
+  type: MemoryType;
+  source: string;
+  timestamp: string;
+  createdAtMs: number;
+  taskId?: string;
+  workstream?: string;
+  files: string[];
+  contentHash: string;
+  /** Provider the exported vector came from; vectors without one are re-embedded on import. */
+  embeddingProvider?: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  provenance?: MemoryProvenance;
+  vector?: number[];
+}
+
+export interface MemoryExportResult {
+  outPath: string;
+  exported: number;
+  withVectors: number;
+}
+
+export interface MemoryImportResult {
+  inPath: string;
+  total: number;
+  imported: number;
+  reembedded: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+  /** Set when the import stopped early, e.g. `memory_locked: ...`. */
+  error?: string;
+}
+
+export interface MemoryCompactCluster {
+  workstream: string | null;
+  type: MemoryType;
+  sourceIds: string[];
+  text: string;
+}
+
+export interface MemoryCompactResult {
+  dryRun: boolean;
+  scanned: number;
+  clusters: MemoryCompactCluster[];
+  removed: number;
+  created: number;
+  failed: number;
+  error?: string;
+}
+
+export interface MemoryReindexResult {
+  ok: boolean;
+  total: number;
+  reindexed: number;
+  failed: number;
+  failedIds: string[];
+  /** Export-format file holding the entries that failed to re-embed. */
+  failedPath?: string;
+  batches: number;
+  fromModel: string | null;
+  fromDimensions: number | null;
+  toModel: string;
+  toDimensions: number;
+  backupPath?: string;
+  error?: string;
 }
 
 export interface MemoryStats {
@@ -89,6 +308,7 @@ export interface MemoryStats {
   dimensions: number;
   embeddingModel: string;
   collectionPath: string;
+  backend: MemoryBackend;
 }
 
 export interface MemoryStore {
@@ -96,9 +316,11 @@ export interface MemoryStore {
   degraded: boolean;
   reason?: string;
   projectDir: string;
+  backend?: MemoryBackend;
   collectionPath: string;
   config: MemoryConfig;
   collection: ZVecCollection | null;
+  lexicalIndex?: LexicalIndex | null;
   consecutiveEmbeddingFailures: number;
   breakerOpenUntil: number;
   lastError?: string;
@@ -0,0 +1,187 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AgentWorktree, MergeStrategy } from "./types.js";
+
+const BRANCH_PREFIX = "pi/";
+
+export interface WorktreeRemoval {
+  removed: boolean;
+  branchDeleted: boolean;
+  /** Why the worktree was kept (uncommitted changes, git failure). */
+  reason?: string;
+}
+
+export interface MergeOutcome {
+  ok: boolean;
+  strategy: MergeStrategy;
+  branch: string;
+  into: string;
+  commits: number;
+  conflicts: string[];
+  head?: string;
+  error?: "worktree_dirty" | "merge_conflict" | "merge_failed";
+  message?: string;
+}
+
+function git(cwd: string, args: string[]): string {
+  return String(execFileSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "pipe"],
+    timeout: 30_000,
+  })).trim();
+}
+
+function tryGit(cwd: string, args: string[]): string | null {
+  try {
+    return git(cwd, args);
+  } catch {
+    return null;
+  }
+}
+
+function gitError(error: unknown): string {
+  const stderr = (error as { stderr?: unknown })?.stderr;
+  const text = typeof stderr === "string" || Buffer.isBuffer(stderr) ? String(stderr).trim() : "";
+  if (text) return text.split("\n")[0];
+  return error instanceof Error ? error.message : "unknown";
+}
+
+function listUnmerged(cwd: string): string[] {
+  const output = tryGit(cwd, ["diff", "--name-only", "--diff-filter=U"]);
+  return output ? output.split("\n").filter(Boolean) : [];
+}
+
+export function worktreesDir(cwd: string): string {
+  return path.join(cwd, ".pi", "messenger", "orchestrator", "worktrees");
+}
+
+export function worktreeBranch(name: string): string {
+  return `${BRANCH_PREFIX}${name}`;
+}
+
+/**
+ * Worktrees live inside the project checkout, so list their directory in
+ * `.git/info/exclude`; otherwise they show up as untracked nested repos and a
+ * `git add -A` would record them as gitlinks.
+ */
+function excludeWorktrees(root: string, cwd: string): void {
+  const relative = path.relative(root, worktreesDir(cwd)).split(path.sep).join("/");
+  if (!relative || relative.startsWith("..")) return;
+  const pattern = `/${relative}/`;
+  const excludePath = path.resolve(root, git(root, ["rev-parse", "--git-path", "info/exclude"]));
+  const current = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, "utf-8") : "";
+  if (current.split("\n").some(line => line.trim() === pattern)) return;
+  fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+  const separator = current.length > 0 && !current.endsWith("\n") ? "\n" : "";
+  fs.appendFileSync(excludePath, `${separator}${pattern}\n`);
+}
+
+function isDirty(worktreePath: string): boolean {
+  return (tryGit(worktreePath, ["status", "--porcelain"]) ?? "").length > 0;
+}
+
+/**
+ * Creates `.pi/messenger/orchestrator/worktrees/<name>` on branch `pi/<name>`
+ * from the current HEAD. An existing worktree for the agent (left behind by a
+ * crash) is reused so a respawn picks up where the worker stopped. The
+ * worktrees directory is git-excluded in the main checkout. Throws when
+ * `cwd` is not inside a git repository or git refuses the worktree.
+ */
+export function createWorktree(cwd: string, name: string): AgentWorktree {
+  const root = git(cwd, ["rev-parse", "--show-toplevel"]);
+  const branch = worktreeBranch(name);
+  const worktreePath = path.join(worktreesDir(cwd), name);
+  const baseBranch = tryGit(root, ["symbolic-ref", "--short", "-q", "HEAD"]);
+  const baseCommit = git(root, ["rev-parse", "HEAD"]);
+
+  if (fs.existsSync(path.join(worktreePath, ".git"))) {
+    const current = tryGit(worktreePath, ["symbolic-ref", "--short", "-q", "HEAD"]);
+    if (current === branch) return { path: worktreePath, branch, baseBranch, baseCommit };
+    throw new Error(`${worktreePath} already exists on ${current ?? "a detached HEAD"}`);
+  }
+
+  fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+  excludeWorktrees(root, cwd);
+  tryGit(root, ["worktree", "prune"]);
+  const branchExists = tryGit(root, ["rev-parse", "--verify", "-q", `refs/heads/${branch}`]) !== null;
+  try {
+    git(root, branchExists
+      ? ["worktree", "add", worktreePath, branch]
+      : ["worktree", "add", "-b", branch, worktreePath, "HEAD"]);
+  } catch (error) {
+    throw new Error(gitError(error));
+  }
+  return { path: worktreePath, branch, baseBranch, baseCommit };
+}
+
+/**
+ * Removes the agent's worktree. Uncommitted changes keep it on disk; the
+ * branch is deleted only when it has nothing that isn't already merged.
+ */
+export function removeWorktree(cwd: string, worktree: AgentWorktree): WorktreeRemoval {
+  if (!fs.existsSync(worktree.path)) {
+    tryGit(cwd, ["worktree", "prune"]);
+    return { removed: true, branchDeleted: tryGit(cwd, ["branch", "-d", worktree.branch]) !== null };
+  }
+  if (isDirty(worktree.path)) {
+    return { removed: false, branchDeleted: false, reason: "uncommitted changes" };
+  }
+  try {
+    git(cwd, ["worktree", "remove", worktree.path]);
+  } catch (error) {
+    return { removed: false, branchDeleted: false, reason: gitError(error) };
+  }
+  return { removed: true, branchDeleted: tryGit(cwd, ["branch", "-d", worktree.branch]) !== null };
+}
+
+/**
+ * Brings the worker's branch into the branch checked out at `cwd`. `merge`
+ * creates a merge commit; `rebase` replays the worker's commits onto the
+ * target inside the worktree and fast-forwards. Conflicts are aborted and
+ * reported, leaving both checkouts as they were.
+ */
+export function mergeWorktree(cwd: string, worktree: AgentWorktree, strategy: MergeStrategy): MergeOutcome {
+  const into = tryGit(cwd, ["symbolic-ref", "--short", "-q", "HEAD"]) ?? "HEAD";
+  const outcome: MergeOutcome = { ok: false, strategy, branch: worktree.branch, into, commits: 0, conflicts: [] };
+
+  if (fs.existsSync(worktree.path) && isDirty(worktree.path)) {
+    return { ...outcome, error: "worktree_dirty", message: `${worktree.path} has uncommitted changes` };
+  }
+
+  const counted = tryGit(cwd, ["rev-list", "--count", `HEAD..${worktree.branch}`]);
+  if (counted === null) {
+    return { ...outcome, error: "merge_failed", message: `branch ${worktree.branch} not found` };
+  }
+  outcome.commits = Number(counted) || 0;
+  if (outcome.commits === 0) {
+    return { ...outcome, ok: true, head: git(cwd, ["rev-parse", "HEAD"]) };
+  }
+
+  if (strategy === "rebase") {
+    try {
+      git(worktree.path, ["rebase", git(cwd, ["rev-parse", "HEAD"])]);
+    } catch (error) {
+      const conflicts = listUnmerged(worktree.path);
+      tryGit(worktree.path, ["rebase", "--abort"]);
+      return conflicts.length > 0
+        ? { ...outcome, error: "merge_conflict", conflicts, message: `rebase onto ${into} conflicts` }
+        : { ...outcome, error: "merge_failed", message: gitError(error) };
+    }
+  }
+
+  try {
+    git(cwd, strategy === "rebase"
+      ? ["merge", "--ff-only", worktree.branch]
+      : ["merge", "--no-ff", "--no-edit", worktree.branch]);
+  } catch (error) {
+    const conflicts = listUnmerged(cwd);
+    tryGit(cwd, ["merge", "--abort"]);
+    return conflicts.length > 0
+      ? { ...outcome, error: "merge_conflict", conflicts, message: `merge into ${into} conflicts` }
+      : { ...outcome, error: "merge_failed", message: gitError(error) };
+  }
+
+  return { ...outcome, ok: true, head: git(cwd, ["rev-parse", "HEAD"]) };
+}
@@ -110,7 +110,28 @@ export interface CrewParams {
   task?: string;
   lines?: number;
   spawnTimeoutMs?: number;
-  timeoutMs?: number;
+  timeoutMs?: number;            // Spawn timeout override, agents.assign/queue deadline (ms from assignment), or how long ask waits
+  deadline?: string;             // agents.assign/queue absolute deadline (ISO timestamp)
+  maxRestarts?: number;          // spawn: respawn limit after a crash mid-task
+  restartBackoffMs?: number;     // spawn: base delay before a respawn (doubles per restart)
+  worktree?: boolean;            // spawn: run the worker in its own git worktree and branch
+  strategy?: "merge" | "rebase"; // agents.merge strategy (default merge)
+  query?: string;                // agents.memory.search query
+  memoryType?: string | string[]; // Memory type(s) for agents.memory.add/search
+  contentHash?: string;          // agents.memory.forget target
+  file?: string;                 // agents.memory.import input / agents.memory.trace target
+  includeVectors?: boolean;      // agents.memory.export (default true)
+  similarity?: number;           // Cluster threshold for agents.memory.compact
+  dryRun?: boolean;              // Preview agents.memory.compact without changes
+  scope?: "project" | "global";  // Memory namespace for agents.memory.add/forget/stats/reindex
+  priority?: number;             // agents.queue ordering (higher first)
+  messagePriority?: "urgent" | "normal" | "low"; // send/broadcast delivery priority
+  questions?: string[];          // agents.done open questions
+  followUps?: Array<string | { task: string; workstream?: string; priority?: number }>; // agents.done proposed tasks
+  since?: string;                // agents.history/agents.logs/messages.history window start (ISO or relative, e.g. 24h)
+  grep?: string;                 // agents.logs line filter (regular expression)
+  follow?: boolean;              // agents.logs: wait for new output (up to timeoutMs)
+  format?: "markdown" | "json";  // agents.history output format
 
   // Data pipeline
   project?: string;
@@ -131,9 +152,12 @@ export interface CrewParams {
 
   // Coordination
   spec?: string;
-  to?: string | string[];
+  to?: string | string[];        // agent name(s) or #channel
   message?: string;
   replyTo?: string;
+  channel?: string;              // channel.join/channel.leave (e.g. #backend)
+  deliverAt?: string;            // send/broadcast: deliver at this time (ISO or delay, e.g. 30m)
+  expiresAt?: string;            // send/broadcast: drop unread after this time (ISO or delay)
   paths?: string[];
   reason?: string;
   name?: string;
@@ -8,6 +8,7 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import type { MaxOutputConfig } from "./truncate.js";
+import type { AgentProfile, SandboxConfig, SpawnBackend } from "../orchestrator/types.js";
 
 export type CoordinationLevel = "none" | "minimal" | "moderate" | "chatty";
 
@@ -132,16 +133,36 @@ export interface CrewConfig {
     spawnTimeoutSlowModelMultiplier: number;
     spawnTimeoutHighThinkingMultiplier: number;
     messageBudget: number;
+    assignmentTimeoutMs: number;
+    escalationIntervalMs: number;
+    reassignOnDeadline: boolean;
+    maxRestarts: number;
+    restartBackoffMs: number;
+    profiles: Record<string, AgentProfile>;
+    backend: SpawnBackend | "auto";
+    sandbox: SandboxConfig;
+    worktree: boolean;
+    /** Join workers to a `#<workstream>` channel when assigned work in one. */
+    workstreamChannels: boolean;
+    logs: {
+      maxBytes: number;
+      maxFiles: number;
+    };
     memory: {
       enabled: boolean;
       embeddingModel: string;
       embeddingProvider: string;
+      embeddingEndpoint: string;
       dimensions: number;
       maxEntries: number;
       autoInjectTopK: number;
       minSimilarity: number;
       maxInjectionTokens: number;
       embeddingTimeoutMs: number;
+      lexicalWeight: number;
+      compactSimilarity: number;
+      globalWeight: number;
+      backend: "auto" | "zvec" | "flat";
       ttlDays: {
         message: number;
         discovery: number;
@@ -224,16 +245,35 @@ const DEFAULT_CONFIG: CrewConfig = {
     spawnTimeoutSlowModelMultiplier: 1.75,
     spawnTimeoutHighThinkingMultiplier: 1.5,
     messageBudget: 500,
+    assignmentTimeoutMs: 0,
+    escalationIntervalMs: 300000,
+    reassignOnDeadline: false,
+    maxRestarts: 0,
+    restartBackoffMs: 10000,
+    profiles: {},
+    backend: "auto",
+    sandbox: { command: [], stopCommand: [], attachCommand: [] },
+    worktree: false,
+    workstreamChannels: true,
+    logs: {
+      maxBytes: 1048576,
+      maxFiles: 3,
+    },
     memory: {
       enabled: true,
       embeddingModel: "gemini-embedding-001",
       embeddingProvider: "google",
+      embeddingEndpoint: "",
       dimensions: 1536,
       maxEntries: 10000,
       autoInjectTopK: 3,
       minSimilarity: 0.3,
       maxInjectionTokens: 2000,
       embeddingTimeoutMs: 2000,
+      lexicalWeight: 0.5,
+      compactSimilarity: 0.85,
+      globalWeight: 0.8,
+      backend: "auto",
       ttlDays: {
         message: 7,
         discovery: 30,
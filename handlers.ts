@@ -8,6 +8,8 @@ import {
   type MessengerState,
   type Dirs,
   type AgentMailMessage,
+  type ArchivedMessage,
+  type MessagePriority,
   type AgentRegistration,
   type NameThemeConfig,
   type SpecClaims,
@@ -21,6 +23,9 @@ import {
   formatDuration,
   buildSelfRegistration,
   agentHasTask,
+  orchestratorCwd,
+  parseSince,
+  parseUntil,
 } from "./lib.js";
 import * as store from "./store.js";
 import * as crewStore from "./crew/store.js";
@@ -88,8 +93,8 @@ export function executeJoin(
 
   store.startWatcher(state, dirs, deliverFn);
   updateStatusFn(ctx);
-  pruneFeed(cwd, feedRetention ?? 50);
-  logFeedEvent(cwd, state.agentName, "join");
+  pruneFeed(orchestratorCwd(ctx), feedRetention ?? 50);
+  logFeedEvent(orchestratorCwd(ctx), state.agentName, "join");
 
   let specWarning = "";
   if (specPath) {
@@ -138,7 +143,7 @@ export async function executeLeave(
     return notRegisteredError();
   }
 
-  const cwd = ctx.cwd ?? process.cwd();
+  const cwd = orchestratorCwd(ctx);
 
   if (isPlanningForCwd(cwd)) {
     return result(
@@ -369,6 +374,71 @@ export function executeList(state: MessengerState, dirs: Dirs, cwd: string = pro
   );
 }
 
+/** This session's message budget and what it comes from, for the limit message. */
+function resolveMessageBudget(cwd: string): { budget: number; context: string } {
+  const crewDir = crewStore.getCrewDir(cwd);
+  const crewConfig = loadCrewConfig(crewDir);
+  const orchestratorSession = isOrchestrator();
+  // Workers spawned from a profile with messageBudget get it via env.
+  const profileBudget = process.env.PI_MESSENGER_MESSAGE_BUDGET
+    ? Number(process.env.PI_MESSENGER_MESSAGE_BUDGET)
+    : NaN;
+  const budget = Number.isFinite(profileBudget)
+    ? profileBudget
+    : orchestratorSession
+      ? (crewConfig.orchestrator?.messageBudget ?? 100)
+      : (crewConfig.messageBudgets?.[crewConfig.coordination] ?? 10);
+  const context = Number.isFinite(profileBudget)
+    ? "agent profile"
+    : orchestratorSession
+      ? "orchestrator session"
+      : `${crewConfig.coordination} level`;
+  return { budget, context };
+}
+
+export interface SendDeliveryParams {
+  priority?: unknown;
+  deliverAt?: string;
+  expiresAt?: string;
+}
+
+type DeliveryOptions = { priority?: MessagePriority; deliverAt?: string; expiresAt?: string };
+
+/** Validates `priority`, `deliverAt` and `expiresAt`; times become ISO strings. */
+function resolveDeliveryOptions(params: SendDeliveryParams, now = Date.now()): DeliveryOptions | { error: string; text: string } {
+  const options: DeliveryOptions = {};
+  if (params.priority !== undefined) {
+    if (params.priority !== "urgent" && params.priority !== "normal" && params.priority !== "low") {
+      return { error: "invalid_priority", text: `priority must be "urgent", "normal" or "low", got ${JSON.stringify(params.priority)}.` };
+    }
+    options.priority = params.priority;
+  }
+
+  let deliverAt = now;
+  if (params.deliverAt !== undefined) {
+    const parsed = parseUntil(params.deliverAt, now);
+    if (parsed === null) {
+      return { error: "invalid_deliver_at", text: `invalid deliverAt "${params.deliverAt}" (use an ISO time or a delay like 10m, 2h).` };
+    }
+    if (parsed > now) {
+      deliverAt = parsed;
+      options.deliverAt = new Date(parsed).toISOString();
+    }
+  }
+
+  if (params.expiresAt !== undefined) {
+    const parsed = parseUntil(params.expiresAt, now);
+    if (parsed === null) {
+      return { error: "invalid_expires_at", text: `invalid expiresAt "${params.expiresAt}" (use an ISO time or a delay like 30m, 1h).` };
+    }
+    if (parsed <= deliverAt) {
+      return { error: "invalid_expires_at", text: `expiresAt must be later than ${options.deliverAt ? "deliverAt" : "now"}.` };
+    }
+    options.expiresAt = new Date(parsed).toISOString();
+  }
+  return options;
+}
+
 export function executeSend(
   state: MessengerState,
   dirs: Dirs,
@@ -376,7 +446,8 @@ export function executeSend(
   to: string | string[] | undefined,
   broadcast: boolean | undefined,
   message?: string,
-  replyTo?: string
+  replyTo?: string,
+  deliveryParams: SendDeliveryParams = {}
 ) {
   if (!state.registered) {
     return notRegisteredError();
@@ -389,16 +460,13 @@ export function executeSend(
     );
   }
 
-  const crewDir = crewStore.getCrewDir(cwd);
-  const crewConfig = loadCrewConfig(crewDir);
-  const orchestratorSession = isOrchestrator();
-  const budget = orchestratorSession
-    ? (crewConfig.orchestrator?.messageBudget ?? 100)
-    : (crewConfig.messageBudgets?.[crewConfig.coordination] ?? 10);
+  const delivery = resolveDeliveryOptions(deliveryParams);
+  if ("error" in delivery) {
+    return result(`Error: ${delivery.text}`, { mode: "send", error: delivery.error });
+  }
+
+  const { budget, context } = resolveMessageBudget(cwd);
   if (messagesSentThisSession >= budget) {
-    const context = orchestratorSession
-      ? "orchestrator session"
-      : `${crewConfig.coordination} level`;
     return result(
       `Message budget reached (${messagesSentThisSession}/${budget} for ${context}). Focus on your task.`,
       { mode: "send", error: "budget_exceeded" }
@@ -406,6 +474,10 @@ export function executeSend(
   }
 
   let recipients: string[];
+  // Members reached through a `#channel` target, mapped to that channel.
+  const viaChannel = new Map<string, string>();
+  const channels: string[] = [];
+  const failed: Array<{ name: string; error: string }> = [];
   if (broadcast) {
     if (process.env.PI_CREW_WORKER) {
       messagesSentThisSession++;
@@ -426,13 +498,33 @@ export function executeSend(
       );
     }
   } else if (to) {
-    recipients = [...new Set(Array.isArray(to) ? to : [to])];
-    if (recipients.length === 0) {
+    const targets = [...new Set(Array.isArray(to) ? to : [to])];
+    if (targets.length === 0) {
       return result(
         "Error: recipient list cannot be empty.",
         { mode: "send", error: "empty_recipients" }
       );
     }
+    const direct = targets.filter(target => !target.startsWith("#"));
+    recipients = [...direct];
+    for (const target of targets.filter(target => target.startsWith("#"))) {
+      const channel = store.normalizeChannel(target);
+      if (!channel) {
+        failed.push({ name: target, error: "invalid channel name" });
+        continue;
+      }
+      const members = store.getChannelMembers(dirs, channel).filter(name => name !== state.agentName);
+      if (members.length === 0) {
+        failed.push({ name: `#${channel}`, error: "no other members" });
+        continue;
+      }
+      channels.push(channel);
+      for (const member of members) {
+        if (direct.includes(member) || viaChannel.has(member)) continue;
+        viaChannel.set(member, channel);
+        recipients.push(member);
+      }
+    }
   } else {
     return result(
       "Error: specify 'to' or 'broadcast: true'.",
@@ -441,9 +533,10 @@ export function executeSend(
   }
 
   const sent: string[] = [];
-  const failed: Array<{ name: string; error: string }> = [];
+  const messageIds: Record<string, string> = {};
 
   for (const recipient of recipients) {
+    const channel = viaChannel.get(recipient);
     if (recipient === state.agentName) {
       failed.push({ name: recipient, error: "cannot send to self" });
       continue;
@@ -451,6 +544,8 @@ export function executeSend(
 
     const validation = store.validateTargetAgent(recipient, dirs);
     if (!validation.valid) {
+      // Channel members who left the mesh are skipped, not reported.
+      if (channel) continue;
       const errorMap: Record<string, string> = {
         invalid_name: "invalid name",
         not_found: "not found",
@@ -463,14 +558,24 @@ export function executeSend(
     }
 
     try {
-      store.sendMessageToAgent(state, dirs, recipient, message, replyTo);
+      const options = { ...delivery, ...(channel ? { channel } : {}) };
+      const msg = Object.keys(options).length > 0
+        ? store.sendMessageToAgent(state, dirs, recipient, message, replyTo, options)
+        : store.sendMessageToAgent(state, dirs, recipient, message, replyTo);
       sent.push(recipient);
+      messageIds[recipient] = msg.id;
     } catch (err) {
       const msg = err instanceof Error ? err.message : "write failed";
       failed.push({ name: recipient, error: msg });
     }
   }
 
+  for (const channel of channels) {
+    if (!sent.some(name => viaChannel.get(name) === channel)) {
+      failed.push({ name: `#${channel}`, error: "no active members" });
+    }
+  }
+
   if (sent.length === 0) {
     const failedStr = failed.map(f => `${f.name} (${f.error})`).join(", ");
     return result(
@@ -486,18 +591,347 @@ export function executeSend(
     logFeedEvent(cwd, state.agentName, "message", undefined, preview);
   } else {
     for (const name of sent) {
-      logFeedEvent(cwd, state.agentName, "message", name, preview);
+      if (!viaChannel.has(name)) logFeedEvent(cwd, state.agentName, "message", name, preview);
+    }
+    for (const channel of channels) {
+      if (sent.some(name => viaChannel.get(name) === channel)) {
+        logFeedEvent(cwd, state.agentName, "message", `#${channel}`, preview);
+      }
     }
   }
 
   const remaining = budget - messagesSentThisSession;
-  let text = `Message sent to ${sent.join(", ")}. (${remaining} message${remaining === 1 ? "" : "s"} remaining)`;
+  const idHint = sent.length === 1 ? ` [id ${messageIds[sent[0]]}]` : "";
+  const labels = [
+    ...sent.filter(name => !viaChannel.has(name)),
+    ...channels
+      .map(channel => ({ channel, members: sent.filter(name => viaChannel.get(name) === channel) }))
+      .filter(entry => entry.members.length > 0)
+      .map(entry => `#${entry.channel} (${entry.members.join(", ")})`),
+  ];
+  const sentTo = delivery.deliverAt ? `scheduled for ${delivery.deliverAt} to` : "sent to";
+  const expiry = delivery.expiresAt ? ` Dropped if unread by ${delivery.expiresAt}.` : "";
+  let text = `Message ${sentTo} ${labels.join(", ")}${idHint}.${expiry} (${remaining} message${remaining === 1 ? "" : "s"} remaining)`;
   if (failed.length > 0) {
     const failedStr = failed.map(f => `${f.name} (${f.error})`).join(", ");
     text += ` Failed: ${failedStr}`;
   }
 
-  return result(text, { mode: "send", sent, failed });
+  return result(text, {
+    mode: "send",
+    sent,
+    failed,
+    messageIds,
+    ...(channels.length > 0 ? { channels } : {}),
+    ...delivery,
+  });
+}
+
+export function executeMessageStatus(state: MessengerState, dirs: Dirs, id?: string) {
+  if (!id) {
+    return result(
+      "Error: id required for messages.status.",
+      { mode: "messages.status", error: "missing_id" }
+    );
+  }
+
+  const status = store.getDeliveryStatus(dirs, state.agentName, id);
+  let text: string;
+  switch (status.status) {
+    case "delivered":
+      text = `Delivered to ${status.receipt.to} at ${status.receipt.at} (attempt ${status.receipt.attempts}).`;
+      break;
+    case "dead_letter":
+      text = `Dead-lettered by ${status.receipt.to} after ${status.receipt.attempts} attempt(s): ${status.receipt.error ?? "unknown error"}.`;
+      break;
+    case "expired":
+      text = `Expired unread in ${status.receipt.to}'s inbox; dropped at ${status.receipt.at}.`;
+      break;
+    case "pending":
+    case "processing":
+      text = `${status.status === "pending" ? "Waiting in" : "Being delivered from"} ${status.to}'s inbox` +
+        (status.deliverAt ? ` until ${status.deliverAt}` : "") +
+        (status.attempts > 0 ? ` (${status.attempts} failed attempt(s) so far).` : ".");
+      break;
+    default:
+      text = `No record of message ${id} (not sent by you, or its receipt has expired).`;
+  }
+
+  return result(text, { mode: "messages.status", id, ...status });
+}
+
+export function executeDeadLetters(state: MessengerState, dirs: Dirs, name?: string, limit?: number) {
+  const agent = name ?? state.agentName;
+  const letters = store.listDeadLetters(dirs, agent);
+  const shown = letters.slice(0, limit ?? 20);
+
+  if (letters.length === 0) {
+    return result(
+      `No dead-lettered messages for ${agent}.`,
+      { mode: "messages.deadletter", name: agent, total: 0, letters: [] }
+    );
+  }
+
+  const lines = [`# Dead letters for ${agent} (${letters.length})`, ""];
+  for (const letter of shown) {
+    const header = letter.message
+      ? `${letter.message.id} from ${letter.message.from} at ${letter.message.timestamp}`
+      : `${letter.file} (unreadable)`;
+    const body = letter.message?.text ?? letter.raw ?? "";
+    const preview = body.length > 120 ? body.slice(0, 117) + "..." : body;
+    lines.push(`- ${header}: ${letter.error} after ${letter.attempts} attempt(s)`);
+    if (preview) lines.push(`  ${preview.replace(/\n/g, " ")}`);
+  }
+
+  return result(lines.join("\n"), {
+    mode: "messages.deadletter",
+    name: agent,
+    total: letters.length,
+    letters: shown,
+  });
+}
+
+const ASK_DEFAULT_TIMEOUT_MS = 120_000;
+const ASK_MAX_TIMEOUT_MS = 900_000;
+
+/**
+ * Sends a question to one agent and waits for the message that answers it
+ * (`replyTo` = the question's id). Without `to`, a spawned worker asks the
+ * orchestrator that spawned it.
+ */
+export async function executeAsk(
+  state: MessengerState,
+  dirs: Dirs,
+  cwd: string,
+  params: { to?: string | string[]; message?: string; timeoutMs?: number },
+  deliverFn: (msg: AgentMailMessage) => void,
+  signal?: AbortSignal
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!params.message) {
+    return result(
+      "Error: message is required for ask.",
+      { mode: "ask", error: "missing_message" }
+    );
+  }
+
+  const to = params.to ?? process.env.PI_ORCHESTRATOR_NAME;
+  if (!to) {
+    return result(
+      "Error: to is required for ask.",
+      { mode: "ask", error: "missing_recipient" }
+    );
+  }
+  if (typeof to !== "string" || to.startsWith("#")) {
+    return result(
+      "Error: ask takes a single agent name; use send for several agents or a channel.",
+      { mode: "ask", error: "invalid_recipient" }
+    );
+  }
+  if (to === state.agentName) {
+    return result(
+      "Error: cannot ask yourself.",
+      { mode: "ask", error: "invalid_recipient" }
+    );
+  }
+
+  const validation = store.validateTargetAgent(to, dirs);
+  if (!validation.valid) {
+    const error = (validation as { valid: false; error: string }).error;
+    return result(
+      `Error: ${to} is not available (${error.replace(/_/g, " ")}).`,
+      { mode: "ask", error, to }
+    );
+  }
+
+  const { budget, context } = resolveMessageBudget(cwd);
+  if (messagesSentThisSession >= budget) {
+    return result(
+      `Message budget reached (${messagesSentThisSession}/${budget} for ${context}). Focus on your task.`,
+      { mode: "ask", error: "budget_exceeded" }
+    );
+  }
+
+  let question: AgentMailMessage;
+  try {
+    question = store.sendMessageToAgent(state, dirs, to, params.message, undefined, { expectsReply: true });
+  } catch (err) {
+    return result(
+      `Error: failed to send question to ${to}: ${err instanceof Error ? err.message : "write failed"}`,
+      { mode: "ask", error: "send_failed", to }
+    );
+  }
+  messagesSentThisSession++;
+  const preview = params.message.length > 200 ? params.message.slice(0, 197) + "..." : params.message;
+  logFeedEvent(cwd, state.agentName, "message", to, preview);
+
+  const requested = Number(params.timeoutMs ?? ASK_DEFAULT_TIMEOUT_MS);
+  const timeoutMs = Math.min(ASK_MAX_TIMEOUT_MS, Number.isFinite(requested) && requested > 0 ? requested : ASK_DEFAULT_TIMEOUT_MS);
+  const startedAt = Date.now();
+  const outcome = await store.awaitReply(state, dirs, question.id, { timeoutMs, signal, deliverFn });
+  const waitedMs = Date.now() - startedAt;
+
+  if (outcome.status !== "replied") {
+    const reason = outcome.status === "timeout"
+      ? `No reply from ${to} within ${formatDuration(timeoutMs)}.`
+      : `Stopped waiting for ${to}.`;
+    return result(
+      `${reason} A later answer (replyTo ${question.id}) arrives as a regular message.`,
+      { mode: "ask", error: outcome.status === "timeout" ? "ask_timeout" : "aborted", to, id: question.id, waitedMs }
+    );
+  }
+
+  return result(
+    `${outcome.reply.from} replied:\n\n${outcome.reply.text}`,
+    { mode: "ask", to, id: question.id, reply: outcome.reply, waitedMs }
+  );
+}
+
+function resolveChannelParam(mode: string, channel?: string) {
+  if (!channel) {
+    return {
+      error: result(
+        `Error: channel required for ${mode} (e.g. "#backend").`,
+        { mode, error: "missing_channel" }
+      ),
+    };
+  }
+  const name = store.normalizeChannel(channel);
+  if (!name) {
+    return {
+      error: result(
+        `Error: invalid channel "${channel}". Use letters, digits, ".", "_" or "-" (max 48).`,
+        { mode, error: "invalid_channel", channel }
+      ),
+    };
+  }
+  return { name };
+}
+
+export function executeChannelJoin(state: MessengerState, dirs: Dirs, channel?: string) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+  const resolved = resolveChannelParam("channel.join", channel);
+  if (!resolved.name) return resolved.error;
+
+  const joined = store.joinChannel(dirs, resolved.name, state.agentName);
+  const members = store.getChannelMembers(dirs, resolved.name);
+  const others = members.filter(name => name !== state.agentName);
+  const text = joined
+    ? `Joined #${resolved.name}.${others.length > 0 ? ` Members: ${others.join(", ")}.` : " You're the first member."} Post with to: "#${resolved.name}".`
+    : `Already in #${resolved.name}.`;
+  return result(text, { mode: "channel.join", channel: resolved.name, joined, members });
+}
+
+export function executeChannelLeave(state: MessengerState, dirs: Dirs, channel?: string) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+  const resolved = resolveChannelParam("channel.leave", channel);
+  if (!resolved.name) return resolved.error;
+
+  const left = store.leaveChannel(dirs, resolved.name, state.agentName);
+  return result(
+    left ? `Left #${resolved.name}.` : `Not a member of #${resolved.name}.`,
+    { mode: "channel.leave", channel: resolved.name, left }
+  );
+}
+
+export function executeChannelList(state: MessengerState, dirs: Dirs) {
+  const channels = store.listChannels(dirs);
+  if (channels.length === 0) {
+    return result(
+      "No channels yet. Create one with channel.join.",
+      { mode: "channel.list", channels: [] }
+    );
+  }
+
+  const lines = ["# Channels", ""];
+  for (const channel of channels) {
+    const mine = channel.members.includes(state.agentName) ? " (joined)" : "";
+    lines.push(`- #${channel.name}${mine}: ${channel.members.join(", ")}`);
+  }
+  return result(lines.join("\n"), { mode: "channel.list", channels });
+}
+
+function formatArchivedMessage(msg: ArchivedMessage, indent = ""): string {
+  const reply = msg.replyTo ? ` ↩ ${msg.replyTo.slice(0, 8)}` : "";
+  const text = msg.text.length > 200 ? msg.text.slice(0, 197) + "..." : msg.text;
+  return `${indent}[${msg.id.slice(0, 8)}] ${msg.timestamp} ${msg.from} → ${msg.to}${reply}: ${text.replace(/\n/g, " ")}`;
+}
+
+export function executeMessageHistory(
+  state: MessengerState,
+  dirs: Dirs,
+  params: { peer?: string; since?: string; thread?: string; limit?: number }
+) {
+  let since: number | null = null;
+  if (params.since) {
+    since = parseSince(params.since);
+    if (since === null) {
+      return result(
+        `Error: invalid since "${params.since}" (use an ISO timestamp or 30m, 24h, 7d).`,
+        { mode: "messages.history", error: "invalid_since" }
+      );
+    }
+  }
+
+  const limit = Math.max(1, params.limit ?? 20);
+  // One extra tells whether older messages exist without reading them all.
+  let messages = params.thread
+    ? store.getMessageThread(dirs, state.agentName, params.thread)
+    : store.readMessageArchive(dirs, state.agentName, { peer: params.peer, since, limit: limit + 1 });
+  if (params.thread) {
+    messages = messages.filter(msg =>
+      (!params.peer || msg.from === params.peer || msg.to === params.peer) &&
+      (since === null || Date.parse(msg.timestamp) >= since));
+  }
+  const shown = messages.slice(-limit);
+  const more = messages.length > shown.length;
+
+  if (shown.length === 0) {
+    return result(
+      "No archived messages match.",
+      { mode: "messages.history", count: 0, more: false, messages: [] }
+    );
+  }
+
+  const header = params.peer ? `# Messages with ${params.peer}` : "# Message history";
+  const counted = more ? `latest ${shown.length}; raise limit for older` : `${shown.length}`;
+  const lines = [`${header} (${counted})`, "", ...shown.map(msg => formatArchivedMessage(msg))];
+  return result(lines.join("\n"), { mode: "messages.history", count: shown.length, more, messages: shown });
+}
+
+export function executeMessageThread(state: MessengerState, dirs: Dirs, id?: string) {
+  if (!id) {
+    return result(
+      "Error: id required for messages.thread.",
+      { mode: "messages.thread", error: "missing_id" }
+    );
+  }
+
+  const thread = store.getMessageThread(dirs, state.agentName, id);
+  if (thread.length === 0) {
+    return result(
+      `Error: message ${id} not found in your archive.`,
+      { mode: "messages.thread", error: "not_found", id }
+    );
+  }
+
+  // Indent each reply under the message it answers.
+  const depth = new Map<string, number>();
+  const lines = [`# Thread (${thread.length} message${thread.length === 1 ? "" : "s"})`, ""];
+  for (const msg of thread) {
+    const level = msg.replyTo && depth.has(msg.replyTo) ? depth.get(msg.replyTo)! + 1 : 0;
+    depth.set(msg.id, level);
+    lines.push(formatArchivedMessage(msg, "  ".repeat(level)));
+  }
+
+  return result(lines.join("\n"), { mode: "messages.thread", root: thread[0].id, messages: thread });
 }
 
 export function executeReserve(
@@ -528,7 +962,7 @@ export function executeReserve(
   store.updateRegistration(state, dirs, ctx);
 
   for (const pattern of patterns) {
-    logFeedEvent(ctx.cwd ?? process.cwd(), state.agentName, "reserve", pattern, reason);
+    logFeedEvent(orchestratorCwd(ctx), state.agentName, "reserve", pattern, reason);
   }
 
   return result(`Reserved: ${patterns.join(", ")}`, { mode: "reserve", patterns, reason });
@@ -549,7 +983,7 @@ export function executeRelease(
     state.reservations = [];
     store.updateRegistration(state, dirs, ctx);
     for (const pattern of released) {
-      logFeedEvent(ctx.cwd ?? process.cwd(), state.agentName, "release", pattern);
+      logFeedEvent(orchestratorCwd(ctx), state.agentName, "release", pattern);
     }
     return result(
       released.length > 0 ? `Released all: ${released.join(", ")}` : "No reservations to release.",
@@ -563,7 +997,7 @@ export function executeRelease(
 
   store.updateRegistration(state, dirs, ctx);
   for (const pattern of releasedPatterns) {
-    logFeedEvent(ctx.cwd ?? process.cwd(), state.agentName, "release", pattern);
+    logFeedEvent(orchestratorCwd(ctx), state.agentName, "release", pattern);
   }
 
   return result(`Released ${releasedPatterns.length} reservation(s).`, { mode: "release", released: releasedPatterns });
@@ -35,6 +35,8 @@ import {
   generateAutoStatus,
   computeStatus,
   agentHasTask,
+  formatDuration,
+  orchestratorCwd,
 } from "./lib.js";
 import * as store from "./store.js";
 import * as handlers from "./handlers.js";
@@ -73,7 +75,9 @@ import {
   reapOrphans,
   killAllSpawned,
 } from "./crew/orchestrator/registry.js";
-import { closeMemory } from "./crew/orchestrator/memory.js";
+import { checkAssignmentDeadlines, dispatchQueuedWork, resumeCrashedAgents } from "./crew/handlers/orchestrator.js";
+import { closeAllMemory } from "./crew/orchestrator/memory.js";
+import { rotateAgentLogs } from "./crew/orchestrator/logs.js";
 import { ensureDataSchemaInitialized } from "./crew/data/migration.js";
 import { initializeDataSessionTags } from "./crew/data/ingestion.js";
 import { runDataRetentionJanitor } from "./crew/data/retention.js";
@@ -176,20 +180,30 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
       content += `*${msg.from} is in ${locationPart} (${sender.model})*\n\n`;
     }
 
-    // Add reply hint
-    const replyHint = config.replyHint
-      ? ` — reply: pi_messenger({ action: "send", to: "${msg.from}", message: "..." })`
-      : "";
+    // Add reply hint; channel posts are answered in the channel. A sender
+    // blocked in `ask` only gets the answer if it carries replyTo.
+    const replyTarget = msg.channel ? `#${msg.channel}` : msg.from;
+    const replyHint = msg.expectsReply
+      ? ` — ${msg.from} is waiting for your answer: pi_messenger({ action: "send", to: "${msg.from}", message: "...", replyTo: "${msg.id}" })`
+      : config.replyHint
+        ? ` — reply: pi_messenger({ action: "send", to: "${replyTarget}", message: "..." })`
+        : "";
 
-    content += `**Message from ${msg.from}**${replyHint}\n\n${msg.text}`;
+    const heading = msg.expectsReply
+      ? `**Question from ${msg.from}**`
+      : msg.channel ? `**#${msg.channel} — ${msg.from}**` : `**Message from ${msg.from}**`;
+    const urgency = msg.priority === "urgent" ? "**URGENT** " : "";
+    content += `${urgency}${heading}${replyHint}\n\n${msg.text}`;
 
     if (msg.replyTo) {
       content = `*(reply to ${msg.replyTo.substring(0, 8)})*\n\n${content}`;
     }
 
+    // Low-priority messages queue up behind the current work instead of
+    // interrupting it; pi hands queued follow-ups over together.
     pi.sendMessage(
       { customType: "agent_message", content, display: true, details: msg },
-      { triggerTurn: true, deliverAs: "steer" }
+      { triggerTurn: true, deliverAs: msg.priority === "low" ? "followUp" : "steer" }
     );
   }
 
@@ -222,7 +236,7 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
 
         if (!notifiedStuck.has(agent.name)) {
           notifiedStuck.add(agent.name);
-          logFeedEvent(ctx.cwd ?? process.cwd(), agent.name, "stuck");
+          logFeedEvent(orchestratorCwd(ctx), agent.name, "stuck");
 
           const idleStr = computed.idleFor ?? "unknown";
           const taskInfo = hasTask ? " with task in progress" : " with reservation";
@@ -281,7 +295,7 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     const countStr = theme.fg("dim", ` (${count} peer${count === 1 ? "" : "s"})`);
     const unreadStr = totalUnread > 0 ? theme.fg("accent", ` ●${totalUnread}`) : "";
 
-    const planningCwd = ctx.cwd ?? process.cwd();
+    const planningCwd = orchestratorCwd(ctx);
     const planningStr =
       isPlanningForCwd(planningCwd)
         ? theme.fg(
@@ -297,7 +311,7 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     // Add crew status if autonomous mode is active
     let crewStr = "";
     if (autonomousState.active) {
-      const cwd = ctx.cwd ?? process.cwd();
+      const cwd = orchestratorCwd(ctx);
       const plan = crewStore.getPlan(cwd);
       if (plan) {
         const workerCount = getLiveWorkers(cwd).size;
@@ -320,7 +334,7 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
   }
 
   function getHeartbeatContext(ctx: ExtensionContext): { active: boolean; reasons: string[] } {
-    const cwd = ctx.cwd ?? process.cwd();
+    const cwd = orchestratorCwd(ctx);
     const reasons: string[] = [];
 
     if (overlayTui || (overlayHandle && !overlayHandle.isHidden())) {
@@ -370,6 +384,7 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
   const STATUS_HEARTBEAT_MS = heartbeatIntervalMs;
   let latestCtx: ExtensionContext | null = null;
   let statusHeartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let orchestratorUpkeepInFlight = false;
   const AUTONOMOUS_CONTINUE_REPEAT_LIMIT = 3;
   let autonomousContinueSignature: string | null = null;
   let autonomousContinueRepeats = 0;
@@ -409,12 +424,49 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
         }
 
         const crewConfig = loadCrewConfig(crewStore.getCrewDir(cwd));
+        // tmux panes append to their logs from a shell, so rotation happens here.
+        rotateAgentLogs(cwd, crewConfig.orchestrator.logs);
         const idle = checkIdleAgents(crewConfig.orchestrator.idleTimeoutMs, cwd);
         if (idle.length > 0 && latestCtx.hasUI) {
           for (const item of idle) {
             latestCtx.ui.notify(`⏰ ${item.name} idle for ${item.idleFor}. Kill? agents.kill({ name: "${item.name}" })`, "info");
           }
         }
+
+        // Escalation, crash recovery and queue dispatch spawn, kill and assign agents, so ticks must not overlap.
+        if (!orchestratorUpkeepInFlight) {
+          orchestratorUpkeepInFlight = true;
+          const ctx = latestCtx;
+          void (async () => {
+            const restarts = await resumeCrashedAgents(state, dirs, ctx);
+            const escalations = await checkAssignmentDeadlines(state, dirs, ctx);
+            await dispatchQueuedWork(state, dirs, ctx);
+            return { restarts, escalations };
+          })()
+            .then(({ restarts, escalations }) => {
+              if (!ctx.hasUI) return;
+              for (const item of restarts) {
+                ctx.ui.notify(item.respawnedAs && !item.error
+                  ? `🔁 ${item.name} crashed mid-task; respawned (restart ${item.attempt}/${item.maxRestarts}) and resumed`
+                  : `⚠️ ${item.name} crashed mid-task; restart ${item.attempt}/${item.maxRestarts} failed (${item.error ?? "unknown"})`, "warning");
+              }
+              for (const item of escalations) {
+                if (item.step === "notify") {
+                  ctx.ui.notify(`⏰ ${item.name} is ${formatDuration(item.overdueMs)} past its deadline. agents.check({ name: "${item.name}" })`, "warning");
+                } else if (item.step === "reassign") {
+                  ctx.ui.notify(item.reassignedTo
+                    ? `⏰ ${item.name} missed its deadline; task reassigned to ${item.reassignedTo}`
+                    : `⚠️ ${item.name} missed its deadline; reassign failed (${item.error ?? "unknown"})`, "warning");
+                }
+              }
+            })
+            .catch((error) => {
+              console.warn(`[pi-messenger][orchestrator] upkeep failed: ${error instanceof Error ? error.message : "unknown"}`);
+            })
+            .finally(() => {
+              orchestratorUpkeepInFlight = false;
+            });
+        }
       } catch (error) {
         console.warn(`[pi-messenger][orchestrator] heartbeat monitor failed: ${error instanceof Error ? error.message : "unknown"}`);
       }
@@ -510,6 +562,16 @@ Usage (action-based API - preferred):
   pi_messenger({ action: "set_status", message: "reviewing" })  → Set custom status
   pi_messenger({ action: "reserve", paths: ["src/"] })          → Reserve files
   pi_messenger({ action: "send", to: "Agent", message: "hi" })  → Send message
+  pi_messenger({ action: "ask", to: "Agent", message: "Which port?" }) → Send and wait for the reply
+  pi_messenger({ action: "send", to: "Agent", message: "stop", messagePriority: "urgent", expiresAt: "10m" }) → Urgent, dropped if unread in 10m
+  pi_messenger({ action: "send", to: "Agent", message: "status?", deliverAt: "30m" }) → Scheduled check-in
+  pi_messenger({ action: "channel.join", channel: "#backend" })   → Join a topic channel
+  pi_messenger({ action: "send", to: "#backend", message: "hi" }) → Post to channel members
+  pi_messenger({ action: "channel.list" })                       → Channels and members
+  pi_messenger({ action: "messages.status", id: "<message id>" }) → Delivered, pending or dead-lettered?
+  pi_messenger({ action: "messages.deadletter" })                → Messages that failed delivery
+  pi_messenger({ action: "messages.history", name: "Agent", since: "24h" }) → Archived DMs with a peer
+  pi_messenger({ action: "messages.thread", id: "1a2b3c4d" })    → Whole reply chain for a message
   pi_messenger({ action: "heartbeat.status" })                   → Heartbeat status
   pi_messenger({ action: "heartbeat.pause" })                    → Pause heartbeat
   pi_messenger({ action: "heartbeat.resume" })                   → Resume heartbeat
@@ -541,13 +603,30 @@ Usage (action-based API - preferred):
   // Orchestrator
   pi_messenger({ action: "spawn", profile: "worker-xhigh", name: "Builder" })
   pi_messenger({ action: "spawn", model: "openai-codex/gpt-5.3-codex", name: "Builder", thinking: "xhigh" })
+  pi_messenger({ action: "spawn", name: "Builder", worktree: true })  // own git worktree + branch pi/Builder
   pi_messenger({ action: "agents.list" })
   pi_messenger({ action: "agents.assign", name: "Builder", task: "Implement X", workstream: "feature-x" })
+  pi_messenger({ action: "agents.assign", task: "Implement Z", workstream: "feature-x" })  // routed to least-loaded match
+  pi_messenger({ action: "agents.queue", name: "Builder", task: "Implement Y", priority: 1 })
+  pi_messenger({ action: "agents.dequeue", name: "Builder", id: "q-..." })
   pi_messenger({ action: "agents.check", name: "Builder" })
   pi_messenger({ action: "agents.logs", name: "Builder" })
+  pi_messenger({ action: "agents.logs", name: "Builder", grep: "error|fail", since: "30m" })  // persisted, survives restarts
+  pi_messenger({ action: "agents.history", since: "24h" })
+  pi_messenger({ action: "agents.profiles" })  // resolved profiles, extends chains merged
+  pi_messenger({ action: "agents.merge", name: "Builder", strategy: "rebase" })  // worktree branch back into HEAD
   pi_messenger({ action: "agents.kill", name: "Builder" })
   pi_messenger({ action: "agents.killall" })
   pi_messenger({ action: "agents.memory.stats" })
+  pi_messenger({ action: "agents.memory.search", query: "redis cache invalidation", workstream: "backend" })
+  pi_messenger({ action: "agents.memory.add", content: "Cache keys are namespaced by tenant", memoryType: "decision" })
+  pi_messenger({ action: "agents.memory.add", content: "Prefer pnpm over npm", scope: "global" })
+  pi_messenger({ action: "agents.memory.forget", id: "1712345678901-ab12cd34" })
+  pi_messenger({ action: "agents.memory.export", out: "team-memory.jsonl" })
+  pi_messenger({ action: "agents.memory.import", file: "team-memory.jsonl" })
+  pi_messenger({ action: "agents.memory.compact", workstream: "backend", dryRun: true })
+  pi_messenger({ action: "agents.memory.reindex" })
+  pi_messenger({ action: "agents.memory.trace", file: "src/cache.ts" })
 
   // Data pipeline
   pi_messenger({ action: "data.session", project: "bergomi2", runType: "production" })
@@ -566,7 +645,7 @@ Usage (action-based API - preferred):
       // ═══════════════════════════════════════════════════════════════════════
       prd: Type.Optional(Type.String({ description: "PRD file path for plan action" })),
       prompt: Type.Optional(Type.String({ description: "Inline prompt for plan action, or revision instructions for task.revise/task.revise-tree" })),
-      id: Type.Optional(Type.String({ description: "Task ID (task-N format)" })),
+      id: Type.Optional(Type.String({ description: "Task ID (task-N format), memory entry ID for agents.memory.forget, queued item ID for agents.dequeue, message ID for messages.status/messages.thread (prefix ok), or thread filter for messages.history" })),
       taskId: Type.Optional(Type.String({ description: "Swarm task ID (e.g., TASK-01) - for action-based claim/unclaim/complete" })),
       title: Type.Optional(Type.String({ description: "Title for task.create" })),
       dependsOn: Type.Optional(Type.Array(Type.String(), { description: "Task IDs this task depends on (for task.create)" })),
@@ -576,7 +655,13 @@ Usage (action-based API - preferred):
         commits: Type.Optional(Type.Array(Type.String())),
         tests: Type.Optional(Type.Array(Type.String())),
         prs: Type.Optional(Type.Array(Type.String()))
-      }, { description: "Evidence for task.done" })),
+      }, { description: "Evidence for task.done and agents.done" })),
+      questions: Type.Optional(Type.Array(Type.String(), { description: "Open questions reported with agents.done" })),
+      since: Type.Optional(Type.String({ description: "Window start for agents.history, agents.logs and messages.history: ISO timestamp or relative (30m, 24h, 7d)" })),
+      grep: Type.Optional(Type.String({ description: "Regular expression filtering agents.logs lines" })),
+      follow: Type.Optional(Type.Boolean({ description: "agents.logs: wait for new output (up to timeoutMs, default 10s) and return only new lines" })),
+      format: Type.Optional(StringEnum(["markdown", "json"], { description: "Output format for agents.history (default markdown)" })),
+      followUps: Type.Optional(Type.Any({ description: "Proposed follow-up tasks for agents.done: array of strings or { task, workstream?, priority? }" })),
       content: Type.Optional(Type.String({ description: "Content for task spec" })),
       count: Type.Optional(Type.Number({ description: "Suggested number of subtasks for task.split" })),
       subtasks: Type.Optional(Type.Array(
@@ -591,20 +676,36 @@ Usage (action-based API - preferred):
       autonomous: Type.Optional(Type.Boolean({ description: "Run work continuously until done/blocked" })),
       concurrency: Type.Optional(Type.Number({ description: "Override worker concurrency" })),
       model: Type.Optional(Type.String({ description: "Override worker model for this work wave" })),
-      profile: Type.Optional(Type.String({ description: "Spawn profile name from .pi/agents (maps model/provider only)" })),
+      profile: Type.Optional(Type.String({ description: "Profile name from .pi/agents or orchestrator.profiles (model, thinking, env, prompt, tools, workstream, budget, memory; supports extends). Also narrows agents.profiles" })),
       workstream: Type.Optional(Type.String({ description: "Optional namespace/tag for memory isolation (e.g., cvi-wing, backtester)" })),
       thinking: Type.Optional(Type.String({ description: "Thinking level override (e.g., high, xhigh)" })),
       task: Type.Optional(Type.String({ description: "Task description for agents.assign" })),
       lines: Type.Optional(Type.Number({ description: "Number of lines for agents.logs (default 50)" })),
+      timeoutMs: Type.Optional(Type.Number({ description: "Spawn timeout override for spawn, deadline in ms for agents.assign/agents.queue (counted from assignment), how long agents.logs follow waits, or how long ask waits for a reply (default 2m, max 15m)" })),
+      deadline: Type.Optional(Type.String({ description: "Absolute ISO deadline for agents.assign/agents.queue (escalates when passed)" })),
+      maxRestarts: Type.Optional(Type.Number({ description: "Respawn limit for spawn when the worker crashes mid-task (default orchestrator.maxRestarts)" })),
+      restartBackoffMs: Type.Optional(Type.Number({ description: "Base backoff before a respawn for spawn, doubled per restart (default orchestrator.restartBackoffMs)" })),
+      worktree: Type.Optional(Type.Boolean({ description: "Run the spawned worker in its own git worktree on branch pi/<name> (default orchestrator.worktree)" })),
+      strategy: Type.Optional(StringEnum(["merge", "rebase"], { description: "How agents.merge brings the worker's branch back (default merge)" })),
+      query: Type.Optional(Type.String({ description: "Search query for agents.memory.search" })),
+      memoryType: Type.Optional(Type.Any({ description: "Memory type for agents.memory.add (decision|discovery) or filter for agents.memory.search (string or array)" })),
+      contentHash: Type.Optional(Type.String({ description: "Content hash of a memory entry for agents.memory.forget" })),
+      file: Type.Optional(Type.String({ description: "JSONL file path for agents.memory.import, or file to trace for agents.memory.trace" })),
+      includeVectors: Type.Optional(Type.Boolean({ description: "Include embedding vectors in agents.memory.export (default true)" })),
+      similarity: Type.Optional(Type.Number({ description: "Cosine similarity threshold for agents.memory.compact clusters (default memory.compactSimilarity)" })),
+      dryRun: Type.Optional(Type.Boolean({ description: "Preview agents.memory.compact clusters without merging" })),
+      priority: Type.Optional(Type.Number({ description: "Queue priority for agents.queue (higher runs first, default 0)" })),
+      messagePriority: Type.Optional(StringEnum(["urgent", "normal", "low"], { description: "Message priority for send/broadcast: \"urgent\" interrupts, \"low\" waits until the recipient is idle (default normal)" })),
+      scope: Type.Optional(StringEnum(["project", "global"], { description: "Memory namespace for agents.memory.add/forget/stats/reindex (default project)" })),
       project: Type.Optional(Type.String({ description: "Project label for data.session/data.export" })),
       runType: Type.Optional(StringEnum(["production", "smoke", "research", "debug"], { description: "Session run type for data policy classification" })),
       category: Type.Optional(StringEnum(["production_work", "smoke_test", "off_topic", "ops_debug"], { description: "Optional explicit category override for data ingestion clients" })),
-      out: Type.Optional(Type.String({ description: "Output path for data.export (relative to cwd if not absolute)" })),
+      out: Type.Optional(Type.String({ description: "Output path for data.export or agents.memory.export (relative to cwd if not absolute)" })),
       minQualityScore: Type.Optional(Type.Number({ description: "Minimum quality score (0..1) for data.export" })),
       includeDroppedMetadata: Type.Optional(Type.Boolean({ description: "Include metadata-only dropped records in data.export" })),
       cascade: Type.Optional(Type.Boolean({ description: "For task.reset - also reset dependent tasks" })),
-      limit: Type.Optional(Type.Number({ description: "Number of events to return (for feed action, default 20)" })),
-      paths: Type.Optional(Type.Array(Type.String(), { description: "Paths for reserve/release actions" })),
+      limit: Type.Optional(Type.Number({ description: "Number of events to return (for feed action, default 20; messages.deadletter and messages.history, default 20)" })),
+      paths: Type.Optional(Type.Array(Type.String(), { description: "Paths for reserve/release actions, memory files for agents.memory.add, or changed files for agents.done" })),
       name: Type.Optional(Type.String({ description: "New name for rename action" })),
 
       // ═══════════════════════════════════════════════════════════════════════
@@ -612,9 +713,12 @@ Usage (action-based API - preferred):
       // ═══════════════════════════════════════════════════════════════════════
       spec: Type.Optional(Type.String({ description: "Path to spec/plan file" })),
       notes: Type.Optional(Type.String({ description: "Completion notes" })),
-      to: Type.Optional(Type.Any({ description: "Target agent name (string) or multiple names (array)" })),
+      to: Type.Optional(Type.Any({ description: "Target agent name (string) or multiple names (array); \"#name\" sends to every member of that channel" })),
       message: Type.Optional(Type.String({ description: "Message to send" })),
       replyTo: Type.Optional(Type.String({ description: "Message ID if this is a reply" })),
+      deliverAt: Type.Optional(Type.String({ description: "Delay send/broadcast delivery until this time: ISO timestamp or delay from now (10m, 2h)" })),
+      expiresAt: Type.Optional(Type.String({ description: "Drop a send/broadcast message unread after this time (ISO or delay from now); the sender is notified" })),
+      channel: Type.Optional(Type.String({ description: "Channel for channel.join/channel.leave, e.g. \"#backend\"" })),
       reason: Type.Optional(Type.String({ description: "Reason for reservation, claim, or task block" })),
       autoRegisterPath: Type.Optional(StringEnum(["add", "remove", "list"], { description: "Manage auto-register paths: add/remove current folder, or list all" }))
     }),
@@ -625,7 +729,7 @@ Usage (action-based API - preferred):
 
       const action = params.action;
       if (!action) {
-        return handlers.executeStatus(state, dirs, ctx.cwd ?? process.cwd());
+        return handlers.executeStatus(state, dirs, orchestratorCwd(ctx));
       }
 
       if (action === "heartbeat" || action.startsWith("heartbeat.")) {
@@ -930,7 +1034,7 @@ Usage (action-based API - preferred):
     if (toolName === "bash") {
       const command = input.command as string;
       if (command) {
-        const cwd = ctx.cwd ?? process.cwd();
+        const cwd = orchestratorCwd(ctx);
         if (isGitCommit(command)) {
           const msg = extractCommitMessage(command);
           logFeedEvent(cwd, state.agentName, "commit", undefined, msg);
@@ -969,7 +1073,7 @@ Usage (action-based API - preferred):
         restoreAutonomousState(entry.data as Parameters<typeof restoreAutonomousState>[0]);
       }
     }
-    const cwd = ctx.cwd ?? process.cwd();
+    const cwd = orchestratorCwd(ctx);
     const { staleCleared } = restorePlanningState(cwd);
     if (staleCleared && ctx.hasUI) {
       ctx.ui.notify("Stale planning state cleared (planner process exited)", "warning");
@@ -1034,7 +1138,7 @@ Usage (action-based API - preferred):
   }
 
   function maybeAutoOpenCrewOverlay(ctx: ExtensionContext): void {
-    const cwd = ctx.cwd ?? process.cwd();
+    const cwd = orchestratorCwd(ctx);
     if (config.autoOverlayPlanning) {
       markPlanningOverlayPending(cwd);
     }
@@ -1111,7 +1215,7 @@ Usage (action-based API - preferred):
   pi.on("session_switch", async (_event, ctx) => {
     latestCtx = ctx;
     resetAutonomousContinueGuard();
-    const cwd = ctx.cwd ?? process.cwd();
+    const cwd = orchestratorCwd(ctx);
     const { staleCleared } = restorePlanningState(cwd);
     if (staleCleared && ctx.hasUI) {
       ctx.ui.notify("Stale planning state cleared (planner process exited)", "warning");
@@ -1128,7 +1232,7 @@ Usage (action-based API - preferred):
   pi.on("session_fork", async (_event, ctx) => {
     latestCtx = ctx;
     resetAutonomousContinueGuard();
-    const cwd = ctx.cwd ?? process.cwd();
+    const cwd = orchestratorCwd(ctx);
     const { staleCleared } = restorePlanningState(cwd);
     if (staleCleared && ctx.hasUI) {
       ctx.ui.notify("Stale planning state cleared (planner process exited)", "warning");
@@ -1144,7 +1248,7 @@ Usage (action-based API - preferred):
   });
   pi.on("session_tree", async (_event, ctx) => {
     latestCtx = ctx;
-    const cwd = ctx.cwd ?? process.cwd();
+    const cwd = orchestratorCwd(ctx);
     const { staleCleared } = restorePlanningState(cwd);
     if (staleCleared && ctx.hasUI) {
       ctx.ui.notify("Stale planning state cleared (planner process exited)", "warning");
@@ -1163,7 +1267,7 @@ Usage (action-based API - preferred):
     store.processAllPendingMessages(state, dirs, deliverMessage);
     const lobbyId = process.env.PI_LOBBY_ID;
     if (lobbyId) {
-      const cwd = ctx.cwd ?? process.cwd();
+      const cwd = orchestratorCwd(ctx);
       const aliveFile = join(cwd, ".pi", "messenger", "crew", `lobby-${lobbyId}.alive`);
       if (fs.existsSync(aliveFile)) {
         pi.sendMessage({
@@ -1236,7 +1340,7 @@ Usage (action-based API - preferred):
       return;
     }
 
-    const currentCwd = ctx.cwd ?? process.cwd();
+    const currentCwd = orchestratorCwd(ctx);
     if (!isAutonomousForCwd(currentCwd)) {
       resetAutonomousContinueGuard();
       return;
@@ -1318,7 +1422,7 @@ Usage (action-based API - preferred):
 
     try {
       killAllSpawned(cwd);
-      closeMemory();
+      closeAllMemory();
     } catch (error) {
       console.warn(`[pi-messenger][orchestrator] shutdown cleanup failed: ${error instanceof Error ? error.message : "unknown"}`);
     }
@@ -43,6 +43,9 @@ export interface AgentRegistration {
   statusMessage?: string;
 }
 
+/** `urgent` interrupts the recipient's turn, `low` waits until it is idle. */
+export type MessagePriority = "urgent" | "normal" | "low";
+
 export interface AgentMailMessage {
   id: string;
   from: string;
@@ -50,6 +53,42 @@ export interface AgentMailMessage {
   text: string;
   timestamp: string;
   replyTo: string | null;
+  /** Set when the message was posted to a channel (without the leading #). */
+  channel?: string;
+  /** Sent by `ask`: the sender is blocked until a reply with `replyTo` = this id. */
+  expectsReply?: boolean;
+  /** Absent means `normal`. */
+  priority?: MessagePriority;
+  /** ISO time before which the recipient leaves the message in its inbox. */
+  deliverAt?: string;
+  /** ISO time after which the recipient drops the message and tells the sender. */
+  expiresAt?: string;
+}
+
+/** Written by the recipient once a message is delivered or dead-lettered. */
+export interface DeliveryReceipt {
+  id: string;
+  from: string;
+  to: string;
+  status: "delivered" | "dead_letter" | "expired";
+  attempts: number;
+  at: string;
+  error?: string;
+}
+
+/** A message that exhausted its delivery attempts (or could not be parsed). */
+export interface DeadLetter {
+  file: string;
+  message: AgentMailMessage | null;
+  raw: string | null;
+  attempts: number;
+  error: string;
+  deadAt: string;
+}
+
+/** A DM as kept in the sender's or recipient's session archive. */
+export interface ArchivedMessage extends AgentMailMessage {
+  direction: "sent" | "received";
 }
 
 export interface ReservationConflict {
@@ -206,6 +245,7 @@ export function generateAutoStatus(ctx: AutoStatusContext): string | undefined {
 
 export const MAX_WATCHER_RETRIES = 5;
 export const MAX_CHAT_HISTORY = 50;
+export const MAX_DELIVERY_ATTEMPTS = 3;
 
 const AGENT_COLORS = [
   "38;2;178;129;214",  // purple
@@ -322,6 +362,35 @@ export function formatRelativeTime(timestamp: string): string {
   return "just now";
 }
 
+const RELATIVE_TIME = /^(\d+(?:\.\d+)?)\s*(s|m|h|d|w)$/i;
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** ISO timestamp, or a duration such as `30m` applied before (-1) or after (+1) `now`. */
+function parseTimeOffset(value: string, now: number, direction: 1 | -1): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const relative = trimmed.match(RELATIVE_TIME);
+  if (relative) return now + direction * Number(relative[1]) * UNIT_MS[relative[2].toLowerCase()];
+  const parsed = Date.parse(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Parses `since` as an ISO timestamp or a relative window such as `30m`, `24h` or `7d`. */
+export function parseSince(value: string, now = Date.now()): number | null {
+  return parseTimeOffset(value, now, -1);
+}
+
+/** Parses a future time as an ISO timestamp or a delay from now such as `10m` or `2h`. */
+export function parseUntil(value: string, now = Date.now()): number | null {
+  return parseTimeOffset(value, now, 1);
+}
+
 export function pathMatchesReservation(filePath: string, pattern: string): boolean {
   if (pattern.endsWith("/")) {
     return filePath.startsWith(pattern) || filePath + "/" === pattern;
@@ -351,6 +420,15 @@ export function coloredAgentName(name: string): string {
   return `\x1b[${agentColorCode(name)}m${name}\x1b[0m`;
 }
 
+/**
+ * The checkout whose `.pi/messenger/` holds the shared project state (crew
+ * tasks, orchestrator registry, queues, memory, feed). Workers spawned into a
+ * git worktree get it as PI_ORCHESTRATOR_CWD; everyone else uses their own cwd.
+ */
+export function orchestratorCwd(ctx: { cwd?: string }): string {
+  return process.env.PI_ORCHESTRATOR_CWD || ctx.cwd || process.cwd();
+}
+
 export function extractFolder(cwd: string): string {
   return basename(cwd) || cwd;
 }
@@ -20,8 +20,10 @@ interface ConfirmAction {
 export interface CrewViewState {
   scrollOffset: number;
   selectedTaskIndex: number;
-  mode: "list" | "detail";
+  mode: "list" | "detail" | "chat";
   detailScroll: number;
+  /** Lines scrolled back from the newest message in the chat view. */
+  chatScroll: number;
   detailAutoScroll: boolean;
   confirmAction: ConfirmAction | null;
   blockReasonInput: string;
@@ -43,6 +45,7 @@ export function createCrewViewState(): CrewViewState {
     selectedTaskIndex: 0,
     mode: "list",
     detailScroll: 0,
+    chatScroll: 0,
     detailAutoScroll: true,
     confirmAction: null,
     blockReasonInput: "",
@@ -294,6 +294,49 @@ function renderMessageLines(theme: Theme, event: FeedEvent, width: number): stri
   return result;
 }
 
+/** Archived DMs, newest at the bottom, scrolled back by `viewState.chatScroll` lines. */
+export function renderChatView(
+  theme: Theme,
+  state: MessengerState,
+  dirs: Dirs,
+  width: number,
+  height: number,
+  viewState: CrewViewState,
+): string[] {
+  const messages = store.readMessageArchive(dirs, state.agentName);
+  const body: string[] = [];
+  for (const msg of messages) {
+    const time = new Date(msg.timestamp).toLocaleString("en-US", {
+      month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", hour12: false,
+    });
+    const reply = msg.replyTo ? theme.fg("dim", ` ↩ ${msg.replyTo.slice(0, 8)}`) : "";
+    body.push(truncateToWidth(
+      `${theme.fg("dim", time)} ${coloredAgentName(msg.from)} ${theme.fg("accent", `\u2192 ${msg.channel ? `#${msg.channel}` : msg.to}`)}${reply} ${theme.fg("dim", msg.id.slice(0, 8))}`,
+      width,
+    ));
+    for (const bodyLine of wrapText(msg.text.replace(/\s+/g, " ").trim(), width - 6)) {
+      body.push(truncateToWidth(`      ${bodyLine}`, width));
+    }
+  }
+
+  const viewport = Math.max(1, height - 2);
+  viewState.chatScroll = Math.max(0, Math.min(viewState.chatScroll, body.length - viewport));
+  const end = body.length - viewState.chatScroll;
+  const position = viewState.chatScroll > 0 ? `  ↑ ${viewState.chatScroll} lines back` : "";
+
+  const lines = [
+    truncateToWidth(`Messages (${messages.length} archived)${theme.fg("dim", position)}`, width),
+    "",
+  ];
+  if (messages.length === 0) {
+    lines.push(theme.fg("dim", "No messages yet — press m to send one."));
+  } else {
+    lines.push(...body.slice(Math.max(0, end - viewport), end));
+  }
+  while (lines.length < height) lines.push("");
+  return lines.slice(0, height);
+}
+
 export function renderAgentsRow(
   cwd: string,
   width: number,
@@ -457,6 +500,10 @@ export function renderLegend(
     viewState.notification = null;
   }
 
+  if (viewState.mode === "chat") {
+    return truncateToWidth(theme.fg("dim", appendUniversalHints("↑↓:Scroll  PgUp/PgDn:Page  Home:Oldest  End:Newest  m:Chat  Esc:Back")), width);
+  }
+
   if (viewState.mode === "detail" && task) {
     return truncateToWidth(theme.fg("dim", appendUniversalHints(renderDetailStatusBar(cwd, task))), width);
   }
@@ -472,7 +519,7 @@ export function renderLegend(
     );
   }
 
-  return truncateToWidth(theme.fg("dim", appendUniversalHints(`m:Chat  v:${coordHint(cwd)}  +/-:Wkrs  Esc:Close`)), width);
+  return truncateToWidth(theme.fg("dim", appendUniversalHints(`m:Chat  h:History  v:${coordHint(cwd)}  +/-:Wkrs  Esc:Close`)), width);
 }
 
 export function renderDetailView(cwd: string, task: Task, width: number, height: number, viewState: CrewViewState): string[] {
@@ -608,7 +655,7 @@ function renderListStatusBar(cwd: string, task: Task): string {
   if (task.status !== "in_progress" && !task.milestone) hints.push("p:Revise");
   if (!(task.status === "in_progress" && hasLiveWorker(cwd, task.id))) hints.push("x:Del");
   if (!isPlanningForCwd(cwd)) hints.push("m:Chat");
-  hints.push(`v:${coordHint(cwd)}`, "f:Feed", "+/-:Wkrs");
+  hints.push("h:History", `v:${coordHint(cwd)}`, "f:Feed", "+/-:Wkrs");
   return hints.join("  ");
 }
 
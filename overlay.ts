@@ -27,6 +27,7 @@ import {
   renderEmptyState,
   renderPlanningState,
   renderDetailView,
+  renderChatView,
   navigateTask,
 } from "./overlay-render.js";
 import {
@@ -254,7 +255,7 @@ export class MessengerOverlay implements Component, Focusable {
     }
 
     if (matchesKey(data, "escape")) {
-      if (this.crewViewState.mode === "detail") {
+      if (this.crewViewState.mode === "detail" || this.crewViewState.mode === "chat") {
         this.crewViewState.mode = "list";
         this.tui.requestRender();
       } else {
@@ -304,6 +305,18 @@ export class MessengerOverlay implements Component, Focusable {
       return;
     }
 
+    if (this.crewViewState.mode === "chat") {
+      this.handleChatInput(data);
+      return;
+    }
+
+    if (matchesKey(data, "h")) {
+      this.crewViewState.mode = "chat";
+      this.crewViewState.chatScroll = 0;
+      this.tui.requestRender();
+      return;
+    }
+
     if (matchesKey(data, "f")) {
       this.crewViewState.feedFocus = !this.crewViewState.feedFocus;
       this.tui.requestRender();
@@ -432,6 +445,26 @@ export class MessengerOverlay implements Component, Focusable {
     }
   }
 
+  private chatPageSize(): number {
+    return Math.max(1, this.contentHeight() - 3);
+  }
+
+  private contentHeight(): number {
+    return Math.max(8, (process.stdout.rows ?? 24) - 6);
+  }
+
+  private handleChatInput(data: string): void {
+    const view = this.crewViewState;
+    if (matchesKey(data, "up")) view.chatScroll++;
+    else if (matchesKey(data, "down")) view.chatScroll = Math.max(0, view.chatScroll - 1);
+    else if (matchesKey(data, "pageUp")) view.chatScroll += this.chatPageSize();
+    else if (matchesKey(data, "pageDown")) view.chatScroll = Math.max(0, view.chatScroll - this.chatPageSize());
+    else if (matchesKey(data, "home")) view.chatScroll = Number.MAX_SAFE_INTEGER; // clamped on render
+    else if (matchesKey(data, "end")) view.chatScroll = 0;
+    else return;
+    this.tui.requestRender();
+  }
+
   private snapshotIdleLabel(): string {
     const last = this.state.activity.lastActivityAt || this.state.sessionStartedAt;
     const ageMs = Math.max(0, Date.now() - new Date(last).getTime());
@@ -590,9 +623,8 @@ export class MessengerOverlay implements Component, Focusable {
     lines.push(row(renderStatusBar(this.theme, this.cwd, sectionW)));
     lines.push(emptyRow());
 
-    const chromeLines = 6;
     const termRows = process.stdout.rows ?? 24;
-    const contentHeight = Math.max(8, termRows - chromeLines);
+    const contentHeight = this.contentHeight();
 
     const prevTs = this.crewViewState.lastSeenEventTs;
     const allEvents = readFeedEvents(this.cwd, 20);
@@ -602,6 +634,8 @@ export class MessengerOverlay implements Component, Focusable {
     let contentLines: string[];
     if (this.crewViewState.mode === "detail" && selectedTask) {
       contentLines = renderDetailView(this.cwd, selectedTask, sectionW, contentHeight, this.crewViewState);
+    } else if (this.crewViewState.mode === "chat") {
+      contentLines = renderChatView(this.theme, this.state, this.dirs, sectionW, contentHeight, this.crewViewState);
     } else {
       const workersLimit = termRows <= 26 ? 2 : 5;
       const hasWorkers = hasLiveWorkers(this.cwd);
@@ -11,6 +11,10 @@ import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import {
   type AgentRegistration,
   type AgentMailMessage,
+  type ArchivedMessage,
+  type DeadLetter,
+  type DeliveryReceipt,
+  type MessagePriority,
   type ReservationConflict,
   type MessengerState,
   type Dirs,
@@ -22,6 +26,7 @@ import {
   type AllCompletions,
   type NameThemeConfig,
   MAX_WATCHER_RETRIES,
+  MAX_DELIVERY_ATTEMPTS,
   isProcessAlive,
   generateMemorableName,
   isValidAgentName,
@@ -57,6 +62,12 @@ let pendingProcessArgs: {
   deliverFn: (msg: AgentMailMessage) => void;
 } | null = null;
 
+/** Pending `ask` calls, keyed by the id of the question awaiting a reply. */
+const replyWaiters = new Map<string, (msg: AgentMailMessage) => void>();
+
+/** Re-runs delivery when the earliest scheduled (`deliverAt`) message is due. */
+let scheduledDeliveryTimer: ReturnType<typeof setTimeout> | null = null;
+
 // =============================================================================
 // File System Helpers
 // =============================================================================
@@ -477,6 +488,8 @@ export function unregister(state: MessengerState, dirs: Dirs): void {
     }
   }
 
+  // Channels are keyed by name; don't hand them to the next agent that takes it.
+  leaveAllChannels(dirs, state.agentName);
   state.registered = false;
   invalidateAgentsCache();
 }
@@ -582,6 +595,9 @@ export function renameAgent(
   }
 
   state.agentName = newName;
+  for (const channel of leaveAllChannels(dirs, oldName)) {
+    joinChannel(dirs, channel, newName);
+  }
 
   if (fs.existsSync(newInbox)) {
     try {
@@ -948,6 +964,217 @@ export function getMyInbox(state: MessengerState, dirs: Dirs): string {
   return join(dirs.inbox, state.agentName);
 }
 
+/** Message file as stored in an inbox: the message plus its delivery bookkeeping. */
+interface StoredMessage extends AgentMailMessage {
+  delivery?: { attempts: number; lastError?: string };
+}
+
+const RECEIPT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const ARCHIVE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const ARCHIVE_MAX_SESSIONS = 50;
+// Long delays are re-checked hourly rather than trusted to one timer.
+const MAX_SCHEDULE_WAIT_MS = 60 * 60 * 1000;
+const PRIORITY_RANK: Record<MessagePriority, number> = { urgent: 0, normal: 1, low: 2 };
+
+function processingDir(dirs: Dirs, name: string): string {
+  return join(dirs.base, "processing", name);
+}
+
+function deadLetterDir(dirs: Dirs, name: string): string {
+  return join(dirs.base, "deadletter", name);
+}
+
+function receiptsDir(dirs: Dirs, sender: string): string {
+  return join(dirs.base, "receipts", sender);
+}
+
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.tmp-${process.pid}-${Date.now()}`;
+  fs.writeFileSync(tempPath, content);
+  fs.renameSync(tempPath, filePath);
+}
+
+function isMailMessage(value: unknown): value is StoredMessage {
+  if (!value || typeof value !== "object") return false;
+  const v = value as AgentMailMessage;
+  return typeof v.id === "string" && typeof v.from === "string" && typeof v.to === "string" && typeof v.text === "string";
+}
+
+function writeReceipt(dirs: Dirs, receipt: DeliveryReceipt): void {
+  try {
+    const dir = receiptsDir(dirs, receipt.from);
+    ensureDirSync(dir);
+    writeFileAtomic(join(dir, `${receipt.id}.json`), JSON.stringify(receipt, null, 2));
+  } catch {
+    // best effort: the sender just can't confirm delivery
+  }
+}
+
+function moveToDeadLetter(
+  dirs: Dirs,
+  name: string,
+  claimedPath: string,
+  file: string,
+  entry: Omit<DeadLetter, "file" | "deadAt">,
+): void {
+  const deadAt = new Date().toISOString();
+  try {
+    const dir = deadLetterDir(dirs, name);
+    ensureDirSync(dir);
+    writeFileAtomic(join(dir, file), JSON.stringify({ ...entry, file, deadAt }, null, 2));
+    fs.unlinkSync(claimedPath);
+  } catch {
+    // Leave it in processing/; the next pass recovers and retries it.
+    return;
+  }
+  if (entry.message) {
+    writeReceipt(dirs, {
+      id: entry.message.id,
+      from: entry.message.from,
+      to: entry.message.to,
+      status: "dead_letter",
+      attempts: entry.attempts,
+      at: deadAt,
+      error: entry.error,
+    });
+  }
+}
+
+/** Puts a failed message back in the inbox, or dead-letters it once out of attempts. */
+function retryOrDeadLetter(
+  dirs: Dirs,
+  name: string,
+  inbox: string,
+  claimedPath: string,
+  file: string,
+  stored: StoredMessage,
+  error: string,
+): void {
+  const attempts = (stored.delivery?.attempts ?? 0) + 1;
+  const { delivery: _delivery, ...message } = stored;
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    moveToDeadLetter(dirs, name, claimedPath, file, { message, raw: null, attempts, error });
+    return;
+  }
+  try {
+    writeFileAtomic(claimedPath, JSON.stringify({ ...message, delivery: { attempts, lastError: error } }, null, 2));
+    fs.renameSync(claimedPath, join(inbox, file));
+  } catch {
+    // stays in processing/ and is recovered on the next pass
+  }
+}
+
+/**
+ * Drops a message that outlived `expiresAt` unread, leaving an `expired`
+ * receipt and telling the sender it was never seen.
+ */
+function expireMessage(state: MessengerState, dirs: Dirs, claimedPath: string, msg: AgentMailMessage, attempts: number): void {
+  try {
+    fs.unlinkSync(claimedPath);
+  } catch {
+    return;
+  }
+  writeReceipt(dirs, {
+    id: msg.id,
+    from: msg.from,
+    to: msg.to,
+    status: "expired",
+    attempts,
+    at: new Date().toISOString(),
+  });
+  const preview = msg.text.length > 120 ? msg.text.slice(0, 117) + "..." : msg.text;
+  try {
+    sendMessageToAgent(state, dirs, msg.from, `Your message ${msg.id.slice(0, 8)} expired at ${msg.expiresAt} before ${state.agentName} read it: "${preview}"`);
+  } catch {
+    // best effort: messages.status still reports the expiry
+  }
+}
+
+/**
+ * Inbox files that are due, urgent first and in arrival order within a
+ * priority, plus the earliest `deliverAt` still ahead. Files that can't be
+ * read here are left for the claim step to dead-letter.
+ */
+function dueInboxFiles(inbox: string, files: string[], now: number): { due: string[]; nextAt: number | null } {
+  const due: Array<{ file: string; rank: number }> = [];
+  let nextAt: number | null = null;
+  for (const file of files) {
+    let peeked: Partial<AgentMailMessage> | null = null;
+    try {
+      peeked = JSON.parse(fs.readFileSync(join(inbox, file), "utf-8"));
+    } catch {
+      // claimed and dead-lettered below
+    }
+    const deliverAt = peeked?.deliverAt ? Date.parse(peeked.deliverAt) : NaN;
+    if (deliverAt > now) {
+      nextAt = nextAt === null ? deliverAt : Math.min(nextAt, deliverAt);
+      continue;
+    }
+    const rank = PRIORITY_RANK[peeked?.priority as MessagePriority] ?? PRIORITY_RANK.normal;
+    due.push({ file, rank });
+  }
+  return { due: due.sort((a, b) => a.rank - b.rank).map(entry => entry.file), nextAt };
+}
+
+function scheduleDeliveryAt(
+  nextAt: number | null,
+  state: MessengerState,
+  dirs: Dirs,
+  deliverFn: (msg: AgentMailMessage) => void,
+): void {
+  if (scheduledDeliveryTimer) {
+    clearTimeout(scheduledDeliveryTimer);
+    scheduledDeliveryTimer = null;
+  }
+  if (nextAt === null) return;
+  const wait = Math.min(Math.max(0, nextAt - Date.now()), MAX_SCHEDULE_WAIT_MS);
+  scheduledDeliveryTimer = setTimeout(() => {
+    scheduledDeliveryTimer = null;
+    processAllPendingMessages(state, dirs, deliverFn);
+  }, wait);
+  scheduledDeliveryTimer.unref?.();
+}
+
+/**
+ * Messages left in processing/ by a session that died mid-delivery go back
+ * to the inbox, counting the interrupted attempt.
+ */
+function recoverProcessing(dirs: Dirs, name: string, inbox: string): void {
+  const dir = processingDir(dirs, name);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(f => f.endsWith(".json"));
+  } catch {
+    return;
+  }
+  for (const file of files) {
+    const claimedPath = join(dir, file);
+    let stored: unknown;
+    try {
+      stored = JSON.parse(fs.readFileSync(claimedPath, "utf-8"));
+    } catch {
+      stored = null;
+    }
+    if (isMailMessage(stored)) {
+      retryOrDeadLetter(dirs, name, inbox, claimedPath, file, stored, "interrupted");
+    } else {
+      try {
+        fs.renameSync(claimedPath, join(inbox, file));
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
+
+/**
+ * Delivers every message in this agent's inbox at least once. Each file is
+ * claimed by moving it to processing/, acknowledged (deleted, with a receipt
+ * for the sender) after `deliverFn` returns, and retried up to
+ * MAX_DELIVERY_ATTEMPTS times before landing in deadletter/. Urgent messages
+ * go first; scheduled ones stay in the inbox until `deliverAt`, and expired
+ * ones are dropped.
+ */
 export function processAllPendingMessages(
   state: MessengerState,
   dirs: Dirs,
@@ -967,43 +1194,94 @@ export function processAllPendingMessages(
     const inbox = getMyInbox(state, dirs);
     if (!fs.existsSync(inbox)) return;
 
+    recoverProcessing(dirs, state.agentName, inbox);
+
     let files: string[];
     try {
       files = fs.readdirSync(inbox).filter(f => f.endsWith(".json")).sort();
     } catch {
       return;
     }
+    const { due, nextAt } = dueInboxFiles(inbox, files, Date.now());
+    scheduleDeliveryAt(nextAt, state, dirs, deliverFn);
+
+    const claimDir = processingDir(dirs, state.agentName);
+    ensureDirSync(claimDir);
 
-    for (const file of files) {
-      const msgPath = join(inbox, file);
+    for (const file of due) {
+      const claimedPath = join(claimDir, file);
       try {
-        const content = fs.readFileSync(msgPath, "utf-8");
-        const msg: AgentMailMessage = JSON.parse(content);
-        deliverFn(msg);
-        try {
-          ingestDataEvent(process.cwd(), {
-            source: "system",
-            eventType: "dm.receive",
-            ts: msg.timestamp,
-            actor: msg.from,
-            target: msg.to,
-            text: msg.text,
-            metadata: {
-              replyTo: msg.replyTo,
-            },
-          });
-        } catch {
-          // best effort
-        }
-        fs.unlinkSync(msgPath);
+        fs.renameSync(join(inbox, file), claimedPath);
       } catch {
-        // On any failure (read, parse, deliver), delete to avoid infinite retry loops
-        try {
-          fs.unlinkSync(msgPath);
-        } catch {
-          // Already gone or can't delete
+        continue; // already gone
+      }
+
+      let raw = "";
+      let stored: unknown;
+      try {
+        raw = fs.readFileSync(claimedPath, "utf-8");
+        stored = JSON.parse(raw);
+      } catch (err) {
+        // Retrying can't fix a corrupt file.
+        const error = err instanceof Error ? err.message : "unreadable";
+        moveToDeadLetter(dirs, state.agentName, claimedPath, file, { message: null, raw, attempts: 1, error });
+        continue;
+      }
+      if (!isMailMessage(stored)) {
+        moveToDeadLetter(dirs, state.agentName, claimedPath, file, { message: null, raw, attempts: 1, error: "not a message" });
+        continue;
+      }
+
+      const { delivery, ...msg } = stored;
+      if (msg.expiresAt && Date.parse(msg.expiresAt) <= Date.now()) {
+        expireMessage(state, dirs, claimedPath, msg, delivery?.attempts ?? 0);
+        continue;
+      }
+      // A reply an `ask` is blocked on goes to that call, not the conversation.
+      const waiter = msg.replyTo ? replyWaiters.get(msg.replyTo) : undefined;
+      try {
+        if (waiter) {
+          replyWaiters.delete(msg.replyTo!);
+          waiter(msg);
+        } else {
+          deliverFn(msg);
         }
+      } catch (err) {
+        const error = err instanceof Error ? err.message : "delivery failed";
+        retryOrDeadLetter(dirs, state.agentName, inbox, claimedPath, file, stored, error);
+        continue;
+      }
+
+      try {
+        ingestDataEvent(process.cwd(), {
+          source: "system",
+          eventType: "dm.receive",
+          ts: msg.timestamp,
+          actor: msg.from,
+          target: msg.to,
+          text: msg.text,
+          metadata: {
+            replyTo: msg.replyTo,
+          },
+        });
+      } catch {
+        // best effort
+      }
+
+      archiveMessage(state, dirs, "received", msg);
+      try {
+        fs.unlinkSync(claimedPath);
+      } catch {
+        // ignore
       }
+      writeReceipt(dirs, {
+        id: msg.id,
+        from: msg.from,
+        to: msg.to,
+        status: "delivered",
+        attempts: (delivery?.attempts ?? 0) + 1,
+        at: new Date().toISOString(),
+      });
     }
   } finally {
     isProcessingMessages = false;
@@ -1017,12 +1295,327 @@ export function processAllPendingMessages(
   }
 }
 
+export type DeliveryStatus =
+  | { status: "delivered" | "dead_letter" | "expired"; receipt: DeliveryReceipt }
+  | { status: "pending" | "processing"; to: string; attempts: number; deliverAt?: string }
+  | { status: "unknown" };
+
+function findMessageFile(root: string, id: string): { name: string; path: string } | null {
+  let names: string[];
+  try {
+    names = fs.readdirSync(root);
+  } catch {
+    return null;
+  }
+  for (const name of names) {
+    try {
+      const match = fs.readdirSync(join(root, name)).find(file => file.endsWith(`-${id}.json`));
+      if (match) return { name, path: join(root, name, match) };
+    } catch {
+      // not a directory
+    }
+  }
+  return null;
+}
+
+/** Where a message `sender` sent stands: receipt first, then the recipient's queues. */
+export function getDeliveryStatus(dirs: Dirs, sender: string, id: string): DeliveryStatus {
+  try {
+    const receipt = JSON.parse(fs.readFileSync(join(receiptsDir(dirs, sender), `${id}.json`), "utf-8")) as DeliveryReceipt;
+    return { status: receipt.status, receipt };
+  } catch {
+    // no receipt yet
+  }
+
+  for (const [status, root] of [["pending", dirs.inbox], ["processing", join(dirs.base, "processing")]] as const) {
+    const found = findMessageFile(root, id);
+    if (!found) continue;
+    let attempts = 0;
+    let deliverAt: string | undefined;
+    try {
+      const stored = JSON.parse(fs.readFileSync(found.path, "utf-8")) as StoredMessage;
+      attempts = stored.delivery?.attempts ?? 0;
+      deliverAt = stored.deliverAt;
+    } catch {
+      // mid-write
+    }
+    return { status, to: found.name, attempts, ...(deliverAt ? { deliverAt } : {}) };
+  }
+  return { status: "unknown" };
+}
+
+/** Dead-lettered messages for `name`, newest first. */
+export function listDeadLetters(dirs: Dirs, name: string): DeadLetter[] {
+  const dir = deadLetterDir(dirs, name);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(f => f.endsWith(".json")).sort().reverse();
+  } catch {
+    return [];
+  }
+  const letters: DeadLetter[] = [];
+  for (const file of files) {
+    try {
+      letters.push(JSON.parse(fs.readFileSync(join(dir, file), "utf-8")) as DeadLetter);
+    } catch {
+      // skip torn writes
+    }
+  }
+  return letters;
+}
+
+/** Drops this agent's delivery receipts older than a week. */
+export function pruneReceipts(dirs: Dirs, sender: string, now: number = Date.now()): void {
+  const dir = receiptsDir(dirs, sender);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    return;
+  }
+  for (const file of files) {
+    const filePath = join(dir, file);
+    try {
+      if (now - fs.statSync(filePath).mtimeMs > RECEIPT_TTL_MS) fs.unlinkSync(filePath);
+    } catch {
+      // ignore
+    }
+  }
+}
+
+function archiveDir(dirs: Dirs, name: string): string {
+  return join(dirs.base, "archive", name);
+}
+
+function listArchiveFiles(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir).filter(f => f.endsWith(".jsonl")).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Drops this agent's archived sessions untouched for 30 days, and all but the
+ * newest 50 sessions.
+ */
+export function pruneMessageArchive(dirs: Dirs, name: string, now: number = Date.now()): void {
+  const dir = archiveDir(dirs, name);
+  const files = listArchiveFiles(dir);
+  files.forEach((file, index) => {
+    const filePath = join(dir, file);
+    try {
+      const expired = now - fs.statSync(filePath).mtimeMs > ARCHIVE_TTL_MS;
+      if (expired || index < files.length - ARCHIVE_MAX_SESSIONS) fs.unlinkSync(filePath);
+    } catch {
+      // ignore
+    }
+  });
+}
+
+/**
+ * Appends a sent or received DM to `archive/<name>/<session start>.jsonl`,
+ * so conversations outlive the capped in-memory chat history.
+ */
+export function archiveMessage(
+  state: MessengerState,
+  dirs: Dirs,
+  direction: ArchivedMessage["direction"],
+  msg: AgentMailMessage,
+): void {
+  try {
+    const dir = archiveDir(dirs, state.agentName);
+    ensureDirSync(dir);
+    const session = (state.sessionStartedAt ?? "session").replace(/[:.]/g, "-");
+    const entry: ArchivedMessage = { ...msg, direction };
+    fs.appendFileSync(join(dir, `${session}.jsonl`), JSON.stringify(entry) + "\n");
+  } catch {
+    // best effort: the message itself was already sent or delivered
+  }
+}
+
+export interface MessageArchiveQuery {
+  /** Only messages to or from this agent. */
+  peer?: string;
+  /** Epoch ms; older messages are skipped. */
+  since?: number | null;
+  /** Newest N; older sessions are not read once N are found. */
+  limit?: number;
+}
+
+/** Every archived DM for `name` across its sessions, oldest first. */
+export function readMessageArchive(dirs: Dirs, name: string, query: MessageArchiveQuery = {}): ArchivedMessage[] {
+  const dir = archiveDir(dirs, name);
+  const limit = query.limit !== undefined ? Math.max(1, query.limit) : Infinity;
+
+  const seen = new Set<string>();
+  const messages: ArchivedMessage[] = [];
+  // Newest session first, so a limited read can stop early.
+  for (const file of listArchiveFiles(dir).reverse()) {
+    if (messages.length >= limit) break;
+    let content = "";
+    try {
+      content = fs.readFileSync(join(dir, file), "utf-8");
+    } catch {
+      continue;
+    }
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: ArchivedMessage;
+      try {
+        entry = JSON.parse(line) as ArchivedMessage;
+      } catch {
+        continue;
+      }
+      if (!isMailMessage(entry)) continue;
+      // A retried delivery can be archived twice.
+      const key = `${entry.direction}:${entry.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (query.peer && entry.from !== query.peer && entry.to !== query.peer) continue;
+      if (query.since !== undefined && query.since !== null && Date.parse(entry.timestamp) < query.since) continue;
+      messages.push(entry);
+    }
+  }
+
+  messages.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return Number.isFinite(limit) ? messages.slice(-limit) : messages;
+}
+
+/**
+ * The conversation `id` belongs to: walks `replyTo` up to the first message,
+ * then collects every reply below it. `id` may be a prefix, as shown in
+ * "(reply to 1a2b3c4d)" hints. Empty when `id` is not in the archive.
+ */
+export function getMessageThread(dirs: Dirs, name: string, id: string): ArchivedMessage[] {
+  const messages = readMessageArchive(dirs, name);
+  const byId = new Map<string, ArchivedMessage>();
+  for (const msg of messages) {
+    if (!byId.has(msg.id)) byId.set(msg.id, msg);
+  }
+
+  let current = byId.get(id) ?? messages.find(msg => msg.id.startsWith(id));
+  if (!current) return [];
+  const visited = new Set<string>([current.id]);
+  while (current.replyTo) {
+    const parent = byId.get(current.replyTo);
+    if (!parent || visited.has(parent.id)) break;
+    visited.add(parent.id);
+    current = parent;
+  }
+
+  const replies = new Map<string, string[]>();
+  for (const msg of byId.values()) {
+    if (msg.replyTo) replies.set(msg.replyTo, [...(replies.get(msg.replyTo) ?? []), msg.id]);
+  }
+  const thread = new Set<string>([current.id]);
+  const pending = [current.id];
+  for (let next = pending.pop(); next !== undefined; next = pending.pop()) {
+    for (const reply of replies.get(next) ?? []) {
+      if (thread.has(reply)) continue;
+      thread.add(reply);
+      pending.push(reply);
+    }
+  }
+  return [...byId.values()]
+    .filter(msg => thread.has(msg.id))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+// =============================================================================
+// Channels
+// =============================================================================
+
+const CHANNEL_NAME = /^[a-z0-9][a-z0-9._-]{0,47}$/;
+
+function channelsDir(dirs: Dirs): string {
+  return join(dirs.base, "channels");
+}
+
+/** `#Backend` → `backend`; null when the name isn't a valid channel. */
+export function normalizeChannel(raw: string): string | null {
+  const name = raw.trim().replace(/^#/, "").toLowerCase();
+  return CHANNEL_NAME.test(name) ? name : null;
+}
+
+/** Channel a workstream's workers share: `API Gateway` → `api-gateway`. */
+export function channelForWorkstream(workstream: string): string | null {
+  const slug = workstream.trim().toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^[-._]+|-+$/g, "");
+  return normalizeChannel(slug.slice(0, 48));
+}
+
+/**
+ * Membership is one marker file per agent in `channels/<channel>/`, so
+ * concurrent joins and leaves never race on a shared list.
+ * Returns false when the agent was already a member.
+ */
+export function joinChannel(dirs: Dirs, channel: string, agent: string): boolean {
+  const dir = join(channelsDir(dirs), channel);
+  const marker = join(dir, agent);
+  if (fs.existsSync(marker)) return false;
+  ensureDirSync(dir);
+  fs.writeFileSync(marker, JSON.stringify({ joinedAt: new Date().toISOString() }));
+  return true;
+}
+
+/** Returns false when the agent wasn't a member. Empty channels are removed. */
+export function leaveChannel(dirs: Dirs, channel: string, agent: string): boolean {
+  const dir = join(channelsDir(dirs), channel);
+  try {
+    fs.unlinkSync(join(dir, agent));
+  } catch {
+    return false;
+  }
+  try {
+    fs.rmdirSync(dir);
+  } catch {
+    // still has members
+  }
+  return true;
+}
+
+export function getChannelMembers(dirs: Dirs, channel: string): string[] {
+  try {
+    return fs.readdirSync(join(channelsDir(dirs), channel)).filter(isValidAgentName).sort();
+  } catch {
+    return [];
+  }
+}
+
+export function listChannels(dirs: Dirs): Array<{ name: string; members: string[] }> {
+  let names: string[];
+  try {
+    names = fs.readdirSync(channelsDir(dirs)).filter(name => CHANNEL_NAME.test(name)).sort();
+  } catch {
+    return [];
+  }
+  return names
+    .map(name => ({ name, members: getChannelMembers(dirs, name) }))
+    .filter(channel => channel.members.length > 0);
+}
+
+export function getAgentChannels(dirs: Dirs, agent: string): string[] {
+  return listChannels(dirs).filter(channel => channel.members.includes(agent)).map(channel => channel.name);
+}
+
+/** Removes `agent` from every channel; returns the channels it left. */
+export function leaveAllChannels(dirs: Dirs, agent: string): string[] {
+  return getAgentChannels(dirs, agent).filter(channel => leaveChannel(dirs, channel, agent));
+}
+
 export function sendMessageToAgent(
   state: MessengerState,
   dirs: Dirs,
   to: string,
   text: string,
-  replyTo?: string
+  replyTo?: string,
+  options: {
+    channel?: string;
+    expectsReply?: boolean;
+    priority?: MessagePriority;
+    deliverAt?: string;
+    expiresAt?: string;
+  } = {}
 ): AgentMailMessage {
   const targetInbox = join(dirs.inbox, to);
   ensureDirSync(targetInbox);
@@ -1033,12 +1626,19 @@ export function sendMessageToAgent(
     to,
     text,
     timestamp: new Date().toISOString(),
-    replyTo: replyTo ?? null
+    replyTo: replyTo ?? null,
+    ...(options.channel ? { channel: options.channel } : {}),
+    ...(options.expectsReply ? { expectsReply: true } : {}),
+    ...(options.priority && options.priority !== "normal" ? { priority: options.priority } : {}),
+    ...(options.deliverAt ? { deliverAt: options.deliverAt } : {}),
+    ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
   };
 
-  const random = Math.random().toString(36).substring(2, 8);
-  const msgFile = join(targetInbox, `${Date.now()}-${random}.json`);
-  fs.writeFileSync(msgFile, JSON.stringify(msg, null, 2));
+  // The id in the file name lets messages.status find it before delivery;
+  // the atomic write keeps the recipient from reading a half-written file.
+  const msgFile = join(targetInbox, `${Date.now()}-${msg.id}.json`);
+  writeFileAtomic(msgFile, JSON.stringify(msg, null, 2));
+  archiveMessage(state, dirs, "sent", msg);
 
   try {
     ingestDataEvent(process.cwd(), {
@@ -1050,6 +1650,7 @@ export function sendMessageToAgent(
       text: msg.text,
       metadata: {
         replyTo: msg.replyTo,
+        channel: msg.channel,
       },
     });
   } catch {
@@ -1059,6 +1660,49 @@ export function sendMessageToAgent(
   return msg;
 }
 
+export type AwaitedReply =
+  | { status: "replied"; reply: AgentMailMessage }
+  | { status: "timeout" | "aborted" };
+
+const REPLY_POLL_MS = 250;
+
+/**
+ * Waits for a message whose `replyTo` is `id`. The inbox is also polled, so a
+ * reply arrives even when the watcher misses the file; other messages found
+ * along the way go to `deliverFn` as usual. Once this settles, a late reply is
+ * delivered like any other message.
+ */
+export function awaitReply(
+  state: MessengerState,
+  dirs: Dirs,
+  id: string,
+  options: { timeoutMs: number; signal?: AbortSignal; deliverFn: (msg: AgentMailMessage) => void },
+): Promise<AwaitedReply> {
+  return new Promise(resolve => {
+    let poll: ReturnType<typeof setInterval> | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const settle = (outcome: AwaitedReply) => {
+      if (replyWaiters.get(id) === onReply) replyWaiters.delete(id);
+      if (poll) clearInterval(poll);
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      resolve(outcome);
+    };
+    const onReply = (reply: AgentMailMessage) => settle({ status: "replied", reply });
+    const onAbort = () => settle({ status: "aborted" });
+
+    if (options.signal?.aborted) {
+      resolve({ status: "aborted" });
+      return;
+    }
+    replyWaiters.set(id, onReply);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    timer = setTimeout(() => settle({ status: "timeout" }), Math.max(0, options.timeoutMs));
+    poll = setInterval(() => processAllPendingMessages(state, dirs, options.deliverFn), REPLY_POLL_MS);
+    processAllPendingMessages(state, dirs, options.deliverFn);
+  });
+}
+
 // =============================================================================
 // Watcher
 // =============================================================================
@@ -1077,6 +1721,8 @@ export function startWatcher(
   const inbox = getMyInbox(state, dirs);
   ensureDirSync(inbox);
 
+  pruneReceipts(dirs, state.agentName);
+  pruneMessageArchive(dirs, state.agentName);
   processAllPendingMessages(state, dirs, deliverFn);
 
   function scheduleRetry(): void {
@@ -1115,6 +1761,10 @@ export function startWatcher(
 }
 
 export function stopWatcher(state: MessengerState): void {
+  if (scheduledDeliveryTimer) {
+    clearTimeout(scheduledDeliveryTimer);
+    scheduledDeliveryTimer = null;
+  }
   if (state.watcherDebounceTimer) {
     clearTimeout(state.watcherDebounceTimer);
     state.watcherDebounceTimer = null;
@@ -0,0 +1,88 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentMailMessage, Dirs } from "../lib.js";
+import { createTempCrewDirs, type TempCrewDirs } from "./helpers/temp-dirs.js";
+import { createDirs, meshState, registerMeshAgent } from "./helpers/orchestrator.js";
+
+function takeQuestion(dirs: Dirs, name: string): AgentMailMessage | null {
+  const inbox = path.join(dirs.inbox, name);
+  for (const file of fs.existsSync(inbox) ? fs.readdirSync(inbox) : []) {
+    const msg = JSON.parse(fs.readFileSync(path.join(inbox, file), "utf-8")) as AgentMailMessage;
+    if (msg.expectsReply) return msg;
+  }
+  return null;
+}
+
+describe("ask", () => {
+  let dirs: TempCrewDirs;
+  const initialCwd = process.cwd();
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    process.chdir(dirs.cwd);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(initialCwd);
+    vi.unstubAllEnvs();
+  });
+
+  it("blocks until the matching reply arrives and leaves other messages alone", async () => {
+    const handlers = await import("../handlers.js");
+    const store = await import("../store.js");
+    const mesh = createDirs(dirs.cwd);
+    registerMeshAgent(mesh, "Worker");
+    registerMeshAgent(mesh, "Lead");
+    const worker = meshState("Worker");
+    const lead = meshState("Lead");
+    const delivered: string[] = [];
+
+    setTimeout(() => {
+      const question = takeQuestion(mesh, "Lead")!;
+      store.sendMessageToAgent(lead, mesh, "Worker", "FYI: standup moved");
+      store.sendMessageToAgent(lead, mesh, "Worker", "Use 8080", question.id);
+    }, 50);
+    const answered = await handlers.executeAsk(worker, mesh, dirs.cwd, { to: "Lead", message: "Which port?", timeoutMs: 5000 }, msg => delivered.push(msg.text));
+
+    expect(answered.content[0].text).toBe("Lead replied:\n\nUse 8080");
+    expect(answered.details).toMatchObject({ mode: "ask", to: "Lead", reply: { from: "Lead", text: "Use 8080" } });
+    expect(delivered).toEqual(["FYI: standup moved"]);
+    expect(store.getDeliveryStatus(mesh, "Lead", (answered.details as { reply: AgentMailMessage }).reply.id))
+      .toMatchObject({ status: "delivered" });
+
+    // Nobody answers in time; the late answer then arrives as a normal message.
+    const late = await handlers.executeAsk(worker, mesh, dirs.cwd, { to: "Lead", message: "Still there?", timeoutMs: 300 }, msg => delivered.push(msg.text));
+    expect(late.details).toMatchObject({ error: "ask_timeout", to: "Lead" });
+    store.sendMessageToAgent(lead, mesh, "Worker", "Yes, sorry", (late.details as { id: string }).id);
+    store.processAllPendingMessages(worker, mesh, msg => delivered.push(msg.text));
+    expect(delivered).toEqual(["FYI: standup moved", "Yes, sorry"]);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const aborted = await handlers.executeAsk(worker, mesh, dirs.cwd, { to: "Lead", message: "Hello?", timeoutMs: 5000 }, () => {}, controller.signal);
+    expect(aborted.details).toMatchObject({ error: "aborted" });
+  });
+
+  it("defaults to the orchestrator and rejects channels, groups and unknown agents", async () => {
+    const handlers = await import("../handlers.js");
+    const mesh = createDirs(dirs.cwd);
+    registerMeshAgent(mesh, "Worker");
+    registerMeshAgent(mesh, "Boss");
+    const worker = meshState("Worker");
+    const ask = (params: { to?: string | string[]; message?: string }) =>
+      handlers.executeAsk(worker, mesh, dirs.cwd, { timeoutMs: 100, ...params }, () => {});
+
+    expect((await ask({ message: "Scope?" })).details).toMatchObject({ error: "missing_recipient" });
+    vi.stubEnv("PI_ORCHESTRATOR_NAME", "Boss");
+    expect((await ask({ message: "Scope?" })).details).toMatchObject({ error: "ask_timeout", to: "Boss" });
+    expect(takeQuestion(mesh, "Boss")).toMatchObject({ from: "Worker", text: "Scope?", expectsReply: true });
+
+    expect((await ask({ to: "#backend", message: "hi" })).details).toMatchObject({ error: "invalid_recipient" });
+    expect((await ask({ to: ["Boss", "Lead"], message: "hi" })).details).toMatchObject({ error: "invalid_recipient" });
+    expect((await ask({ to: "Worker", message: "hi" })).details).toMatchObject({ error: "invalid_recipient" });
+    expect((await ask({ to: "Nobody", message: "hi" })).details).toMatchObject({ error: "not_found" });
+    expect((await ask({ to: "Boss" })).details).toMatchObject({ error: "missing_message" });
+  });
+});
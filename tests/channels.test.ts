@@ -0,0 +1,125 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { EventEmitter } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "./helpers/temp-dirs.js";
+import { createMockContext } from "./helpers/mock-context.js";
+import { createDirs, createState, inboxMessages, meshState, mockOrchestratorMemory, registerMeshAgent } from "./helpers/orchestrator.js";
+
+interface FakeProc extends EventEmitter {
+  pid: number;
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+}
+
+describe("channels", () => {
+  let dirs: TempCrewDirs;
+  const initialCwd = process.cwd();
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    process.chdir(dirs.cwd);
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(initialCwd);
+    vi.unstubAllEnvs();
+  });
+
+  it("fans channel posts out to active members and tags them with the channel", async () => {
+    const handlers = await import("../handlers.js");
+    const store = await import("../store.js");
+    const mesh = createDirs(dirs.cwd);
+    for (const name of ["Lead", "Api", "Db"]) registerMeshAgent(mesh, name, process.pid);
+    registerMeshAgent(mesh, "Ghost", 2 ** 22 + 1);
+
+    expect(handlers.executeChannelJoin(meshState("Api"), mesh, "#Backend").details)
+      .toMatchObject({ mode: "channel.join", channel: "backend", joined: true, members: ["Api"] });
+    handlers.executeChannelJoin(meshState("Db"), mesh, "backend");
+    handlers.executeChannelJoin(meshState("Ghost"), mesh, "#backend");
+    expect(handlers.executeChannelJoin(meshState("Db"), mesh, "#backend").details).toMatchObject({ joined: false });
+    expect(handlers.executeChannelJoin(meshState("Db"), mesh, "#no spaces").details).toMatchObject({ error: "invalid_channel" });
+    expect(handlers.executeChannelJoin(meshState("Db"), mesh).details).toMatchObject({ error: "missing_channel" });
+    expect(store.getChannelMembers(mesh, "backend")).toEqual(["Api", "Db", "Ghost"]);
+
+    // Db is named directly too, so it gets a plain DM; Ghost left the mesh and is skipped.
+    const sent = handlers.executeSend(meshState("Lead"), mesh, dirs.cwd, ["#backend", "Db"], false, "schema is frozen");
+    expect(sent.content[0].text).toMatch(/^Message sent to Db, #backend \(Api\)\./);
+    expect(sent.details).toMatchObject({ sent: ["Db", "Api"], failed: [], channels: ["backend"] });
+    expect(inboxMessages(mesh, "Api")).toEqual([expect.objectContaining({ from: "Lead", channel: "backend", text: "schema is frozen" })]);
+    expect(inboxMessages(mesh, "Db")[0]).not.toHaveProperty("channel");
+
+    const empty = handlers.executeSend(meshState("Lead"), mesh, dirs.cwd, "#frontend", false, "anyone?");
+    expect(empty.details).toMatchObject({ error: "all_failed", failed: [{ name: "#frontend", error: "no other members" }] });
+
+    expect(handlers.executeChannelList(meshState("Api"), mesh).content[0].text).toContain("- #backend (joined): Api, Db, Ghost");
+    expect(handlers.executeChannelLeave(meshState("Ghost"), mesh, "#backend").details).toMatchObject({ left: true });
+    expect(handlers.executeChannelLeave(meshState("Ghost"), mesh, "#backend").details).toMatchObject({ left: false });
+    expect(store.leaveAllChannels(mesh, "Api")).toEqual(["backend"]);
+    expect(store.listChannels(mesh)).toEqual([{ name: "backend", members: ["Db"] }]);
+    // Leaving the mesh (or shutting down) gives up every channel.
+    store.unregister(meshState("Db"), mesh);
+    expect(store.listChannels(mesh)).toEqual([]);
+    expect(store.channelForWorkstream(" API Gateway ")).toBe("api-gateway");
+  });
+
+  it("puts spawned workers in their workstream channel and moves them on reassignment", async () => {
+    const messengerDirs = createDirs(dirs.cwd);
+    vi.stubEnv("PI_MESSENGER_DIR", messengerDirs.base);
+    const ctx = createMockContext(dirs.cwd);
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: { autoKillOnDone: false, gracePeriodMs: 100, spawnTimeoutMs: 1200, spawnTimeoutMaxMs: 10000 },
+    }));
+
+    mockOrchestratorMemory();
+
+    const workerPid = 51001;
+    const alivePids = new Set([workerPid]);
+    vi.doMock("node:child_process", () => ({
+      spawn: vi.fn((_command: string, _args: string[], options?: { env?: Record<string, string> }) => {
+        const proc = new EventEmitter() as FakeProc;
+        proc.stdout = new EventEmitter();
+        proc.stderr = new EventEmitter();
+        proc.pid = workerPid;
+        const name = options?.env?.PI_AGENT_NAME ?? "worker";
+        setTimeout(() => registerMeshAgent(messengerDirs, name, workerPid), 20);
+        return proc;
+      }),
+      execFileSync: vi.fn(() => {
+        throw new Error("tmux unavailable");
+      }),
+    }));
+    vi.spyOn(process, "kill").mockImplementation(((pid: number, signal?: string | number) => {
+      if (!alivePids.has(Number(pid))) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      if (signal && signal !== 0) alivePids.delete(Number(pid));
+      return true;
+    }) as typeof process.kill);
+
+    const orchestrator = await import("../crew/handlers/orchestrator.js");
+    const store = await import("../store.js");
+
+    const spawned = await orchestrator.executeSpawn({ name: "Builder", workstream: "API Gateway" }, createState("Boss"), messengerDirs, ctx);
+    expect(spawned.details).toMatchObject({ status: "idle", channel: "api-gateway" });
+    expect(store.getAgentChannels(messengerDirs, "Builder")).toEqual(["api-gateway"]);
+
+    const assigned = await orchestrator.execute("assign", { name: "Builder", task: "Add invoices", workstream: "Billing" }, createState("Boss"), messengerDirs, ctx);
+    expect(assigned.details).toMatchObject({ assigned: true, workstream: "Billing", channel: "billing" });
+    expect(store.getAgentChannels(messengerDirs, "Builder")).toEqual(["billing"]);
+    const assignment = inboxMessages(messengerDirs, "Builder").find(msg => msg.text.startsWith("# Task Assignment"));
+    expect(assignment?.text).toContain('You are in #billing with the other workers on it: pi_messenger({ action: "send", to: "#billing"');
+
+    await orchestrator.execute("kill", { name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    expect(store.listChannels(messengerDirs)).toEqual([]);
+
+    // A worker that dies on its own is reaped out of its channels too.
+    alivePids.add(workerPid);
+    await orchestrator.executeSpawn({ name: "Scout", workstream: "Billing" }, createState("Boss"), messengerDirs, ctx);
+    expect(store.getAgentChannels(messengerDirs, "Scout")).toEqual(["billing"]);
+    alivePids.delete(workerPid);
+    const registry = await import("../crew/orchestrator/registry.js");
+    expect(registry.reapOrphans(dirs.cwd)).toEqual(["Scout"]);
+    expect(store.listChannels(messengerDirs)).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { EventEmitter } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, mockOrchestratorMemory } from "../../helpers/orchestrator.js";
+
+interface FakeProc extends EventEmitter {
+  pid: number;
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+}
+
+describe("crew/orchestrator/backends", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("expands sandbox templates", async () => {
+    vi.stubEnv("PI_MESSENGER_DIR", "/tmp/mesh");
+    const { expandSandboxTemplate } = await import("../../../crew/orchestrator/backends.js");
+
+    const vars = { name: "Boxed", cwd: "/work/app", extensionDir: "/ext" };
+    expect(expandSandboxTemplate(
+      ["docker", "run", "--name", "pi-{name}", "-v", "{cwd}:{cwd}", "-v", "{messengerDir}:{messengerDir}", "{env}", "img", "{pi}"],
+      vars,
+      { PI_AGENT_NAME: "Boxed" },
+      ["--no-session", "hi"],
+    )).toEqual([
+      "docker", "run", "--name", "pi-Boxed", "-v", "/work/app:/work/app", "-v", "/tmp/mesh:/tmp/mesh",
+      "-e", "PI_AGENT_NAME=Boxed", "img", "pi", "--no-session", "hi",
+    ]);
+    expect(expandSandboxTemplate(["bwrap", "--bind", "{cwd}", "{cwd}"], vars, {}, ["hi"])).toEqual([
+      "bwrap", "--bind", "/work/app", "/work/app", "pi", "hi",
+    ]);
+    expect(expandSandboxTemplate(["-v", "{cwd}:/w"], { ...vars, cwd: "/work/$&-$'app" })).toEqual(["-v", "/work/$&-$'app:/w"]);
+  });
+
+  it("runs workers under the sandbox wrapper with logs, attach and teardown", async () => {
+    const messengerDirs = createDirs(dirs.cwd);
+    vi.stubEnv("PI_MESSENGER_DIR", messengerDirs.base);
+    const ctx = createMockContext(dirs.cwd);
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: {
+        autoKillOnDone: false,
+        gracePeriodMs: 100,
+        spawnTimeoutMs: 1200,
+        spawnTimeoutMaxMs: 10000,
+        backend: "sandbox",
+        sandbox: {
+          command: ["docker", "run", "--rm", "--pid=host", "--name", "pi-{name}", "-v", "{cwd}:{cwd}", "-w", "{cwd}", "{env}", "pi-image", "{pi}"],
+          stopCommand: ["docker", "rm", "-f", "pi-{name}"],
+          attachCommand: ["docker", "exec", "-it", "pi-{name}", "sh"],
+        },
+      },
+    }));
+
+    mockOrchestratorMemory();
+
+    const wrapperPid = 48001;
+    const workerPid = 48100;
+    const alivePids = new Set([wrapperPid, workerPid]);
+    let wrapper: FakeProc | null = null;
+    const spawnMock = vi.fn((_command: string, _args: string[], options?: { env?: Record<string, string> }) => {
+      const proc = new EventEmitter() as FakeProc;
+      proc.stdout = new EventEmitter();
+      proc.stderr = new EventEmitter();
+      proc.pid = wrapperPid;
+      wrapper = proc;
+      const name = options?.env?.PI_AGENT_NAME ?? "worker";
+      setTimeout(() => {
+        // The worker runs inside the container, so its PID is not the wrapper's.
+        fs.writeFileSync(path.join(messengerDirs.registry, `${name}.json`), JSON.stringify({
+          name,
+          pid: workerPid,
+          sessionId: "session-boxed",
+          cwd: dirs.cwd,
+          activity: { lastActivityAt: new Date().toISOString() },
+        }));
+      }, 20);
+      return proc;
+    });
+    const execFileSyncMock = vi.fn((command: string) => {
+      if (command === "tmux") throw new Error("tmux unavailable");
+      return "";
+    });
+    vi.doMock("node:child_process", () => ({ spawn: spawnMock, execFileSync: execFileSyncMock }));
+    vi.spyOn(process, "kill").mockImplementation(((pid: number, signal?: string | number) => {
+      if (!alivePids.has(Number(pid))) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      if (signal && signal !== 0) alivePids.delete(Number(pid));
+      return true;
+    }) as typeof process.kill);
+
+    const orchestrator = await import("../../../crew/handlers/orchestrator.js");
+    const registry = await import("../../../crew/orchestrator/registry.js");
+
+    const spawned = await orchestrator.executeSpawn({ name: "Boxed", model: "anthropic/claude-sonnet-4-6" }, createState("Boss"), messengerDirs, ctx);
+    expect(spawned.details).toMatchObject({ status: "idle", backend: "sandbox" });
+
+    const [command, args, options] = spawnMock.mock.calls[0]!;
+    expect(command).toBe("docker");
+    expect(args.slice(0, 10)).toEqual([
+      "run", "--rm", "--pid=host", "--name", "pi-Boxed", "-v", `${dirs.cwd}:${dirs.cwd}`, "-w", dirs.cwd, "-e",
+    ]);
+    expect(args).toEqual(expect.arrayContaining(["PI_AGENT_NAME=Boxed", "pi-image", "pi", "--no-session"]));
+    expect(options?.env?.PI_AGENT_NAME).toBe("Boxed");
+
+    expect(registry.getSpawned("Boxed", dirs.cwd)).toMatchObject({
+      backend: "sandbox",
+      pid: workerPid,
+      sandbox: {
+        stopCommand: ["docker", "rm", "-f", "pi-Boxed"],
+        attachCommand: ["docker", "exec", "-it", "pi-Boxed", "sh"],
+      },
+    });
+
+    wrapper!.stdout.emit("data", "booting sandbox\nready\n");
+    const logs = await orchestrator.execute("logs", { name: "Boxed" }, createState("Boss"), messengerDirs, ctx);
+    expect(logs.content[0].text).toBe("booting sandbox\nready");
+    expect(logs.details).toMatchObject({ backend: "sandbox" });
+
+    const attach = await orchestrator.execute("attach", { name: "Boxed" }, createState("Boss"), messengerDirs, ctx);
+    expect(attach.details).toMatchObject({ attached: false, command: "'docker' 'exec' '-it' 'pi-Boxed' 'sh'" });
+
+    const killed = await orchestrator.execute("kill", { name: "Boxed" }, createState("Boss"), messengerDirs, ctx);
+    expect(killed.details).toMatchObject({ mode: "agents.kill", killed: true });
+    expect(execFileSyncMock).toHaveBeenCalledWith("docker", ["rm", "-f", "pi-Boxed"], expect.anything());
+    expect(registry.getSpawned("Boxed", dirs.cwd)).toBeNull();
+  });
+
+  it("fails the spawn when no sandbox command is configured", async () => {
+    const messengerDirs = createDirs(dirs.cwd);
+    vi.stubEnv("PI_MESSENGER_DIR", messengerDirs.base);
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({ orchestrator: { backend: "sandbox" } }));
+    const orchestrator = await import("../../../crew/handlers/orchestrator.js");
+
+    const spawned = await orchestrator.executeSpawn({ name: "Boxed" }, createState("Boss"), messengerDirs, createMockContext(dirs.cwd));
+    expect(spawned.details).toMatchObject({ mode: "spawn", error: "sandbox_spawn_failed" });
+    expect(spawned.content[0].text).toContain("orchestrator.sandbox.command is empty");
+  });
+});
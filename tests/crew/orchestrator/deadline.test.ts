@@ -0,0 +1,112 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, inboxMessages, loadOrchestrator, meshJoin, worker } from "../../helpers/orchestrator.js";
+
+describe("crew/orchestrator assignment deadlines", () => {
+  let dirs: TempCrewDirs;
+  let meshRoot: string;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    meshRoot = path.join(dirs.root, "messenger-global");
+    fs.mkdirSync(path.join(meshRoot, "registry"), { recursive: true });
+    vi.stubEnv("PI_MESSENGER_DIR", meshRoot);
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("records deadlines on assign and rejects invalid ones", async () => {
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({ orchestrator: { autoKillOnDone: false } }));
+    const { handler, registry } = await loadOrchestrator();
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    registry.registerSpawned(worker({ status: "idle", assignedTask: null }), dirs.cwd);
+
+    const past = await handler.execute("assign", { name: "Builder", task: "x", deadline: "2000-01-01T00:00:00Z" }, createState("Boss"), messengerDirs, ctx);
+    expect(past.details).toMatchObject({ error: "invalid_deadline" });
+    const garbage = await handler.execute("assign", { name: "Builder", task: "x", deadline: "soon" }, createState("Boss"), messengerDirs, ctx);
+    expect(garbage.details).toMatchObject({ error: "invalid_deadline" });
+
+    const before = Date.now();
+    const assigned = await handler.execute("assign", { name: "Builder", task: "Ship it", timeoutMs: 60_000 }, createState("Boss"), messengerDirs, ctx);
+    const deadline = Date.parse((assigned.details as { deadline: string }).deadline);
+    expect(deadline).toBeGreaterThanOrEqual(before + 60_000);
+    expect(registry.getSpawned("Builder", dirs.cwd)).toMatchObject({ assignedBy: "Boss", assignmentTimeoutMs: 60_000, deadlineAt: deadline });
+    expect(inboxMessages(messengerDirs, "Builder").at(-1)?.text).toContain(`## Deadline\n${new Date(deadline).toISOString()}`);
+
+    expect(await handler.checkAssignmentDeadlines(createState("Boss"), messengerDirs, ctx)).toEqual([]);
+
+    await handler.execute("done", { summary: "Shipped" }, createState("Builder"), messengerDirs, ctx);
+    expect(registry.getSpawned("Builder", dirs.cwd)).toMatchObject({ deadlineAt: null, escalation: null });
+  });
+
+  it("nudges, notifies, then kills and reassigns overdue agents", async () => {
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: { autoKillOnDone: false, gracePeriodMs: 50, escalationIntervalMs: 0, reassignOnDeadline: true },
+    }));
+    const alive = new Set([process.pid, 45001]);
+    vi.spyOn(process, "kill").mockImplementation(((pid: number, signal?: NodeJS.Signals | 0) => {
+      if (!alive.has(Number(pid))) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      if (signal !== 0) alive.delete(Number(pid));
+      return true;
+    }) as typeof process.kill);
+
+    const { handler, registry } = await loadOrchestrator();
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Slow", pid: 45001, status: "idle", assignedTask: null })), dirs.cwd);
+    await handler.execute("assign", { name: "Slow", task: "Migrate schema", workstream: "db", timeoutMs: 60_000 }, createState("Lead"), messengerDirs, ctx);
+    await registry.enqueueAssignment("Slow", { task: "Backfill", workstream: "db", priority: 0, enqueuedBy: "Lead" }, dirs.cwd);
+    registry.registerSpawned({ ...registry.getSpawned("Slow", dirs.cwd)!, deadlineAt: Date.now() - 1000 }, dirs.cwd);
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Spare", status: "idle", assignedTask: null })), dirs.cwd);
+    // Quieter for longer, but on another model: the re-route must keep the original one.
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Cheap", model: "openai/gpt-5-mini", status: "idle", assignedTask: null, lastActivityAt: 0 })), dirs.cwd);
+
+    const heartbeat = () => handler.checkAssignmentDeadlines(createState("Boss"), messengerDirs, ctx);
+
+    expect(await heartbeat()).toMatchObject([{ name: "Slow", step: "nudge", task: "Migrate schema" }]);
+    expect(inboxMessages(messengerDirs, "Slow").at(-1)?.text).toContain("deadline for \"Migrate schema\" passed");
+
+    expect(await heartbeat()).toMatchObject([{ name: "Slow", step: "notify" }]);
+    expect(inboxMessages(messengerDirs, "Lead").at(-1)?.text).toContain("Slow is");
+
+    expect(await heartbeat()).toMatchObject([{ name: "Slow", step: "reassign", reassignedTo: "Spare" }]);
+    expect(registry.getSpawned("Slow", dirs.cwd)).toBeNull();
+    expect(registry.getSpawned("Spare", dirs.cwd)).toMatchObject({
+      status: "assigned",
+      assignedTask: "Migrate schema",
+      currentWorkstream: "db",
+      assignedBy: "Lead",
+      assignmentTimeoutMs: 60_000,
+    });
+    expect(registry.getQueue("Spare", dirs.cwd).map(item => item.task)).toEqual(["Backfill"]);
+    expect(await heartbeat()).toEqual([]);
+
+    const steps = registry.readHistory(dirs.cwd).filter(event => event.event === "escalate").map(event => event.details?.step);
+    expect(steps).toEqual(["nudge", "notify", "reassign"]);
+  });
+
+  it("keeps the overdue agent, its task and its queue when the re-route fails", async () => {
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: { autoKillOnDone: false, gracePeriodMs: 50, escalationIntervalMs: 0, reassignOnDeadline: true, maxSpawnedAgents: 0 },
+    }));
+    const { handler, registry } = await loadOrchestrator();
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Slow", escalation: "notify", deadlineAt: Date.now() - 1000 })), dirs.cwd);
+    await registry.enqueueAssignment("Slow", { task: "Backfill", workstream: null, priority: 0, enqueuedBy: "Lead" }, dirs.cwd);
+
+    expect(await handler.checkAssignmentDeadlines(createState("Boss"), messengerDirs, ctx)).toMatchObject([
+      { name: "Slow", step: "reassign", reassignedTo: null, error: "no_available_agent" },
+    ]);
+    expect(registry.getSpawned("Slow", dirs.cwd)).toMatchObject({ status: "assigned", assignedTask: "Current task" });
+    expect(registry.getQueue("Slow", dirs.cwd).map(item => item.task)).toEqual(["Backfill"]);
+  });
+});
@@ -0,0 +1,72 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, inboxMessages, loadOrchestrator, worker } from "../../helpers/orchestrator.js";
+
+function loadModules(remembered: Array<{ text: string; metadata: Record<string, unknown> }>) {
+  return loadOrchestrator({
+    getActiveMemoryStore: () => ({ enabled: true, degraded: false }),
+    initMemory: async () => ({ enabled: true, degraded: false }),
+    remember: async (_store: unknown, text: string, metadata: Record<string, unknown>) => {
+      remembered.push({ text, metadata });
+      return { ok: true };
+    },
+  });
+}
+
+describe("crew/orchestrator structured agents.done", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  it("records evidence, files, questions and follow-ups in history, memory and the report DM", async () => {
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({ orchestrator: { autoKillOnDone: false } }));
+    const remembered: Array<{ text: string; metadata: Record<string, unknown> }> = [];
+    const { handler, registry } = await loadModules(remembered);
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    registry.registerSpawned(worker({ currentWorkstream: "backend" }), dirs.cwd);
+
+    const builder = createState("Builder");
+    builder.session.filesModified = ["src/cache.ts"];
+    const done = await handler.execute("done", {
+      summary: "Added cache TTL",
+      evidence: { commits: ["abc123", "abc123"], tests: ["npm test -- cache"], prs: [] },
+      paths: ["src/cache.ts", "src/config.ts"],
+      questions: ["Should TTL be per tenant?"],
+      followUps: ["Document TTL config", { task: "Add cache metrics", workstream: "observability", priority: 2 }, { task: " " }],
+    }, builder, messengerDirs, ctx);
+
+    const expected = {
+      evidence: { commits: ["abc123"], tests: ["npm test -- cache"] },
+      files: ["src/cache.ts", "src/config.ts"],
+      questions: ["Should TTL be per tenant?"],
+      followUps: [
+        { task: "Document TTL config", workstream: "backend", priority: 0 },
+        { task: "Add cache metrics", workstream: "observability", priority: 2 },
+      ],
+    };
+    expect(done.details).toMatchObject({ mode: "agents.done", done: true, ...expected });
+
+    expect(remembered).toHaveLength(1);
+    expect(remembered[0].text).toBe("Added cache TTL\nOpen questions: Should TTL be per tenant?\nFollow-ups: Document TTL config; Add cache metrics");
+    expect(remembered[0].metadata).toMatchObject({ files: expected.files, workstream: "backend", provenance: { commits: ["abc123"] } });
+
+    const historyFile = path.join(dirs.cwd, ".pi", "messenger", "orchestrator", "history.jsonl");
+    const doneEvent = fs.readFileSync(historyFile, "utf-8").trim().split("\n").map(line => JSON.parse(line)).find(event => event.event === "done");
+    expect(doneEvent.details).toMatchObject({ summary: "Added cache TTL", task: "Current task", ...expected });
+
+    const report = inboxMessages(messengerDirs, "Boss").at(-1)!.text;
+    expect(report).toContain("✅ Builder completed: Added cache TTL");
+    expect(report).toContain("- commit abc123");
+    expect(report).toContain("Files changed: src/cache.ts, src/config.ts");
+    expect(report).toContain("- Should TTL be per tenant?");
+    expect(report).toContain('- {"task":"Add cache metrics","workstream":"observability","priority":2}');
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  embed,
+  embedLocal,
+  getEmbeddingProvider,
+  listEmbeddingProviders,
+  registerEmbeddingProvider,
+} from "../../../crew/orchestrator/embedding.js";
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+describe("crew/orchestrator/embedding", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("registers built-in providers", () => {
+    expect(listEmbeddingProviders()).toEqual(expect.arrayContaining(["gemini", "google", "http", "local", "openai"]));
+    expect(getEmbeddingProvider("LOCAL")).not.toBeNull();
+  });
+
+  it("local provider is deterministic, normalized and sized to dimensions", async () => {
+    const config = { provider: "local", model: "hash-ngram", dimensions: 64, timeoutMs: 1000 };
+    const first = await embed("Refactor src/cache.ts to use TTL invalidation", config);
+    const second = await embed("Refactor src/cache.ts to use TTL invalidation", config);
+
+    expect(first.ok).toBe(true);
+    expect(first.vector).toHaveLength(64);
+    expect(first.vector).toEqual(second.vector);
+    expect(cosine(first.vector, first.vector)).toBeCloseTo(1, 6);
+  });
+
+  it("local vectors rank lexically related text higher", () => {
+    const query = embedLocal("redis cache invalidation for task-12", 256);
+    const related = embedLocal("Implemented redis cache invalidation (task-12)", 256);
+    const unrelated = embedLocal("Updated README badges and license year", 256);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("local provider fails on text without features", async () => {
+    const out = await embed("!!", { provider: "local", model: "", dimensions: 8, timeoutMs: 1000 });
+    expect(out.ok).toBe(false);
+  });
+
+  it("http provider posts to the configured endpoint without requiring an API key", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ embedding: [3, 4] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const out = await embed("hello", {
+      provider: "http",
+      model: "nomic-embed-text",
+      dimensions: 2,
+      timeoutMs: 1000,
+      endpoint: "http://127.0.0.1:11434/api/embeddings",
+    });
+
+    expect(out.ok).toBe(true);
+    expect(out.vector[0]).toBeCloseTo(0.6);
+    expect(out.vector[1]).toBeCloseTo(0.8);
+    expect(fetchMock).toHaveBeenCalledWith("http://127.0.0.1:11434/api/embeddings", expect.objectContaining({ method: "POST" }));
+  });
+
+  it("http provider reports a missing endpoint", async () => {
+    const prev = process.env.PI_MESSENGER_EMBEDDING_API_BASE;
+    delete process.env.PI_MESSENGER_EMBEDDING_API_BASE;
+    try {
+      const out = await embed("hello", { provider: "http", model: "m", dimensions: 2, timeoutMs: 1000 });
+      expect(out.ok).toBe(false);
+      expect(out.error).toContain("endpoint missing");
+    } finally {
+      if (prev !== undefined) process.env.PI_MESSENGER_EMBEDDING_API_BASE = prev;
+    }
+  });
+
+  it("supports custom registered providers and rejects unknown ones", async () => {
+    registerEmbeddingProvider("fixed-test", {
+      embed: async (_text, config) => ({ vector: new Array(config.dimensions).fill(1), ok: true }),
+    });
+
+    const custom = await embed("anything", { provider: "fixed-test", model: "", dimensions: 3, timeoutMs: 1000 });
+    expect(custom.vector).toEqual([1, 1, 1]);
+
+    const unknown = await embed("anything", { provider: "nope", model: "", dimensions: 3, timeoutMs: 1000 });
+    expect(unknown.ok).toBe(false);
+    expect(unknown.error).toContain("Unsupported embedding provider");
+  });
+});
@@ -0,0 +1,191 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import type { ZVecCollection } from "@zvec/zvec";
+import { createFlatRuntime, withFlatLock } from "../../../crew/orchestrator/flat-index.js";
+import type { MemoryConfig } from "../../../crew/orchestrator/types.js";
+import { closeMemory, getMemoryStats, initMemory, recall, remember, resetMemory } from "../../../crew/orchestrator/memory.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+
+type Runtime = {
+  ZVecCollectionSchema: new (params: unknown) => unknown;
+  ZVecCreateAndOpen: (dir: string, schema: unknown) => ZVecCollection;
+  ZVecOpen: (dir: string) => ZVecCollection;
+};
+
+function openFresh(dir: string, dimension = 3) {
+  const runtime = createFlatRuntime() as unknown as Runtime;
+  const schema = new runtime.ZVecCollectionSchema({
+    name: "test",
+    vectors: { name: "embedding", dimension },
+    fields: [{ name: "type" }, { name: "rank" }],
+  });
+  return { runtime, collection: runtime.ZVecCreateAndOpen(dir, schema) };
+}
+
+function memoryConfig(overrides: Partial<MemoryConfig> = {}): MemoryConfig {
+  return {
+    enabled: true,
+    embeddingModel: "hash-ngram",
+    embeddingProvider: "local",
+    dimensions: 32,
+    maxEntries: 1000,
+    autoInjectTopK: 3,
+    minSimilarity: 0,
+    maxInjectionTokens: 2000,
+    embeddingTimeoutMs: 1000,
+    backend: "flat",
+    ttlDays: { message: 7, discovery: 30, summary: 90, decision: 90 },
+    ...overrides,
+  };
+}
+
+describe("crew/orchestrator/flat-index", () => {
+  it("inserts, queries by cosine distance with filters, and deletes", () => {
+    const dir = path.join(createTempCrewDirs().root, "flat");
+    const { collection } = openFresh(dir);
+
+    expect(collection.insertSync({ id: "a", vectors: { embedding: [1, 0, 0] }, fields: { type: "summary", rank: 1 } }).ok).toBe(true);
+    expect(collection.insertSync({ id: "b", vectors: { embedding: [0, 1, 0] }, fields: { type: "decision", rank: 2 } }).ok).toBe(true);
+    expect(collection.insertSync({ id: "c", vectors: { embedding: [1, 1, 0] }, fields: { type: "say \"hi\" AND bye", rank: 3 } }).ok).toBe(true);
+    expect(collection.insertSync({ id: "a", vectors: { embedding: [1, 0, 0] } }).ok).toBe(false);
+    expect(collection.insertSync({ id: "d", vectors: { embedding: [1, 0] } }).ok).toBe(false);
+
+    const nearest = collection.querySync({ fieldName: "embedding", vector: [1, 0, 0], topk: 2 });
+    expect(nearest.map(doc => doc.id)).toEqual(["a", "c"]);
+    expect(nearest[0].score).toBeCloseTo(0, 6);
+
+    const filtered = collection.querySync({
+      vector: [1, 0, 0],
+      filter: "rank >= 2 AND (type = \"decision\" OR type = \"say \\\"hi\\\" AND bye\")",
+      outputFields: ["type"],
+    });
+    expect(filtered.map(doc => doc.id)).toEqual(["c", "b"]);
+    expect(filtered[0].fields).toEqual({ type: "say \"hi\" AND bye" });
+
+    expect(() => collection.querySync({ filter: "type ~ \"x\"" })).toThrow(/invalid filter/);
+
+    collection.deleteSync(["a", "b"]);
+    expect(collection.stats.docCount).toBe(1);
+    expect(collection.fetchSync(["a", "c"])).toHaveProperty("c");
+    expect(collection.fetchSync("c").c.vectors.embedding).toEqual([1, 1, 0]);
+  });
+
+  it("persists across reopen, compacts on optimize and recovers from torn appends", () => {
+    const dir = path.join(createTempCrewDirs().root, "flat");
+    const { runtime, collection } = openFresh(dir);
+    collection.insertSync({ id: "a", vectors: { embedding: [1, 0, 0] }, fields: { type: "summary" } });
+    collection.insertSync({ id: "b", vectors: { embedding: [0, 1, 0] }, fields: { type: "summary" } });
+    collection.upsertSync({ id: "b", fields: { type: "decision" } });
+    collection.deleteSync("a");
+    collection.addColumnSync({ fieldSchema: { name: "provenance", nullable: true } } as never);
+    collection.closeSync();
+
+    const reopened = runtime.ZVecOpen(dir);
+    expect(reopened.stats.docCount).toBe(1);
+    expect(reopened.fetchSync("b").b.fields).toEqual({ type: "decision" });
+    expect(reopened.fetchSync("b").b.vectors.embedding).toEqual([0, 1, 0]);
+
+    reopened.optimizeSync();
+    expect(fs.readdirSync(dir).sort()).toEqual(["docs-1.jsonl", "flat-manifest.json", "vectors-1.f32"]);
+    expect(fs.statSync(path.join(dir, "vectors-1.f32")).size).toBe(3 * 4);
+
+    reopened.insertSync({ id: "c", vectors: { embedding: [0, 0, 1] }, fields: { type: "summary" } });
+    reopened.closeSync();
+    fs.appendFileSync(path.join(dir, "vectors-1.f32"), Buffer.alloc(5));
+    fs.appendFileSync(path.join(dir, "docs-1.jsonl"), "{\"op\":\"put\",\"id\":\"torn\"");
+
+    const recovered = runtime.ZVecOpen(dir);
+    expect(Object.keys(recovered.fetchSync(["b", "c", "torn"])).sort()).toEqual(["b", "c"]);
+    recovered.insertSync({ id: "d", vectors: { embedding: [0, 1, 1] }, fields: { type: "summary" } });
+    expect(runtime.ZVecOpen(dir).fetchSync("d").d.vectors.embedding).toEqual([0, 1, 1]);
+    expect(runtime.ZVecOpen(dir).schema.vector("embedding")).toMatchObject({ dimension: 3 });
+  });
+
+  it("keeps collections sharing a directory in sync and clears stale locks", () => {
+    const dir = path.join(createTempCrewDirs().root, "flat");
+    const { runtime, collection: orchestrator } = openFresh(dir);
+    const worker = runtime.ZVecOpen(dir);
+
+    orchestrator.insertSync({ id: "a", vectors: { embedding: [1, 0, 0] }, fields: { type: "summary" } });
+    worker.insertSync({ id: "b", vectors: { embedding: [0, 1, 0] }, fields: { type: "decision" } });
+    orchestrator.insertSync({ id: "c", vectors: { embedding: [0, 0, 1] }, fields: { type: "summary" } });
+
+    // Each writer sees the other's rows, with the right vectors.
+    expect(worker.fetchSync("c").c.vectors.embedding).toEqual([0, 0, 1]);
+    expect(orchestrator.fetchSync("b").b.vectors.embedding).toEqual([0, 1, 0]);
+    expect(orchestrator.querySync({ vector: [0, 1, 0], topk: 1 }).map(doc => doc.id)).toEqual(["b"]);
+
+    worker.deleteSync("a");
+    worker.optimizeSync();
+    expect(orchestrator.stats.docCount).toBe(2);
+    orchestrator.insertSync({ id: "d", vectors: { embedding: [1, 1, 0] }, fields: { type: "summary" } });
+    expect(worker.fetchSync(["b", "c", "d"]).d.vectors.embedding).toEqual([1, 1, 0]);
+    expect(runtime.ZVecOpen(dir).stats.docCount).toBe(3);
+
+    // A lock left by a process that died is taken over rather than waited on.
+    fs.writeFileSync(path.join(dir, "flat.lock"), String(2 ** 22 + 1));
+    expect(worker.querySync({ vector: [1, 1, 0], topk: 1 }).map(doc => doc.id)).toEqual(["d"]);
+    expect(fs.existsSync(path.join(dir, "flat.lock"))).toBe(false);
+  });
+
+  it("leaves a live holder's lock alone without blocking, and waits for it on timers", async () => {
+    const dir = path.join(createTempCrewDirs().root, "flat");
+    const { runtime, collection } = openFresh(dir);
+    collection.insertSync({ id: "a", vectors: { embedding: [1, 0, 0] }, fields: { type: "summary" } });
+
+    const lockPath = path.join(dir, "flat.lock");
+    fs.writeFileSync(lockPath, String(process.ppid));
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, old, old);
+
+    // Reads answer from the loaded state; writes fail at once instead of spinning.
+    expect(collection.fetchSync("a")).toHaveProperty("a");
+    expect(runtime.ZVecOpen(dir).stats.docCount).toBe(1);
+    expect(() => collection.insertSync({ id: "b", vectors: { embedding: [0, 1, 0] } })).toThrow(/held by another process/);
+    expect(fs.readFileSync(lockPath, "utf-8")).toBe(String(process.ppid));
+
+    let ran = false;
+    const pending = withFlatLock(dir, () => {
+      ran = true;
+      return collection.insertSync({ id: "b", vectors: { embedding: [0, 1, 0] } }).ok;
+    });
+    await new Promise(resolve => setTimeout(resolve, 120));
+    expect(ran).toBe(false);
+
+    fs.rmSync(lockPath);
+    expect(await pending).toBe(true);
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(collection.stats.docCount).toBe(2);
+
+    vi.useFakeTimers({ toFake: ["setTimeout", "Date"] });
+    try {
+      fs.writeFileSync(lockPath, String(process.ppid));
+      const timedOut = expect(withFlatLock(dir, () => true)).rejects.toThrow(/timed out waiting/);
+      await vi.advanceTimersByTimeAsync(61_000);
+      await timedOut;
+    } finally {
+      vi.useRealTimers();
+      fs.rmSync(lockPath, { force: true });
+    }
+  });
+
+  it("backs orchestrator memory end to end", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = await initMemory(cwd, memoryConfig());
+    expect(store).toMatchObject({ degraded: false, backend: "flat" });
+    expect(store.collectionPath).toBe(path.join(cwd, ".pi", "messenger", "orchestrator", "memory-flat"));
+
+    await remember(store, "Cache keys are namespaced by tenant", { agent: "A", type: "decision", source: "test", workstream: "backend" });
+    await remember(store, "Frontend builds with Vite", { agent: "B", type: "summary", source: "test" });
+    closeMemory(store);
+
+    const reopened = await initMemory(cwd, memoryConfig());
+    expect(getMemoryStats(reopened)).toMatchObject({ docCount: 2, backend: "flat" });
+    const recalled = await recall(reopened, "tenant cache keys", { workstreamFilter: "backend" });
+    expect(recalled.results.map(entry => entry.text)).toEqual(["Cache keys are namespaced by tenant"]);
+
+    resetMemory(cwd);
+    expect(fs.existsSync(reopened.collectionPath)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  addLexicalDoc,
+  createLexicalIndex,
+  removeLexicalDoc,
+  searchLexical,
+  tokenizeLexical,
+} from "../../../crew/orchestrator/lexical.js";
+
+describe("crew/orchestrator/lexical", () => {
+  it("keeps identifiers whole and splits them into parts", () => {
+    const terms = tokenizeLexical("Fixed src/cache.ts for task-12 and the ttl_window");
+
+    expect(terms).toEqual(expect.arrayContaining(["src/cache.ts", "src", "cache", "ts", "task-12", "task", "12", "ttl_window"]));
+    expect(terms).not.toContain("the");
+    expect(terms).not.toContain("for");
+  });
+
+  it("ranks exact file and task matches above loose text matches", () => {
+    const index = createLexicalIndex();
+    addLexicalDoc(index, { id: "a", text: "Talked about caching strategies in general" });
+    addLexicalDoc(index, { id: "b", text: "Added TTL support", files: ["src/cache.ts"], taskId: "task-12" });
+    addLexicalDoc(index, { id: "c", text: "Updated README badges" });
+
+    const byFile = searchLexical(index, "src/cache.ts");
+    expect(byFile[0].id).toBe("b");
+
+    const byTask = searchLexical(index, "what happened on task-12");
+    expect(byTask.map(hit => hit.id)).toEqual(["b"]);
+    expect(byTask[0].normalized).toBeGreaterThan(0);
+    expect(byTask[0].normalized).toBeLessThan(1);
+  });
+
+  it("applies the accept predicate and limit", () => {
+    const index = createLexicalIndex();
+    addLexicalDoc(index, { id: "a", text: "redis cache", agent: "alpha", type: "discovery", workstream: "api" });
+    addLexicalDoc(index, { id: "b", text: "redis cache", agent: "beta", type: "decision", workstream: "api" });
+    addLexicalDoc(index, { id: "c", text: "redis cache", agent: "alpha", type: "decision", workstream: "web" });
+
+    const hits = searchLexical(index, "redis", { accept: meta => meta.agent === "alpha" });
+    expect(hits.map(hit => hit.id).sort()).toEqual(["a", "c"]);
+    expect(searchLexical(index, "redis", { limit: 1 })).toHaveLength(1);
+  });
+
+  it("removes and replaces documents", () => {
+    const index = createLexicalIndex();
+    addLexicalDoc(index, { id: "a", text: "postgres migration" });
+    addLexicalDoc(index, { id: "a", text: "sqlite migration" });
+
+    expect(searchLexical(index, "postgres")).toEqual([]);
+    expect(searchLexical(index, "sqlite")[0].id).toBe("a");
+
+    removeLexicalDoc(index, "a");
+    expect(index.docs.size).toBe(0);
+    expect(index.docFreq.size).toBe(0);
+    expect(index.totalLength).toBe(0);
+  });
+});
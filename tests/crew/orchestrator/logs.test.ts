@@ -0,0 +1,156 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { EventEmitter } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  agentLogSink,
+  appendLog,
+  compileGrep,
+  readAgentLog,
+  rotateAgentLogs,
+  tmuxPipeCommand,
+} from "../../../crew/orchestrator/logs.js";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, mockOrchestratorMemory } from "../../helpers/orchestrator.js";
+
+interface FakeProc extends EventEmitter {
+  pid: number;
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+}
+
+describe("crew/orchestrator/logs", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("rotates log files and filters across them by grep and since", () => {
+    const sink = agentLogSink(dirs.cwd, "Builder", { maxBytes: 60, maxFiles: 1 });
+    const t0 = Date.parse("2026-05-01T09:00:00.000Z");
+    for (let minute = 0; minute < 6; minute++) {
+      appendLog(sink, [`\x1b[32mstep ${minute}\x1b[0m ok`, minute === 3 ? "Error: cache miss" : ""], new Date(t0 + minute * 60_000));
+    }
+
+    const files = fs.readdirSync(path.dirname(sink.file)).sort();
+    expect(files).toEqual(["Builder.log", "Builder.log.1"]);
+    expect(fs.readFileSync(sink.file, "utf-8")).toBe("2026-05-01T09:04:00.000Z step 4 ok\n2026-05-01T09:05:00.000Z step 5 ok\n");
+
+    const all = readAgentLog(dirs.cwd, "Builder", { lines: 50 });
+    expect(all.map(entry => entry.text)).toEqual(["step 2 ok", "step 3 ok", "Error: cache miss", "step 4 ok", "step 5 ok"]);
+    expect(readAgentLog(dirs.cwd, "Builder", { lines: 2 }).map(entry => entry.text)).toEqual(["step 4 ok", "step 5 ok"]);
+    expect(readAgentLog(dirs.cwd, "Builder", { lines: 50, grep: compileGrep("^error") })).toEqual([]);
+    expect(readAgentLog(dirs.cwd, "Builder", { lines: 50, grep: compileGrep("Error|miss") })).toEqual([
+      { at: "2026-05-01T09:03:00.000Z", text: "Error: cache miss" },
+    ]);
+    expect(readAgentLog(dirs.cwd, "Builder", { lines: 50, since: t0 + 4 * 60_000 }).map(entry => entry.text)).toEqual(["step 4 ok", "step 5 ok"]);
+    expect(compileGrep("step (").test("step (2)")).toBe(true);
+
+    // Lines piped from a tmux pane carry second-precision stamps; stray lines have none.
+    const tmuxSink = agentLogSink(dirs.cwd, "Pane", { maxBytes: 60, maxFiles: 1 });
+    fs.writeFileSync(tmuxSink.file, "2026-05-01T09:00:01Z \x1b]0;pi\x07ready\r\nunstamped line\n2026-05-01T09:00:02Z done\n");
+    expect(readAgentLog(dirs.cwd, "Pane", { lines: 10 })).toEqual([
+      { at: "2026-05-01T09:00:01Z", text: "ready" },
+      { at: null, text: "unstamped line" },
+      { at: "2026-05-01T09:00:02Z", text: "done" },
+    ]);
+    rotateAgentLogs(dirs.cwd, { maxBytes: 60, maxFiles: 1 });
+    expect(fs.existsSync(`${tmuxSink.file}.1`)).toBe(true);
+    expect(fs.existsSync(tmuxSink.file)).toBe(false);
+
+    // The pipe command stamps every line in one process, quoting awkward paths.
+    const piped = path.join(dirs.cwd, "it's.log");
+    execFileSync("sh", ["-c", tmuxPipeCommand(piped)], { input: "ready\n$HOME `x`\n" });
+    const stamped = fs.readFileSync(piped, "utf-8").trimEnd().split("\n");
+    expect(stamped.map(line => line.replace(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z /, ""))).toEqual(["ready", "$HOME `x`"]);
+  });
+
+  it("persists headless output for post-mortems and follows new lines", async () => {
+    const messengerDirs = createDirs(dirs.cwd);
+    vi.stubEnv("PI_MESSENGER_DIR", messengerDirs.base);
+    const ctx = createMockContext(dirs.cwd);
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: { autoKillOnDone: false, spawnTimeoutMs: 1200, spawnTimeoutMaxMs: 10000 },
+    }));
+
+    mockOrchestratorMemory();
+
+    const workerPid = 50001;
+    const alivePids = new Set([workerPid]);
+    let worker: FakeProc | null = null;
+    vi.doMock("node:child_process", () => ({
+      spawn: vi.fn((_command: string, _args: string[], options?: { env?: Record<string, string> }) => {
+        const proc = new EventEmitter() as FakeProc;
+        proc.stdout = new EventEmitter();
+        proc.stderr = new EventEmitter();
+        proc.pid = workerPid;
+        worker = proc;
+        const name = options?.env?.PI_AGENT_NAME ?? "worker";
+        setTimeout(() => {
+          fs.writeFileSync(path.join(messengerDirs.registry, `${name}.json`), JSON.stringify({
+            name,
+            pid: workerPid,
+            sessionId: "session-logs",
+            cwd: dirs.cwd,
+            activity: { lastActivityAt: new Date().toISOString() },
+          }));
+        }, 20);
+        return proc;
+      }),
+      execFileSync: vi.fn(() => {
+        throw new Error("tmux unavailable");
+      }),
+    }));
+    vi.spyOn(process, "kill").mockImplementation(((pid: number) => {
+      if (!alivePids.has(Number(pid))) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      return true;
+    }) as typeof process.kill);
+
+    const orchestrator = await import("../../../crew/handlers/orchestrator.js");
+    const registry = await import("../../../crew/orchestrator/registry.js");
+
+    await orchestrator.executeSpawn({ name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    worker!.stdout.emit("data", "installing deps\n");
+    worker!.stderr.emit("data", "Error: ECONNRESET\n");
+
+    const followed = orchestrator.execute("logs", { name: "Builder", follow: true, timeoutMs: 3000 }, createState("Boss"), messengerDirs, ctx);
+    setTimeout(() => worker!.stdout.emit("data", "retrying\n"), 400);
+    const follow = await followed;
+    expect(follow.content[0].text).toBe("retrying");
+    expect(follow.details).toMatchObject({ follow: true, count: 1 });
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const startedAt = Date.now();
+    const stopped = await orchestrator.execute("logs", { name: "Builder", follow: true, timeoutMs: 5000 }, createState("Boss"), messengerDirs, ctx, controller.signal);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(stopped.content[0].text).toBe("(Stopped following Builder)");
+    expect(stopped.details).toMatchObject({ follow: true, count: 0, aborted: true });
+
+    // The worker dies; its registry entry is gone but the log is not.
+    alivePids.delete(workerPid);
+    worker!.emit("close", 1);
+    expect(registry.getSpawned("Builder", dirs.cwd)).toBeNull();
+
+    const tail = await orchestrator.execute("logs", { name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    expect(tail.content[0].text).toBe("installing deps\nError: ECONNRESET\nretrying");
+    expect(tail.details).toMatchObject({ persisted: true, backend: null, count: 3 });
+
+    const errors = await orchestrator.execute("logs", { name: "Builder", grep: "^Error", since: "1h" }, createState("Boss"), messengerDirs, ctx);
+    expect(errors.content[0].text).toBe("Error: ECONNRESET");
+
+    const invalid = await orchestrator.execute("logs", { name: "Builder", since: "whenever" }, createState("Boss"), messengerDirs, ctx);
+    expect(invalid.details).toMatchObject({ error: "invalid_since" });
+    const missing = await orchestrator.execute("logs", { name: "Nobody" }, createState("Boss"), messengerDirs, ctx);
+    expect(missing.details).toMatchObject({ error: "not_found" });
+  });
+});
@@ -0,0 +1,222 @@
+import * as path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, mockOrchestratorMemory } from "../../helpers/orchestrator.js";
+import * as crewStore from "../../../crew/store.js";
+
+interface StoredMemory {
+  id: string;
+  text: string;
+  agent: string;
+  type: string;
+  source: string;
+  taskId?: string;
+  workstream?: string;
+  files?: string[];
+  provenance?: { commits?: string[]; crewTaskId?: string };
+  scope?: string;
+  contentHash: string;
+}
+
+async function loadHandler(
+  cwd: string,
+  memory: StoredMemory[],
+  recallCalls: unknown[],
+  openGlobal?: () => Promise<unknown>,
+) {
+  const memoryStore = {
+    enabled: true,
+    degraded: false,
+    projectDir: cwd,
+    collectionPath: path.join(cwd, ".pi", "messenger", "orchestrator", "memory"),
+    config: {},
+    collection: null,
+    consecutiveEmbeddingFailures: 0,
+    breakerOpenUntil: 0,
+  };
+  const globalStore = { ...memoryStore, projectDir: path.join(cwd, "global") };
+
+  mockOrchestratorMemory({
+    getActiveMemoryStore: () => memoryStore,
+    initMemory: async () => memoryStore,
+    initGlobalMemory: openGlobal ?? (async () => globalStore),
+    remember: async (store: unknown, text: string, metadata: Omit<StoredMemory, "id" | "text" | "contentHash">) => {
+      const contentHash = `hash-${text.length}`;
+      if (memory.some(entry => entry.contentHash === contentHash)) {
+        return { ok: true, duplicate: true };
+      }
+      const id = `m-${memory.length + 1}`;
+      memory.push({ id, text, contentHash, ...metadata, ...(store === globalStore ? { scope: "global" } : {}) });
+      return { ok: true, id };
+    },
+    recall: async (_store: unknown, query: string, options?: Record<string, unknown>) => {
+      recallCalls.push({ query, ...options });
+      return {
+        results: memory.map(entry => ({
+          ...entry,
+          timestamp: new Date().toISOString(),
+          createdAtMs: Date.now(),
+          similarity: 0.8,
+          relevance: 0.9,
+        })),
+      };
+    },
+    forgetMemory: (_store: unknown, target: { id?: string; contentHash?: string }) => {
+      const before = memory.length;
+      for (let i = memory.length - 1; i >= 0; i--) {
+        if (memory[i].id === target.id || memory[i].contentHash === target.contentHash) {
+          memory.splice(i, 1);
+        }
+      }
+      return before - memory.length;
+    },
+  });
+
+  return import("../../../crew/handlers/orchestrator.js");
+}
+
+describe("crew/orchestrator memory actions", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  it("adds, searches and forgets memories", async () => {
+    const memory: StoredMemory[] = [];
+    const recallCalls: unknown[] = [];
+    const handler = await loadHandler(dirs.cwd, memory, recallCalls);
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    const state = createState("Boss");
+
+    const added = await handler.execute("memory.add", {
+      content: "Cache keys are namespaced by tenant",
+      memoryType: "decision",
+      workstream: "backend",
+      taskId: "task-3",
+      paths: ["src/cache.ts"],
+    }, state, messengerDirs, ctx);
+
+    expect(added.details).toMatchObject({ mode: "agents.memory.add", stored: true, id: "m-1", type: "decision" });
+    expect(memory[0]).toMatchObject({
+      agent: "Boss",
+      type: "decision",
+      source: "agents.memory.add",
+      taskId: "task-3",
+      workstream: "backend",
+      files: ["src/cache.ts"],
+    });
+
+    const duplicate = await handler.execute("memory.add", {
+      content: "Cache keys are namespaced by tenant",
+    }, state, messengerDirs, ctx);
+    expect(duplicate.details).toMatchObject({ stored: true, duplicate: true });
+
+    const searched = await handler.execute("memory.search", {
+      query: "tenant cache keys",
+      name: "Boss",
+      memoryType: ["decision", "discovery"],
+      workstream: "backend",
+      limit: 5,
+    }, state, messengerDirs, ctx);
+
+    expect(searched.details).toMatchObject({ mode: "agents.memory.search", count: 1 });
+    expect(searched.content[0].text).toContain("m-1 (decision, Boss");
+    expect(recallCalls[0]).toMatchObject({
+      query: "tenant cache keys",
+      topk: 5,
+      agentFilter: "Boss",
+      typeFilter: ["decision", "discovery"],
+      workstreamFilter: "backend",
+      globalWeight: 0.8,
+    });
+
+    const forgotten = await handler.execute("memory.forget", { id: "m-1" }, state, messengerDirs, ctx);
+    expect(forgotten.details).toMatchObject({ mode: "agents.memory.forget", removed: 1 });
+    expect(memory).toHaveLength(0);
+  });
+
+  it("records crew task and commit provenance on add", async () => {
+    const memory: StoredMemory[] = [];
+    const handler = await loadHandler(dirs.cwd, memory, []);
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    const task = crewStore.createTask(dirs.cwd, "Cache layer");
+    crewStore.updateTask(dirs.cwd, task.id, { evidence: { commits: ["abc1234"] } });
+
+    await handler.execute("memory.add", {
+      content: "TTL set to five minutes",
+      id: task.id,
+      evidence: { commits: ["def5678", "abc1234"] },
+    }, createState("Boss"), messengerDirs, ctx);
+
+    expect(memory[0].provenance).toEqual({ crewTaskId: task.id, commits: ["def5678", "abc1234"] });
+
+    await handler.execute("memory.add", { content: "No provenance here" }, createState("Boss"), messengerDirs, ctx);
+    expect(memory[1].provenance).toBeUndefined();
+  });
+
+  it("routes scope global to the user-level store", async () => {
+    const memory: StoredMemory[] = [];
+    const handler = await loadHandler(dirs.cwd, memory, []);
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+
+    const added = await handler.execute("memory.add", {
+      content: "Prefer pnpm over npm",
+      scope: "global",
+    }, createState("Boss"), messengerDirs, ctx);
+
+    expect(added.details).toMatchObject({ mode: "agents.memory.add", stored: true, scope: "global" });
+    expect(memory[0].scope).toBe("global");
+
+    const forgotten = await handler.execute("memory.forget", { id: "m-1", scope: "global" }, createState("Boss"), messengerDirs, ctx);
+    expect(forgotten.details).toMatchObject({ removed: 1, scope: "global" });
+  });
+
+  it("does not retry a global store that failed to open", async () => {
+    const openGlobal = vi.fn(async () => {
+      throw new Error("embedding dimension mismatch: stored 768, configured 256");
+    });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const handler = await loadHandler(dirs.cwd, [], [], openGlobal);
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+
+    for (let i = 0; i < 3; i++) {
+      const added = await handler.execute("memory.add", { content: "Prefer pnpm", scope: "global" }, createState("Boss"), messengerDirs, ctx);
+      expect(added.details).toMatchObject({ mode: "agents.memory.add", available: false });
+    }
+    expect(openGlobal).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("validates memory action parameters", async () => {
+    const handler = await loadHandler(dirs.cwd, [], []);
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    const state = createState("Boss");
+
+    const noQuery = await handler.execute("memory.search", {}, state, messengerDirs, ctx);
+    expect(noQuery.details).toMatchObject({ error: "missing_query" });
+
+    const badFilter = await handler.execute("memory.search", { query: "x", memoryType: "bogus" }, state, messengerDirs, ctx);
+    expect(badFilter.details).toMatchObject({ error: "invalid_memory_type" });
+
+    const noContent = await handler.execute("memory.add", { memoryType: "decision" }, state, messengerDirs, ctx);
+    expect(noContent.details).toMatchObject({ error: "missing_content" });
+
+    const summaryType = await handler.execute("memory.add", { content: "x", memoryType: "summary" }, state, messengerDirs, ctx);
+    expect(summaryType.details).toMatchObject({ error: "invalid_memory_type" });
+
+    const noTarget = await handler.execute("memory.forget", {}, state, messengerDirs, ctx);
+    expect(noTarget.details).toMatchObject({ error: "missing_target" });
+
+    const badScope = await handler.execute("memory.add", { content: "x", scope: "team" as never }, state, messengerDirs, ctx);
+    expect(badScope.details).toMatchObject({ error: "invalid_scope" });
+  });
+});
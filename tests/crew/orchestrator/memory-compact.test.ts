@@ -0,0 +1,114 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { compactMemory, recall, remember } from "../../../crew/orchestrator/memory.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createFakeCollection, createFakeMemoryStore } from "../../helpers/fake-zvec.js";
+
+type FakeCollection = ReturnType<typeof createFakeCollection>;
+
+describe("crew/orchestrator/memory compaction", () => {
+  it("merges near-duplicates per workstream with provenance", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd, { dimensions: 256 });
+
+    await remember(store, "Implemented Redis cache invalidation for the user service.", {
+      agent: "Builder", type: "summary", source: "agents.done", workstream: "backend", files: ["src/cache.ts"],
+    });
+    await remember(store, "Implemented Redis cache invalidation for the user service. Added TTL of five minutes.", {
+      agent: "Builder", type: "message", source: "agents.done", workstream: "backend", files: ["src/ttl.ts"],
+    });
+    await remember(store, "Implemented Redis cache invalidation for the user service.\nTTL stays at five minutes.", {
+      agent: "Builder", type: "summary", source: "agents.done", workstream: "web",
+    });
+    await remember(store, "Updated README badges and license year", {
+      agent: "Docs", type: "summary", source: "agents.done", workstream: "backend",
+    });
+
+    const collection = store.collection as FakeCollection;
+    const originalIds = Array.from(collection.docs.keys());
+
+    const preview = await compactMemory(store, { similarity: 0.6, dryRun: true });
+    expect(preview.dryRun).toBe(true);
+    expect(preview.clusters).toHaveLength(1);
+    expect(preview.clusters[0]).toMatchObject({ workstream: "backend", type: "summary" });
+    expect(collection.docs.size).toBe(4);
+
+    const compacted = await compactMemory(store, { similarity: 0.6 });
+    expect(compacted).toMatchObject({ scanned: 4, created: 1, removed: 2, failed: 0 });
+    expect(collection.docs.size).toBe(3);
+
+    const merged = Array.from(collection.docs.values()).find(doc => doc.fields.source === "agents.memory.compact");
+    expect(merged?.fields.text).toBe("Implemented Redis cache invalidation for the user service. Added TTL of five minutes.");
+    expect(merged?.fields.workstream).toBe("backend");
+    expect(merged?.fields.agent).toBe("Builder");
+    expect(JSON.parse(String(merged?.fields.files)).sort()).toEqual(["src/cache.ts", "src/ttl.ts"]);
+    expect(JSON.parse(String(merged?.fields.provenance)).sourceIds.sort()).toEqual(originalIds.slice(0, 2).sort());
+
+    const recalled = await recall(store, "redis cache invalidation", { workstreamFilter: "backend", minSimilarity: 0 });
+    expect(recalled.results[0].provenance?.sourceIds).toHaveLength(2);
+  });
+
+  it("folds a cluster into an existing entry with the same text without counting it as created", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd, { dimensions: 256 });
+
+    await remember(store, "Implemented Redis cache invalidation for the user service. Added TTL of five minutes.", {
+      agent: "Boss", type: "decision", source: "test", workstream: "backend",
+    });
+    await remember(store, "Implemented Redis cache invalidation for the user service.", {
+      agent: "Builder", type: "summary", source: "agents.done", workstream: "backend",
+    });
+    await remember(store, "Implemented Redis cache invalidation for the user service.\nAdded TTL of five minutes.", {
+      agent: "Builder", type: "summary", source: "agents.done", workstream: "backend",
+    });
+
+    const compacted = await compactMemory(store, { similarity: 0.6 });
+    expect(compacted).toMatchObject({ scanned: 2, created: 0, removed: 2, failed: 0 });
+    const docs = Array.from((store.collection as FakeCollection).docs.values());
+    expect(docs.map(doc => doc.fields.type)).toEqual(["decision"]);
+  });
+
+  it("leaves decisions alone unless requested and reports unavailable stores", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd, { dimensions: 256 });
+
+    await remember(store, "Use Postgres for billing data.", { agent: "A", type: "decision", source: "test" });
+    await remember(store, "Use Postgres for billing data. Keep it in its own schema.", { agent: "B", type: "decision", source: "test" });
+
+    const skipped = await compactMemory(store, { similarity: 0.6 });
+    expect(skipped.scanned).toBe(0);
+
+    const merged = await compactMemory(store, { similarity: 0.6, types: ["decision"] });
+    expect(merged.clusters[0].type).toBe("decision");
+    const doc = Array.from((store.collection as FakeCollection).docs.values())[0];
+    expect(doc.fields.agent).toBe("consolidated");
+
+    store.degraded = true;
+    store.reason = "zvec_unavailable";
+    const unavailable = await compactMemory(store);
+    expect(unavailable.error).toBe("zvec_unavailable");
+  });
+
+  it("stops with memory_locked instead of rejecting when another session holds the lock", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd, { dimensions: 256 });
+    await remember(store, "Implemented Redis cache invalidation for the user service.", {
+      agent: "Builder", type: "summary", source: "agents.done", workstream: "backend",
+    });
+    await remember(store, "Implemented Redis cache invalidation for the user service. Added TTL of five minutes.", {
+      agent: "Builder", type: "summary", source: "agents.done", workstream: "backend",
+    });
+
+    fs.writeFileSync(path.join(cwd, ".pi", "messenger", "orchestrator", "memory.lock"), String(process.ppid));
+    vi.useFakeTimers({ toFake: ["setTimeout", "Date"] });
+    try {
+      const pending = compactMemory(store, { similarity: 0.6 });
+      await vi.advanceTimersByTimeAsync(61_000);
+      expect(await pending).toMatchObject({ removed: 0, created: 0, failed: 1, error: expect.stringMatching(/^memory_locked:/) });
+    } finally {
+      vi.useRealTimers();
+    }
+    expect((store.collection as FakeCollection).docs.size).toBe(2);
+  });
+});
@@ -0,0 +1,133 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  closeAllMemory,
+  getActiveGlobalMemoryStore,
+  getActiveMemoryStore,
+  globalMemoryRoot,
+  initGlobalMemory,
+  initMemory,
+  recall,
+  remember,
+} from "../../../crew/orchestrator/memory.js";
+import type { MemoryConfig } from "../../../crew/orchestrator/types.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createFakeMemoryStore } from "../../helpers/fake-zvec.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+
+function flatConfig(): MemoryConfig {
+  return {
+    enabled: true,
+    embeddingModel: "hash-ngram",
+    embeddingProvider: "local",
+    dimensions: 32,
+    maxEntries: 1000,
+    autoInjectTopK: 3,
+    minSimilarity: 0,
+    maxInjectionTokens: 2000,
+    embeddingTimeoutMs: 1000,
+    backend: "flat",
+    ttlDays: { message: 7, discovery: 30, summary: 90, decision: 90 },
+  };
+}
+
+describe("crew/orchestrator/memory global namespace", () => {
+  const previous = process.env.PI_MESSENGER_GLOBAL_MEMORY_DIR;
+  let globalRoot: string;
+
+  beforeEach(() => {
+    globalRoot = path.join(createTempCrewDirs().root, "global");
+    process.env.PI_MESSENGER_GLOBAL_MEMORY_DIR = globalRoot;
+  });
+
+  afterEach(() => {
+    if (previous === undefined) delete process.env.PI_MESSENGER_GLOBAL_MEMORY_DIR;
+    else process.env.PI_MESSENGER_GLOBAL_MEMORY_DIR = previous;
+  });
+
+  it("merges weighted global memories into project recall", async () => {
+    const { cwd } = createTempCrewDirs();
+    expect(globalMemoryRoot()).toBe(globalRoot);
+
+    const project = createFakeMemoryStore(cwd, { minSimilarity: 0 });
+    const global = createFakeMemoryStore(globalRoot, { minSimilarity: 0 });
+
+    await remember(project, "Redis cache keys are namespaced by tenant", { agent: "A", type: "decision", source: "test", workstream: "backend" });
+    await remember(global, "Redis cache keys should always carry a version prefix", { agent: "Me", type: "decision", source: "test" });
+    await remember(global, "Redis cache keys are namespaced by tenant", { agent: "Me", type: "decision", source: "test" });
+
+    const merged = await recall(project, "redis cache keys", { topk: 5, workstreamFilter: "backend", globalStore: global, globalWeight: 0.5 });
+    expect(merged.results.map(entry => [entry.text, entry.scope])).toEqual([
+      ["Redis cache keys are namespaced by tenant", "project"],
+      ["Redis cache keys should always carry a version prefix", "global"],
+    ]);
+
+    const full = await recall(project, "redis cache keys", { topk: 5, globalStore: global, globalWeight: 1 });
+    const fullGlobal = full.results.find(entry => entry.scope === "global")!;
+    expect(merged.results[1].relevance).toBeCloseTo(fullGlobal.relevance * 0.5, 5);
+
+    const disabled = await recall(project, "redis cache keys", { topk: 5, globalStore: global, globalWeight: 0 });
+    expect(disabled.results.every(entry => entry.scope === "project")).toBe(true);
+  });
+
+  it("skips the global store when its embedding space differs", async () => {
+    const { cwd } = createTempCrewDirs();
+    const project = createFakeMemoryStore(cwd, { minSimilarity: 0 });
+    const global = createFakeMemoryStore(globalRoot, { minSimilarity: 0, embeddingModel: "other-model" });
+
+    await remember(global, "Prefer pnpm over npm", { agent: "Me", type: "discovery", source: "test" });
+
+    const recalled = await recall(project, "pnpm npm", { globalStore: global, globalWeight: 1 });
+    expect(recalled.results).toEqual([]);
+  });
+
+  it("waits for another session's lock on the global store and takes over dead ones", async () => {
+    const global = createFakeMemoryStore(globalRoot, { minSimilarity: 0 });
+    const lockPath = path.join(globalRoot, "memory.lock");
+    fs.mkdirSync(globalRoot, { recursive: true });
+    fs.writeFileSync(lockPath, String(process.ppid));
+
+    let settled = false;
+    const pending = remember(global, "Prefer pnpm over npm", { agent: "Me", type: "discovery", source: "test" })
+      .finally(() => { settled = true; });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(settled).toBe(false);
+    fs.rmSync(lockPath);
+    expect(await pending).toMatchObject({ ok: true });
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    fs.writeFileSync(lockPath, String(2 ** 22 + 1));
+    expect(await remember(global, "Run tests with vitest", { agent: "Me", type: "discovery", source: "test" })).toMatchObject({ ok: true });
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it("closes the global store along with the project store", async () => {
+    const { cwd } = createTempCrewDirs();
+    const project = await initMemory(cwd, flatConfig());
+    const global = await initGlobalMemory(flatConfig());
+    expect(global).toMatchObject({ degraded: false, projectDir: globalRoot });
+
+    closeAllMemory();
+    expect(getActiveMemoryStore()).toBeNull();
+    expect(getActiveGlobalMemoryStore()).toBeNull();
+    expect(project.collection).toBeNull();
+    expect(global.collection).toBeNull();
+  });
+
+  it("reindexes the global store with scope global", async () => {
+    const { cwd, crewDir } = createTempCrewDirs();
+    const global = await initGlobalMemory(flatConfig());
+    await remember(global, "Prefer pnpm over npm", { agent: "Me", type: "discovery", source: "test" });
+    closeAllMemory();
+
+    fs.writeFileSync(path.join(crewDir, "config.json"), JSON.stringify({ orchestrator: { memory: { ...flatConfig(), dimensions: 64 } } }));
+    const { executeAgentsMemoryReindex } = await import("../../../crew/handlers/orchestrator.js");
+    const reindexed = await executeAgentsMemoryReindex({ scope: "global" }, createMockContext(cwd));
+    expect(reindexed.content[0].text).toMatch(/^Global memory reindexed hash-ngram\/32 → hash-ngram\/64: 1\/1 entries/);
+    expect(reindexed.details).toMatchObject({ scope: "global", reindex: { ok: true, total: 1, reindexed: 1, toDimensions: 64 } });
+    expect(getActiveGlobalMemoryStore()).toMatchObject({ projectDir: globalRoot, degraded: false, config: { dimensions: 64 } });
+    expect(fs.existsSync(path.join(cwd, ".pi", "messenger", "orchestrator", "memory-flat"))).toBe(false);
+    closeAllMemory();
+  });
+});
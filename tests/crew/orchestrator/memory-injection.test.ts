@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { recall, remember } from "../../../crew/orchestrator/memory.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createFakeMemoryStore } from "../../helpers/fake-zvec.js";
+
+describe("crew/orchestrator/memory injection report", () => {
+  it("explains why each recall candidate was included or dropped", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd);
+
+    await remember(store, "Redis cache keys are namespaced by tenant", { agent: "A", type: "decision", source: "test" });
+    await remember(store, `Redis cache keys eviction runs nightly. ${"Details about eviction windows. ".repeat(20)}`, { agent: "B", type: "summary", source: "test" });
+    await remember(store, "Redis cache keys warmup happens at boot", { agent: "C", type: "summary", source: "test" });
+    await remember(store, "Quarterly OKR planning notes", { agent: "D", type: "summary", source: "test" });
+
+    const options = { topk: 3, minSimilarity: 0.6, maxTokens: 40 };
+    const plain = await recall(store, "redis cache keys", options);
+    expect(plain.report).toBeUndefined();
+
+    const recalled = await recall(store, "redis cache keys", { ...options, report: true });
+    expect(recalled.results.map(entry => entry.id)).toEqual(plain.results.map(entry => entry.id));
+
+    const report = recalled.report!;
+    expect(report).toMatchObject({ topk: 3, minSimilarity: 0.6, maxTokens: 40, included: 2 });
+    expect(report.usedTokens).toBe(report.candidates.filter(c => c.included).reduce((sum, c) => sum + c.tokens, 0));
+
+    const byAgent = Object.fromEntries(report.candidates.map(c => [c.agent, c]));
+    expect(byAgent.A).toMatchObject({ included: true, scope: "project", type: "decision" });
+    expect(byAgent.C).toMatchObject({ included: true });
+    expect(byAgent.B).toMatchObject({ included: false, reason: "over_token_budget" });
+    expect(byAgent.B.tokens).toBeGreaterThan(40);
+    expect(byAgent.D).toMatchObject({ included: false, reason: "below_min_similarity" });
+
+    const narrow = await recall(store, "redis cache keys", { ...options, topk: 1, report: true });
+    expect(narrow.report!.candidates.filter(c => c.reason === "beyond_topk").map(c => c.agent).sort()).toEqual(["A", "B"]);
+  });
+});
@@ -0,0 +1,182 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MemoryConfig } from "../../../crew/orchestrator/types.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createFakeZvecRuntime } from "../../helpers/fake-zvec.js";
+
+function memoryConfig(overrides: Partial<MemoryConfig> = {}): MemoryConfig {
+  return {
+    enabled: true,
+    embeddingModel: "hash-ngram",
+    embeddingProvider: "local",
+    dimensions: 32,
+    maxEntries: 1000,
+    autoInjectTopK: 3,
+    minSimilarity: 0,
+    maxInjectionTokens: 2000,
+    embeddingTimeoutMs: 1000,
+    ttlDays: { message: 7, discovery: 30, summary: 90, decision: 90 },
+    ...overrides,
+  };
+}
+
+async function loadMemory() {
+  const runtime = createFakeZvecRuntime();
+  vi.doMock("@zvec/zvec", () => runtime);
+  const memory = await import("../../../crew/orchestrator/memory.js");
+  const embedding = await import("../../../crew/orchestrator/embedding.js");
+  return { memory, embedding, runtime };
+}
+
+describe("crew/orchestrator/memory reindex", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it("re-embeds into the new dimensions and swaps the collection", async () => {
+    const { cwd } = createTempCrewDirs();
+    const { memory } = await loadMemory();
+
+    const store = await memory.initMemory(cwd, memoryConfig());
+    await memory.remember(store, "Cache keys are namespaced by tenant", { agent: "A", type: "decision", source: "test", workstream: "backend" });
+    await memory.remember(store, "Billing uses Postgres", { agent: "B", type: "summary", source: "test" });
+    await memory.remember(store, "Frontend builds with Vite", { agent: "C", type: "discovery", source: "test" });
+    memory.closeMemory(store);
+
+    const nextConfig = memoryConfig({ embeddingModel: "hash-ngram-v2", dimensions: 64 });
+    await expect(memory.initMemory(cwd, nextConfig)).rejects.toThrow(/agents\.memory\.reindex/);
+
+    const progress: Array<[number, number]> = [];
+    const reindexed = await memory.reindexMemory(cwd, nextConfig, {
+      batchSize: 2,
+      onProgress: (done, total) => progress.push([done, total]),
+    });
+
+    expect(reindexed).toMatchObject({
+      ok: true,
+      total: 3,
+      reindexed: 3,
+      failed: 0,
+      batches: 2,
+      fromModel: "hash-ngram",
+      fromDimensions: 32,
+      toModel: "hash-ngram-v2",
+      toDimensions: 64,
+    });
+    expect(progress).toEqual([[2, 3], [3, 3]]);
+    expect(fs.existsSync(reindexed.backupPath!)).toBe(true);
+
+    const reopened = await memory.initMemory(cwd, nextConfig);
+    expect(memory.getMemoryStats(reopened)).toMatchObject({ docCount: 3, dimensions: 64 });
+
+    const recalled = await memory.recall(reopened, "tenant cache keys", { workstreamFilter: "backend" });
+    expect(recalled.results[0]).toMatchObject({ agent: "A", type: "decision", text: "Cache keys are namespaced by tenant" });
+  });
+
+  it("aborts and keeps the old collection when the circuit breaker opens", async () => {
+    const { cwd } = createTempCrewDirs();
+    const { memory, embedding } = await loadMemory();
+
+    const config = memoryConfig();
+    const store = await memory.initMemory(cwd, config);
+    for (const text of ["one fact", "two facts", "three facts", "four facts"]) {
+      await memory.remember(store, text, { agent: "A", type: "summary", source: "test" });
+    }
+    memory.closeMemory(store);
+
+    embedding.registerEmbeddingProvider("always-down", {
+      embed: async () => ({ vector: [], ok: false, error: "provider down" }),
+    });
+
+    const reindexed = await memory.reindexMemory(cwd, memoryConfig({ embeddingProvider: "always-down", dimensions: 64 }));
+    expect(reindexed).toMatchObject({ ok: false, error: "embedding_circuit_breaker_open", reindexed: 0, failed: 3 });
+
+    const reopened = await memory.initMemory(cwd, config);
+    expect(memory.getMemoryStats(reopened).docCount).toBe(4);
+  });
+
+  it("migrates an older collection first and saves entries that fail to re-embed", async () => {
+    const { cwd } = createTempCrewDirs();
+    const { memory, embedding, runtime } = await loadMemory();
+
+    const store = await memory.initMemory(cwd, memoryConfig());
+    for (const text of ["Cache keys are namespaced by tenant", "POISON: breaks the embedder", "Billing uses Postgres"]) {
+      await memory.remember(store, text, { agent: "A", type: "summary", source: "test" });
+    }
+    memory.closeMemory(store);
+
+    // Turn it into a v2 collection: no provenance column until migrated.
+    const metaPath = path.join(store.collectionPath, "orchestrator-meta.json");
+    fs.writeFileSync(metaPath, JSON.stringify({ ...JSON.parse(fs.readFileSync(metaPath, "utf-8")), schemaVersion: 2 }));
+    const collection = runtime.ZVecOpen(store.collectionPath) as ReturnType<typeof runtime.ZVecOpen> & { columns: string[] };
+    const query = collection.querySync.bind(collection);
+    collection.querySync = ((params: { outputFields?: string[] }) => {
+      if (params.outputFields?.includes("provenance") && !collection.columns.includes("provenance")) {
+        throw new Error("unknown field: provenance");
+      }
+      return query(params as never);
+    }) as typeof collection.querySync;
+
+    const local = embedding.getEmbeddingProvider("local")!;
+    embedding.registerEmbeddingProvider("picky", {
+      embed: async (text, request) => text.startsWith("POISON")
+        ? { vector: [], ok: false, error: "rejected" }
+        : local.embed(text, { ...request, provider: "local" }),
+    });
+
+    const reindexed = await memory.reindexMemory(cwd, memoryConfig({ embeddingProvider: "picky", dimensions: 64 }));
+    expect(reindexed).toMatchObject({ ok: true, total: 3, reindexed: 2, failed: 1 });
+    expect(collection.columns).toContain("provenance");
+    const saved = fs.readFileSync(reindexed.failedPath!, "utf-8").trim().split("\n").map(line => JSON.parse(line));
+    expect(saved).toEqual([expect.objectContaining({ id: reindexed.failedIds[0], text: "POISON: breaks the embedder", agent: "A" })]);
+
+    const reopened = await memory.initMemory(cwd, memoryConfig({ dimensions: 64 }));
+    expect(memory.getMemoryStats(reopened).docCount).toBe(2);
+    expect(await memory.importMemory(reopened, reindexed.failedPath!)).toMatchObject({ imported: 1, reembedded: 1 });
+  });
+
+  it("aborts without swapping when the old collection cannot be read", async () => {
+    const { cwd } = createTempCrewDirs();
+    const { memory, runtime } = await loadMemory();
+
+    const store = await memory.initMemory(cwd, memoryConfig());
+    await memory.remember(store, "Cache keys are namespaced by tenant", { agent: "A", type: "decision", source: "test" });
+    memory.closeMemory(store);
+
+    const collection = runtime.ZVecOpen(store.collectionPath);
+    const query = collection.querySync.bind(collection);
+    collection.querySync = (() => {
+      throw new Error("io error");
+    }) as typeof collection.querySync;
+
+    const reindexed = await memory.reindexMemory(cwd, memoryConfig({ dimensions: 64 }));
+    expect(reindexed).toMatchObject({ ok: false, error: "read_failed: io error", reindexed: 0 });
+    expect(reindexed.backupPath).toBeUndefined();
+
+    collection.querySync = query;
+    const reopened = await memory.initMemory(cwd, memoryConfig());
+    expect(memory.getMemoryStats(reopened).docCount).toBe(1);
+    expect((await memory.recall(reopened, "tenant cache keys")).results.map((entry: { text: string }) => entry.text))
+      .toEqual(["Cache keys are namespaced by tenant"]);
+  });
+
+  it("returns memory_locked instead of rejecting when another session holds the lock", async () => {
+    const { cwd } = createTempCrewDirs();
+    const { memory } = await loadMemory();
+
+    const store = await memory.initMemory(cwd, memoryConfig());
+    await memory.remember(store, "Cache keys are namespaced by tenant", { agent: "A", type: "decision", source: "test" });
+    fs.writeFileSync(path.join(cwd, ".pi", "messenger", "orchestrator", "memory.lock"), String(process.ppid));
+
+    vi.useFakeTimers({ toFake: ["setTimeout", "Date"] });
+    try {
+      const pending = memory.reindexMemory(cwd, memoryConfig({ dimensions: 64 }));
+      await vi.advanceTimersByTimeAsync(61_000);
+      expect(await pending).toMatchObject({ ok: false, reindexed: 0, error: expect.stringMatching(/^memory_locked:/) });
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(fs.existsSync(path.join(cwd, ".pi", "messenger", "orchestrator", "memory-backups"))).toBe(false);
+  });
+});
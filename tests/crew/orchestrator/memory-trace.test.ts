@@ -0,0 +1,60 @@
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import { remember, traceMemory } from "../../../crew/orchestrator/memory.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createFakeMemoryStore } from "../../helpers/fake-zvec.js";
+
+describe("crew/orchestrator/memory trace", () => {
+  it("lists memories touching a file or task in chronological order", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd);
+
+    await remember(store, "Added TTL to the cache layer", {
+      agent: "Builder",
+      type: "summary",
+      source: "agents.done",
+      files: [path.join(cwd, "src", "cache.ts")],
+      provenance: { crewTaskId: "task-2", commits: ["abc1234def"] },
+    });
+    await remember(store, "Cache keys are namespaced by tenant", {
+      agent: "Boss",
+      type: "decision",
+      source: "agents.memory.add",
+      files: ["src/cache.ts"],
+    });
+    await remember(store, "Docs refreshed", { agent: "Docs", type: "summary", source: "agents.done", taskId: "task-2" });
+    await remember(store, "Unrelated vite change", { agent: "Web", type: "summary", source: "agents.done", files: ["web/vite.config.ts"] });
+
+    const byFile = traceMemory(store, { file: "./src/cache.ts" });
+    expect(byFile.map(entry => entry.text)).toEqual([
+      "Added TTL to the cache layer",
+      "Cache keys are namespaced by tenant",
+    ]);
+    expect(byFile[0].provenance).toEqual({ crewTaskId: "task-2", commits: ["abc1234def"] });
+
+    const byTask = traceMemory(store, { taskId: "task-2" });
+    expect(byTask.map(entry => entry.text)).toEqual(["Added TTL to the cache layer", "Docs refreshed"]);
+
+    expect(traceMemory(store, {})).toEqual([]);
+  });
+
+  it("matches whole project-relative paths, not shared file names", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd);
+
+    await remember(store, "Rewrote the router entry point", { agent: "A", type: "summary", source: "agents.done", files: ["src/a/index.ts"] });
+    await remember(store, "Re-exported the helpers", { agent: "B", type: "summary", source: "agents.done", files: ["lib/b/index.ts"] });
+    await remember(store, "Split the router", {
+      agent: "C",
+      type: "summary",
+      source: "agents.done",
+      files: [path.join(cwd, ".pi", "messenger", "orchestrator", "worktrees", "C", "src", "a", "index.ts")],
+    });
+
+    const texts = (file: string) => traceMemory(store, { file }).map(entry => entry.text);
+    expect(texts("src/a/index.ts")).toEqual(["Rewrote the router entry point", "Split the router"]);
+    expect(texts(path.join(cwd, "lib", "b", "index.ts"))).toEqual(["Re-exported the helpers"]);
+    expect(texts("index.ts")).toEqual([]);
+    expect(texts("a/index.ts")).toEqual([]);
+  });
+});
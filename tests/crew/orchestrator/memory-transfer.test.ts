@@ -0,0 +1,122 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { exportMemory, importMemory, recall, remember } from "../../../crew/orchestrator/memory.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createFakeCollection, createFakeMemoryStore } from "../../helpers/fake-zvec.js";
+
+function readRecords(filePath: string): Array<Record<string, unknown>> {
+  return fs.readFileSync(filePath, "utf-8").trim().split("\n").map(line => JSON.parse(line));
+}
+
+describe("crew/orchestrator/memory export/import", () => {
+  it("round-trips entries with vectors and skips duplicates", async () => {
+    const { cwd } = createTempCrewDirs();
+    const source = createFakeMemoryStore(cwd);
+
+    await remember(source, "Cache keys are namespaced by tenant", {
+      agent: "Builder",
+      type: "decision",
+      source: "agents.memory.add",
+      taskId: "task-3",
+      workstream: "backend",
+      files: ["src/cache.ts"],
+    });
+    await remember(source, "README badges were refreshed", { agent: "Docs", type: "summary", source: "agents.done" });
+
+    const outPath = path.join(cwd, "export.jsonl");
+    const exported = exportMemory(source, { outPath });
+    expect(exported).toEqual({ outPath, exported: 2, withVectors: 2 });
+
+    const records = readRecords(outPath);
+    expect(records[0]).toMatchObject({
+      text: "Cache keys are namespaced by tenant",
+      type: "decision",
+      agent: "Builder",
+      taskId: "task-3",
+      workstream: "backend",
+      files: ["src/cache.ts"],
+      embeddingProvider: "local",
+      embeddingModel: "hash-ngram",
+      embeddingDimensions: 64,
+    });
+    expect(records[0].vector).toHaveLength(64);
+
+    const target = createFakeMemoryStore(cwd);
+    const imported = await importMemory(target, outPath);
+    expect(imported).toMatchObject({ total: 2, imported: 2, reembedded: 0, skipped: 0, failed: 0 });
+
+    const recalled = await recall(target, "tenant cache keys", { minSimilarity: 0 });
+    expect(recalled.results[0]).toMatchObject({
+      id: records[0].id,
+      agent: "Builder",
+      createdAtMs: records[0].createdAtMs,
+      files: ["src/cache.ts"],
+    });
+
+    const again = await importMemory(target, outPath);
+    expect(again).toMatchObject({ imported: 0, skipped: 2 });
+  });
+
+  it("re-embeds when the provider, model or dimensions differ and reports bad lines", async () => {
+    const { cwd } = createTempCrewDirs();
+    const source = createFakeMemoryStore(cwd);
+    await remember(source, "Use pnpm workspaces for the monorepo", { agent: "Boss", type: "decision", source: "test" });
+
+    const outPath = path.join(cwd, "export.jsonl");
+    exportMemory(source, { outPath });
+    fs.appendFileSync(outPath, "not json\n{\"text\":\"\"}\n");
+
+    const target = createFakeMemoryStore(cwd, { dimensions: 32 });
+    const imported = await importMemory(target, outPath);
+
+    expect(imported).toMatchObject({ total: 3, imported: 1, reembedded: 1, failed: 2 });
+    expect(imported.errors).toEqual(["line 2: invalid_record", "line 3: invalid_record"]);
+
+    const stored = Array.from((target.collection as ReturnType<typeof createFakeCollection>).docs.values());
+    expect(stored[0].vector).toHaveLength(32);
+    expect(stored[0].fields.embeddingDimensions).toBe(32);
+
+    // Same model label and dimensions, but the vector came from another provider.
+    const foreignPath = path.join(cwd, "foreign.jsonl");
+    fs.writeFileSync(foreignPath, JSON.stringify({ ...JSON.parse(fs.readFileSync(outPath, "utf-8").split("\n")[0]), embeddingProvider: "openai" }) + "\n");
+    const sameShape = await importMemory(createFakeMemoryStore(cwd), foreignPath);
+    expect(sameShape).toMatchObject({ imported: 1, reembedded: 1 });
+  });
+
+  it("stops with memory_locked instead of rejecting when another session holds the lock", async () => {
+    const { cwd } = createTempCrewDirs();
+    const source = createFakeMemoryStore(cwd);
+    await remember(source, "Use pnpm workspaces for the monorepo", { agent: "Boss", type: "decision", source: "test" });
+    await remember(source, "Frontend builds with Vite", { agent: "Boss", type: "decision", source: "test" });
+    const outPath = path.join(cwd, "export.jsonl");
+    exportMemory(source, { outPath });
+
+    fs.writeFileSync(path.join(cwd, ".pi", "messenger", "orchestrator", "memory.lock"), String(process.ppid));
+    const target = createFakeMemoryStore(cwd);
+    vi.useFakeTimers({ toFake: ["setTimeout", "Date"] });
+    try {
+      const pending = importMemory(target, outPath);
+      await vi.advanceTimersByTimeAsync(61_000);
+      const imported = await pending;
+      expect(imported).toMatchObject({ total: 1, imported: 0, failed: 1, error: expect.stringMatching(/^memory_locked:/) });
+    } finally {
+      vi.useRealTimers();
+    }
+    expect((target.collection as ReturnType<typeof createFakeCollection>).docs.size).toBe(0);
+  });
+
+  it("filters exports by workstream and can omit vectors", async () => {
+    const { cwd } = createTempCrewDirs();
+    const store = createFakeMemoryStore(cwd);
+    await remember(store, "Backend uses Redis", { agent: "A", type: "discovery", source: "test", workstream: "backend" });
+    await remember(store, "Frontend uses Vite", { agent: "B", type: "discovery", source: "test", workstream: "web" });
+
+    const exported = exportMemory(store, { outPath: path.join(cwd, "web.jsonl"), workstream: "web", includeVectors: false });
+    expect(exported).toMatchObject({ exported: 1, withVectors: 0 });
+
+    const [record] = readRecords(exported.outPath);
+    expect(record.text).toBe("Frontend uses Vite");
+    expect(record.vector).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { EventEmitter } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { listProfiles, resolveProfile } from "../../../crew/orchestrator/profiles.js";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, mockOrchestratorMemory } from "../../helpers/orchestrator.js";
+
+interface FakeProc extends EventEmitter {
+  pid: number;
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+}
+
+function writeProfileFile(cwd: string, file: string, content: string): void {
+  const dir = path.join(cwd, ".pi", "agents");
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, file), content);
+}
+
+describe("crew/orchestrator/profiles", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("merges extends chains across profile files and config", () => {
+    writeProfileFile(dirs.cwd, "base.md", [
+      "---",
+      "name: base",
+      "thinking: high",
+      "tools: read, bash, edit",
+      "env: NODE_ENV=test, LOG=debug",
+      "messageBudget: 40",
+      "---",
+      "Always run the tests.",
+    ].join("\n"));
+    writeProfileFile(dirs.cwd, "backend.md", [
+      "---",
+      "extends: base",
+      "model: anthropic/claude-sonnet-4-6",
+      "memory: {\"autoInjectTopK\": 5}",
+      "---",
+      "Own the API layer.",
+    ].join("\n"));
+
+    const config = {
+      "backend-senior": { extends: "backend", model: "anthropic/claude-opus-4-6", env: { LOG: "info" }, workstream: "backend" },
+      loop: { extends: "loop" },
+      orphan: { extends: "missing" },
+    };
+
+    const resolved = resolveProfile(dirs.cwd, "backend-senior", config);
+    expect(resolved).toMatchObject({
+      ok: true,
+      profile: {
+        name: "backend-senior",
+        chain: ["base", "backend", "backend-senior"],
+        model: "anthropic/claude-opus-4-6",
+        thinking: "high",
+        tools: ["read", "bash", "edit"],
+        env: { NODE_ENV: "test", LOG: "info" },
+        workstream: "backend",
+        messageBudget: 40,
+        memory: { autoInjectTopK: 5 },
+        prompt: "Always run the tests.\n\nOwn the API layer.",
+      },
+    });
+    if (resolved.ok) {
+      expect(resolved.profile.sources).toEqual([
+        path.join(dirs.cwd, ".pi", "agents", "base.md"),
+        path.join(dirs.cwd, ".pi", "agents", "backend.md"),
+        "config",
+      ]);
+    }
+
+    expect(resolveProfile(dirs.cwd, "loop", config)).toMatchObject({ ok: false, error: "profile_cycle" });
+    expect(resolveProfile(dirs.cwd, "orphan", config)).toMatchObject({
+      ok: false,
+      error: "profile_not_found",
+      message: "profile 'orphan' extends unknown profile 'missing'",
+    });
+    expect(listProfiles(dirs.cwd, config).map(entry => [entry.ok ? entry.profile.name : entry.name, entry.ok])).toEqual([
+      ["backend", true],
+      ["backend-senior", true],
+      ["base", true],
+      ["loop", false],
+      ["orphan", false],
+    ]);
+  });
+
+  it("spawns with the resolved profile and lists it via agents.profiles", async () => {
+    const messengerDirs = createDirs(dirs.cwd);
+    vi.stubEnv("PI_MESSENGER_DIR", messengerDirs.base);
+    const ctx = createMockContext(dirs.cwd);
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: {
+        autoKillOnDone: false,
+        spawnTimeoutMs: 1200,
+        spawnTimeoutMaxMs: 10000,
+        profiles: {
+          base: { thinking: "low", tools: ["read", "bash"], prompt: "Be terse.", messageBudget: 12 },
+          docs: { extends: "base", model: "openai/gpt-5-mini", workstream: "docs", env: { DOCS_MODE: "1" } },
+        },
+      },
+    }));
+
+    mockOrchestratorMemory();
+
+    const spawnMock = vi.fn((_command: string, _args: string[], options?: { env?: Record<string, string> }) => {
+      const proc = new EventEmitter() as FakeProc;
+      proc.stdout = new EventEmitter();
+      proc.stderr = new EventEmitter();
+      proc.pid = 47001;
+      const name = options?.env?.PI_AGENT_NAME ?? "worker";
+      setTimeout(() => {
+        fs.writeFileSync(path.join(messengerDirs.registry, `${name}.json`), JSON.stringify({
+          name,
+          pid: proc.pid,
+          sessionId: "session-docs",
+          cwd: dirs.cwd,
+          activity: { lastActivityAt: new Date().toISOString() },
+        }));
+      }, 20);
+      return proc;
+    });
+    vi.doMock("node:child_process", () => ({
+      spawn: spawnMock,
+      execFileSync: vi.fn(() => {
+        throw new Error("tmux unavailable");
+      }),
+    }));
+    vi.spyOn(process, "kill").mockImplementation(((pid: number) => {
+      if (Number(pid) !== 47001) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      return true;
+    }) as typeof process.kill);
+
+    const orchestrator = await import("../../../crew/handlers/orchestrator.js");
+    const registry = await import("../../../crew/orchestrator/registry.js");
+
+    const spawned = await orchestrator.executeSpawn({ name: "Scribe", profile: "docs" }, createState("Boss"), messengerDirs, ctx);
+    expect(spawned.details).toMatchObject({
+      status: "idle",
+      model: "openai/gpt-5-mini",
+      thinking: "low",
+      workstream: "docs",
+      profile: "docs",
+      profileChain: ["base", "docs"],
+    });
+
+    const [, args, options] = spawnMock.mock.calls[0]!;
+    expect(args).toEqual(expect.arrayContaining(["--thinking", "low", "--tools", "read,bash", "--append-system-prompt"]));
+    const promptPath = args[args.indexOf("--append-system-prompt") + 1];
+    expect(fs.readFileSync(promptPath, "utf-8")).toBe("Be terse.");
+    expect(options?.env).toMatchObject({ DOCS_MODE: "1", PI_MESSENGER_MESSAGE_BUDGET: "12", PI_AGENT_NAME: "Scribe" });
+    expect(registry.getSpawned("Scribe", dirs.cwd)).toMatchObject({ profile: "docs", currentWorkstream: "docs" });
+
+    const missing = await orchestrator.executeSpawn({ name: "Nope", profile: "ghost" }, createState("Boss"), messengerDirs, ctx);
+    expect(missing.details).toMatchObject({ error: "profile_not_found", profile: "ghost" });
+
+    const listed = await orchestrator.execute("profiles", {}, createState("Boss"), messengerDirs, ctx);
+    expect((listed.details as { profiles: Array<{ name: string }> }).profiles.map(profile => profile.name)).toEqual(["base", "docs"]);
+    expect(listed.content[0].text).toContain("- docs (base → docs): openai/gpt-5-mini · thinking low · workstream docs");
+
+    const single = await orchestrator.execute("profiles", { profile: "docs" }, createState("Boss"), messengerDirs, ctx);
+    expect(single.details).toMatchObject({ profile: { name: "docs", env: { DOCS_MODE: "1" }, messageBudget: 12 } });
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, inboxMessages, loadOrchestrator, worker } from "../../helpers/orchestrator.js";
+
+describe("crew/orchestrator agent queue", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  it("queues work for a busy agent and dispatches it from the orchestrator once done", async () => {
+    const { handler, registry } = await loadOrchestrator();
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    registry.registerSpawned(worker(), dirs.cwd);
+
+    const busy = await handler.execute("assign", { name: "Builder", task: "Another task" }, createState("Boss"), messengerDirs, ctx);
+    expect(busy.details).toMatchObject({ error: "already_assigned" });
+
+    const low = await handler.execute("queue", { name: "Builder", task: "Write docs" }, createState("Boss"), messengerDirs, ctx);
+    expect(low.details).toMatchObject({ mode: "agents.queue", queued: true, position: 1, dispatched: null });
+
+    const high = await handler.execute("queue", {
+      name: "Builder",
+      task: "Fix prod bug",
+      workstream: "backend",
+      priority: 2,
+    }, createState("Lead"), messengerDirs, ctx);
+    expect(high.details).toMatchObject({ queued: true, position: 1 });
+
+    const listed = await handler.execute("queue", { name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    expect((listed.details as { queue: Array<{ task: string }> }).queue.map(item => item.task)).toEqual(["Fix prod bug", "Write docs"]);
+    expect(listed.content[0].text).toContain("[backend] (priority 2): Fix prod bug");
+
+    // The worker only goes idle; it never sends the next assignment itself.
+    const done = await handler.execute("done", { summary: "Finished current task" }, createState("Builder"), messengerDirs, ctx);
+    expect(done.details).toMatchObject({ mode: "agents.done", autoKill: false, queued: 2 });
+    expect(registry.getSpawned("Builder", dirs.cwd)?.status).toBe("idle");
+    expect(inboxMessages(messengerDirs, "Builder").some(msg => msg.text.includes("Fix prod bug"))).toBe(false);
+
+    expect(await handler.dispatchQueuedWork(createState("Boss"), messengerDirs, ctx)).toEqual([{ name: "Builder", task: "Fix prod bug" }]);
+    expect(await handler.dispatchQueuedWork(createState("Boss"), messengerDirs, ctx)).toEqual([]);
+
+    expect(registry.getSpawned("Builder", dirs.cwd)).toMatchObject({
+      status: "assigned",
+      assignedTask: "Fix prod bug",
+      currentWorkstream: "backend",
+    });
+    const assignment = inboxMessages(messengerDirs, "Builder").at(-1)!;
+    expect(assignment.from).toBe("Boss");
+    expect(assignment.text).toContain("Queued for you by Lead.");
+    expect(assignment.text).toContain("## Your Task\nFix prod bug");
+    expect(registry.getQueue("Builder", dirs.cwd).map(item => item.task)).toEqual(["Write docs"]);
+  });
+
+  it("assigns immediately when the agent is idle and removes queued items on dequeue", async () => {
+    const { handler, registry } = await loadOrchestrator();
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    registry.registerSpawned(worker({ status: "idle", assignedTask: null }), dirs.cwd);
+
+    const immediate = await handler.execute("queue", { name: "Builder", task: "Start now" }, createState("Boss"), messengerDirs, ctx);
+    expect(immediate.details).toMatchObject({ queued: false, position: 0, dispatched: { task: "Start now" } });
+    expect(registry.getSpawned("Builder", dirs.cwd)?.status).toBe("assigned");
+
+    const later = await handler.execute("queue", { name: "Builder", task: "Later" }, createState("Boss"), messengerDirs, ctx);
+    const id = (later.details as { id: string }).id;
+
+    const removed = await handler.execute("dequeue", { name: "Builder", id }, createState("Boss"), messengerDirs, ctx);
+    expect(removed.details).toMatchObject({ mode: "agents.dequeue", removed: { id, task: "Later" }, queue: [] });
+
+    const empty = await handler.execute("dequeue", { name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    expect(empty.details).toMatchObject({ error: "not_queued" });
+
+    const missing = await handler.execute("queue", { name: "Nobody", task: "x" }, createState("Boss"), messengerDirs, ctx);
+    expect(missing.details).toMatchObject({ error: "not_found" });
+  });
+});
@@ -1,7 +1,7 @@
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
   registerSpawned,
   getSpawned,
@@ -9,6 +9,11 @@ import {
   transitionState,
   reapOrphans,
   isOrchestrator,
+  getQueue,
+  enqueueAssignment,
+  dequeueAssignment,
+  clearQueue,
+  getCrashedAssignments,
 } from "../../../crew/orchestrator/registry.js";
 import type { SpawnedAgent } from "../../../crew/orchestrator/types.js";
 
@@ -99,4 +104,81 @@ describe("crew/orchestrator/registry", () => {
     expect(reaped).toEqual([]);
     expect(fs.existsSync(filePath)).toBe(true);
   });
+
+  it("orders queued assignments by priority then FIFO and drops them on reap", async () => {
+    registerSpawned(sample({ name: "Queued", pid: 999999, status: "assigned" }), cwd);
+
+    const base = { workstream: null, enqueuedBy: "Orchestrator" };
+    await enqueueAssignment("Queued", { ...base, task: "first", priority: 0, enqueuedAt: 1 }, cwd);
+    await enqueueAssignment("Queued", { ...base, task: "second", priority: 0, enqueuedAt: 2 }, cwd);
+    const urgent = await enqueueAssignment("Queued", { ...base, task: "urgent", priority: 5, enqueuedAt: 3 }, cwd);
+
+    expect(urgent.position).toBe(1);
+    expect(getQueue("Queued", cwd).map(item => item.task)).toEqual(["urgent", "first", "second"]);
+    expect(getAllSpawned(cwd).map(agent => agent.name)).toEqual(["Queued"]);
+
+    const second = getQueue("Queued", cwd)[2];
+    expect((await dequeueAssignment("Queued", second.id, cwd))?.task).toBe("second");
+    expect((await dequeueAssignment("Queued", undefined, cwd))?.task).toBe("urgent");
+    expect(await dequeueAssignment("Queued", "missing", cwd)).toBeNull();
+
+    expect(reapOrphans(cwd)).toEqual(["Queued"]);
+    expect(getQueue("Queued", cwd)).toEqual([]);
+  });
+
+  it("keeps the assignment of a reaped agent whose restart policy allows a respawn", async () => {
+    const policy = { maxRestarts: 2, backoffMs: 1000 };
+    registerSpawned(sample({ name: "Crashy", pid: 999999, status: "assigned", assignedTask: "Port parser", restartPolicy: policy }), cwd);
+    registerSpawned(sample({ name: "Spent", pid: 999998, status: "assigned", assignedTask: "x", restartPolicy: policy, restarts: 2 }), cwd);
+    registerSpawned(sample({ name: "Plain", pid: 999997, status: "assigned", assignedTask: "y" }), cwd);
+    await enqueueAssignment("Crashy", { task: "next", workstream: null, priority: 0, enqueuedBy: "Orchestrator" }, cwd);
+
+    expect(reapOrphans(cwd).sort()).toEqual(["Crashy", "Plain", "Spent"]);
+    const crashes = getCrashedAssignments(cwd);
+    expect(crashes).toHaveLength(1);
+    expect(crashes[0]).toMatchObject({
+      reason: "pid_exited",
+      agent: { name: "Crashy", assignedTask: "Port parser", restartPolicy: policy },
+      queue: [{ task: "next" }],
+      logs: [],
+    });
+    expect(getQueue("Crashy", cwd)).toEqual([]);
+  });
+
+  it("waits for another session's queue lock and edits what it left behind", async () => {
+    const base = { workstream: null, enqueuedBy: "Orchestrator" };
+    await enqueueAssignment("Shared", { ...base, task: "first", priority: 0 }, cwd);
+
+    const lockPath = path.join(cwd, ".pi", "messenger", "orchestrator", "agents", "Shared.queue.lock");
+    fs.writeFileSync(lockPath, String(process.ppid));
+    const pending = enqueueAssignment("Shared", { ...base, task: "second", priority: 0 }, cwd);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(getQueue("Shared", cwd).map(item => item.task)).toEqual(["first"]);
+
+    // The holder's own edit lands first; the waiting one re-reads the file.
+    fs.writeFileSync(path.join(cwd, ".pi", "messenger", "orchestrator", "agents", "Shared.queue.json"), "[]");
+    fs.rmSync(lockPath);
+    expect((await pending).position).toBe(1);
+    expect(getQueue("Shared", cwd).map(item => item.task)).toEqual(["second"]);
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    fs.writeFileSync(lockPath, String(process.ppid));
+    const cleared = clearQueue("Shared", cwd);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(getQueue("Shared", cwd)).toHaveLength(1);
+    fs.rmSync(lockPath);
+    await cleared;
+    expect(getQueue("Shared", cwd)).toEqual([]);
+
+    vi.useFakeTimers({ toFake: ["setTimeout", "Date"] });
+    try {
+      fs.writeFileSync(lockPath, String(process.ppid));
+      const timedOut = expect(dequeueAssignment("Shared", undefined, cwd)).rejects.toThrow(/^queue_locked:/);
+      await vi.advanceTimersByTimeAsync(6_000);
+      await timedOut;
+    } finally {
+      vi.useRealTimers();
+      fs.rmSync(lockPath, { force: true });
+    }
+  });
 });
@@ -0,0 +1,152 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { EventEmitter } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Dirs } from "../../../lib.js";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, mockOrchestratorMemory } from "../../helpers/orchestrator.js";
+
+interface FakeProc extends EventEmitter {
+  pid: number;
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+}
+
+function latestInboxMessageText(dirs: Dirs, name: string): string {
+  const inboxDir = path.join(dirs.inbox, name);
+  const files = fs.existsSync(inboxDir)
+    ? fs.readdirSync(inboxDir).filter(f => f.endsWith(".json")).sort()
+    : [];
+  if (files.length === 0) return "";
+  const payload = JSON.parse(fs.readFileSync(path.join(inboxDir, files[files.length - 1]), "utf-8")) as { text?: string };
+  return payload.text ?? "";
+}
+
+describe("crew/orchestrator crash restart", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("respawns a crashed worker with its assignment, a recap and its queue", async () => {
+    const messengerDirs = createDirs(dirs.cwd);
+    vi.stubEnv("PI_MESSENGER_DIR", messengerDirs.base);
+    const ctx = createMockContext(dirs.cwd);
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: { autoKillOnDone: false, spawnTimeoutMs: 1200, spawnTimeoutMaxMs: 10000, restartBackoffMs: 0 },
+    }));
+
+    mockOrchestratorMemory();
+
+    let pidCounter = 46000;
+    const alivePids = new Set<number>();
+    const procs = new Map<string, FakeProc>();
+    const spawnMock = vi.fn((_command: string, args: string[], options?: { env?: Record<string, string> }) => {
+      const proc = new EventEmitter() as FakeProc;
+      proc.stdout = new EventEmitter();
+      proc.stderr = new EventEmitter();
+      proc.pid = ++pidCounter;
+      alivePids.add(proc.pid);
+      const name = options?.env?.PI_AGENT_NAME ?? `worker-${proc.pid}`;
+      procs.set(name, proc);
+      setTimeout(() => {
+        fs.writeFileSync(path.join(messengerDirs.registry, `${name}.json`), JSON.stringify({
+          name,
+          pid: proc.pid,
+          sessionId: `session-${proc.pid}`,
+          cwd: dirs.cwd,
+          model: args.join(" "),
+          session: { toolCalls: 7, tokens: 1200, filesModified: ["src/migrate.ts"] },
+          activity: { lastActivityAt: new Date().toISOString(), currentActivity: "editing src/migrate.ts" },
+        }));
+      }, 20);
+      return proc;
+    });
+
+    vi.doMock("node:child_process", () => ({
+      spawn: spawnMock,
+      execFileSync: vi.fn(() => {
+        throw new Error("tmux unavailable");
+      }),
+    }));
+
+    vi.spyOn(process, "kill").mockImplementation(((pid: number) => {
+      if (!alivePids.has(Number(pid))) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      return true;
+    }) as typeof process.kill);
+
+    const crash = (name: string, output: string) => {
+      const proc = procs.get(name)!;
+      proc.stdout.emit("data", output);
+      alivePids.delete(proc.pid);
+      proc.emit("close", 1);
+    };
+
+    const orchestrator = await import("../../../crew/handlers/orchestrator.js");
+    const registry = await import("../../../crew/orchestrator/registry.js");
+
+    const spawned = await orchestrator.executeSpawn(
+      { name: "Flaky", model: "anthropic/claude-opus-4-6", thinking: "medium", workstream: "db", maxRestarts: 1 },
+      createState("Boss"),
+      messengerDirs,
+      ctx,
+    );
+    expect(spawned.details).toMatchObject({ status: "idle" });
+    expect(registry.getSpawned("Flaky", dirs.cwd)?.restartPolicy).toEqual({ maxRestarts: 1, backoffMs: 0 });
+
+    await orchestrator.execute("assign", { name: "Flaky", task: "Migrate schema", timeoutMs: 60_000 }, createState("Lead"), messengerDirs, ctx);
+    await registry.enqueueAssignment("Flaky", { task: "Backfill", workstream: "db", priority: 0, enqueuedBy: "Lead" }, dirs.cwd);
+
+    crash("Flaky", "step 3/5: altering users table\nSegmentation fault\n");
+    expect(registry.getSpawned("Flaky", dirs.cwd)).toBeNull();
+    expect(registry.getCrashedAssignments(dirs.cwd)).toMatchObject([{
+      reason: "headless_exit",
+      agent: { name: "Flaky", assignedTask: "Migrate schema" },
+      queue: [{ task: "Backfill" }],
+      logs: ["step 3/5: altering users table", "Segmentation fault"],
+      progress: { toolCalls: 7, filesModified: ["src/migrate.ts"] },
+    }]);
+
+    const resumed = await orchestrator.resumeCrashedAgents(createState("Boss"), messengerDirs, ctx);
+    expect(resumed).toEqual([{ name: "Flaky", attempt: 1, maxRestarts: 1, task: "Migrate schema", respawnedAs: "Flaky" }]);
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+    expect(spawnMock.mock.calls[1]?.[1]).toEqual(expect.arrayContaining(["--thinking", "medium"]));
+
+    expect(registry.getSpawned("Flaky", dirs.cwd)).toMatchObject({
+      status: "assigned",
+      assignedTask: "Migrate schema",
+      currentWorkstream: "db",
+      assignedBy: "Lead",
+      assignmentTimeoutMs: 60_000,
+      restarts: 1,
+    });
+    const recap = latestInboxMessageText(messengerDirs, "Flaky");
+    expect(recap).toContain("## Resumed After Crash");
+    expect(recap).toContain("restart 1 of 1");
+    expect(recap).toContain("files modified: src/migrate.ts");
+    expect(recap).toContain("Segmentation fault");
+    expect(recap).toContain("## Your Task\nMigrate schema");
+    expect(registry.getQueue("Flaky", dirs.cwd).map(item => item.task)).toEqual(["Backfill"]);
+    expect(registry.getCrashedAssignments(dirs.cwd)).toEqual([]);
+
+    crash("Flaky", "boom again\n");
+    expect(registry.getCrashedAssignments(dirs.cwd)).toEqual([]);
+    expect(await orchestrator.resumeCrashedAgents(createState("Boss"), messengerDirs, ctx)).toEqual([]);
+
+    const events = registry.readHistory(dirs.cwd).filter(event => event.event === "reap" || event.event === "restart");
+    expect(events.map(event => [event.event, event.details?.restartPending ?? null])).toEqual([
+      ["reap", true],
+      ["restart", null],
+      ["reap", null],
+    ]);
+    expect(events[1].details).toMatchObject({ attempt: 1, respawnedAs: "Flaky", requeued: 1 });
+  });
+});
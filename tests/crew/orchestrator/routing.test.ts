@@ -0,0 +1,90 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, loadOrchestrator, meshJoin, worker } from "../../helpers/orchestrator.js";
+
+describe("crew/orchestrator assign routing", () => {
+  let dirs: TempCrewDirs;
+
+  let meshRoot: string;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    meshRoot = path.join(dirs.root, "messenger-global");
+    fs.mkdirSync(path.join(meshRoot, "registry"), { recursive: true });
+    vi.stubEnv("PI_MESSENGER_DIR", meshRoot);
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("prefers idle agents with workstream affinity that satisfy the model", async () => {
+    const { handler, registry } = await loadOrchestrator();
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    const now = Date.now();
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Stale", status: "idle", assignedTask: null, lastActivityAt: now - 60_000 })), dirs.cwd);
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Backend", status: "idle", assignedTask: null, lastWorkstream: "backend", lastActivityAt: now })), dirs.cwd);
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Codex", status: "idle", assignedTask: null, model: "openai-codex/gpt-5.3-codex", lastWorkstream: "backend", lastActivityAt: now - 30_000 })), dirs.cwd);
+
+    const affinity = await handler.execute("assign", { task: "Add cache TTL", workstream: "backend" }, createState("Boss"), messengerDirs, ctx);
+    expect(affinity.details).toMatchObject({
+      assigned: true,
+      name: "Codex",
+      routed: { name: "Codex", reason: "workstream_affinity", candidates: 3 },
+    });
+
+    const byModel = await handler.execute("assign", {
+      task: "Refactor auth",
+      workstream: "backend",
+      model: "anthropic/claude-sonnet-4-6",
+    }, createState("Boss"), messengerDirs, ctx);
+    expect(byModel.details).toMatchObject({ name: "Backend", routed: { reason: "workstream_affinity", candidates: 2 } });
+
+    const leastRecent = await handler.execute("assign", { task: "Write docs" }, createState("Boss"), messengerDirs, ctx);
+    expect(leastRecent.details).toMatchObject({ name: "Stale", routed: { reason: "idle" } });
+  });
+
+  it("queues on the least-loaded matching agent when the spawn limit is reached", async () => {
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({ orchestrator: { maxSpawnedAgents: 2 } }));
+    const { handler, registry } = await loadOrchestrator();
+    const messengerDirs = createDirs(dirs.cwd);
+    const ctx = createMockContext(dirs.cwd);
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Busy" })), dirs.cwd);
+    registry.registerSpawned(meshJoin(meshRoot, worker({ name: "Busier" })), dirs.cwd);
+    await registry.enqueueAssignment("Busier", { task: "pending", workstream: null, priority: 0, enqueuedBy: "Boss" }, dirs.cwd);
+
+    const routed = await handler.execute("assign", { task: "Next thing" }, createState("Boss"), messengerDirs, ctx);
+    expect(routed.details).toMatchObject({ mode: "agents.queue", queued: true, routed: { name: "Busy", reason: "queued" } });
+
+    // The queued task keeps its deadline through to dispatch.
+    const deadline = new Date(Date.now() + 3_600_000).toISOString();
+    await registry.enqueueAssignment("Busier", { task: "pending too", workstream: null, priority: 0, enqueuedBy: "Boss" }, dirs.cwd);
+    await handler.execute("assign", { task: "Hotfix", deadline }, createState("Boss"), messengerDirs, ctx);
+    await handler.execute("queue", { name: "Busy", task: "Follow-up", timeoutMs: 600_000 }, createState("Boss"), messengerDirs, ctx);
+    expect(registry.getQueue("Busy", dirs.cwd)).toEqual([
+      expect.objectContaining({ task: "Next thing" }),
+      expect.objectContaining({ task: "Hotfix", deadlineAt: Date.parse(deadline) }),
+      expect.objectContaining({ task: "Follow-up", timeoutMs: 600_000 }),
+    ]);
+    await registry.dequeueAssignment("Busy", undefined, dirs.cwd);
+    registry.registerSpawned({ ...registry.getSpawned("Busy", dirs.cwd)!, status: "idle", assignedTask: null }, dirs.cwd);
+    await handler.dispatchQueuedWork(createState("Boss"), messengerDirs, ctx);
+    expect(registry.getSpawned("Busy", dirs.cwd)).toMatchObject({ assignedTask: "Hotfix", deadlineAt: Date.parse(deadline) });
+
+    registry.registerSpawned({ ...registry.getSpawned("Busy", dirs.cwd)!, status: "idle", assignedTask: null }, dirs.cwd);
+    const before = Date.now();
+    await handler.dispatchQueuedWork(createState("Boss"), messengerDirs, ctx);
+    const followUp = registry.getSpawned("Busy", dirs.cwd)!;
+    expect(followUp).toMatchObject({ assignedTask: "Follow-up", assignmentTimeoutMs: 600_000 });
+    expect(followUp.deadlineAt).toBeGreaterThanOrEqual(before + 600_000);
+
+    const none = await handler.execute("assign", { task: "GPU job", model: "local/llama" }, createState("Boss"), messengerDirs, ctx);
+    expect(none.details).toMatchObject({ error: "no_available_agent", requiredModel: "local/llama" });
+  });
+});
@@ -121,6 +121,8 @@ describe("crew/orchestrator smoke", () => {
     vi.doMock("../../../crew/orchestrator/memory.js", () => ({
       getActiveMemoryStore: () => memoryStore,
       initMemory: async () => memoryStore,
+      getActiveGlobalMemoryStore: () => null,
+      initGlobalMemory: async () => null,
       remember: async (
         _store: unknown,
         text: string,
@@ -139,7 +141,7 @@ describe("crew/orchestrator smoke", () => {
       recall: async (
         _store: unknown,
         _query: string,
-        options?: { topk?: number; workstreamFilter?: string },
+        options?: { topk?: number; workstreamFilter?: string; report?: boolean },
       ) => {
         const filtered = memory
           .filter(entry => !options?.workstreamFilter || entry.workstream === options.workstreamFilter)
@@ -147,6 +149,16 @@ describe("crew/orchestrator smoke", () => {
           .reverse();
 
         return {
+          ...(options?.report ? {
+            report: {
+              topk: options.topk ?? 3,
+              minSimilarity: 0.3,
+              maxTokens: 2000,
+              usedTokens: filtered.length,
+              included: filtered.length,
+              candidates: filtered.map((_entry, idx) => ({ id: `m-${idx}`, included: true, tokens: 1 })),
+            },
+          } : {}),
           results: filtered.map((entry, idx) => ({
             id: `m-${idx}`,
             text: entry.text,
@@ -335,9 +347,20 @@ describe("crew/orchestrator smoke", () => {
       ctx,
     );
 
-    const assign2Details = assign2.details as { memoryContextInjected?: boolean; memoryContextCount?: number };
+    const assign2Details = assign2.details as {
+      memoryContextInjected?: boolean;
+      memoryContextCount?: number;
+      memoryInjection?: { included: number; candidates: unknown[] } | null;
+    };
     expect(assign2Details.memoryContextInjected).toBe(true);
     expect((assign2Details.memoryContextCount ?? 0)).toBeGreaterThan(0);
+    expect(assign2Details.memoryInjection?.included).toBe(assign2Details.memoryContextCount);
+
+    const historyFile = path.join(dirs.cwd, ".pi", "messenger", "orchestrator", "history.jsonl");
+    const assignEvents = fs.readFileSync(historyFile, "utf-8").trim().split("\n")
+      .map(line => JSON.parse(line) as { event: string; details?: { memoryInjection?: unknown } })
+      .filter(event => event.event === "assign");
+    expect(assignEvents.at(-1)?.details?.memoryInjection).toEqual(assign2Details.memoryInjection);
 
     const latestAssignment = latestInboxMessageText(messengerDirs, "SmokeWorker");
     expect(latestAssignment).toContain("Context from prior work");
@@ -0,0 +1,102 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseSince } from "../../../lib.js";
+import { buildTimelineReport, renderTimelineMarkdown } from "../../../crew/orchestrator/timeline.js";
+import type { HistoryEvent } from "../../../crew/orchestrator/types.js";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+
+const T0 = Date.parse("2026-05-01T09:00:00.000Z");
+const MIN = 60_000;
+
+function at(minutes: number): string {
+  return new Date(T0 + minutes * MIN).toISOString();
+}
+
+const events: HistoryEvent[] = [
+  { event: "spawn", agent: "Builder", timestamp: at(1), details: { spawningMs: MIN } },
+  { event: "assign", agent: "Builder", timestamp: at(11), details: { task: "Add cache TTL", workstream: "backend" } },
+  { event: "done", agent: "Builder", timestamp: at(41), details: { summary: "done" } },
+  { event: "assign", agent: "Builder", timestamp: at(51), details: { task: "Migrate schema", workstream: "db" } },
+  { event: "escalate", agent: "Builder", timestamp: at(70), details: { step: "nudge" } },
+  { event: "reap", agent: "Builder", timestamp: at(81), details: { reason: "pid_exited" } },
+  { event: "reap", agent: "Ghost", timestamp: at(5), details: { reason: "spawn_timeout", timeoutMs: 2 * MIN } },
+  { event: "spawn", agent: "Docs", timestamp: at(60), details: {} },
+  { event: "assign", agent: "Docs", timestamp: at(90), details: { task: "Write README" } },
+];
+
+describe("crew/orchestrator/timeline", () => {
+  it("parses ISO and relative since values", () => {
+    expect(parseSince("24h", T0)).toBe(T0 - 24 * 60 * MIN);
+    expect(parseSince("30m", T0)).toBe(T0 - 30 * MIN);
+    expect(parseSince("2026-05-01T00:00:00Z", T0)).toBe(Date.parse("2026-05-01T00:00:00Z"));
+    expect(parseSince("yesterday", T0)).toBeNull();
+  });
+
+  it("reconstructs per-agent state durations, tasks and reaps", () => {
+    const report = buildTimelineReport(events, { until: T0 + 100 * MIN });
+    const [builder, ghost, docs] = report.agents;
+
+    expect(ghost).toMatchObject({ name: "Ghost", spawningMs: 2 * MIN, endReason: "reaped (spawn_timeout)", tasks: [] });
+    expect(builder).toMatchObject({
+      name: "Builder",
+      status: "ended",
+      endReason: "reaped (pid_exited)",
+      spawningMs: MIN,
+      idleMs: 20 * MIN,
+      assignedMs: 60 * MIN,
+      escalations: 1,
+    });
+    expect(builder.tasks.map(task => [task.task, task.durationMs / MIN, task.outcome])).toEqual([
+      ["Add cache TTL", 30, "done"],
+      ["Migrate schema", 30, "reaped"],
+    ]);
+    expect(docs).toMatchObject({ status: "assigned", idleMs: 30 * MIN, assignedMs: 10 * MIN });
+    expect(docs.tasks[0]).toMatchObject({ task: "Write README", endedAt: null, outcome: "open" });
+
+    expect(report.totals).toMatchObject({
+      agents: 3,
+      tasksDone: 1,
+      tasksAbandoned: 1,
+      tasksOpen: 1,
+      idleMs: 50 * MIN,
+      assignedMs: 70 * MIN,
+      reaps: 2,
+      spawnFailures: 1,
+    });
+
+    const markdown = renderTimelineMarkdown(report);
+    expect(markdown).toContain("## Builder (reaped (pid_exited))");
+    expect(markdown).toContain("| Add cache TTL | backend | 2026-05-01T09:11:00.000Z | 30m 0s | done |");
+    expect(markdown).toContain("- Idle: Docs 30m 0s, Builder 20m 0s");
+    expect(markdown).toContain('Builder "Migrate schema" 30m 0s (reaped)');
+  });
+
+  it("clips durations to the since window", () => {
+    const report = buildTimelineReport(events, { since: T0 + 61 * MIN, until: T0 + 100 * MIN });
+    expect(report.agents.map(agent => agent.name)).toEqual(["Builder", "Docs"]);
+    expect(report.agents[0]).toMatchObject({ assignedMs: 20 * MIN, idleMs: 0, escalations: 1 });
+    expect(report.agents[0].tasks.map(task => task.task)).toEqual(["Migrate schema"]);
+  });
+
+  it("serves agents.history from history.jsonl", async () => {
+    const { cwd } = createTempCrewDirs();
+    const historyFile = path.join(cwd, ".pi", "messenger", "orchestrator", "history.jsonl");
+    fs.mkdirSync(path.dirname(historyFile), { recursive: true });
+    fs.writeFileSync(historyFile, `${events.map(event => JSON.stringify(event)).join("\n")}\n{"torn":`);
+
+    const { executeAgentsHistory } = await import("../../../crew/handlers/orchestrator.js");
+    const ctx = createMockContext(cwd);
+
+    const json = await executeAgentsHistory({ format: "json", name: "Docs" }, ctx);
+    const report = (json.details as { report: { agents: Array<{ name: string }> } }).report;
+    expect(report.agents.map(agent => agent.name)).toEqual(["Docs"]);
+    expect(JSON.parse(json.content[0].text)).toEqual(report);
+
+    const markdown = await executeAgentsHistory({}, ctx);
+    expect(markdown.content[0].text).toContain("# Orchestrator timeline (start of history");
+
+    expect((await executeAgentsHistory({ since: "whenever" }, ctx)).details).toMatchObject({ error: "invalid_since" });
+  });
+});
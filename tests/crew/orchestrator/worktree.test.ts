@@ -0,0 +1,179 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { EventEmitter } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../../helpers/temp-dirs.js";
+import { createMockContext } from "../../helpers/mock-context.js";
+import { createDirs, createState, mockOrchestratorMemory } from "../../helpers/orchestrator.js";
+
+interface FakeProc extends EventEmitter {
+  pid: number;
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "pipe"],
+  }).trim();
+}
+
+function commitFile(cwd: string, file: string, content: string, message: string): void {
+  fs.writeFileSync(path.join(cwd, file), content);
+  git(cwd, "add", file);
+  git(cwd, "commit", "-q", "-m", message);
+}
+
+function initRepo(cwd: string): void {
+  git(cwd, "init", "-q", "-b", "main");
+  commitFile(cwd, "app.ts", "export const value = 1;\n", "app");
+}
+
+describe("crew/orchestrator/worktree", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    for (const role of ["AUTHOR", "COMMITTER"]) {
+      vi.stubEnv(`GIT_${role}_NAME`, "Test");
+      vi.stubEnv(`GIT_${role}_EMAIL`, "test@example.com");
+    }
+    dirs = createTempCrewDirs();
+    initRepo(dirs.cwd);
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("merges, rebases and reports conflicts without touching either checkout", async () => {
+    const { createWorktree, mergeWorktree, removeWorktree } = await import("../../../crew/orchestrator/worktree.js");
+
+    const builder = createWorktree(dirs.cwd, "Builder");
+    expect(builder).toMatchObject({ branch: "pi/Builder", baseBranch: "main" });
+    expect(builder.path).toBe(path.join(dirs.cwd, ".pi", "messenger", "orchestrator", "worktrees", "Builder"));
+    expect(createWorktree(dirs.cwd, "Builder")).toEqual(builder);
+    // Nothing in .gitignore: the worktree must still stay out of the main checkout's index.
+    expect(git(dirs.cwd, "status", "--porcelain")).toBe("");
+    git(dirs.cwd, "add", "-A");
+    expect(git(dirs.cwd, "diff", "--cached", "--name-only")).toBe("");
+    expect(fs.readFileSync(path.join(dirs.cwd, ".git", "info", "exclude"), "utf-8").match(/^\/\.pi\/messenger\/orchestrator\/worktrees\/$/gm)).toHaveLength(1);
+
+    commitFile(builder.path, "cache.ts", "export const ttl = 60;\n", "add cache");
+    fs.writeFileSync(path.join(builder.path, "scratch.txt"), "wip");
+    expect(mergeWorktree(dirs.cwd, builder, "merge")).toMatchObject({ ok: false, error: "worktree_dirty" });
+    expect(removeWorktree(dirs.cwd, builder)).toMatchObject({ removed: false, reason: "uncommitted changes" });
+    fs.rmSync(path.join(builder.path, "scratch.txt"));
+
+    const merged = mergeWorktree(dirs.cwd, builder, "merge");
+    expect(merged).toMatchObject({ ok: true, strategy: "merge", into: "main", commits: 1, conflicts: [] });
+    expect(fs.readFileSync(path.join(dirs.cwd, "cache.ts"), "utf-8")).toContain("ttl");
+    expect(removeWorktree(dirs.cwd, builder)).toEqual({ removed: true, branchDeleted: true });
+    expect(fs.existsSync(builder.path)).toBe(false);
+
+    const docs = createWorktree(dirs.cwd, "Docs");
+    commitFile(docs.path, "README.md", "# Docs\n", "docs");
+    commitFile(dirs.cwd, "CHANGELOG.md", "# Changes\n", "changelog on main");
+    const rebased = mergeWorktree(dirs.cwd, docs, "rebase");
+    expect(rebased).toMatchObject({ ok: true, strategy: "rebase", commits: 1 });
+    expect(git(dirs.cwd, "log", "--format=%s", "-3").split("\n")).toEqual(["docs", "changelog on main", "Merge branch 'pi/Builder'"]);
+
+    const clash = createWorktree(dirs.cwd, "Clash");
+    commitFile(clash.path, "app.ts", "export const value = 2;\n", "worker edit");
+    commitFile(dirs.cwd, "app.ts", "export const value = 3;\n", "main edit");
+    const headBefore = git(dirs.cwd, "rev-parse", "HEAD");
+
+    for (const strategy of ["merge", "rebase"] as const) {
+      const outcome = mergeWorktree(dirs.cwd, clash, strategy);
+      expect(outcome).toMatchObject({ ok: false, error: "merge_conflict", conflicts: ["app.ts"] });
+      expect(git(dirs.cwd, "rev-parse", "HEAD")).toBe(headBefore);
+      expect(git(dirs.cwd, "status", "--porcelain")).toBe("");
+      expect(git(clash.path, "status", "--porcelain")).toBe("");
+    }
+  });
+
+  it("spawns into a worktree, merges via agents.merge and cleans up on kill", async () => {
+    const messengerDirs = createDirs(dirs.cwd);
+    vi.stubEnv("PI_MESSENGER_DIR", messengerDirs.base);
+    const ctx = createMockContext(dirs.cwd);
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({
+      orchestrator: { autoKillOnDone: false, gracePeriodMs: 100, spawnTimeoutMs: 1200, spawnTimeoutMaxMs: 10000 },
+    }));
+
+    mockOrchestratorMemory();
+
+    const workerPid = 49001;
+    const alivePids = new Set([workerPid]);
+    const spawnMock = vi.fn((_command: string, _args: string[], options?: { cwd?: string; env?: Record<string, string> }) => {
+      const proc = new EventEmitter() as FakeProc;
+      proc.stdout = new EventEmitter();
+      proc.stderr = new EventEmitter();
+      proc.pid = workerPid;
+      const name = options?.env?.PI_AGENT_NAME ?? "worker";
+      setTimeout(() => {
+        fs.writeFileSync(path.join(messengerDirs.registry, `${name}.json`), JSON.stringify({
+          name,
+          pid: workerPid,
+          sessionId: "session-tree",
+          cwd: options?.cwd,
+          activity: { lastActivityAt: new Date().toISOString() },
+        }));
+      }, 20);
+      return proc;
+    });
+    vi.doMock("node:child_process", async () => {
+      const actual = await vi.importActual<typeof import("node:child_process")>("node:child_process");
+      return {
+        ...actual,
+        spawn: spawnMock,
+        execFileSync: ((command: string, ...rest: unknown[]) => {
+          if (command === "tmux") throw new Error("tmux unavailable");
+          return (actual.execFileSync as (...args: unknown[]) => unknown)(command, ...rest);
+        }) as typeof actual.execFileSync,
+      };
+    });
+    vi.spyOn(process, "kill").mockImplementation(((pid: number, signal?: string | number) => {
+      if (!alivePids.has(Number(pid))) throw Object.assign(new Error("ESRCH"), { code: "ESRCH" });
+      if (signal && signal !== 0) alivePids.delete(Number(pid));
+      return true;
+    }) as typeof process.kill);
+
+    const orchestrator = await import("../../../crew/handlers/orchestrator.js");
+    const registry = await import("../../../crew/orchestrator/registry.js");
+
+    const worktreePath = path.join(dirs.cwd, ".pi", "messenger", "orchestrator", "worktrees", "Builder");
+    const spawned = await orchestrator.executeSpawn({ name: "Builder", worktree: true }, createState("Boss"), messengerDirs, ctx);
+    expect(spawned.details).toMatchObject({ status: "idle", worktree: worktreePath, branch: "pi/Builder" });
+
+    const [, , options] = spawnMock.mock.calls[0]!;
+    expect(options?.cwd).toBe(worktreePath);
+    expect(options?.env).toMatchObject({ PI_ORCHESTRATOR_CWD: dirs.cwd, PI_AGENT_NAME: "Builder" });
+    expect(registry.getSpawned("Builder", dirs.cwd)?.worktree).toMatchObject({ path: worktreePath, branch: "pi/Builder", baseBranch: "main" });
+
+    // The worker runs in its worktree but shares the orchestrator's state.
+    vi.stubEnv("PI_ORCHESTRATOR_CWD", dirs.cwd);
+    const queued = await orchestrator.execute("queue", { name: "Builder", task: "Write docs" }, createState("Builder"), messengerDirs, createMockContext(worktreePath));
+    expect(queued.details).toMatchObject({ queued: false, position: 0 });
+    expect(registry.getSpawned("Builder", dirs.cwd)).toMatchObject({ status: "assigned", assignedTask: "Write docs" });
+    expect(fs.existsSync(path.join(worktreePath, ".pi"))).toBe(false);
+    vi.stubEnv("PI_ORCHESTRATOR_CWD", "");
+
+    commitFile(worktreePath, "feature.ts", "export const feature = true;\n", "add feature");
+    const merged = await orchestrator.execute("merge", { name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    expect(merged.details).toMatchObject({ mode: "agents.merge", branch: "pi/Builder", into: "main", commits: 1 });
+    expect(fs.existsSync(path.join(dirs.cwd, "feature.ts"))).toBe(true);
+    expect(fs.existsSync(worktreePath)).toBe(true);
+
+    const killed = await orchestrator.execute("kill", { name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    expect(killed.details).toMatchObject({ killed: true, worktree: { removed: true, branchDeleted: true } });
+    expect(fs.existsSync(worktreePath)).toBe(false);
+
+    const missing = await orchestrator.execute("merge", { name: "Builder" }, createState("Boss"), messengerDirs, ctx);
+    expect(missing.details).toMatchObject({ error: "not_found" });
+    expect(registry.readHistory(dirs.cwd).filter(event => event.event === "merge")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,169 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ZVecCollection, ZVecDoc } from "@zvec/zvec";
+import type { MemoryConfig, MemoryStore } from "../../crew/orchestrator/types.js";
+
+interface StoredDoc {
+  id: string;
+  vector: number[];
+  fields: Record<string, unknown>;
+}
+
+function matchesClause(fields: Record<string, unknown>, clause: string): boolean {
+  const match = clause.trim().match(/^(\w+)\s*(=|>=)\s*(?:"((?:[^"\\]|\\.)*)"|(-?\d+(?:\.\d+)?))$/);
+  if (!match) return false;
+  const [, field, op, quoted, numeric] = match;
+  const actual = fields[field];
+  if (op === ">=") return Number(actual) >= Number(numeric);
+  const expected = quoted !== undefined ? quoted.replace(/\\(.)/g, "$1") : Number(numeric);
+  return actual === expected;
+}
+
+function matchesFilter(fields: Record<string, unknown>, filter?: string): boolean {
+  if (!filter) return true;
+  return filter.split(" AND ").every(part => {
+    const inner = part.trim().replace(/^\(|\)$/g, "");
+    return inner.split(" OR ").some(clause => matchesClause(fields, clause));
+  });
+}
+
+function pickFields(fields: Record<string, unknown>, outputFields?: string[]): Record<string, unknown> {
+  if (!outputFields) return { ...fields };
+  return Object.fromEntries(outputFields.filter(key => key in fields).map(key => [key, fields[key]]));
+}
+
+/**
+ * In-memory stand-in for a zvec collection, covering the subset of the API the
+ * orchestrator memory uses (the native binding does not load in CI sandboxes).
+ */
+export function createFakeCollection(dimension = 64): ZVecCollection & { docs: Map<string, StoredDoc> } {
+  const docs = new Map<string, StoredDoc>();
+  const columns: string[] = [];
+
+  const collection = {
+    docs,
+    columns,
+    schema: {
+      vector: (name: string) => (name === "embedding" ? { name, dimension } : undefined),
+    },
+    addColumnSync(params: { fieldSchema: { name: string } }) {
+      columns.push(params.fieldSchema.name);
+    },
+    get stats() {
+      return { docCount: docs.size };
+    },
+    insertSync(input: { id: string; vectors: Record<string, number[]>; fields: Record<string, unknown> }) {
+      if (docs.has(input.id)) return { ok: false, message: "duplicate id" };
+      docs.set(input.id, { id: input.id, vector: Array.from(input.vectors.embedding), fields: { ...input.fields } });
+      return { ok: true };
+    },
+    upsertSync(input: { id: string; vectors?: Record<string, number[]>; fields?: Record<string, unknown> }) {
+      const existing = docs.get(input.id);
+      docs.set(input.id, {
+        id: input.id,
+        vector: input.vectors?.embedding ? Array.from(input.vectors.embedding) : existing?.vector ?? [],
+        fields: { ...(existing?.fields ?? {}), ...(input.fields ?? {}) },
+      });
+      return { ok: true };
+    },
+    deleteSync(ids: string | string[]) {
+      for (const id of Array.isArray(ids) ? ids : [ids]) docs.delete(id);
+      return { ok: true };
+    },
+    fetchSync(ids: string | string[]) {
+      const out: Record<string, ZVecDoc> = {};
+      for (const id of Array.isArray(ids) ? ids : [ids]) {
+        const doc = docs.get(id);
+        if (doc) {
+          out[id] = { id, score: 0, fields: { ...doc.fields }, vectors: { embedding: [...doc.vector] } } as ZVecDoc;
+        }
+      }
+      return out;
+    },
+    querySync(params: { vector?: number[]; topk?: number; filter?: string; outputFields?: string[] }) {
+      const matched = Array.from(docs.values()).filter(doc => matchesFilter(doc.fields, params.filter));
+      const scored = matched.map(doc => {
+        let distance = 0;
+        if (params.vector) {
+          let dot = 0;
+          for (let i = 0; i < params.vector.length; i++) dot += params.vector[i] * (doc.vector[i] ?? 0);
+          distance = 1 - dot;
+        }
+        return { doc, distance };
+      });
+      if (params.vector) scored.sort((a, b) => a.distance - b.distance);
+      return scored.slice(0, params.topk ?? 10).map(({ doc, distance }) => ({
+        id: doc.id,
+        score: distance,
+        fields: pickFields(doc.fields, params.outputFields),
+      })) as ZVecDoc[];
+    },
+    optimizeSync() {},
+    closeSync() {},
+  };
+
+  return collection as unknown as ZVecCollection & { docs: Map<string, StoredDoc> };
+}
+
+const FAKE_ID_FILE = ".fake-collection-id";
+
+/**
+ * Fake `@zvec/zvec` module for `vi.doMock`. Collections live in memory but are
+ * anchored to a marker file on disk so directory renames (backups, swaps)
+ * carry them along.
+ */
+export function createFakeZvecRuntime() {
+  const collections = new Map<string, ReturnType<typeof createFakeCollection>>();
+  let sequence = 0;
+
+  return {
+    collections,
+    ZVecDataType: { STRING: 1, INT32: 2, INT64: 3, VECTOR_FP32: 4 },
+    ZVecIndexType: { FLAT: 1 },
+    ZVecMetricType: { COSINE: 1 },
+    ZVecCollectionSchema: class {
+      constructor(readonly params: { vectors: { dimension: number } }) {}
+    },
+    ZVecCreateAndOpen(collectionPath: string, schema: { params: { vectors: { dimension: number } } }) {
+      const id = `fake-${++sequence}`;
+      fs.mkdirSync(collectionPath, { recursive: true });
+      fs.writeFileSync(path.join(collectionPath, FAKE_ID_FILE), id);
+      const collection = createFakeCollection(schema.params.vectors.dimension);
+      collections.set(id, collection);
+      return collection;
+    },
+    ZVecOpen(collectionPath: string) {
+      const idPath = path.join(collectionPath, FAKE_ID_FILE);
+      const collection = fs.existsSync(idPath) ? collections.get(fs.readFileSync(idPath, "utf-8")) : undefined;
+      if (!collection) throw new Error(`collection not found: ${collectionPath}`);
+      return collection;
+    },
+  };
+}
+
+export function createFakeMemoryStore(projectDir: string, overrides: Partial<MemoryConfig> = {}): MemoryStore {
+  return {
+    enabled: true,
+    degraded: false,
+    projectDir,
+    collectionPath: `${projectDir}/.pi/messenger/orchestrator/memory`,
+    config: {
+      enabled: true,
+      embeddingModel: "hash-ngram",
+      embeddingProvider: "local",
+      dimensions: 64,
+      maxEntries: 1000,
+      autoInjectTopK: 3,
+      minSimilarity: 0.3,
+      maxInjectionTokens: 2000,
+      embeddingTimeoutMs: 1000,
+      lexicalWeight: 0.5,
+      ttlDays: { message: 7, discovery: 30, summary: 90, decision: 90 },
+      ...overrides,
+    },
+    collection: createFakeCollection(),
+    lexicalIndex: null,
+    consecutiveEmbeddingFailures: 0,
+    breakerOpenUntil: 0,
+  };
+}
@@ -0,0 +1,115 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { vi } from "vitest";
+import type { AgentMailMessage, Dirs, MessengerState } from "../../lib.js";
+import type { SpawnedAgent } from "../../crew/orchestrator/types.js";
+
+export function createDirs(cwd: string): Dirs {
+  const base = path.join(cwd, ".pi", "messenger");
+  const registry = path.join(base, "registry");
+  const inbox = path.join(base, "inbox");
+  fs.mkdirSync(registry, { recursive: true });
+  fs.mkdirSync(inbox, { recursive: true });
+  return { base, registry, inbox };
+}
+
+export function createState(agentName: string): MessengerState {
+  return {
+    agentName,
+    registered: true,
+    watcher: null,
+    watcherRetries: 0,
+    watcherRetryTimer: null,
+    watcherDebounceTimer: null,
+    reservations: [],
+    chatHistory: new Map(),
+    unreadCounts: new Map(),
+    broadcastHistory: [],
+    seenSenders: new Map(),
+    model: "test-model",
+    scopeToFolder: false,
+    isHuman: false,
+    session: { toolCalls: 0, tokens: 0, filesModified: [] },
+    activity: { lastActivityAt: new Date().toISOString() },
+    customStatus: false,
+    registryFlushTimer: null,
+    sessionStartedAt: new Date().toISOString(),
+  };
+}
+
+/** Just enough state for the mesh message handlers. */
+export function meshState(agentName: string): MessengerState {
+  return { agentName, registered: true, sessionStartedAt: new Date().toISOString() } as MessengerState;
+}
+
+/** Writes a mesh registration so `name` can receive messages. */
+export function registerMeshAgent(dirs: Dirs, name: string, pid: number = process.pid): void {
+  fs.writeFileSync(path.join(dirs.registry, `${name}.json`), JSON.stringify({
+    name,
+    pid,
+    sessionId: `session-${name}`,
+    cwd: "/tmp",
+    activity: { lastActivityAt: new Date().toISOString() },
+  }));
+}
+
+/** Messages waiting in `name`'s inbox, oldest first. */
+export function inboxMessages(dirs: Dirs, name: string): AgentMailMessage[] {
+  const inbox = path.join(dirs.inbox, name);
+  if (!fs.existsSync(inbox)) return [];
+  return fs.readdirSync(inbox)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(inbox, file), "utf-8")) as AgentMailMessage);
+}
+
+export function worker(overrides: Partial<SpawnedAgent> = {}): SpawnedAgent {
+  return {
+    name: "Builder",
+    pid: process.pid,
+    sessionId: "sess-1",
+    tmuxPaneId: null,
+    tmuxWindowId: null,
+    model: "anthropic/claude-sonnet-4-6",
+    status: "assigned",
+    spawnedAt: Date.now(),
+    spawnedBy: "Boss",
+    assignedTask: "Current task",
+    currentWorkstream: null,
+    lastActivityAt: Date.now(),
+    backend: "headless",
+    ...overrides,
+  };
+}
+
+/** Registers `agent` in the mesh rooted at `root` so the reaper sees it as joined. */
+export function meshJoin(root: string, agent: SpawnedAgent): SpawnedAgent {
+  fs.writeFileSync(path.join(root, "registry", `${agent.name}.json`), JSON.stringify({ name: agent.name, pid: agent.pid }));
+  return agent;
+}
+
+/**
+ * Replaces orchestrator memory with an inert stand-in for the next imports;
+ * `overrides` swap in individual exports.
+ */
+export function mockOrchestratorMemory(overrides: Record<string, unknown> = {}): void {
+  vi.doMock("../../crew/orchestrator/memory.js", () => ({
+    getActiveMemoryStore: () => null,
+    initMemory: async () => null,
+    getActiveGlobalMemoryStore: () => null,
+    initGlobalMemory: async () => null,
+    remember: async () => ({ ok: true }),
+    recall: async () => ({ results: [] }),
+    resetMemory: () => {},
+    getMemoryStats: () => ({}),
+    ...overrides,
+  }));
+}
+
+/** Fresh orchestrator handler and registry modules, with memory mocked out. */
+export async function loadOrchestrator(memory: Record<string, unknown> = {}) {
+  mockOrchestratorMemory(memory);
+  const handler = await import("../../crew/handlers/orchestrator.js");
+  const registry = await import("../../crew/orchestrator/registry.js");
+  return { handler, registry };
+}
@@ -0,0 +1,148 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Dirs, MessengerState } from "../lib.js";
+import { createTempCrewDirs } from "./helpers/temp-dirs.js";
+import { createDirs } from "./helpers/orchestrator.js";
+
+vi.mock("@mariozechner/pi-tui", () => ({
+  truncateToWidth: (s: string) => s,
+}));
+
+const initialCwd = process.cwd();
+
+function createMailDirs(): Dirs {
+  const { cwd } = createTempCrewDirs();
+  process.chdir(cwd);
+  return createDirs(cwd);
+}
+
+function mailState(agentName: string, sessionStartedAt = "2026-05-01T09:00:00.000Z"): MessengerState {
+  return { agentName, registered: true, sessionStartedAt } as MessengerState;
+}
+
+afterEach(() => {
+  process.chdir(initialCwd);
+});
+
+describe("DM archive", () => {
+  it("archives both sides of a conversation across sessions and rebuilds threads", async () => {
+    const store = await import("../store.js");
+    const handlers = await import("../handlers.js");
+    const dirs = createMailDirs();
+    const lead = mailState("Lead");
+    const worker = mailState("Worker");
+
+    const question = store.sendMessageToAgent(lead, dirs, "Worker", "Which cache TTL?");
+    store.sendMessageToAgent(lead, dirs, "Reviewer", "Unrelated ping");
+    store.processAllPendingMessages(worker, dirs, () => {});
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const answer = store.sendMessageToAgent(worker, dirs, "Lead", "60s, per the spec", question.id);
+
+    // The lead restarts; the new session reads the same archive.
+    const restarted = mailState("Lead", "2026-05-01T10:00:00.000Z");
+    store.processAllPendingMessages(restarted, dirs, () => {});
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const followUp = store.sendMessageToAgent(restarted, dirs, "Worker", "Thanks, shipping it", answer.id);
+
+    expect(fs.readdirSync(path.join(dirs.base, "archive", "Lead")).sort()).toEqual([
+      "2026-05-01T09-00-00-000Z.jsonl",
+      "2026-05-01T10-00-00-000Z.jsonl",
+    ]);
+    expect(store.readMessageArchive(dirs, "Lead").map(msg => [msg.direction, msg.text])).toEqual([
+      ["sent", "Which cache TTL?"],
+      ["sent", "Unrelated ping"],
+      ["received", "60s, per the spec"],
+      ["sent", "Thanks, shipping it"],
+    ]);
+    expect(store.readMessageArchive(dirs, "Lead", { peer: "Reviewer" }).map(msg => msg.text)).toEqual(["Unrelated ping"]);
+    expect(store.readMessageArchive(dirs, "Lead", { limit: 1 }).map(msg => msg.id)).toEqual([followUp.id]);
+
+    // Any message in the chain (or an id prefix) yields the whole thread.
+    const thread = store.getMessageThread(dirs, "Lead", answer.id.slice(0, 8));
+    expect(thread.map(msg => msg.id)).toEqual([question.id, answer.id, followUp.id]);
+    expect(store.getMessageThread(dirs, "Lead", "nope")).toEqual([]);
+
+    const history = handlers.executeMessageHistory(restarted, dirs, { peer: "Worker", since: "7d" });
+    expect(history.details).toMatchObject({ mode: "messages.history", count: 3, more: false });
+    expect(history.content[0].text).toContain("# Messages with Worker (3)");
+    const latest = handlers.executeMessageHistory(restarted, dirs, { limit: 2 });
+    expect(latest.details).toMatchObject({ count: 2, more: true });
+    expect(latest.content[0].text).toContain("# Message history (latest 2; raise limit for older)");
+    expect(handlers.executeMessageHistory(restarted, dirs, { thread: question.id, peer: "Reviewer" }).details)
+      .toMatchObject({ count: 0 });
+    expect(handlers.executeMessageHistory(restarted, dirs, { since: "whenever" }).details)
+      .toMatchObject({ error: "invalid_since" });
+
+    const threaded = handlers.executeMessageThread(restarted, dirs, followUp.id);
+    expect(threaded.details).toMatchObject({ mode: "messages.thread", root: question.id });
+    expect(threaded.content[0].text.split("\n").slice(2)).toEqual([
+      expect.stringMatching(/^\[\w{8}\] .* Lead → Worker: Which cache TTL\?$/),
+      expect.stringMatching(/^ {2}\[\w{8}\] .* Worker → Lead ↩ \w{8}: 60s, per the spec$/),
+      expect.stringMatching(/^ {4}\[\w{8}\] .* Lead → Worker ↩ \w{8}: Thanks, shipping it$/),
+    ]);
+    expect(handlers.executeMessageThread(restarted, dirs).details).toMatchObject({ error: "missing_id" });
+    expect(handlers.executeMessageThread(restarted, dirs, "nope").details).toMatchObject({ error: "not_found" });
+  });
+
+  it("reads only the newest sessions a limit needs and prunes old ones", async () => {
+    const store = await import("../store.js");
+    const dirs = createMailDirs();
+    const archive = path.join(dirs.base, "archive", "Lead");
+    const now = Date.now();
+
+    for (let day = 1; day <= 55; day++) {
+      const stamp = `2026-05-${String(day).padStart(2, "0")}`;
+      const lead = mailState("Lead", `${stamp}T09:00:00.000Z`);
+      store.archiveMessage(lead, dirs, "sent", {
+        id: `msg-${day}`,
+        from: "Lead",
+        to: "Worker",
+        text: `day ${day}`,
+        timestamp: new Date(now - (60 - day) * 60_000).toISOString(),
+        replyTo: day > 1 ? `msg-${day - 1}` : null,
+      });
+      const file = path.join(archive, `${stamp}T09-00-00-000Z.jsonl`);
+      fs.utimesSync(file, new Date(now / 1000), day === 54 ? (now - 31 * 86_400_000) / 1000 : now / 1000);
+    }
+
+    // The oldest session is not opened for a small limit, or its (oddly dated) message would sort last.
+    fs.appendFileSync(path.join(archive, "2026-05-01T09-00-00-000Z.jsonl"), JSON.stringify({
+      id: "skewed", from: "Worker", to: "Lead", text: "clock skew", timestamp: new Date(now + 3_600_000).toISOString(), replyTo: null, direction: "received",
+    }) + "\n");
+    expect(store.readMessageArchive(dirs, "Lead", { limit: 2 }).map(msg => msg.text)).toEqual(["day 54", "day 55"]);
+    expect(store.readMessageArchive(dirs, "Lead").at(-1)?.text).toBe("clock skew");
+
+    // The long reply chain is rebuilt from any message in it.
+    expect(store.getMessageThread(dirs, "Lead", "msg-30")).toHaveLength(55);
+
+    store.pruneMessageArchive(dirs, "Lead", now);
+    const kept = fs.readdirSync(archive).sort();
+    expect(kept).toHaveLength(49);
+    expect(kept[0]).toBe("2026-05-06T09-00-00-000Z.jsonl");
+    expect(kept).not.toContain("2026-05-54T09-00-00-000Z.jsonl");
+  });
+
+  it("pages back through the archive in the overlay chat view", async () => {
+    const store = await import("../store.js");
+    const { renderChatView } = await import("../overlay-render.js");
+    const { createCrewViewState } = await import("../overlay-actions.js");
+    const dirs = createMailDirs();
+    const lead = mailState("Lead");
+    for (let i = 1; i <= 6; i++) store.sendMessageToAgent(lead, dirs, "Worker", `note ${i}`);
+
+    const theme = { fg: (_style: string, text: string) => text };
+    const view = createCrewViewState();
+    const bodies = () => renderChatView(theme as any, lead, dirs, 80, 6, view)
+      .filter(line => line.startsWith("      "))
+      .map(line => line.trim());
+
+    expect(renderChatView(theme as any, lead, dirs, 80, 6, view)[0]).toBe("Messages (6 archived)");
+    expect(bodies()).toEqual(["note 5", "note 6"]);
+    view.chatScroll = 4;
+    expect(bodies()).toEqual(["note 3", "note 4"]);
+    view.chatScroll = Number.MAX_SAFE_INTEGER;
+    expect(bodies()).toEqual(["note 1", "note 2"]);
+    expect(view.chatScroll).toBe(8);
+  });
+});
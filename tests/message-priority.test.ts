@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentMailMessage } from "../lib.js";
+import { createTempCrewDirs, type TempCrewDirs } from "./helpers/temp-dirs.js";
+import { createDirs, inboxMessages, meshState, registerMeshAgent } from "./helpers/orchestrator.js";
+
+describe("message priority, scheduling and expiry", () => {
+  let dirs: TempCrewDirs;
+  const initialCwd = process.cwd();
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    process.chdir(dirs.cwd);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(initialCwd);
+  });
+
+  it("delivers urgent first, holds scheduled messages and drops expired ones", async () => {
+    const handlers = await import("../handlers.js");
+    const store = await import("../store.js");
+    const mesh = createDirs(dirs.cwd);
+    registerMeshAgent(mesh, "Lead");
+    registerMeshAgent(mesh, "Worker");
+    const lead = meshState("Lead");
+    const worker = meshState("Worker");
+
+    handlers.executeSend(lead, mesh, dirs.cwd, "Worker", false, "lint nits when you get a sec", undefined, { priority: "low" });
+    handlers.executeSend(lead, mesh, dirs.cwd, "Worker", false, "tests are red on main");
+    const stop = handlers.executeSend(lead, mesh, dirs.cwd, "Worker", false, "wait, don't touch auth", undefined, { priority: "urgent", expiresAt: "10m" });
+    expect(stop.content[0].text).toMatch(/^Message sent to Worker \[id [\w-]+\]\. Dropped if unread by \S+Z\./);
+    const later = handlers.executeSend(lead, mesh, dirs.cwd, "Worker", false, "how's it going?", undefined, { deliverAt: "1h" });
+    expect(later.content[0].text).toMatch(/^Message scheduled for \S+Z to Worker/);
+    const stale = store.sendMessageToAgent(lead, mesh, "Worker", "auth is off limits", undefined, {
+      priority: "urgent",
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    const delivered: AgentMailMessage[] = [];
+    store.processAllPendingMessages(worker, mesh, msg => delivered.push(msg));
+    expect(delivered.map(msg => [msg.priority ?? "normal", msg.text])).toEqual([
+      ["urgent", "wait, don't touch auth"],
+      ["normal", "tests are red on main"],
+      ["low", "lint nits when you get a sec"],
+    ]);
+
+    const laterId = (later.details as { messageIds: Record<string, string> }).messageIds.Worker;
+    expect(store.getDeliveryStatus(mesh, "Lead", laterId)).toMatchObject({ status: "pending", to: "Worker", deliverAt: expect.any(String) });
+    expect(store.getDeliveryStatus(mesh, "Lead", stale.id)).toMatchObject({ status: "expired", receipt: { to: "Worker" } });
+    expect(handlers.executeMessageStatus(lead, mesh, stale.id).content[0].text).toMatch(/^Expired unread in Worker's inbox/);
+    expect(inboxMessages(mesh, "Lead")).toEqual([
+      expect.objectContaining({ from: "Worker", text: expect.stringContaining(`Your message ${stale.id.slice(0, 8)} expired at`) }),
+    ]);
+
+    expect(handlers.executeSend(lead, mesh, dirs.cwd, "Worker", false, "hi", undefined, { priority: "asap" }).details)
+      .toMatchObject({ error: "invalid_priority" });
+    expect(handlers.executeSend(lead, mesh, dirs.cwd, "Worker", false, "hi", undefined, { deliverAt: "someday" }).details)
+      .toMatchObject({ error: "invalid_deliver_at" });
+    expect(handlers.executeSend(lead, mesh, dirs.cwd, "Worker", false, "hi", undefined, { deliverAt: "1h", expiresAt: "30m" }).details)
+      .toMatchObject({ error: "invalid_expires_at" });
+
+    // The tool's `messagePriority` reaches send; `priority` stays the numeric queue order.
+    const { executeCrewAction } = await import("../crew/index.js");
+    const { createMockContext } = await import("./helpers/mock-context.js");
+    await executeCrewAction("send", { to: "Worker", message: "drop everything", messagePriority: "urgent" }, lead, mesh,
+      createMockContext(dirs.cwd), () => {}, () => {}, () => {});
+    expect(inboxMessages(mesh, "Worker")).toContainEqual(expect.objectContaining({ text: "drop everything", priority: "urgent" }));
+    store.stopWatcher(worker);
+  });
+
+  it("wakes up to deliver a scheduled message when it falls due", async () => {
+    const store = await import("../store.js");
+    const mesh = createDirs(dirs.cwd);
+    const lead = meshState("Lead");
+    const worker = meshState("Worker");
+
+    store.sendMessageToAgent(lead, mesh, "Worker", "check in: status?", undefined, {
+      deliverAt: new Date(Date.now() + 300).toISOString(),
+    });
+    const delivered: string[] = [];
+    store.processAllPendingMessages(worker, mesh, msg => delivered.push(msg.text));
+    expect(delivered).toEqual([]);
+
+    await new Promise(resolve => setTimeout(resolve, 600));
+    expect(delivered).toEqual(["check in: status?"]);
+    expect(inboxMessages(mesh, "Worker")).toEqual([]);
+  });
+});
@@ -3,7 +3,15 @@ import * as os from "node:os";
 import * as path from "node:path";
 import { afterEach, describe, expect, it } from "vitest";
 import type { AgentRegistration, Dirs, MessengerState } from "../lib.js";
-import { getActiveAgents, invalidateAgentsCache, register } from "../store.js";
+import {
+  getActiveAgents,
+  getDeliveryStatus,
+  invalidateAgentsCache,
+  listDeadLetters,
+  processAllPendingMessages,
+  register,
+  sendMessageToAgent,
+} from "../store.js";
 
 const roots = new Set<string>();
 const initialCwd = process.cwd();
@@ -147,3 +155,75 @@ describe("store.getActiveAgents cwd scoping", () => {
     expect(state.cwd).toBe(expectedCwd);
   });
 });
+
+describe("store delivery acknowledgements", () => {
+  function mailState(agentName: string): MessengerState {
+    return { agentName, registered: true } as MessengerState;
+  }
+
+  it("acknowledges delivered messages and dead-letters ones that keep failing", () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    process.chdir(root);
+    const sender = mailState("Sender");
+    const recipient = mailState("Recipient");
+
+    const ok = sendMessageToAgent(sender, dirs, "Recipient", "hello");
+    const flaky = sendMessageToAgent(sender, dirs, "Recipient", "boom");
+    expect(getDeliveryStatus(dirs, "Sender", ok.id)).toEqual({ status: "pending", to: "Recipient", attempts: 0 });
+    expect(getDeliveryStatus(dirs, "Sender", "nope")).toEqual({ status: "unknown" });
+
+    const delivered: string[] = [];
+    const deliver = (msg: { text: string }) => {
+      if (msg.text === "boom") throw new Error("renderer crashed");
+      delivered.push(msg.text);
+    };
+
+    processAllPendingMessages(recipient, dirs, deliver);
+    expect(delivered).toEqual(["hello"]);
+    expect(getDeliveryStatus(dirs, "Sender", ok.id)).toMatchObject({ status: "delivered", receipt: { to: "Recipient", attempts: 1 } });
+    expect(getDeliveryStatus(dirs, "Sender", flaky.id)).toEqual({ status: "pending", to: "Recipient", attempts: 1 });
+
+    processAllPendingMessages(recipient, dirs, deliver);
+    processAllPendingMessages(recipient, dirs, deliver);
+    expect(delivered).toEqual(["hello"]);
+    expect(getDeliveryStatus(dirs, "Sender", flaky.id)).toMatchObject({
+      status: "dead_letter",
+      receipt: { attempts: 3, error: "renderer crashed" },
+    });
+    expect(fs.readdirSync(path.join(dirs.inbox, "Recipient"))).toEqual([]);
+
+    const letters = listDeadLetters(dirs, "Recipient");
+    expect(letters).toHaveLength(1);
+    expect(letters[0]).toMatchObject({ message: { id: flaky.id, text: "boom" }, attempts: 3, error: "renderer crashed" });
+    expect(letters[0]!.message).not.toHaveProperty("delivery");
+  });
+
+  it("dead-letters corrupt files and recovers messages interrupted mid-delivery", () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    process.chdir(root);
+    const recipient = mailState("Recipient");
+    const inbox = path.join(dirs.inbox, "Recipient");
+    fs.mkdirSync(inbox, { recursive: true });
+    fs.writeFileSync(path.join(inbox, "1-corrupt.json"), "{not json");
+
+    // A previous session claimed this one and died before acknowledging it.
+    const message = sendMessageToAgent(mailState("Sender"), dirs, "Recipient", "resume me");
+    const [file] = fs.readdirSync(inbox).filter(f => f.includes(message.id));
+    const processing = path.join(dirs.base, "processing", "Recipient");
+    fs.mkdirSync(processing, { recursive: true });
+    fs.renameSync(path.join(inbox, file!), path.join(processing, file!));
+    expect(getDeliveryStatus(dirs, "Sender", message.id)).toMatchObject({ status: "processing" });
+
+    const delivered: string[] = [];
+    processAllPendingMessages(recipient, dirs, msg => delivered.push(msg.text));
+
+    expect(delivered).toEqual(["resume me"]);
+    expect(getDeliveryStatus(dirs, "Sender", message.id)).toMatchObject({ status: "delivered", receipt: { attempts: 2 } });
+    expect(fs.readdirSync(processing)).toEqual([]);
+    expect(listDeadLetters(dirs, "Recipient")).toEqual([
+      expect.objectContaining({ file: "1-corrupt.json", message: null, raw: "{not json", attempts: 1 }),
+    ]);
+  });
+});